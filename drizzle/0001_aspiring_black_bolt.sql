@@ -0,0 +1,16 @@
+CREATE TABLE "map_chain_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chain_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"status" text NOT NULL,
+	"input" text NOT NULL,
+	"output" text,
+	"steps" jsonb NOT NULL,
+	"error" text,
+	"duration_ms" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "map_chain_runs" ADD CONSTRAINT "map_chain_runs_chain_id_map_chains_id_fk" FOREIGN KEY ("chain_id") REFERENCES "public"."map_chains"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "map_chain_runs" ADD CONSTRAINT "map_chain_runs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "map_chain_runs_chain_created_idx" ON "map_chain_runs" USING btree ("chain_id","created_at");
\ No newline at end of file
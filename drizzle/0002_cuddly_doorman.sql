@@ -0,0 +1,16 @@
+CREATE TABLE "mapper_map_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"map_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"user_id" text NOT NULL,
+	"message" text,
+	"name" text NOT NULL,
+	"state" jsonb NOT NULL,
+	"node_count" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "mapper_map_versions" ADD CONSTRAINT "mapper_map_versions_map_id_mapper_maps_id_fk" FOREIGN KEY ("map_id") REFERENCES "public"."mapper_maps"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mapper_map_versions" ADD CONSTRAINT "mapper_map_versions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "mapper_map_versions_map_version_idx" ON "mapper_map_versions" USING btree ("map_id","version");--> statement-breakpoint
+INSERT INTO "mapper_map_versions" ("map_id", "version", "user_id", "message", "name", "state", "node_count", "created_at") SELECT "id", 1, "user_id", 'Version before history was kept', "name", "state", "node_count", COALESCE("updated_at", now()) FROM "mapper_maps";
@@ -0,0 +1,3 @@
+ALTER TABLE "map_chains" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "mapper_maps" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+UPDATE "mapper_maps" SET "revision" = "latest"."version" FROM (SELECT "map_id", max("version") AS "version" FROM "mapper_map_versions" GROUP BY "map_id") AS "latest" WHERE "mapper_maps"."id" = "latest"."map_id";
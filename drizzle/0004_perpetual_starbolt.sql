@@ -0,0 +1,34 @@
+CREATE TABLE "workspace_members" (
+	"workspace_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "workspaces" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DROP INDEX "map_chains_user_updated_idx";--> statement-breakpoint
+DROP INDEX "mapper_maps_user_updated_idx";--> statement-breakpoint
+ALTER TABLE "map_chains" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+ALTER TABLE "mapper_maps" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+INSERT INTO "workspaces" ("name", "created_by") SELECT coalesce(nullif("name", ''), "email") || '''s workspace', "id" FROM "users";--> statement-breakpoint
+INSERT INTO "workspace_members" ("workspace_id", "user_id", "role") SELECT "id", "created_by", 'admin' FROM "workspaces";--> statement-breakpoint
+UPDATE "map_chains" SET "workspace_id" = "workspaces"."id" FROM "workspaces" WHERE "workspaces"."created_by" = "map_chains"."user_id";--> statement-breakpoint
+UPDATE "mapper_maps" SET "workspace_id" = "workspaces"."id" FROM "workspaces" WHERE "workspaces"."created_by" = "mapper_maps"."user_id";--> statement-breakpoint
+ALTER TABLE "map_chains" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "mapper_maps" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspaces" ADD CONSTRAINT "workspaces_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "workspace_members_workspace_user_idx" ON "workspace_members" USING btree ("workspace_id","user_id");--> statement-breakpoint
+CREATE INDEX "workspace_members_user_idx" ON "workspace_members" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "map_chains" ADD CONSTRAINT "map_chains_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mapper_maps" ADD CONSTRAINT "mapper_maps_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "map_chains_workspace_updated_idx" ON "map_chains" USING btree ("workspace_id","updated_at");--> statement-breakpoint
+CREATE INDEX "mapper_maps_workspace_updated_idx" ON "mapper_maps" USING btree ("workspace_id","updated_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "platform_global_data" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"key" text NOT NULL,
+	"value" text NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "platform_lookup_tables" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"entries" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "platform_global_data" ADD CONSTRAINT "platform_global_data_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "platform_lookup_tables" ADD CONSTRAINT "platform_lookup_tables_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "platform_global_data_workspace_key_idx" ON "platform_global_data" USING btree ("workspace_id","key");--> statement-breakpoint
+CREATE UNIQUE INDEX "platform_lookup_tables_workspace_name_idx" ON "platform_lookup_tables" USING btree ("workspace_id","name");
\ No newline at end of file
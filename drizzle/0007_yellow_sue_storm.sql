@@ -0,0 +1,14 @@
+CREATE TABLE "shared_lookup_tables" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"entries" jsonb NOT NULL,
+	"updated_by" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "shared_lookup_tables" ADD CONSTRAINT "shared_lookup_tables_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shared_lookup_tables" ADD CONSTRAINT "shared_lookup_tables_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "shared_lookup_tables_workspace_name_idx" ON "shared_lookup_tables" USING btree ("workspace_id","name");
\ No newline at end of file
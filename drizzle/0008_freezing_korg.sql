@@ -0,0 +1,26 @@
+CREATE TABLE "shared_function_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"function_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"body" text NOT NULL,
+	"message" text,
+	"user_id" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "shared_functions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"language" text NOT NULL,
+	"description" text,
+	"latest_version" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "shared_function_versions" ADD CONSTRAINT "shared_function_versions_function_id_shared_functions_id_fk" FOREIGN KEY ("function_id") REFERENCES "public"."shared_functions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shared_function_versions" ADD CONSTRAINT "shared_function_versions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shared_functions" ADD CONSTRAINT "shared_functions_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "shared_function_versions_function_version_idx" ON "shared_function_versions" USING btree ("function_id","version");--> statement-breakpoint
+CREATE UNIQUE INDEX "shared_functions_workspace_name_language_idx" ON "shared_functions" USING btree ("workspace_id","name","language");
\ No newline at end of file
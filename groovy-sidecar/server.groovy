@@ -9,6 +9,10 @@ import groovy.json.JsonOutput
 import groovy.xml.XmlSlurper
 import groovy.xml.MarkupBuilder
 
+// File name mapper scripts are compiled under, so their stack frames can be told apart
+@groovy.transform.Field
+static final String MAPPER_SCRIPT_NAME = "MapperScript.groovy"
+
 def app = Javalin.create().start(8090)
 
 app.post("/execute") { ctx ->
@@ -16,8 +20,9 @@ app.post("/execute") { ctx ->
     def script = body.script as String
     def input = body.input as String
     def timeout = (body.timeout ?: 30000) as Long
+    def platformData = (body.platformData ?: [:]) as Map
 
-    def result = executeScript(script, input, timeout)
+    def result = executeScript(script, input, timeout, platformData)
     ctx.json(result)
 }
 
@@ -25,8 +30,9 @@ app.get("/health") { ctx ->
     ctx.result("OK")
 }
 
-def executeScript(String script, String input, Long timeoutMs) {
+def executeScript(String script, String input, Long timeoutMs, Map platformData = [:]) {
     def logs = []
+    def validation = []
     def startTime = System.currentTimeMillis()
 
     try {
@@ -57,7 +63,45 @@ def executeScript(String script, String input, Long timeoutMs) {
         }
         binding.setVariable("transaction", transactionStub)
 
-        // Inject stub JTUtil / JTLookupUtil / JTV3Utils
+        // Inject JTUtil / JTLookupUtil / JTV3Utils. Global data and lookup table
+        // calls resolve against the workspace's platform data (the key / table
+        // name is the last argument, after an optional transaction); any other
+        // call, or a miss, logs a warning and returns null
+        def globalData = (platformData.globalData ?: [:]) as Map
+        def lookupTables = (platformData.lookupTables ?: [:]) as Map
+        def argFromEnd = { Object[] args, int n ->
+            args.length >= n ? args[args.length - n]?.toString() : null
+        }
+
+        def platformMethods = [
+            JTUtil: [
+                getGlobalData: { Object... args ->
+                    def key = argFromEnd(args, 1)
+                    if (key != null && globalData.containsKey(key)) return globalData[key]
+                    logs.add("[WARN] JTUtil.getGlobalData(${key}) — no platform data, returns null")
+                    return null
+                },
+            ],
+            JTLookupUtil: [
+                getLookupTable: { Object... args ->
+                    def name = argFromEnd(args, 1)
+                    if (name != null && lookupTables.containsKey(name)) {
+                        return new LinkedHashMap(lookupTables[name] as Map)
+                    }
+                    logs.add("[WARN] JTLookupUtil.getLookupTable(${name}) — no platform lookup table, returns null")
+                    return null
+                },
+                getLookupTableValue: { Object... args ->
+                    def name = argFromEnd(args, 2)
+                    def key = argFromEnd(args, 1)
+                    def table = name != null ? lookupTables[name] as Map : null
+                    if (table != null && key != null && table.containsKey(key)) return table[key]
+                    logs.add("[WARN] JTLookupUtil.getLookupTableValue(${name}, ${key}) — no platform lookup value, returns null")
+                    return null
+                },
+            ],
+        ]
+
         def createPlatformStub = { String className ->
             def stub = new Expando()
             stub.metaClass.static.propertyMissing = { String name -> null }
@@ -65,6 +109,9 @@ def executeScript(String script, String input, Long timeoutMs) {
                 logs.add("[WARN] ${className}.${name}() called — stub, returns null")
                 return null
             }
+            platformMethods[className]?.each { String name, Closure method ->
+                stub.metaClass."${name}" = method
+            }
             return stub
         }
 
@@ -72,6 +119,12 @@ def executeScript(String script, String input, Long timeoutMs) {
         binding.setVariable("JTLookupUtil", createPlatformStub("JTLookupUtil"))
         binding.setVariable("JTV3Utils", createPlatformStub("JTV3Utils"))
 
+        // Generated scripts hand their nonEmpty / type / format issues to this
+        // closure instead of failing the run
+        binding.setVariable("reportValidation", { issues ->
+            validation.addAll(issues)
+        })
+
         // Capture println output
         def outputCapture = new StringWriter()
         def printWriter = new PrintWriter(outputCapture)
@@ -82,7 +135,7 @@ def executeScript(String script, String input, Long timeoutMs) {
         // Execute with timeout
         def executor = java.util.concurrent.Executors.newSingleThreadExecutor()
         def future = executor.submit({
-            shell.evaluate(script)
+            shell.evaluate(script, MAPPER_SCRIPT_NAME)
         } as java.util.concurrent.Callable)
 
         def output
@@ -102,6 +155,7 @@ def executeScript(String script, String input, Long timeoutMs) {
             output: output?.toString() ?: "",
             error: null,
             logs: logs,
+            validation: validation,
             durationMs: System.currentTimeMillis() - startTime
         ]
     } catch (java.util.concurrent.TimeoutException e) {
@@ -109,6 +163,7 @@ def executeScript(String script, String input, Long timeoutMs) {
             output: "",
             error: "Script execution timed out after ${timeoutMs}ms".toString(),
             logs: logs,
+            validation: validation,
             durationMs: System.currentTimeMillis() - startTime
         ]
     } catch (java.util.concurrent.ExecutionException e) {
@@ -116,17 +171,35 @@ def executeScript(String script, String input, Long timeoutMs) {
         return [
             output: "",
             error: cause.message ?: cause.toString(),
+            errorLine: scriptErrorLine(cause),
             logs: logs,
+            validation: validation,
             durationMs: System.currentTimeMillis() - startTime
         ]
     } catch (Exception e) {
         return [
             output: "",
             error: e.message ?: e.toString(),
+            errorLine: scriptErrorLine(e),
             logs: logs,
+            validation: validation,
             durationMs: System.currentTimeMillis() - startTime
         ]
     }
 }
 
+// Line of the mapper script an error came from: the "@ line N" of a compilation
+// error, else the innermost stack frame in the script along the cause chain
+def scriptErrorLine(Throwable error) {
+    if (error instanceof org.codehaus.groovy.control.MultipleCompilationErrorsException) {
+        def match = error.message =~ /@ line (\d+)/
+        return match.find() ? (match.group(1) as Integer) : null
+    }
+    for (def current = error; current != null; current = current.cause) {
+        def frame = current.stackTrace.find { it.fileName == MAPPER_SCRIPT_NAME && it.lineNumber > 0 }
+        if (frame) return frame.lineNumber
+    }
+    return null
+}
+
 println "Groovy sidecar running on http://localhost:8090"
@@ -0,0 +1,333 @@
+import * as React from "react"
+import { Check, Copy, KeyRound, Loader2, Trash2 } from "lucide-react"
+import type { ApiTokenKind, ApiTokenScope, ApiTokenSummary } from "@/lib/api/tokens"
+import type { WorkspaceSummary } from "@/lib/workspace/types"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_LABELS, isApiTokenExpired } from "@/lib/api/tokens"
+import { createApiToken, listApiTokens, revokeApiToken } from "@/lib/api/tokens.server"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface ApiTokensDialogProps {
+    workspace: WorkspaceSummary | null // The active workspace
+    open: boolean
+    onClose: () => void
+}
+
+// ─── Options ────────────────────────────────────────────────────────────────────
+
+const EXPIRY_OPTIONS: Array<{ value: string; label: string; days: number | null }> = [
+    { value: "30", label: "30 days", days: 30 },
+    { value: "90", label: "90 days", days: 90 },
+    { value: "365", label: "1 year", days: 365 },
+    { value: "never", label: "Never", days: null },
+]
+
+const KIND_LABELS: Record<ApiTokenKind, string> = {
+    personal: "Personal",
+    workspace: "Workspace",
+}
+
+function formatDate(iso: string | null, fallback: string): string {
+    return iso ? new Date(iso).toLocaleDateString() : fallback
+}
+
+// ─── Token row ──────────────────────────────────────────────────────────────────
+
+function TokenRow({
+    token,
+    busy,
+    onRevoke,
+}: {
+    token: ApiTokenSummary
+    busy: boolean
+    onRevoke: () => void
+}) {
+    const expired = isApiTokenExpired(token.expiresAt)
+    return (
+        <div className="flex items-center gap-2 px-3 py-2 min-w-0">
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-sm min-w-0">
+                    <span className="truncate">{token.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{token.prefix}…</span>
+                    <span className="px-1.5 py-0.5 rounded-full text-[10px] uppercase font-semibold bg-primary/10 text-primary shrink-0">
+                        {KIND_LABELS[token.kind]}
+                    </span>
+                    {expired && (
+                        <span className="px-1.5 py-0.5 rounded-full text-[10px] uppercase font-semibold bg-destructive/10 text-destructive shrink-0">
+                            Expired
+                        </span>
+                    )}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                    {token.scopes.map((s) => API_TOKEN_SCOPE_LABELS[s]).join(", ")} · by{" "}
+                    {token.createdBy} · expires {formatDate(token.expiresAt, "never")} · last used{" "}
+                    {formatDate(token.lastUsedAt, "never")}
+                </div>
+            </div>
+            <Button
+                variant="ghost"
+                size="icon-sm"
+                className="rounded-full text-muted-foreground hover:text-destructive"
+                disabled={busy}
+                onClick={onRevoke}
+                title="Revoke token"
+            >
+                <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+        </div>
+    )
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * API tokens of the active workspace. Members create and revoke personal
+ * tokens; admins also create workspace tokens and can revoke any token.
+ * A new token is shown once, right after it is created.
+ */
+export function ApiTokensDialog({ workspace, open, onClose }: ApiTokensDialogProps) {
+    const [tokens, setTokens] = React.useState<Array<ApiTokenSummary>>([])
+    const [name, setName] = React.useState("")
+    const [kind, setKind] = React.useState<ApiTokenKind>("personal")
+    const [scopes, setScopes] = React.useState<Set<ApiTokenScope>>(new Set(["read"]))
+    const [expiry, setExpiry] = React.useState("90")
+    const [created, setCreated] = React.useState<string | null>(null)
+    const [copied, setCopied] = React.useState(false)
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [busyId, setBusyId] = React.useState<string | null>(null)
+    const [error, setError] = React.useState<string | null>(null)
+
+    const isAdmin = workspace?.role === "admin"
+
+    async function fetchTokens() {
+        setIsLoading(true)
+        try {
+            setTokens(await listApiTokens())
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load tokens")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    React.useEffect(() => {
+        if (!open) return
+        setName("")
+        setKind("personal")
+        setCreated(null)
+        setError(null)
+        void fetchTokens()
+    }, [open, workspace])
+
+    function toggleScope(scope: ApiTokenScope, on: boolean) {
+        setScopes((prev) => {
+            const next = new Set(prev)
+            if (on) next.add(scope)
+            else next.delete(scope)
+            return next
+        })
+    }
+
+    async function handleCreate() {
+        const trimmed = name.trim()
+        if (!trimmed || scopes.size === 0) return
+        setBusyId("__new__")
+        setError(null)
+        try {
+            const result = await createApiToken({
+                data: {
+                    name: trimmed,
+                    kind,
+                    scopes: API_TOKEN_SCOPES.filter((s) => scopes.has(s)),
+                    expiresInDays: EXPIRY_OPTIONS.find((o) => o.value === expiry)?.days ?? null,
+                },
+            })
+            setCreated(result.token)
+            setCopied(false)
+            setName("")
+            await fetchTokens()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to create token")
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    async function handleRevoke(token: ApiTokenSummary) {
+        if (!window.confirm(`Revoke "${token.name}"? Requests using it will fail.`)) return
+        setBusyId(token.id)
+        setError(null)
+        try {
+            await revokeApiToken({ data: { id: token.id } })
+            await fetchTokens()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to revoke token")
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    function handleCopy() {
+        if (!created) return
+        navigator.clipboard.writeText(created).then(
+            () => setCopied(true),
+            () => {},
+        )
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>API Tokens</DialogTitle>
+                </DialogHeader>
+
+                <div className="flex flex-col gap-3">
+                    <p className="text-xs text-muted-foreground px-1">
+                        Send a token as <code className="font-mono">Authorization: Bearer …</code>{" "}
+                        to call the API of this workspace from scripts and CI.
+                    </p>
+
+                    {created && (
+                        <div className="flex flex-col gap-2 rounded-xl border border-accent/40 bg-accent/5 p-3">
+                            <p className="text-xs text-muted-foreground">
+                                Copy the new token now — it will not be shown again.
+                            </p>
+                            <div className="flex items-center gap-2">
+                                <code className="flex-1 min-w-0 truncate font-mono text-xs">
+                                    {created}
+                                </code>
+                                <Button
+                                    variant="ghost"
+                                    size="icon-sm"
+                                    className="rounded-full"
+                                    onClick={handleCopy}
+                                    title="Copy token"
+                                >
+                                    {copied ? (
+                                        <Check className="h-3.5 w-3.5" />
+                                    ) : (
+                                        <Copy className="h-3.5 w-3.5" />
+                                    )}
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="max-h-[40vh] overflow-y-auto rounded-xl border border-glass-border divide-y divide-glass-border/40">
+                        {isLoading && tokens.length === 0 ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : tokens.length === 0 ? (
+                            <div className="py-8 text-center text-sm text-muted-foreground">
+                                No tokens yet
+                            </div>
+                        ) : (
+                            tokens.map((token) => (
+                                <TokenRow
+                                    key={token.id}
+                                    token={token}
+                                    busy={busyId === token.id}
+                                    onRevoke={() => handleRevoke(token)}
+                                />
+                            ))
+                        )}
+                    </div>
+
+                    <div className="flex flex-col gap-2 rounded-xl border border-glass-border p-3">
+                        <div className="flex items-center gap-2">
+                            <Input
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                                placeholder="Token name, e.g. CI deploy"
+                                className="rounded-full flex-1"
+                            />
+                            {isAdmin && (
+                                <Select
+                                    value={kind}
+                                    onValueChange={(v: string | null) => {
+                                        if (v === "personal" || v === "workspace") setKind(v)
+                                    }}
+                                >
+                                    <SelectTrigger size="sm" className="rounded-full w-32 text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="personal">Personal</SelectItem>
+                                        <SelectItem value="workspace">Workspace</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            )}
+                            <Select
+                                value={expiry}
+                                onValueChange={(v: string | null) => v && setExpiry(v)}
+                            >
+                                <SelectTrigger size="sm" className="rounded-full w-28 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {EXPIRY_OPTIONS.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex items-center gap-4 px-1">
+                            {API_TOKEN_SCOPES.map((scope) => (
+                                <label
+                                    key={scope}
+                                    className="flex items-center gap-1.5 text-xs cursor-pointer"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={scopes.has(scope)}
+                                        onChange={(e) => toggleScope(scope, e.target.checked)}
+                                        className="accent-primary"
+                                    />
+                                    {API_TOKEN_SCOPE_LABELS[scope]}
+                                </label>
+                            ))}
+                            <Button
+                                size="sm"
+                                className="rounded-full gap-1.5 ml-auto"
+                                onClick={handleCreate}
+                                disabled={!name.trim() || scopes.size === 0 || busyId !== null}
+                            >
+                                <KeyRound className="h-4 w-4" />
+                                Create token
+                            </Button>
+                        </div>
+                    </div>
+
+                    {error && <p className="text-xs text-destructive px-1">{error}</p>}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="ghost" className="rounded-full" onClick={onClose}>
+                        Close
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,388 @@
+import * as React from "react"
+import { History, Loader2, Plus, Save, SquareFunction, Trash2 } from "lucide-react"
+import type { SharedFunctionSummary } from "@/lib/mapper/shared-library"
+import type { ScriptLanguage } from "@/lib/mapper/types"
+import type { WorkspaceSummary } from "@/lib/workspace/types"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    deleteSharedFunction,
+    listSharedFunctions,
+    saveSharedFunction,
+} from "@/lib/mapper/shared-library.server"
+import { cn } from "@/lib/utils"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface FunctionLibraryDialogProps {
+    workspace: WorkspaceSummary | null // The active workspace
+    open: boolean
+    onClose: () => void
+}
+
+// ─── Draft ──────────────────────────────────────────────────────────────────────
+
+/** The function being edited — `id` is unset for a function not saved yet. */
+interface FunctionDraft {
+    id?: string
+    name: string
+    language: ScriptLanguage
+    description: string
+    body: string
+    message: string // What changed — stored with the version the save publishes
+}
+
+const LANGUAGE_LABELS: Record<ScriptLanguage, string> = {
+    javascript: "JavaScript",
+    groovy: "Groovy",
+}
+
+function toDraft(fn: SharedFunctionSummary): FunctionDraft {
+    return {
+        id: fn.id,
+        name: fn.name,
+        language: fn.language,
+        description: fn.description ?? "",
+        body: fn.versions.find((v) => v.version === fn.latestVersion)?.body ?? "",
+        message: "",
+    }
+}
+
+function newFunctionBody(language: ScriptLanguage): string {
+    return language === "groovy"
+        ? "def myFunction(value) {\n  return value\n}"
+        : "function myFunction(value) {\n  return value;\n}"
+}
+
+/** The maps importing a function, with the version each one runs. */
+function describeUsage(usedBy: SharedFunctionSummary["usedBy"]): string {
+    if (usedBy.length === 0) return "Not imported by any map"
+    const maps = usedBy.map((m) => `${m.name} (${m.version ? `v${m.version}` : "latest"})`)
+    return `Used by ${maps.join(", ")}`
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * Transform functions shared by the maps of the active workspace. Maps import
+ * a function by name (Environment → Functions), pinned to a version or
+ * following the latest, and their scripts inline that version's body. Every
+ * save of a changed body publishes a new version; a function is written in
+ * one script language and only maps in that language can import it.
+ */
+export function FunctionLibraryDialog({ workspace, open, onClose }: FunctionLibraryDialogProps) {
+    const [functions, setFunctions] = React.useState<Array<SharedFunctionSummary>>([])
+    const [draft, setDraft] = React.useState<FunctionDraft | null>(null)
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [isBusy, setIsBusy] = React.useState(false)
+    const [notice, setNotice] = React.useState<string | null>(null)
+    const [error, setError] = React.useState<string | null>(null)
+
+    const readOnly = workspace?.role === "viewer"
+    const current = functions.find((f) => f.id === draft?.id) ?? null
+    const latestBody = current?.versions.find((v) => v.version === current.latestVersion)?.body
+    const publishes = !current || draft?.body !== latestBody
+
+    async function fetchFunctions(selectId?: string) {
+        setIsLoading(true)
+        try {
+            const result = await listSharedFunctions()
+            setFunctions(result)
+            const selected = result.find((f) => f.id === selectId) ?? result.at(0)
+            setDraft(selected ? toDraft(selected) : null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load the library")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    React.useEffect(() => {
+        if (!open) return
+        setError(null)
+        setNotice(null)
+        void fetchFunctions()
+    }, [open, workspace])
+
+    function handleNew() {
+        setError(null)
+        setNotice(null)
+        setDraft({
+            name: "",
+            language: "javascript",
+            description: "",
+            body: newFunctionBody("javascript"),
+            message: "",
+        })
+    }
+
+    async function handleSave() {
+        if (!draft) return
+        setIsBusy(true)
+        setError(null)
+        try {
+            const { id, version } = await saveSharedFunction({
+                data: {
+                    id: draft.id,
+                    name: draft.name.trim(),
+                    language: draft.language,
+                    description: draft.description,
+                    body: draft.body,
+                    message: draft.message,
+                },
+            })
+            setNotice(
+                publishes
+                    ? `Published "${draft.name.trim()}" version ${version}`
+                    : `Saved "${draft.name.trim()}"`,
+            )
+            await fetchFunctions(id)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save the function")
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    async function handleDelete() {
+        if (!draft?.id || !window.confirm(`Delete the library function "${draft.name}"?`)) return
+        setIsBusy(true)
+        setError(null)
+        try {
+            await deleteSharedFunction({ data: { id: draft.id } })
+            setNotice(null)
+            await fetchFunctions()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to delete the function")
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+            <DialogContent className="max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Function Library</DialogTitle>
+                </DialogHeader>
+
+                <div className="flex gap-3 h-[60vh] min-h-0">
+                    <div className="w-56 shrink-0 flex flex-col gap-1 rounded-xl border border-glass-border p-1.5 overflow-y-auto">
+                        {isLoading && functions.length === 0 && (
+                            <div className="flex justify-center py-6">
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            </div>
+                        )}
+                        {!isLoading && functions.length === 0 && (
+                            <div className="py-6 text-center text-xs text-muted-foreground">
+                                No shared functions yet
+                            </div>
+                        )}
+                        {functions.map((fn) => (
+                            <button
+                                key={fn.id}
+                                type="button"
+                                onClick={() => {
+                                    setNotice(null)
+                                    setDraft(toDraft(fn))
+                                }}
+                                className={cn(
+                                    "flex flex-col rounded-lg px-2 py-1.5 text-left transition-colors hover:bg-muted/40",
+                                    fn.id === draft?.id && "bg-primary/10",
+                                )}
+                            >
+                                <span className="truncate font-mono text-xs">{fn.name}</span>
+                                <span className="text-[11px] text-muted-foreground">
+                                    {LANGUAGE_LABELS[fn.language]} · v{fn.latestVersion} · used by{" "}
+                                    {fn.usedBy.length} {fn.usedBy.length === 1 ? "map" : "maps"}
+                                </span>
+                            </button>
+                        ))}
+                        {!readOnly && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="rounded-full gap-1.5 text-xs mt-auto"
+                                onClick={handleNew}
+                            >
+                                <Plus className="h-3.5 w-3.5" />
+                                New function
+                            </Button>
+                        )}
+                    </div>
+
+                    {draft ? (
+                        <div className="flex-1 min-w-0 flex flex-col gap-2">
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    placeholder="functionName"
+                                    disabled={readOnly}
+                                    className="h-8 rounded-full font-mono text-xs w-48"
+                                />
+                                <Select
+                                    value={draft.language}
+                                    onValueChange={(v: string | null) => {
+                                        if (!v) return
+                                        const language = v as ScriptLanguage
+                                        const untouched =
+                                            draft.body === newFunctionBody(draft.language)
+                                        setDraft({
+                                            ...draft,
+                                            language,
+                                            body: untouched
+                                                ? newFunctionBody(language)
+                                                : draft.body,
+                                        })
+                                    }}
+                                    disabled={readOnly || !!draft.id}
+                                >
+                                    <SelectTrigger
+                                        size="sm"
+                                        className="h-8 rounded-full text-xs w-32"
+                                    >
+                                        {LANGUAGE_LABELS[draft.language]}
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="javascript">JavaScript</SelectItem>
+                                        <SelectItem value="groovy">Groovy</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                <Input
+                                    value={draft.description}
+                                    onChange={(e) =>
+                                        setDraft({ ...draft, description: e.target.value })
+                                    }
+                                    placeholder="Description"
+                                    disabled={readOnly}
+                                    className="h-8 rounded-full text-xs flex-1"
+                                />
+                            </div>
+
+                            {current && (
+                                <p className="text-xs text-muted-foreground px-1 truncate">
+                                    {describeUsage(current.usedBy)}
+                                </p>
+                            )}
+
+                            <Textarea
+                                value={draft.body}
+                                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                                disabled={readOnly}
+                                spellCheck={false}
+                                className="flex-1 min-h-0 text-xs font-mono rounded-xl resize-none"
+                            />
+
+                            {current && current.versions.length > 1 && (
+                                <div className="flex flex-col gap-0.5 max-h-28 overflow-y-auto rounded-xl border border-glass-border p-1.5">
+                                    {current.versions.map((v) => (
+                                        <div
+                                            key={v.version}
+                                            className="flex items-center gap-2 px-1 text-xs"
+                                        >
+                                            <span className="font-mono w-8 shrink-0">
+                                                v{v.version}
+                                            </span>
+                                            <span className="flex-1 truncate text-muted-foreground">
+                                                {v.message || "No message"}
+                                                {v.authorName && ` · ${v.authorName}`} ·{" "}
+                                                {new Date(v.createdAt).toLocaleString()}
+                                            </span>
+                                            {!readOnly && v.version !== current.latestVersion && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="xs"
+                                                    className="rounded-full gap-1 shrink-0"
+                                                    onClick={() =>
+                                                        setDraft({
+                                                            ...draft,
+                                                            body: v.body,
+                                                            message: `Restore v${v.version}`,
+                                                        })
+                                                    }
+                                                    title="Load this version's body to publish it again"
+                                                >
+                                                    <History className="h-3 w-3" />
+                                                    Restore
+                                                </Button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {!readOnly && (
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        value={draft.message}
+                                        onChange={(e) =>
+                                            setDraft({ ...draft, message: e.target.value })
+                                        }
+                                        placeholder="What changed (optional)"
+                                        disabled={!publishes}
+                                        className="h-8 rounded-full text-xs flex-1"
+                                    />
+                                    {draft.id && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="rounded-full gap-1.5 text-xs text-muted-foreground hover:text-destructive"
+                                            onClick={handleDelete}
+                                            disabled={isBusy}
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                            Delete function
+                                        </Button>
+                                    )}
+                                    <Button
+                                        size="sm"
+                                        className="rounded-full gap-1.5"
+                                        onClick={handleSave}
+                                        disabled={
+                                            isBusy || !draft.name.trim() || !draft.body.trim()
+                                        }
+                                    >
+                                        {isBusy ? (
+                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                        ) : (
+                                            <Save className="h-4 w-4" />
+                                        )}
+                                        {!current
+                                            ? "Create"
+                                            : publishes
+                                              ? `Publish v${current.latestVersion + 1}`
+                                              : "Save"}
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="flex-1 flex flex-col items-center justify-center gap-2 text-xs text-muted-foreground">
+                            <SquareFunction className="h-6 w-6" />
+                            Shared functions are imported by name from a map's environment
+                        </div>
+                    )}
+                </div>
+
+                {notice && <p className="text-xs text-muted-foreground px-1">{notice}</p>}
+                {error && <p className="text-xs text-destructive px-1">{error}</p>}
+
+                <DialogFooter>
+                    <Button variant="ghost" className="rounded-full" onClick={onClose}>
+                        Close
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
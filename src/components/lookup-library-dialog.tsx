@@ -0,0 +1,405 @@
+import * as React from "react"
+import { FileUp, Library, Loader2, Plus, Save, Trash2 } from "lucide-react"
+import { v4 as uuidv4 } from "uuid"
+import type { SharedLookupTableSummary } from "@/lib/mapper/shared-library"
+import type { LookupEntry } from "@/lib/mapper/types"
+import type { WorkspaceSummary } from "@/lib/workspace/types"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { mergeLookupEntries, readLookupEntriesFile } from "@/lib/mapper/lookup-import"
+import {
+    deleteSharedLookupTable,
+    listSharedLookupTables,
+    saveSharedLookupTable,
+} from "@/lib/mapper/shared-library.server"
+import { cn } from "@/lib/utils"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface LookupLibraryDialogProps {
+    workspace: WorkspaceSummary | null // The active workspace
+    open: boolean
+    onClose: () => void
+}
+
+// ─── Draft ──────────────────────────────────────────────────────────────────────
+
+/** The table being edited — `id` is unset for a table not saved yet. */
+interface TableDraft {
+    id?: string
+    name: string
+    description: string
+    entries: Array<LookupEntry>
+}
+
+function toDraft(table: SharedLookupTableSummary): TableDraft {
+    return {
+        id: table.id,
+        name: table.name,
+        description: table.description ?? "",
+        entries: table.entries,
+    }
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * Lookup tables shared by the maps of the active workspace. Maps link a
+ * table by name (Environment → Lookup Tables) and their scripts inline its
+ * current entries, so a code list is edited here once. Entries can be
+ * bulk-imported from CSV or Excel; tables still linked by maps cannot be
+ * renamed or deleted.
+ */
+export function LookupLibraryDialog({ workspace, open, onClose }: LookupLibraryDialogProps) {
+    const [tables, setTables] = React.useState<Array<SharedLookupTableSummary>>([])
+    const [draft, setDraft] = React.useState<TableDraft | null>(null)
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [isBusy, setIsBusy] = React.useState(false)
+    const [notice, setNotice] = React.useState<string | null>(null)
+    const [error, setError] = React.useState<string | null>(null)
+    const fileInputRef = React.useRef<HTMLInputElement>(null)
+
+    const readOnly = workspace?.role === "viewer"
+    const current = tables.find((t) => t.id === draft?.id) ?? null
+
+    async function fetchTables(selectId?: string) {
+        setIsLoading(true)
+        try {
+            const result = await listSharedLookupTables()
+            setTables(result)
+            const selected = result.find((t) => t.id === selectId) ?? result.at(0)
+            setDraft(selected ? toDraft(selected) : null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load the library")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    React.useEffect(() => {
+        if (!open) return
+        setError(null)
+        setNotice(null)
+        void fetchTables()
+    }, [open, workspace])
+
+    function updateEntry(id: string, patch: Partial<LookupEntry>) {
+        setDraft(
+            (d) =>
+                d && {
+                    ...d,
+                    entries: d.entries.map((e) => (e.id === id ? { ...e, ...patch } : e)),
+                },
+        )
+    }
+
+    function handleNew() {
+        setError(null)
+        setNotice(null)
+        setDraft({ name: "", description: "", entries: [] })
+    }
+
+    async function handleImport(file: File) {
+        setError(null)
+        try {
+            const result = await readLookupEntriesFile(file)
+            setDraft((d) => d && { ...d, entries: mergeLookupEntries(d.entries, result.entries) })
+            const details = [
+                result.duplicates > 0 && `${result.duplicates} repeated keys`,
+                result.skipped > 0 && `${result.skipped} rows without a key skipped`,
+            ].filter(Boolean)
+            setNotice(
+                `Imported ${result.entries.length} entries from ${file.name}` +
+                    (details.length > 0 ? ` (${details.join(", ")})` : "") +
+                    " — save to apply",
+            )
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to read the file")
+        }
+    }
+
+    async function handleSave() {
+        if (!draft) return
+        setIsBusy(true)
+        setError(null)
+        try {
+            const { id } = await saveSharedLookupTable({
+                data: {
+                    id: draft.id,
+                    name: draft.name.trim(),
+                    description: draft.description,
+                    entries: draft.entries.filter((e) => e.key.trim()),
+                },
+            })
+            setNotice(`Saved "${draft.name.trim()}"`)
+            await fetchTables(id)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save the table")
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    async function handleDelete() {
+        if (!draft?.id || !window.confirm(`Delete the library table "${draft.name}"?`)) return
+        setIsBusy(true)
+        setError(null)
+        try {
+            await deleteSharedLookupTable({ data: { id: draft.id } })
+            setNotice(null)
+            await fetchTables()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to delete the table")
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+            <DialogContent className="max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Lookup Library</DialogTitle>
+                </DialogHeader>
+
+                <div className="flex gap-3 h-[60vh] min-h-0">
+                    <div className="w-56 shrink-0 flex flex-col gap-1 rounded-xl border border-glass-border p-1.5 overflow-y-auto">
+                        {isLoading && tables.length === 0 && (
+                            <div className="flex justify-center py-6">
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            </div>
+                        )}
+                        {!isLoading && tables.length === 0 && (
+                            <div className="py-6 text-center text-xs text-muted-foreground">
+                                No shared tables yet
+                            </div>
+                        )}
+                        {tables.map((table) => (
+                            <button
+                                key={table.id}
+                                type="button"
+                                onClick={() => {
+                                    setNotice(null)
+                                    setDraft(toDraft(table))
+                                }}
+                                className={cn(
+                                    "flex flex-col rounded-lg px-2 py-1.5 text-left transition-colors hover:bg-muted/40",
+                                    table.id === draft?.id && "bg-primary/10",
+                                )}
+                            >
+                                <span className="truncate font-mono text-xs">{table.name}</span>
+                                <span className="text-[11px] text-muted-foreground">
+                                    {table.entries.length} entries · used by {table.usedBy.length}{" "}
+                                    {table.usedBy.length === 1 ? "map" : "maps"}
+                                </span>
+                            </button>
+                        ))}
+                        {!readOnly && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="rounded-full gap-1.5 text-xs mt-auto"
+                                onClick={handleNew}
+                            >
+                                <Plus className="h-3.5 w-3.5" />
+                                New table
+                            </Button>
+                        )}
+                    </div>
+
+                    {draft ? (
+                        <div className="flex-1 min-w-0 flex flex-col gap-2">
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    placeholder="tableName"
+                                    disabled={readOnly}
+                                    className="h-8 rounded-full font-mono text-xs w-48"
+                                />
+                                <Input
+                                    value={draft.description}
+                                    onChange={(e) =>
+                                        setDraft({ ...draft, description: e.target.value })
+                                    }
+                                    placeholder="Description"
+                                    disabled={readOnly}
+                                    className="h-8 rounded-full text-xs flex-1"
+                                />
+                            </div>
+
+                            {current && (
+                                <p className="text-xs text-muted-foreground px-1 truncate">
+                                    {current.usedBy.length === 0
+                                        ? "Not linked by any map"
+                                        : `Used by ${current.usedBy.map((m) => m.name).join(", ")}`}
+                                </p>
+                            )}
+
+                            <div className="flex-1 min-h-0 overflow-y-auto rounded-xl border border-glass-border p-2 flex flex-col gap-1">
+                                {draft.entries.length === 0 && (
+                                    <div className="py-6 text-center text-xs text-muted-foreground">
+                                        No entries — add them or import a CSV / Excel file with Key,
+                                        Value and (optionally) Is Plain Text columns
+                                    </div>
+                                )}
+                                {draft.entries.map((entry) => (
+                                    <div
+                                        key={entry.id}
+                                        className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-center"
+                                    >
+                                        <Input
+                                            value={entry.key}
+                                            onChange={(e) =>
+                                                updateEntry(entry.id, { key: e.target.value })
+                                            }
+                                            placeholder="key"
+                                            disabled={readOnly}
+                                            className="h-7 text-xs font-mono rounded-full"
+                                        />
+                                        <Input
+                                            value={entry.value}
+                                            onChange={(e) =>
+                                                updateEntry(entry.id, { value: e.target.value })
+                                            }
+                                            placeholder="value"
+                                            disabled={readOnly}
+                                            className="h-7 text-xs font-mono rounded-full"
+                                        />
+                                        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                                            <input
+                                                type="checkbox"
+                                                checked={entry.plainTextValue}
+                                                disabled={readOnly}
+                                                onChange={(e) =>
+                                                    updateEntry(entry.id, {
+                                                        plainTextValue: e.target.checked,
+                                                    })
+                                                }
+                                                className="accent-primary"
+                                            />
+                                            Text
+                                        </label>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon-sm"
+                                            className="rounded-full h-7 w-7 text-muted-foreground hover:text-destructive"
+                                            disabled={readOnly}
+                                            onClick={() =>
+                                                setDraft({
+                                                    ...draft,
+                                                    entries: draft.entries.filter(
+                                                        (e) => e.id !== entry.id,
+                                                    ),
+                                                })
+                                            }
+                                            title="Remove entry"
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {!readOnly && (
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="rounded-full gap-1.5 text-xs"
+                                        onClick={() =>
+                                            setDraft({
+                                                ...draft,
+                                                entries: [
+                                                    ...draft.entries,
+                                                    {
+                                                        id: uuidv4(),
+                                                        key: "",
+                                                        value: "",
+                                                        plainTextValue: true,
+                                                    },
+                                                ],
+                                            })
+                                        }
+                                    >
+                                        <Plus className="h-3.5 w-3.5" />
+                                        Add entry
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="rounded-full gap-1.5 text-xs"
+                                        onClick={() => fileInputRef.current?.click()}
+                                    >
+                                        <FileUp className="h-3.5 w-3.5" />
+                                        Import CSV / Excel…
+                                    </Button>
+                                    <input
+                                        ref={fileInputRef}
+                                        type="file"
+                                        accept=".csv,.txt,.xlsx,.xls"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0]
+                                            e.target.value = ""
+                                            if (file) void handleImport(file)
+                                        }}
+                                    />
+                                    {draft.id && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="rounded-full gap-1.5 text-xs text-muted-foreground hover:text-destructive ml-auto"
+                                            onClick={handleDelete}
+                                            disabled={isBusy}
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                            Delete table
+                                        </Button>
+                                    )}
+                                    <Button
+                                        size="sm"
+                                        className={cn(
+                                            "rounded-full gap-1.5",
+                                            !draft.id && "ml-auto",
+                                        )}
+                                        onClick={handleSave}
+                                        disabled={isBusy || !draft.name.trim()}
+                                    >
+                                        {isBusy ? (
+                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                        ) : (
+                                            <Save className="h-4 w-4" />
+                                        )}
+                                        Save table
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="flex-1 flex flex-col items-center justify-center gap-2 text-xs text-muted-foreground">
+                            <Library className="h-6 w-6" />
+                            Shared lookup tables are linked by name from a map's environment
+                        </div>
+                    )}
+                </div>
+
+                {notice && <p className="text-xs text-muted-foreground px-1">{notice}</p>}
+                {error && <p className="text-xs text-destructive px-1">{error}</p>}
+
+                <DialogFooter>
+                    <Button variant="ghost" className="rounded-full" onClick={onClose}>
+                        Close
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -1,18 +1,28 @@
-import { useState } from "react"
+import { useRef, useState } from "react"
 import MonacoEditor from "@monaco-editor/react"
 import {
     CheckCircle,
     ChevronDown,
     ChevronUp,
     Clock,
+    GitBranch,
     Loader2,
     MinusCircle,
     Play,
+    ShieldAlert,
+    Square,
     XCircle,
 } from "lucide-react"
 
-import type { ChainStepResult, MapChainLink } from "@/lib/mapchain/types"
+import { LINK_TYPE_BADGE, linkDisplayName } from "./chain-link-row"
+import type {
+    ChainItemResult,
+    ChainPolicyResult,
+    ChainStepResult,
+    MapChainLink,
+} from "@/lib/mapchain/types"
 import { executeChain } from "@/lib/mapchain/chain-engine"
+import { flattenLinks, splitDepths } from "@/lib/mapchain/link-utils"
 import { useMapChainStore } from "@/lib/mapchain/store"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -49,16 +59,55 @@ function StatusIcon({ status }: { status: ChainStepResult["status"] }) {
     }
 }
 
+// ─── Item outcomes ─────────────────────────────────────────────────────────────
+
+/** Per-item outcomes of a step inside a split segment (or of the SPLIT itself). */
+function ItemList({ items }: { items: Array<ChainItemResult> }) {
+    return (
+        <div className="mt-2 flex flex-col gap-1 max-h-40 overflow-auto">
+            {items.map((item) => (
+                <div key={item.index} className="flex items-center gap-2 text-xs">
+                    <StatusIcon status={item.status} />
+                    <span className="text-muted-foreground shrink-0">Item {item.index + 1}</span>
+                    {item.error ? (
+                        <span className="text-destructive font-mono truncate">{item.error}</span>
+                    ) : (
+                        <span className="text-muted-foreground">
+                            {item.durationMs.toFixed(0)}ms
+                        </span>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
+
+// ─── Error policy ──────────────────────────────────────────────────────────────
+
+function policyLabel(policy: ChainPolicyResult): string {
+    switch (policy.fired) {
+        case "retry":
+            return `Retried (${policy.attempts} attempts)`
+        case "skip":
+            return "Skipped after error"
+        case "fallback":
+            return "Fallback output"
+        case "handler":
+            return "Handled by on-error steps"
+    }
+}
+
 // ─── Step row ──────────────────────────────────────────────────────────────────
 
-interface StepRowProps {
+export interface StepRowProps {
     link: MapChainLink
     result: ChainStepResult
     index: number
 }
 
-function StepRow({ link, result, index }: StepRowProps) {
+export function StepRow({ link, result, index }: StepRowProps) {
     const [showOutput, setShowOutput] = useState(false)
+    const failedItems = result.items?.filter((item) => item.status === "error").length ?? 0
 
     return (
         <div
@@ -79,20 +128,46 @@ function StepRow({ link, result, index }: StepRowProps) {
                 <Badge
                     className={cn(
                         "rounded-full text-xs border",
-                        link.type === "JT_MAP"
-                            ? "bg-source/10 text-source border-source/20"
-                            : "bg-secondary/10 text-secondary border-secondary/20",
+                        LINK_TYPE_BADGE[link.type].className,
                     )}
                 >
-                    {link.type === "JT_MAP" ? "Map" : "Script"}
+                    {LINK_TYPE_BADGE[link.type].label}
                 </Badge>
 
                 {/* Name */}
-                <span className="text-sm font-medium truncate flex-1">
-                    {link.type === "JT_MAP"
-                        ? (link.mapName ?? "Map step")
-                        : (link.scriptName ?? "Inline Script")}
-                </span>
+                <span className="text-sm font-medium truncate flex-1">{linkDisplayName(link)}</span>
+
+                {/* Branch a router took */}
+                {result.branch !== undefined && (
+                    <span className="flex items-center gap-1 text-xs text-primary shrink-0">
+                        <GitBranch className="h-3 w-3" />
+                        {result.branch ? result.branch.routeName : "No route matched"}
+                    </span>
+                )}
+
+                {/* Error policy that fired */}
+                {result.policy && (
+                    <span
+                        className="flex items-center gap-1 text-xs text-amber-400 shrink-0"
+                        title={result.policy.error}
+                    >
+                        <ShieldAlert className="h-3 w-3" />
+                        {policyLabel(result.policy)}
+                    </span>
+                )}
+
+                {/* Item count for split segments */}
+                {result.items && (
+                    <span
+                        className={cn(
+                            "text-xs shrink-0",
+                            failedItems > 0 ? "text-destructive" : "text-muted-foreground",
+                        )}
+                    >
+                        {result.items.length} items
+                        {failedItems > 0 && `, ${failedItems} failed`}
+                    </span>
+                )}
 
                 {/* Duration */}
                 {result.status === "done" && result.durationMs > 0 && (
@@ -129,6 +204,18 @@ function StepRow({ link, result, index }: StepRowProps) {
                 </p>
             )}
 
+            {/* Error an error policy recovered from */}
+            {result.status === "done" && result.policy && (
+                <p className="mt-2 text-xs text-amber-400 font-mono bg-amber-400/5 rounded-lg px-3 py-2 break-all">
+                    {result.policy.error}
+                </p>
+            )}
+
+            {/* Per-item outcomes */}
+            {showOutput && result.items && result.items.length > 0 && (
+                <ItemList items={result.items} />
+            )}
+
             {/* Expandable output */}
             {showOutput && result.output && (
                 <div className="mt-2 rounded-lg overflow-hidden border border-glass-border/50 h-28">
@@ -154,6 +241,62 @@ function StepRow({ link, result, index }: StepRowProps) {
     )
 }
 
+// ─── Step list ─────────────────────────────────────────────────────────────────
+
+function pendingResult(linkId: string): ChainStepResult {
+    return { linkId, status: "pending", output: "", error: null, durationMs: 0 }
+}
+
+/**
+ * Step rows for a link list; a router that ran is followed by the steps of
+ * its branch, a failed step by the on-error steps that ran for it, and steps
+ * inside a split segment are indented.
+ */
+function StepList({
+    links,
+    results,
+}: {
+    links: Array<MapChainLink>
+    results: Array<ChainStepResult>
+}) {
+    const depths = splitDepths(links)
+    return (
+        <div className="flex flex-col gap-2">
+            {links.map((link, index) => {
+                const result = results.find((r) => r.linkId === link.id) ?? pendingResult(link.id)
+                const route = result.branch
+                    ? link.routes?.find((r) => r.id === result.branch?.routeId)
+                    : undefined
+                const handler = link.errorPolicy?.handler ?? []
+                const handlerRan = handler.some((l) =>
+                    results.some((r) => r.linkId === l.id && r.status !== "pending"),
+                )
+                return (
+                    <div
+                        key={link.id}
+                        className="flex flex-col gap-2"
+                        style={{
+                            marginLeft: depths[index] > 0 ? `${depths[index] * 1.5}rem` : undefined,
+                        }}
+                    >
+                        <StepRow link={link} result={result} index={index} />
+                        {handlerRan && (
+                            <div className="pl-6 border-l-2 border-destructive/20 ml-2.5">
+                                <StepList links={handler} results={results} />
+                            </div>
+                        )}
+                        {route && route.links.length > 0 && (
+                            <div className="pl-6 border-l-2 border-primary/20 ml-2.5">
+                                <StepList links={route.links} results={results} />
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
+
 // ─── ChainExecuteDialog ────────────────────────────────────────────────────────
 
 export function ChainExecuteDialog({ open, onClose }: ChainExecuteDialogProps) {
@@ -166,14 +309,9 @@ export function ChainExecuteDialog({ open, onClose }: ChainExecuteDialogProps) {
     const [inputText, setInputText] = useState(initialInput)
     const [finalOutput, setFinalOutput] = useState("")
     const [isRunning, setIsRunning] = useState(false)
+    const abortRef = useRef<AbortController | null>(null)
     const [stepResults, setStepResults] = useState<Array<ChainStepResult>>(() =>
-        links.map((l) => ({
-            linkId: l.id,
-            status: "pending" as const,
-            output: "",
-            error: null,
-            durationMs: 0,
-        })),
+        flattenLinks(links).map((l) => pendingResult(l.id)),
     )
 
     function handleInputChange(value: string) {
@@ -187,18 +325,14 @@ export function ChainExecuteDialog({ open, onClose }: ChainExecuteDialogProps) {
         setIsRunning(true)
         setFinalOutput("")
 
-        // Reset all steps to pending
-        setStepResults(
-            links.map((l) => ({
-                linkId: l.id,
-                status: "pending" as const,
-                output: "",
-                error: null,
-                durationMs: 0,
-            })),
-        )
+        // Reset all steps (including router branches) to pending
+        setStepResults(flattenLinks(links).map((l) => pendingResult(l.id)))
+
+        const controller = new AbortController()
+        abortRef.current = controller
 
         await executeChain(links, inputText, {
+            signal: controller.signal,
             onStepStart(linkId) {
                 setStepResults((prev) =>
                     prev.map((r) =>
@@ -217,24 +351,11 @@ export function ChainExecuteDialog({ open, onClose }: ChainExecuteDialogProps) {
                 setIsRunning(false)
             },
         })
+        abortRef.current = null
     }
 
     const canRun = !isRunning && inputText.trim().length > 0 && links.length > 0
 
-    // Sync step results array when links change (dialog re-open)
-    const syncedResults = links.map((l) => {
-        const existing = stepResults.find((r) => r.linkId === l.id)
-        return (
-            existing ?? {
-                linkId: l.id,
-                status: "pending" as const,
-                output: "",
-                error: null,
-                durationMs: 0,
-            }
-        )
-    })
-
     return (
         <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
             <DialogContent
@@ -316,16 +437,7 @@ export function ChainExecuteDialog({ open, onClose }: ChainExecuteDialogProps) {
                         {links.length === 0 ? (
                             <p className="text-sm text-muted-foreground">No steps in this chain.</p>
                         ) : (
-                            <div className="flex flex-col gap-2">
-                                {links.map((link, index) => (
-                                    <StepRow
-                                        key={link.id}
-                                        link={link}
-                                        result={syncedResults[index]}
-                                        index={index}
-                                    />
-                                ))}
-                            </div>
+                            <StepList links={links} results={stepResults} />
                         )}
                     </div>
                 </div>
@@ -345,6 +457,16 @@ export function ChainExecuteDialog({ open, onClose }: ChainExecuteDialogProps) {
                             )}
                             {isRunning ? "Running…" : "Run"}
                         </Button>
+                        {isRunning && (
+                            <Button
+                                variant="outline"
+                                className="rounded-full gap-1.5"
+                                onClick={() => abortRef.current?.abort()}
+                            >
+                                <Square className="h-4 w-4" />
+                                Cancel
+                            </Button>
+                        )}
                         <Button variant="ghost" className="rounded-full ml-auto" onClick={onClose}>
                             Close
                         </Button>
@@ -4,6 +4,7 @@ import { Link2 } from "lucide-react"
 
 import { ChainLinkRow } from "./chain-link-row"
 import type {DragEndEvent} from "@dnd-kit/core";
+import { findLinkList, splitDepths } from "@/lib/mapchain/link-utils"
 import { useMapChainStore } from "@/lib/mapchain/store"
 
 // ─── Empty state ───────────────────────────────────────────────────────────────
@@ -13,7 +14,7 @@ function EmptyChainState() {
         <div className="flex flex-col items-center justify-center py-20 gap-4 text-muted-foreground">
             <Link2 className="h-12 w-12 opacity-20" />
             <p className="text-sm text-center">
-                No steps yet. Add a Map or Script step from the toolbar.
+                No steps yet. Add a Map, Script, Router or Split step from the toolbar.
             </p>
         </div>
     )
@@ -24,13 +25,18 @@ function EmptyChainState() {
 export function ChainGrid() {
     const links = useMapChainStore((s) => s.chain.links)
     const reorderLinks = useMapChainStore((s) => s.reorderLinks)
+    const depths = splitDepths(links)
 
     function handleDragEnd(event: DragEndEvent) {
         const { active, over } = event
         if (over && active.id !== over.id) {
-            const oldIndex = links.findIndex((l) => l.id === active.id)
-            const newIndex = links.findIndex((l) => l.id === over.id)
-            const reordered = arrayMove(links, oldIndex, newIndex)
+            // Steps reorder within their own list (top level or a router branch)
+            const list = findLinkList(links, String(active.id))
+            if (!list) return
+            const oldIndex = list.findIndex((l) => l.id === active.id)
+            const newIndex = list.findIndex((l) => l.id === over.id)
+            if (newIndex === -1) return
+            const reordered = arrayMove(list, oldIndex, newIndex)
             reorderLinks(reordered.map((l) => l.id))
         }
     }
@@ -49,6 +55,7 @@ export function ChainGrid() {
                                 index={index}
                                 isFirst={index === 0}
                                 isLast={index === links.length - 1}
+                                depth={depths[index]}
                             />
                         ))
                     )}
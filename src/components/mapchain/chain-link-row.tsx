@@ -1,15 +1,33 @@
 import { useEffect, useState } from "react"
 import { CSS } from "@dnd-kit/utilities"
-import { useSortable } from "@dnd-kit/sortable"
-import { ChevronDown, ChevronUp, Eye, EyeOff, GripVertical, Loader2, Trash2 } from "lucide-react"
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable"
+import {
+    ChevronDown,
+    ChevronUp,
+    Eye,
+    EyeOff,
+    GitBranch,
+    GripVertical,
+    Loader2,
+    Plus,
+    ShieldAlert,
+    Trash2,
+} from "lucide-react"
 
 import { ChainScriptEditor } from "./chain-script-editor"
-import type { MapChainLink } from "@/lib/mapchain/types"
+import type {
+    ChainErrorAction,
+    ChainRoute,
+    MapChainLink,
+    MapChainLinkType,
+} from "@/lib/mapchain/types"
+import { splitDepths } from "@/lib/mapchain/link-utils"
 import { useMapChainStore } from "@/lib/mapchain/store"
 import { listMaps } from "@/lib/mapper/persistence.server"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import {
     Select,
     SelectContent,
@@ -19,6 +37,34 @@ import {
 } from "@/components/ui/select"
 import { cn } from "@/lib/utils"
 
+// ─── Link display helpers ──────────────────────────────────────────────────────
+
+export const LINK_TYPE_BADGE: Record<MapChainLinkType, { label: string; className: string }> = {
+    JT_MAP: { label: "Map", className: "bg-source/10 text-source border-source/20" },
+    JT_SCRIPT: { label: "Script", className: "bg-secondary/10 text-secondary border-secondary/20" },
+    ROUTER: { label: "Router", className: "bg-primary/10 text-primary border-primary/20" },
+    SPLIT: { label: "Split", className: "bg-accent/10 text-accent border-accent/20" },
+    AGGREGATE: { label: "Aggregate", className: "bg-accent/10 text-accent border-accent/20" },
+}
+
+/** Row title for a link; `fallback` replaces the map name of an unconfigured map step. */
+export function linkDisplayName(link: MapChainLink, fallback = "Map step"): string {
+    switch (link.type) {
+        case "JT_MAP":
+            return link.mapName ?? fallback
+        case "JT_SCRIPT":
+            return link.scriptName ?? "Inline Script"
+        case "ROUTER":
+            return link.name
+        case "SPLIT":
+            return link.splitExpression ? `Split ${link.splitExpression}` : "Split (no path)"
+        case "AGGREGATE":
+            return link.aggregateFormat === "xml"
+                ? `Aggregate into <${link.aggregateRoot?.trim() || "items"}>`
+                : "Aggregate into JSON array"
+    }
+}
+
 // ─── MapLinkContent ────────────────────────────────────────────────────────────
 
 interface SavedMapOption {
@@ -137,6 +183,401 @@ function ScriptLinkContent({ link }: { link: MapChainLink }) {
     )
 }
 
+// ─── SplitLinkContent / AggregateLinkContent ───────────────────────────────────
+
+function SplitLinkContent({ link }: { link: MapChainLink }) {
+    const updateLink = useMapChainStore((s) => s.updateLink)
+
+    return (
+        <div className="mt-3 pt-3 border-t border-glass-border/50 flex flex-col gap-2">
+            <Input
+                value={link.splitExpression ?? ""}
+                onChange={(e) =>
+                    updateLink(link.id, { splitExpression: (e.target as HTMLInputElement).value })
+                }
+                placeholder="orders.order or data.items.filter((i) => i.active)"
+                title="Path into the payload, or a JavaScript expression over input and data"
+                className="rounded-full text-xs font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+                The steps up to the next Aggregate run once per element; a failing element does not
+                stop the others.
+            </p>
+        </div>
+    )
+}
+
+function AggregateLinkContent({ link }: { link: MapChainLink }) {
+    const updateLink = useMapChainStore((s) => s.updateLink)
+    const format = link.aggregateFormat ?? "json"
+
+    return (
+        <div className="mt-3 pt-3 border-t border-glass-border/50 flex items-center gap-2">
+            <Select
+                value={format}
+                onValueChange={(value: string | null) => {
+                    if (value === "json" || value === "xml") {
+                        updateLink(link.id, { aggregateFormat: value })
+                    }
+                }}
+            >
+                <SelectTrigger className="rounded-full text-sm w-40">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="json">JSON array</SelectItem>
+                    <SelectItem value="xml">XML wrapper</SelectItem>
+                </SelectContent>
+            </Select>
+            {format === "xml" && (
+                <Input
+                    value={link.aggregateRoot ?? ""}
+                    onChange={(e) =>
+                        updateLink(link.id, {
+                            aggregateRoot: (e.target as HTMLInputElement).value,
+                        })
+                    }
+                    placeholder="items"
+                    title="Root element wrapping the item outputs"
+                    className="rounded-full text-sm font-mono flex-1"
+                />
+            )}
+        </div>
+    )
+}
+
+// ─── RouterLinkContent ─────────────────────────────────────────────────────────
+
+/** A route's steps — sortable within the route (the grid's DndContext handles drops). */
+export function BranchLinkList({ links }: { links: Array<MapChainLink> }) {
+    const depths = splitDepths(links)
+    return (
+        <SortableContext items={links.map((l) => l.id)} strategy={verticalListSortingStrategy}>
+            <div className="flex flex-col gap-2">
+                {links.map((link, index) => (
+                    <ChainLinkRow
+                        key={link.id}
+                        link={link}
+                        index={index}
+                        isFirst={index === 0}
+                        isLast={index === links.length - 1}
+                        depth={depths[index]}
+                    />
+                ))}
+            </div>
+        </SortableContext>
+    )
+}
+
+function RouteSection({
+    router,
+    route,
+    index,
+    count,
+}: {
+    router: MapChainLink
+    route: ChainRoute
+    index: number
+    count: number
+}) {
+    const updateRoute = useMapChainStore((s) => s.updateRoute)
+    const removeRoute = useMapChainStore((s) => s.removeRoute)
+    const moveRoute = useMapChainStore((s) => s.moveRoute)
+    const addLink = useMapChainStore((s) => s.addLink)
+
+    const target = { routerId: router.id, routeId: route.id }
+
+    return (
+        <div className="rounded-xl border border-glass-border/60 p-3 flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+                <GitBranch className="h-3.5 w-3.5 text-primary shrink-0" />
+                <Input
+                    value={route.name}
+                    onChange={(e) =>
+                        updateRoute(router.id, route.id, {
+                            name: (e.target as HTMLInputElement).value,
+                        })
+                    }
+                    placeholder="Route name..."
+                    className="rounded-full text-sm h-8 w-40 shrink-0"
+                />
+                <Input
+                    value={route.predicate}
+                    onChange={(e) =>
+                        updateRoute(router.id, route.id, {
+                            predicate: (e.target as HTMLInputElement).value,
+                        })
+                    }
+                    placeholder="Otherwise (always matches)"
+                    title="JavaScript expression over input (raw payload) and data (parsed JSON / XML)"
+                    className="rounded-full text-xs font-mono h-8 flex-1"
+                />
+                <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 rounded-full shrink-0"
+                    onClick={() => moveRoute(router.id, route.id, "up")}
+                    disabled={index === 0}
+                    title="Evaluate earlier"
+                >
+                    <ChevronUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 rounded-full shrink-0"
+                    onClick={() => moveRoute(router.id, route.id, "down")}
+                    disabled={index === count - 1}
+                    title="Evaluate later"
+                >
+                    <ChevronDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 rounded-full shrink-0 text-destructive hover:bg-destructive/10"
+                    onClick={() => {
+                        if (window.confirm(`Remove route "${route.name}" and its steps?`)) {
+                            removeRoute(router.id, route.id)
+                        }
+                    }}
+                    title="Remove route"
+                >
+                    <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+
+            {route.links.length === 0 ? (
+                <p className="text-xs text-muted-foreground pl-6">
+                    No steps — the payload passes through unchanged.
+                </p>
+            ) : (
+                <div className="pl-6">
+                    <BranchLinkList links={route.links} />
+                </div>
+            )}
+
+            <div className="flex items-center gap-1 pl-6">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-full h-7 text-xs text-source hover:text-source hover:bg-source/10"
+                    onClick={() => addLink("JT_MAP", target)}
+                >
+                    + Map
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-full h-7 text-xs text-secondary hover:text-secondary hover:bg-secondary/10"
+                    onClick={() => addLink("JT_SCRIPT", target)}
+                >
+                    + Script
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-full h-7 text-xs text-primary hover:bg-primary/10"
+                    onClick={() => addLink("ROUTER", target)}
+                >
+                    + Router
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-full h-7 text-xs text-accent hover:bg-accent/10"
+                    onClick={() => addLink("SPLIT", target)}
+                >
+                    + Split
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-full h-7 text-xs text-accent hover:bg-accent/10"
+                    onClick={() => addLink("AGGREGATE", target)}
+                >
+                    + Aggregate
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+function RouterLinkContent({ link }: { link: MapChainLink }) {
+    const addRoute = useMapChainStore((s) => s.addRoute)
+    const updateLink = useMapChainStore((s) => s.updateLink)
+    const routes = link.routes ?? []
+
+    return (
+        <div className="mt-3 pt-3 border-t border-glass-border/50 flex flex-col gap-2">
+            <Input
+                value={link.name}
+                onChange={(e) =>
+                    updateLink(link.id, { name: (e.target as HTMLInputElement).value })
+                }
+                placeholder="Router name..."
+                className="rounded-full text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+                Routes are tried top to bottom; the first whose condition holds runs its steps.
+            </p>
+            {routes.map((route, index) => (
+                <RouteSection
+                    key={route.id}
+                    router={link}
+                    route={route}
+                    index={index}
+                    count={routes.length}
+                />
+            ))}
+            <Button
+                variant="ghost"
+                size="sm"
+                className="rounded-full self-start gap-1 text-xs"
+                onClick={() => addRoute(link.id)}
+            >
+                <Plus className="h-3.5 w-3.5" />
+                Add route
+            </Button>
+        </div>
+    )
+}
+
+// ─── ErrorPolicySection ────────────────────────────────────────────────────────
+
+const ERROR_ACTION_LABELS: Record<ChainErrorAction, string> = {
+    stop: "Stop the chain",
+    skip: "Skip step (pass input through)",
+    fallback: "Use fallback output",
+    retry: "Retry, then stop",
+}
+
+const MAX_RETRIES = 10
+
+/** What happens when the step fails — shown under map, script and router steps. */
+function ErrorPolicySection({ link }: { link: MapChainLink }) {
+    const updateErrorPolicy = useMapChainStore((s) => s.updateErrorPolicy)
+    const addLink = useMapChainStore((s) => s.addLink)
+    const policy = link.errorPolicy
+    const action = policy?.action ?? "stop"
+    const handler = policy?.handler
+
+    return (
+        <div className="mt-3 pt-3 border-t border-glass-border/50 flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+                <ShieldAlert className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                <span className="text-xs text-muted-foreground shrink-0">On error</span>
+                <Select
+                    value={action}
+                    onValueChange={(value: string | null) => {
+                        if (!value || !(value in ERROR_ACTION_LABELS)) return
+                        updateErrorPolicy(link.id, { action: value as ChainErrorAction })
+                    }}
+                >
+                    <SelectTrigger className="rounded-full text-xs h-8 w-56">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(Object.keys(ERROR_ACTION_LABELS) as Array<ChainErrorAction>).map(
+                            (key) => (
+                                <SelectItem key={key} value={key}>
+                                    {ERROR_ACTION_LABELS[key]}
+                                </SelectItem>
+                            ),
+                        )}
+                    </SelectContent>
+                </Select>
+                {action === "retry" && (
+                    <Input
+                        type="number"
+                        min={1}
+                        max={MAX_RETRIES}
+                        step={1}
+                        value={policy?.retries ?? 1}
+                        onChange={(e) => {
+                            const retries = Number((e.target as HTMLInputElement).value)
+                            if (!Number.isInteger(retries)) return
+                            updateErrorPolicy(link.id, {
+                                retries: Math.min(MAX_RETRIES, Math.max(1, retries)),
+                            })
+                        }}
+                        title="Retries after the first attempt"
+                        className="rounded-full text-xs h-8 w-20"
+                    />
+                )}
+                {!handler && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="rounded-full h-7 text-xs ml-auto"
+                        onClick={() => updateErrorPolicy(link.id, { handler: [] })}
+                        title="Steps that receive the error and the failing payload"
+                    >
+                        + On-error steps
+                    </Button>
+                )}
+            </div>
+
+            {action === "fallback" && (
+                <Textarea
+                    value={policy?.fallbackOutput ?? ""}
+                    onChange={(e) =>
+                        updateErrorPolicy(link.id, {
+                            fallbackOutput: (e.target as HTMLTextAreaElement).value,
+                        })
+                    }
+                    placeholder="Output passed to the next step when this one fails"
+                    className="text-xs font-mono min-h-12"
+                />
+            )}
+
+            {handler && (
+                <div className="rounded-xl border border-destructive/30 p-3 flex flex-col gap-2">
+                    <div className="flex items-center gap-2">
+                        <p className="text-xs text-muted-foreground flex-1">
+                            On-error steps get <code>{"{ error, input, step }"}</code> as JSON.
+                            Their output replaces this step&apos;s; if they fail, the policy above
+                            applies.
+                        </p>
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 rounded-full shrink-0 text-destructive hover:bg-destructive/10"
+                            onClick={() => {
+                                if (window.confirm("Remove the on-error steps?")) {
+                                    updateErrorPolicy(link.id, { handler: undefined })
+                                }
+                            }}
+                            title="Remove on-error steps"
+                        >
+                            <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                    </div>
+                    {handler.length > 0 && <BranchLinkList links={handler} />}
+                    <div className="flex items-center gap-1">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="rounded-full h-7 text-xs text-source hover:text-source hover:bg-source/10"
+                            onClick={() => addLink("JT_MAP", { handlerOf: link.id })}
+                        >
+                            + Map
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="rounded-full h-7 text-xs text-secondary hover:text-secondary hover:bg-secondary/10"
+                            onClick={() => addLink("JT_SCRIPT", { handlerOf: link.id })}
+                        >
+                            + Script
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
+
 // ─── ChainLinkRow ──────────────────────────────────────────────────────────────
 
 interface ChainLinkRowProps {
@@ -144,9 +585,11 @@ interface ChainLinkRowProps {
     index: number
     isFirst: boolean
     isLast: boolean
+    /** Split nesting level — steps that run once per split item are indented. */
+    depth?: number
 }
 
-export function ChainLinkRow({ link, index, isFirst, isLast }: ChainLinkRowProps) {
+export function ChainLinkRow({ link, index, isFirst, isLast, depth = 0 }: ChainLinkRowProps) {
     const toggleLinkEnabled = useMapChainStore((s) => s.toggleLinkEnabled)
     const moveLink = useMapChainStore((s) => s.moveLink)
     const removeLink = useMapChainStore((s) => s.removeLink)
@@ -168,6 +611,7 @@ export function ChainLinkRow({ link, index, isFirst, isLast }: ChainLinkRowProps
                 transform: CSS.Transform.toString(transform),
                 transition,
                 opacity: isDragging ? 0.5 : 1,
+                marginLeft: depth > 0 ? `${depth * 1.5}rem` : undefined,
             }}
             className={cn(
                 "bg-glass-bg border border-glass-border rounded-xl p-4",
@@ -194,19 +638,15 @@ export function ChainLinkRow({ link, index, isFirst, isLast }: ChainLinkRowProps
                 <Badge
                     className={cn(
                         "rounded-full text-xs border",
-                        link.type === "JT_MAP"
-                            ? "bg-source/10 text-source border-source/20"
-                            : "bg-secondary/10 text-secondary border-secondary/20",
+                        LINK_TYPE_BADGE[link.type].className,
                     )}
                 >
-                    {link.type === "JT_MAP" ? "Map" : "Script"}
+                    {LINK_TYPE_BADGE[link.type].label}
                 </Badge>
 
                 {/* Link name */}
                 <span className="font-medium text-sm truncate flex-1">
-                    {link.type === "JT_MAP"
-                        ? (link.mapName ?? "Select a map...")
-                        : (link.scriptName ?? "Inline Script")}
+                    {linkDisplayName(link, "Select a map...")}
                 </span>
 
                 {/* Actions */}
@@ -259,6 +699,12 @@ export function ChainLinkRow({ link, index, isFirst, isLast }: ChainLinkRowProps
             {/* Content section */}
             {link.type === "JT_MAP" && <MapLinkContent link={link} />}
             {link.type === "JT_SCRIPT" && <ScriptLinkContent link={link} />}
+            {link.type === "ROUTER" && <RouterLinkContent link={link} />}
+            {link.type === "SPLIT" && <SplitLinkContent link={link} />}
+            {link.type === "AGGREGATE" && <AggregateLinkContent link={link} />}
+            {(link.type === "JT_MAP" || link.type === "JT_SCRIPT" || link.type === "ROUTER") && (
+                <ErrorPolicySection link={link} />
+            )}
         </div>
     )
 }
@@ -0,0 +1,311 @@
+import { useState } from "react"
+import MonacoEditor from "@monaco-editor/react"
+import { CheckCircle, History, Loader2, Play, RotateCcw, Trash2, XCircle } from "lucide-react"
+
+import { StepRow } from "./chain-execute-dialog"
+import type { ChainRun, ChainRunSummary, MapChainLink } from "@/lib/mapchain/types"
+import { findLinkById } from "@/lib/mapchain/link-utils"
+import { useMapChainStore } from "@/lib/mapchain/store"
+import {
+    deleteChainRun,
+    executeSavedChain,
+    listChainRuns,
+    loadChainRun,
+} from "@/lib/mapchain/runs.server"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ChainRunHistoryDialogProps {
+    open: boolean
+    onClose: () => void
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────────
+
+const readOnlyEditorOptions = {
+    readOnly: true,
+    minimap: { enabled: false },
+    fontSize: 12,
+    fontFamily: "Geist Mono Variable, monospace",
+    scrollBeyondLastLine: false,
+    wordWrap: "on" as const,
+    padding: { top: 8, bottom: 8 },
+}
+
+/** The link a recorded step belongs to; steps of since-removed links get a placeholder. */
+function linkForStep(links: Array<MapChainLink>, linkId: string): MapChainLink {
+    return (
+        findLinkById(links, linkId) ?? {
+            id: linkId,
+            type: "JT_SCRIPT",
+            name: "Removed step",
+            enabled: true,
+            scriptName: "Removed step",
+        }
+    )
+}
+
+// ─── Run list row ──────────────────────────────────────────────────────────────
+
+function RunRow({
+    run,
+    selected,
+    onSelect,
+}: {
+    run: ChainRunSummary
+    selected: boolean
+    onSelect: (id: string) => void
+}) {
+    return (
+        <button
+            type="button"
+            onClick={() => onSelect(run.id)}
+            className={cn(
+                "flex items-center gap-2.5 w-full text-left px-3 py-2 rounded-xl transition-colors",
+                selected ? "bg-primary/10" : "hover:bg-muted/20",
+            )}
+        >
+            {run.status === "done" ? (
+                <CheckCircle className="h-4 w-4 text-accent shrink-0" />
+            ) : (
+                <XCircle className="h-4 w-4 text-destructive shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{new Date(run.createdAt).toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                    {run.error ?? `Done in ${run.durationMs}ms`}
+                </p>
+            </div>
+        </button>
+    )
+}
+
+// ─── ChainRunHistoryDialog ─────────────────────────────────────────────────────
+
+export function ChainRunHistoryDialog({ open, onClose }: ChainRunHistoryDialogProps) {
+    const chain = useMapChainStore((s) => s.chain)
+    const currentChainId = useMapChainStore((s) => s.currentChainId)
+    const isDirty = useMapChainStore((s) => s.isDirty)
+
+    const [runs, setRuns] = useState<Array<ChainRunSummary>>([])
+    const [selectedRun, setSelectedRun] = useState<ChainRun | null>(null)
+    const [isLoadingList, setIsLoadingList] = useState(false)
+    const [isRunning, setIsRunning] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    async function fetchRuns(chainId: string) {
+        setIsLoadingList(true)
+        try {
+            setRuns(await listChainRuns({ data: { chainId } }))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load runs")
+            setRuns([])
+        } finally {
+            setIsLoadingList(false)
+        }
+    }
+
+    // Reload the history every time the dialog opens
+    function handleOpenChange(isOpen: boolean) {
+        if (isOpen) {
+            setSelectedRun(null)
+            setError(null)
+            if (currentChainId) void fetchRuns(currentChainId)
+        } else {
+            onClose()
+        }
+    }
+
+    async function handleSelect(id: string) {
+        setError(null)
+        try {
+            setSelectedRun(await loadChainRun({ data: { id } }))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load run")
+        }
+    }
+
+    async function handleRun(input?: string) {
+        if (!currentChainId) return
+        setIsRunning(true)
+        setError(null)
+        try {
+            const run = await executeSavedChain({ data: { chainId: currentChainId, input } })
+            setSelectedRun(run)
+            await fetchRuns(currentChainId)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to run chain")
+        } finally {
+            setIsRunning(false)
+        }
+    }
+
+    async function handleDelete(id: string) {
+        if (!currentChainId || !window.confirm("Delete this run?")) return
+        try {
+            await deleteChainRun({ data: { id } })
+            setSelectedRun(null)
+            await fetchRuns(currentChainId)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to delete run")
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent
+                className="w-[90vw] max-w-[90vw] h-[85vh] flex flex-col p-0 gap-0"
+                showClose={false}
+            >
+                {/* Header */}
+                <DialogHeader className="shrink-0 px-6 pt-5 pb-0 mb-0">
+                    <DialogTitle className="flex items-center gap-3">
+                        <History className="h-5 w-5 text-primary" />
+                        Run History
+                        {isDirty && currentChainId && (
+                            <span className="text-xs font-normal text-amber-400">
+                                Server runs use the last saved version of this chain
+                            </span>
+                        )}
+                    </DialogTitle>
+                </DialogHeader>
+
+                {error && (
+                    <div className="mx-6 mt-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg px-3 py-2">
+                        {error}
+                    </div>
+                )}
+
+                {!currentChainId ? (
+                    <p className="flex-1 px-6 py-4 text-sm text-muted-foreground">
+                        Save the chain to run it on the server and keep a history of its runs.
+                    </p>
+                ) : (
+                    <div className="flex flex-1 min-h-0 gap-0 px-6 py-4">
+                        {/* Left pane — runs */}
+                        <div className="flex flex-col w-72 shrink-0 gap-1 pr-4 border-r border-glass-border/50 overflow-y-auto">
+                            {isLoadingList ? (
+                                <div className="flex items-center justify-center py-6 text-muted-foreground gap-2">
+                                    <Loader2 className="h-5 w-5 animate-spin" />
+                                    <span className="text-sm">Loading runs…</span>
+                                </div>
+                            ) : runs.length === 0 ? (
+                                <p className="text-sm text-muted-foreground text-center py-6">
+                                    No runs yet.
+                                </p>
+                            ) : (
+                                runs.map((run) => (
+                                    <RunRow
+                                        key={run.id}
+                                        run={run}
+                                        selected={selectedRun?.id === run.id}
+                                        onSelect={handleSelect}
+                                    />
+                                ))
+                            )}
+                        </div>
+
+                        {/* Right pane — selected run */}
+                        {selectedRun ? (
+                            <div className="flex flex-1 min-w-0 gap-4 pl-4">
+                                <div className="flex flex-col w-[45%] min-w-0 gap-3">
+                                    {(["input", "output"] as const).map((field) => (
+                                        <div
+                                            key={field}
+                                            className="flex flex-col flex-1 min-h-0 gap-1.5"
+                                        >
+                                            <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground shrink-0">
+                                                {field}
+                                            </span>
+                                            <div className="flex-1 min-h-0 rounded-xl overflow-hidden border border-glass-border">
+                                                <MonacoEditor
+                                                    height="100%"
+                                                    theme="vs-dark"
+                                                    language="json"
+                                                    value={selectedRun[field] ?? ""}
+                                                    options={readOnlyEditorOptions}
+                                                />
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="flex flex-col flex-1 min-w-0 gap-2 overflow-y-auto">
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                            Steps ({selectedRun.steps.length}) ·{" "}
+                                            {selectedRun.durationMs}ms
+                                        </span>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="rounded-full gap-1.5 ml-auto"
+                                            onClick={() => handleRun(selectedRun.input)}
+                                            disabled={isRunning}
+                                            title="Run the saved chain again with this input"
+                                        >
+                                            <RotateCcw className="h-3.5 w-3.5" />
+                                            Re-run
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="rounded-full h-7 w-7 text-destructive hover:bg-destructive/10"
+                                            onClick={() => handleDelete(selectedRun.id)}
+                                            title="Delete run"
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </div>
+                                    {selectedRun.steps.map((step, index) => (
+                                        <StepRow
+                                            key={step.linkId}
+                                            link={linkForStep(chain.links, step.linkId)}
+                                            result={step}
+                                            index={index}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="flex-1 pl-4 text-sm text-muted-foreground">
+                                Select a run to inspect its input, steps and output.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {/* Footer */}
+                <DialogFooter className="shrink-0 border-t border-glass-border/50 px-6 py-4 mt-0">
+                    <div className="flex items-center gap-2 w-full">
+                        <Button
+                            className="rounded-full gap-1.5 text-accent-foreground bg-accent hover:bg-accent/90"
+                            onClick={() => handleRun()}
+                            disabled={!currentChainId || isRunning}
+                            title="Run the saved chain on the server with its test input"
+                        >
+                            {isRunning ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                                <Play className="h-4 w-4" />
+                            )}
+                            {isRunning ? "Running…" : "Run on server"}
+                        </Button>
+                        <Button variant="ghost" className="rounded-full ml-auto" onClick={onClose}>
+                            Close
+                        </Button>
+                    </div>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -3,16 +3,23 @@ import {
     Download,
     FilePlus2,
     FolderOpen,
+    GitBranch,
+    History,
     Link2,
     Loader2,
+    Merge,
     Play,
     Save,
     SaveAll,
     Search,
+    Split,
     Trash2,
 } from "lucide-react"
 
 import { ChainExecuteDialog } from "./chain-execute-dialog"
+import { ChainRunHistoryDialog } from "./chain-run-history"
+import type { ConflictChange } from "@/components/save-conflict-dialog"
+import { SaveConflictDialog } from "@/components/save-conflict-dialog"
 import { useMapChainStore } from "@/lib/mapchain/store"
 import { downloadAsJtchain, loadFromJtchainFile } from "@/lib/mapchain/persistence"
 import { listChains, saveChain, loadChain, deleteChain } from "@/lib/mapchain/persistence.server"
@@ -29,6 +36,7 @@ import { Input } from "@/components/ui/input"
 import { Separator } from "@/components/ui/separator"
 import { cn } from "@/lib/utils"
 import { isChainExecutable } from "@/lib/mapchain/chain-engine"
+import { diffChains, revertChainChanges } from "@/lib/mapchain/chain-merge"
 import type { MapChain } from "@/lib/mapchain/types"
 
 // ─── Types ─────────────────────────────────────────────────────────────────────
@@ -161,9 +169,9 @@ function ChainOpenDialog({ open, onClose }: ChainOpenDialogProps) {
         setLoadingChainId(entry.id)
         setOpenError(null)
         try {
-            const chainData = await loadChain({ data: { id: entry.id } })
+            const { chain: chainData, revision } = await loadChain({ data: { id: entry.id } })
             const chain = chainData as unknown as MapChain
-            loadChainToStore(chain, entry.name, entry.id)
+            loadChainToStore(chain, entry.name, entry.id, revision)
             onClose()
         } catch (err) {
             setOpenError(err instanceof Error ? err.message : "Failed to load chain")
@@ -345,7 +353,9 @@ function ChainSaveAsDialog({ open, onClose }: ChainSaveAsDialogProps) {
                     linkCount: chain.links.length,
                 },
             })
-            setCurrentChain(result.name, result.id)
+            // A new chain has no earlier revision to conflict with
+            if (result.status === "conflict") throw new Error("Chain was saved elsewhere")
+            setCurrentChain(result.name, result.id, result.revision)
             setDirty(false)
             onClose()
         } catch (err) {
@@ -395,6 +405,63 @@ function ChainSaveAsDialog({ open, onClose }: ChainSaveAsDialogProps) {
     )
 }
 
+// ─── ChainSaveConflictDialog ────────────────────────────────────────────────────
+
+/** The chain as currently stored, returned by saveChain when a save was stale. */
+interface ChainSaveConflict {
+    id: string
+    name: string
+    revision: number
+    updatedAt: string
+    chain: Record<string, unknown>
+}
+
+interface ChainSaveConflictDialogProps {
+    conflict: ChainSaveConflict | null
+    onSave: (chain: MapChain, revision: number) => Promise<void>
+    onClose: () => void
+}
+
+function ChainSaveConflictDialog({ conflict, onSave, onClose }: ChainSaveConflictDialogProps) {
+    const chain = useMapChainStore((s) => s.chain)
+    const loadChainToStore = useMapChainStore((s) => s.loadChain)
+
+    const theirs = () => conflict?.chain as unknown as MapChain
+
+    // Chains keep no saved history, so there is no base to tell whose change
+    // is whose — every difference starts out as yours
+    function loadChanges(): Promise<Array<ConflictChange>> {
+        const changes = diffChains(theirs(), chain).map((change) => ({
+            key: change.key,
+            kind: change.kind,
+            label: change.name,
+            local: true,
+        }))
+        return Promise.resolve(changes)
+    }
+
+    return (
+        <SaveConflictDialog
+            conflict={conflict}
+            resourceLabel="chain"
+            loadChanges={loadChanges}
+            onReload={() => {
+                if (!conflict) return
+                loadChainToStore(theirs(), conflict.name, conflict.id, conflict.revision)
+                onClose()
+            }}
+            onOverwrite={async () => {
+                if (conflict) await onSave(chain, conflict.revision)
+            }}
+            onMerge={async (takeTheirs) => {
+                if (!conflict) return
+                await onSave(revertChainChanges(chain, theirs(), takeTheirs), conflict.revision)
+            }}
+            onClose={onClose}
+        />
+    )
+}
+
 // ─── ChainToolbar ──────────────────────────────────────────────────────────────
 
 export function ChainToolbar() {
@@ -403,6 +470,8 @@ export function ChainToolbar() {
     const isSaving = useMapChainStore((s) => s.isSaving)
     const currentChainName = useMapChainStore((s) => s.currentChainName)
     const currentChainId = useMapChainStore((s) => s.currentChainId)
+    const currentChainRevision = useMapChainStore((s) => s.currentChainRevision)
+    const loadChainToStore = useMapChainStore((s) => s.loadChain)
     const addLink = useMapChainStore((s) => s.addLink)
     const resetChain = useMapChainStore((s) => s.resetChain)
     const setDirty = useMapChainStore((s) => s.setDirty)
@@ -413,6 +482,8 @@ export function ChainToolbar() {
     const [openDialogOpen, setOpenDialogOpen] = useState(false)
     const [saveAsOpen, setSaveAsOpen] = useState(false)
     const [executeOpen, setExecuteOpen] = useState(false)
+    const [historyOpen, setHistoryOpen] = useState(false)
+    const [conflict, setConflict] = useState<ChainSaveConflict | null>(null)
 
     const executable = isChainExecutable(chain.links)
 
@@ -421,6 +492,29 @@ export function ChainToolbar() {
         resetChain()
     }
 
+    /** Save `next` over the current chain at `revision`; a stale save opens the conflict dialog. */
+    async function saveToServer(next: MapChain, revision: number | null) {
+        if (!currentChainId || !currentChainName) return
+        const result = await saveChain({
+            data: {
+                id: currentChainId,
+                revision: revision ?? undefined,
+                name: currentChainName,
+                chain: next as unknown as Record<string, unknown>,
+                linkCount: next.links.length,
+            },
+        })
+        if (result.status === "conflict") {
+            setConflict(result)
+            return
+        }
+        // A merge saves a chain the editor does not hold yet
+        if (next !== chain) loadChainToStore(next, result.name, result.id, result.revision)
+        setCurrentChain(result.name, result.id, result.revision)
+        setDirty(false)
+        setConflict(null)
+    }
+
     async function handleSave() {
         if (!currentChainId || !currentChainName) {
             setSaveAsOpen(true)
@@ -429,16 +523,7 @@ export function ChainToolbar() {
         setSaving(true)
         setSaveError(null)
         try {
-            const result = await saveChain({
-                data: {
-                    id: currentChainId,
-                    name: currentChainName,
-                    chain: chain as unknown as Record<string, unknown>,
-                    linkCount: chain.links.length,
-                },
-            })
-            setCurrentChain(result.name, result.id)
-            setDirty(false)
+            await saveToServer(chain, currentChainRevision)
         } catch (err) {
             const message = err instanceof Error ? err.message : "Failed to save."
             setSaveError(message)
@@ -509,6 +594,11 @@ export function ChainToolbar() {
             {/* Dialogs */}
             <ChainOpenDialog open={openDialogOpen} onClose={() => setOpenDialogOpen(false)} />
             <ChainSaveAsDialog open={saveAsOpen} onClose={() => setSaveAsOpen(false)} />
+            <ChainSaveConflictDialog
+                conflict={conflict}
+                onSave={saveToServer}
+                onClose={() => setConflict(null)}
+            />
 
             <Separator orientation="vertical" className="h-5 mx-1" />
 
@@ -533,6 +623,36 @@ export function ChainToolbar() {
                 <span className="text-sm font-mono leading-none">{"{}"}</span>
                 <span className="hidden sm:inline">+ Add Script</span>
             </Button>
+            <Button
+                variant="ghost"
+                size="sm"
+                className="rounded-full gap-1.5 text-primary hover:text-primary hover:bg-primary/10"
+                onClick={() => addLink("ROUTER")}
+                title="Add Router step"
+            >
+                <GitBranch className="h-4 w-4" />
+                <span className="hidden sm:inline">+ Add Router</span>
+            </Button>
+            <Button
+                variant="ghost"
+                size="sm"
+                className="rounded-full gap-1.5 text-accent hover:text-accent hover:bg-accent/10"
+                onClick={() => addLink("SPLIT")}
+                title="Add Split step — following steps run once per element"
+            >
+                <Split className="h-4 w-4" />
+                <span className="hidden sm:inline">+ Add Split</span>
+            </Button>
+            <Button
+                variant="ghost"
+                size="sm"
+                className="rounded-full gap-1.5 text-accent hover:text-accent hover:bg-accent/10"
+                onClick={() => addLink("AGGREGATE")}
+                title="Add Aggregate step — reassembles the split results"
+            >
+                <Merge className="h-4 w-4" />
+                <span className="hidden sm:inline">+ Add Aggregate</span>
+            </Button>
 
             <Separator orientation="vertical" className="h-5 mx-1" />
 
@@ -549,7 +669,19 @@ export function ChainToolbar() {
                 <span className="hidden sm:inline">Execute</span>
             </Button>
 
+            <Button
+                variant="ghost"
+                size="sm"
+                className="rounded-full gap-1.5"
+                onClick={() => setHistoryOpen(true)}
+                title="Server runs of this chain"
+            >
+                <History className="h-4 w-4" />
+                <span className="hidden sm:inline">History</span>
+            </Button>
+
             <ChainExecuteDialog open={executeOpen} onClose={() => setExecuteOpen(false)} />
+            <ChainRunHistoryDialog open={historyOpen} onClose={() => setHistoryOpen(false)} />
 
             {/* Resource name + dirty indicator */}
             <div className="flex items-center gap-1.5 ml-auto">
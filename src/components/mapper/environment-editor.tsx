@@ -1,10 +1,15 @@
-import { useState } from "react"
-import { Plus, Trash2, ChevronRight } from "lucide-react"
+import { Fragment, useEffect, useRef, useState } from "react"
+import { Plus, Trash2, ChevronRight, Library } from "lucide-react"
 import { v4 as uuidv4 } from "uuid"
+import type { SharedFunctionSummary, SharedLookupTableSummary } from "@/lib/mapper/shared-library"
+import type { EnvironmentOrigin } from "@/lib/mapper/source-map"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select"
+import { libraryTableNames } from "@/lib/mapper/shared-library"
+import { listSharedFunctions, listSharedLookupTables } from "@/lib/mapper/shared-library.server"
 import { useMapperStore, useMapperContext, useScriptLanguage } from "@/lib/mapper/store"
 import type {
     GlobalVariable,
@@ -45,6 +50,37 @@ function Checkbox({ checked, onChange }: { checked: boolean; onChange: (v: boole
     )
 }
 
+// ─── Error focus ────────────────────────────────────────────────────────────────
+
+/** Selects a 1-based line of a textarea and scrolls it into view. */
+function selectTextareaLine(el: HTMLTextAreaElement, line: number) {
+    const lines = el.value.split("\n")
+    const index = Math.min(Math.max(line, 1), lines.length) - 1
+    const start = lines.slice(0, index).reduce((sum, l) => sum + l.length + 1, 0)
+    el.scrollIntoView({ block: "center" })
+    el.focus()
+    el.setSelectionRange(start, start + lines[index].length)
+}
+
+/**
+ * Ref for a prolog / epilog / function textarea. When the execute dialog
+ * jumps to an error in that code, the line is selected and the focus cleared.
+ */
+function useFocusedLine(kind: EnvironmentOrigin["kind"], functionId?: string) {
+    const ref = useRef<HTMLTextAreaElement>(null)
+    const focus = useMapperStore((s) => s.environmentFocus)
+    const focusScriptOrigin = useMapperStore((s) => s.focusScriptOrigin)
+
+    useEffect(() => {
+        if (!focus || !ref.current || focus.kind !== kind) return
+        if (focus.kind === "function" && focus.functionId !== functionId) return
+        selectTextareaLine(ref.current, focus.line)
+        focusScriptOrigin(null)
+    }, [focus, kind, functionId, focusScriptOrigin])
+
+    return ref
+}
+
 // ─── Section wrapper ────────────────────────────────────────────────────────────
 
 function Section({
@@ -154,7 +190,40 @@ function GlobalVariablesSection() {
 
 // ─── Lookup Tables ────────────────────────────────────────────────────────────────
 
-function LookupTableRow({ table }: { table: LookupTable }) {
+/** Entries of a linked table, read-only — they are edited in the shared library. */
+function LibraryEntries({ entries }: { entries: Array<LookupEntry> | null | undefined }) {
+    if (entries === undefined) {
+        return <p className="text-xs text-muted-foreground text-center py-1">Loading…</p>
+    }
+    if (entries === null) {
+        return (
+            <p className="text-xs text-destructive text-center py-1">
+                Not in the shared library — the script gets an empty table
+            </p>
+        )
+    }
+    if (entries.length === 0) {
+        return <p className="text-xs text-muted-foreground text-center py-1">No entries</p>
+    }
+    return (
+        <div className="grid grid-cols-2 gap-x-2 gap-y-0.5 px-1 text-xs font-mono">
+            {entries.map((entry) => (
+                <Fragment key={entry.id}>
+                    <span className="truncate">{entry.key}</span>
+                    <span className="truncate text-muted-foreground">{entry.value}</span>
+                </Fragment>
+            ))}
+        </div>
+    )
+}
+
+function LookupTableRow({
+    table,
+    libraryEntries,
+}: {
+    table: LookupTable
+    libraryEntries?: Array<LookupEntry> | null // Linked tables: the library's entries, null when missing
+}) {
     const [expanded, setExpanded] = useState(false)
     const updateLookupTable = useMapperStore((s) => s.updateLookupTable)
     const removeLookupTable = useMapperStore((s) => s.removeLookupTable)
@@ -192,18 +261,28 @@ function LookupTableRow({ table }: { table: LookupTable }) {
                     placeholder="tableName"
                     className="h-7 text-xs font-mono rounded-full flex-1"
                 />
-                <Button
-                    variant="outline"
-                    size="xs"
-                    className="rounded-full shrink-0"
-                    onClick={(e) => {
-                        e.stopPropagation()
-                        handleAddEntry()
-                    }}
-                >
-                    <Plus className="h-3 w-3 mr-1" />
-                    Entry
-                </Button>
+                {table.libraryTable ? (
+                    <span
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-primary/10 text-primary shrink-0"
+                        title="Linked to the shared library — entries are inlined when the script is generated"
+                    >
+                        <Library className="h-3 w-3" />
+                        {table.libraryTable}
+                    </span>
+                ) : (
+                    <Button
+                        variant="outline"
+                        size="xs"
+                        className="rounded-full shrink-0"
+                        onClick={(e) => {
+                            e.stopPropagation()
+                            handleAddEntry()
+                        }}
+                    >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Entry
+                    </Button>
+                )}
                 <Button
                     variant="ghost"
                     size="icon-sm"
@@ -216,7 +295,12 @@ function LookupTableRow({ table }: { table: LookupTable }) {
                     <Trash2 className="h-3.5 w-3.5" />
                 </Button>
             </div>
-            {expanded && (
+            {expanded && table.libraryTable && (
+                <div className="p-2 bg-muted/10">
+                    <LibraryEntries entries={libraryEntries} />
+                </div>
+            )}
+            {expanded && !table.libraryTable && (
                 <div className="p-2 space-y-1 bg-muted/10">
                     {table.entries.length === 0 && (
                         <p className="text-xs text-muted-foreground text-center py-1">No entries</p>
@@ -272,6 +356,18 @@ function LookupTableRow({ table }: { table: LookupTable }) {
 function LookupTablesSection() {
     const ctx = useMapperContext()
     const addLookupTable = useMapperStore((s) => s.addLookupTable)
+    // The workspace's shared library — null until loaded
+    const [library, setLibrary] = useState<Array<SharedLookupTableSummary> | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        listSharedLookupTables()
+            .then((tables) => !cancelled && setLibrary(tables))
+            .catch(() => !cancelled && setLibrary([]))
+        return () => {
+            cancelled = true
+        }
+    }, [])
 
     const handleAdd = () => {
         const table: LookupTable = {
@@ -282,23 +378,143 @@ function LookupTablesSection() {
         addLookupTable(table)
     }
 
+    const handleLink = (libraryTable: string) => {
+        addLookupTable({ id: uuidv4(), name: libraryTable, entries: [], libraryTable })
+    }
+
+    const libraryEntries = (table: LookupTable) => {
+        if (!library) return undefined
+        return library.find((t) => t.name === table.libraryTable)?.entries ?? null
+    }
+
+    const linked = new Set(libraryTableNames(ctx))
+    const linkable = (library ?? []).filter((t) => !linked.has(t.name))
+
     return (
         <Section title="Lookup Tables" onAdd={handleAdd} addLabel="Add Table">
             {ctx.lookupTables.length === 0 && (
                 <p className="text-xs text-muted-foreground text-center py-2">No lookup tables</p>
             )}
             {ctx.lookupTables.map((table) => (
-                <LookupTableRow key={table.id} table={table} />
+                <LookupTableRow
+                    key={table.id}
+                    table={table}
+                    libraryEntries={table.libraryTable ? libraryEntries(table) : undefined}
+                />
             ))}
+            {linkable.length > 0 && (
+                <Select value="" onValueChange={(v: string | null) => v && handleLink(v)}>
+                    <SelectTrigger size="sm" className="w-full rounded-full text-xs">
+                        <span className="flex items-center gap-1.5 text-muted-foreground">
+                            <Library className="h-3.5 w-3.5" />
+                            Link a shared library table…
+                        </span>
+                    </SelectTrigger>
+                    <SelectContent>
+                        {linkable.map((t) => (
+                            <SelectItem key={t.id} value={t.name}>
+                                {t.name}
+                                <span className="text-muted-foreground">
+                                    {t.entries.length} entries
+                                </span>
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
         </Section>
     )
 }
 
 // ─── Functions ────────────────────────────────────────────────────────────────────
 
+/** An imported library function — its body is read-only, only the pinned version changes. */
+function LibraryFunctionRow({
+    fn,
+    libraryFunction,
+}: {
+    fn: TransformFunction
+    libraryFunction?: SharedFunctionSummary | null // undefined while loading, null when missing
+}) {
+    const updateFunction = useMapperStore((s) => s.updateFunction)
+    const removeFunction = useMapperStore((s) => s.removeFunction)
+    const version = fn.libraryVersion ?? libraryFunction?.latestVersion
+    const body = libraryFunction?.versions.find((v) => v.version === version)?.body
+
+    return (
+        <div className="rounded-lg border border-glass-border overflow-hidden">
+            <div className="flex items-center gap-2 px-3 py-2 bg-muted/20">
+                <span className="text-xs font-mono text-muted-foreground flex-1 truncate">
+                    {fn.libraryFunction}
+                </span>
+                <span
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-primary/10 text-primary shrink-0"
+                    title="Imported from the shared library — the body is inlined when the script is generated"
+                >
+                    <Library className="h-3 w-3" />
+                    Library
+                </span>
+                {libraryFunction && (
+                    <Select
+                        value={fn.libraryVersion ? String(fn.libraryVersion) : "latest"}
+                        onValueChange={(v: string | null) =>
+                            updateFunction(fn.id, {
+                                libraryVersion: v && v !== "latest" ? Number(v) : undefined,
+                            })
+                        }
+                    >
+                        <SelectTrigger size="sm" className="h-7 rounded-full text-xs w-28 shrink-0">
+                            {fn.libraryVersion
+                                ? `v${fn.libraryVersion}`
+                                : `Latest (v${libraryFunction.latestVersion})`}
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="latest">
+                                Latest (v{libraryFunction.latestVersion})
+                            </SelectItem>
+                            {libraryFunction.versions.map((v) => (
+                                <SelectItem key={v.version} value={String(v.version)}>
+                                    v{v.version}
+                                    {v.message && (
+                                        <span className="text-muted-foreground truncate">
+                                            {v.message}
+                                        </span>
+                                    )}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+                <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="rounded-full h-7 w-7 text-muted-foreground hover:text-destructive shrink-0"
+                    onClick={() => removeFunction(fn.id)}
+                >
+                    <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+            {libraryFunction === undefined && (
+                <p className="text-xs text-muted-foreground text-center py-2">Loading…</p>
+            )}
+            {libraryFunction !== undefined && body === undefined && (
+                <p className="text-xs text-destructive text-center py-2">
+                    Not in the shared library — the script leaves the function out
+                </p>
+            )}
+            {body !== undefined && (
+                <pre className="text-xs font-mono px-3 py-2 border-t border-glass-border bg-muted/10 overflow-x-auto whitespace-pre">
+                    {body}
+                </pre>
+            )}
+        </div>
+    )
+}
+
 function FunctionRow({ fn, isGroovy }: { fn: TransformFunction; isGroovy: boolean }) {
     const updateFunction = useMapperStore((s) => s.updateFunction)
     const removeFunction = useMapperStore((s) => s.removeFunction)
+    const bodyRef = useFocusedLine("function", fn.id)
 
     return (
         <div className="rounded-lg border border-glass-border overflow-hidden">
@@ -316,6 +532,7 @@ function FunctionRow({ fn, isGroovy }: { fn: TransformFunction; isGroovy: boolea
                 </Button>
             </div>
             <Textarea
+                ref={bodyRef}
                 value={fn.body}
                 onChange={(e) => updateFunction(fn.id, { body: e.target.value })}
                 placeholder={
@@ -335,6 +552,18 @@ function FunctionsSection() {
     const addFunction = useMapperStore((s) => s.addFunction)
     const scriptLanguage = useScriptLanguage()
     const isGroovy = scriptLanguage === "groovy"
+    // The workspace's library functions — null until loaded
+    const [library, setLibrary] = useState<Array<SharedFunctionSummary> | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        listSharedFunctions()
+            .then((fns) => !cancelled && setLibrary(fns))
+            .catch(() => !cancelled && setLibrary([]))
+        return () => {
+            cancelled = true
+        }
+    }, [])
 
     const handleAdd = () => {
         const fn: TransformFunction = {
@@ -347,14 +576,50 @@ function FunctionsSection() {
         addFunction(fn)
     }
 
+    const handleImport = (name: string) => {
+        addFunction({ id: uuidv4(), name, body: "", libraryFunction: name })
+    }
+
+    // Only functions in the map's script language resolve
+    const available = (library ?? []).filter((f) => f.language === scriptLanguage)
+    const libraryFunction = (fn: TransformFunction) => {
+        if (!library) return undefined
+        return available.find((f) => f.name === fn.libraryFunction) ?? null
+    }
+
+    const imported = new Set(ctx.functions.map((f) => f.libraryFunction))
+    const importable = available.filter((f) => !imported.has(f.name))
+
     return (
         <Section title="Functions" onAdd={handleAdd} addLabel="Add Function">
             {ctx.functions.length === 0 && (
                 <p className="text-xs text-muted-foreground text-center py-2">No functions</p>
             )}
-            {ctx.functions.map((fn) => (
-                <FunctionRow key={fn.id} fn={fn} isGroovy={isGroovy} />
-            ))}
+            {ctx.functions.map((fn) =>
+                fn.libraryFunction ? (
+                    <LibraryFunctionRow key={fn.id} fn={fn} libraryFunction={libraryFunction(fn)} />
+                ) : (
+                    <FunctionRow key={fn.id} fn={fn} isGroovy={isGroovy} />
+                ),
+            )}
+            {importable.length > 0 && (
+                <Select value="" onValueChange={(v: string | null) => v && handleImport(v)}>
+                    <SelectTrigger size="sm" className="w-full rounded-full text-xs">
+                        <span className="flex items-center gap-1.5 text-muted-foreground">
+                            <Library className="h-3.5 w-3.5" />
+                            Import a shared library function…
+                        </span>
+                    </SelectTrigger>
+                    <SelectContent>
+                        {importable.map((f) => (
+                            <SelectItem key={f.id} value={f.name}>
+                                {f.name}
+                                <span className="text-muted-foreground">v{f.latestVersion}</span>
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
         </Section>
     )
 }
@@ -365,6 +630,8 @@ function ScriptsSection() {
     const ctx = useMapperContext()
     const setPrologScript = useMapperStore((s) => s.setPrologScript)
     const setEpilogScript = useMapperStore((s) => s.setEpilogScript)
+    const prologRef = useFocusedLine("prolog")
+    const epilogRef = useFocusedLine("epilog")
     const scriptLanguage = useScriptLanguage()
     const isGroovy = scriptLanguage === "groovy"
 
@@ -378,6 +645,7 @@ function ScriptsSection() {
                     </p>
                 </div>
                 <Textarea
+                    ref={prologRef}
                     value={ctx.prologScript ?? ""}
                     onChange={(e) => setPrologScript(e.target.value || null)}
                     placeholder={
@@ -398,6 +666,7 @@ function ScriptsSection() {
                     </p>
                 </div>
                 <Textarea
+                    ref={epilogRef}
                     value={ctx.epilogScript ?? ""}
                     onChange={(e) => setEpilogScript(e.target.value || null)}
                     placeholder={
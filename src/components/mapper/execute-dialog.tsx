@@ -7,13 +7,22 @@ import {
     ChevronDown,
     Coffee,
     FileCode,
+    Footprints,
+    GitCompare,
+    ListChecks,
     Loader2,
+    MapPin,
     Play,
     RotateCcw,
+    Square,
     Terminal,
 } from "lucide-react"
+import { TraceTimeline } from "./trace-timeline"
 
-import type { TemplateType } from "@/lib/mapper/engine"
+import type { DataFormat, TemplateType, ValidationIssue } from "@/lib/mapper/engine"
+import type { EngineComparison, EngineDiff, EngineRun } from "@/lib/mapper/engine-compare"
+import type { GeneratedScript, ScriptOrigin, ScriptSourceMap } from "@/lib/mapper/source-map"
+import type { ExecutionTrace } from "@/lib/mapper/trace"
 import type { MapperState } from "@/lib/mapper/types"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -31,22 +40,39 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select"
-import { detectTemplateType, executeScript, generateScript } from "@/lib/mapper/engine"
-import { generateGroovyScript } from "@/lib/mapper/groovy-engine"
+import {
+    detectTemplateType,
+    generateScriptWithSourceMap,
+    needsGroovyShims,
+} from "@/lib/mapper/engine"
+import { compareEngineRuns, generateEngineScripts } from "@/lib/mapper/engine-compare"
+import { generateGroovyScriptWithSourceMap } from "@/lib/mapper/groovy-engine"
 import { checkGroovySidecar, executeGroovyScript } from "@/lib/mapper/groovy-executor.server"
+import { getPlatformData } from "@/lib/mapper/platform-data.server"
+import { executeScriptIsolated } from "@/lib/mapper/script-executor"
+import { fetchSharedLibrary } from "@/lib/mapper/shared-library.server"
+import { describeScriptOrigin, groovyErrorLine, resolveScriptLine } from "@/lib/mapper/source-map"
 import { useMapperStore, useScriptLanguage } from "@/lib/mapper/store"
 import { treeToSample } from "@/lib/mapper/tree-to-sample"
 import { cn } from "@/lib/utils"
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type StatusType = "idle" | "running" | "success" | "error"
+type StatusType = "idle" | "running" | "success" | "warning" | "error"
 
 interface Status {
     type: StatusType
     message: string
 }
 
+/** Both runs of a "Compare engines" run, with the comparison of their outputs. */
+interface EngineCompareResult {
+    js: EngineRun
+    groovy: EngineRun
+    comparison: EngineComparison
+    transpileWarnings: number
+}
+
 export interface ExecuteDialogProps {
     open: boolean
     onClose: () => void
@@ -62,14 +88,21 @@ function resolveTemplateType(state: MapperState): TemplateType {
     }
 }
 
-function srcLang(type: TemplateType): "json" | "xml" {
-    return type.startsWith("xml") ? "xml" : "json"
+function srcLang(type: TemplateType): DataFormat {
+    return type.split("_to_")[0] as DataFormat
+}
+
+function tgtLang(type: TemplateType): DataFormat {
+    return type.split("_to_")[1] as DataFormat
 }
 
-function tgtLang(type: TemplateType): "json" | "xml" {
-    return type.endsWith("xml") ? "xml" : "json"
+/** Monaco has no CSV mode — show it as plain text. */
+function editorLanguage(format: DataFormat): string {
+    return format === "csv" ? "plaintext" : format
 }
 
+const DATA_FORMATS: Array<DataFormat> = ["json", "xml", "csv"]
+
 // ─── Sub-components ───────────────────────────────────────────────────────────
 
 function StatusLabel({ status }: { status: Status }) {
@@ -77,6 +110,7 @@ function StatusLabel({ status }: { status: Status }) {
         idle: "text-muted-foreground",
         running: "text-primary animate-pulse",
         success: "text-accent",
+        warning: "text-amber-400",
         error: "text-destructive",
     }
     return <span className={cn("text-sm font-medium", colors[status.type])}>{status.message}</span>
@@ -94,15 +128,72 @@ function TypeSelector({ value, onChange }: TypeSelectorProps) {
                 <SelectValue />
             </SelectTrigger>
             <SelectContent>
-                <SelectItem value="json_to_json">JSON → JSON</SelectItem>
-                <SelectItem value="xml_to_json">XML → JSON</SelectItem>
-                <SelectItem value="json_to_xml">JSON → XML</SelectItem>
-                <SelectItem value="xml_to_xml">XML → XML</SelectItem>
+                {DATA_FORMATS.flatMap((src) =>
+                    DATA_FORMATS.map((tgt) => (
+                        <SelectItem key={`${src}_to_${tgt}`} value={`${src}_to_${tgt}`}>
+                            {src.toUpperCase()} → {tgt.toUpperCase()}
+                        </SelectItem>
+                    )),
+                )}
             </SelectContent>
         </Select>
     )
 }
 
+interface ValidationPanelProps {
+    issues: Array<ValidationIssue>
+    expanded: boolean
+    onToggle: () => void
+    onSelect: (issue: ValidationIssue) => void
+}
+
+/** Collapsible list of validation issues — clicking one jumps to its target node. */
+function ValidationPanel({ issues, expanded, onToggle, onSelect }: ValidationPanelProps) {
+    return (
+        <div className="shrink-0 border-b border-glass-border bg-amber-400/5">
+            <button
+                type="button"
+                className="flex items-center gap-2 w-full px-3 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                onClick={onToggle}
+            >
+                <AlertTriangle className="h-3 w-3 text-amber-400 shrink-0" />
+                <span className="font-medium text-amber-400">Validation</span>
+                <span className="ml-1 text-muted-foreground/60">
+                    ({issues.length} {issues.length === 1 ? "issue" : "issues"})
+                </span>
+                <ChevronDown
+                    className={cn(
+                        "h-3 w-3 ml-auto transition-transform duration-150",
+                        expanded && "rotate-180",
+                    )}
+                />
+            </button>
+            {expanded && (
+                <div className="max-h-36 overflow-y-auto px-1.5 pb-2 flex flex-col gap-0.5">
+                    {issues.map((issue, i) => (
+                        <button
+                            key={i}
+                            type="button"
+                            className="flex items-baseline gap-2 w-full rounded-md px-1.5 py-0.5 text-left text-[11px] hover:bg-muted/40 transition-colors"
+                            onClick={() => onSelect(issue)}
+                            title="Select this node in the target tree"
+                        >
+                            <Badge
+                                variant="outline"
+                                className="text-[10px] px-1.5 py-0 rounded-full border-amber-400/30 text-amber-400 shrink-0"
+                            >
+                                {issue.kind}
+                            </Badge>
+                            <span className="font-mono text-target shrink-0">{issue.path}</span>
+                            <span className="text-foreground/80 break-all">{issue.message}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
 interface PaneHeaderProps {
     label: string
     type: string
@@ -180,6 +271,87 @@ function ScriptPaneHeader({ visible, isModified, onToggle, onReset }: ScriptPane
     )
 }
 
+const DIFF_KIND_LABELS: Record<EngineDiff["kind"], string> = {
+    "js-only": "JS only",
+    "groovy-only": "Groovy only",
+    changed: "changed",
+    type: "type",
+}
+
+function formatDiffValue(value: unknown): string {
+    if (value === undefined) return "—"
+    const text = JSON.stringify(value)
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+interface EngineDiffListProps {
+    result: EngineCompareResult
+}
+
+/** Every path where the engines disagree, JavaScript value on the left and Groovy on the right. */
+function EngineDiffList({ result }: EngineDiffListProps) {
+    const { comparison, transpileWarnings } = result
+    return (
+        <div className="shrink-0 border-b border-glass-border">
+            {(comparison.note || transpileWarnings > 0) && (
+                <div className="px-3 py-1.5 flex flex-col gap-0.5 text-[11px] text-amber-400 bg-amber-400/5">
+                    {comparison.note && <span>{comparison.note}</span>}
+                    {transpileWarnings > 0 && (
+                        <span>
+                            {transpileWarnings} Groovy → JavaScript transpile{" "}
+                            {transpileWarnings === 1 ? "warning" : "warnings"} — differences may
+                            come from the translation
+                        </span>
+                    )}
+                </div>
+            )}
+            {comparison.diffs.length === 0 ? (
+                comparison.status === "same" && (
+                    <div className="px-3 py-2 text-xs text-accent">
+                        Both engines produced the same output
+                    </div>
+                )
+            ) : (
+                <div className="max-h-48 overflow-y-auto px-1.5 py-1.5 flex flex-col gap-0.5">
+                    {comparison.diffs.map((diff, i) => (
+                        <div
+                            key={i}
+                            className="grid grid-cols-[auto_minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)] items-baseline gap-2 rounded-md px-1.5 py-0.5 text-[11px]"
+                        >
+                            <Badge
+                                variant="outline"
+                                className={cn(
+                                    "text-[10px] px-1.5 py-0 rounded-full shrink-0",
+                                    diff.kind === "type"
+                                        ? "border-destructive/30 text-destructive"
+                                        : "border-amber-400/30 text-amber-400",
+                                )}
+                            >
+                                {DIFF_KIND_LABELS[diff.kind]}
+                            </Badge>
+                            <span className="font-mono text-target truncate" title={diff.path}>
+                                {diff.path || "(root)"}
+                            </span>
+                            <span className="font-mono text-foreground/80 truncate">
+                                {formatDiffValue(diff.js)}
+                                {diff.kind === "type" && (
+                                    <span className="text-destructive"> ({diff.jsType})</span>
+                                )}
+                            </span>
+                            <span className="font-mono text-foreground/80 truncate">
+                                {formatDiffValue(diff.groovy)}
+                                {diff.kind === "type" && (
+                                    <span className="text-destructive"> ({diff.groovyType})</span>
+                                )}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
 // ─── Monaco options ───────────────────────────────────────────────────────────
 
 const MONACO_FONT = "Geist Mono Variable, monospace"
@@ -203,22 +375,40 @@ const readonlyEditorOptions = {
 
 export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
     const state = useMapperStore((s) => s.mapperState)
+    const selectTargetNode = useMapperStore((s) => s.selectTargetNode)
+    const setCoverage = useMapperStore((s) => s.setCoverage)
+    const focusScriptOrigin = useMapperStore((s) => s.focusScriptOrigin)
     const scriptLanguage = useScriptLanguage()
 
     const [templateType, setTemplateType] = useState<TemplateType>(() => resolveTemplateType(state))
     const [inputText, setInputText] = useState(() => {
         if (state.sourceOriginalContent) return state.sourceOriginalContent
-        const lang = resolveTemplateType(state).startsWith("xml") ? "xml" : "json"
-        return treeToSample(state.sourceTreeNode, lang)
+        const lang = srcLang(resolveTemplateType(state))
+        return treeToSample(state.sourceTreeNode, lang, state.sourceCsvOptions)
     })
     const [scriptText, setScriptText] = useState("")
     const [isScriptModified, setIsScriptModified] = useState(false)
+    const [sourceMap, setSourceMap] = useState<ScriptSourceMap | null>(null) // Of the generated script
+    const [errorOrigin, setErrorOrigin] = useState<ScriptOrigin | null>(null)
     const [outputText, setOutputText] = useState("")
     const [consoleLogs, setConsoleLogs] = useState<string[]>([])
     const [consoleExpanded, setConsoleExpanded] = useState(false)
+    const [validationIssues, setValidationIssues] = useState<Array<ValidationIssue>>([])
+    const [validationExpanded, setValidationExpanded] = useState(true)
     const [scriptPaneVisible, setScriptPaneVisible] = useState(false)
     const [isRunning, setIsRunning] = useState(false)
+    const [compareMode, setCompareMode] = useState(false)
+    const [recordCoverage, setRecordCoverage] = useState(false)
+    const [recordTrace, setRecordTrace] = useState(false)
+    const [trace, setTrace] = useState<ExecutionTrace | null>(null)
+    const [compareResult, setCompareResult] = useState<EngineCompareResult | null>(null)
     const [status, setStatus] = useState<Status>({ type: "idle", message: "Ready" })
+    const abortRef = useRef<AbortController | null>(null)
+
+    // Closing the dialog cancels a JavaScript run still in progress
+    useEffect(() => {
+        if (!open) abortRef.current?.abort()
+    }, [open])
 
     // Re-detect template type when state changes (e.g. different model loaded)
     const prevStateRef = useRef(state)
@@ -226,6 +416,7 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
         if (state !== prevStateRef.current) {
             // Invalidate cached script when mapper state changes
             setScriptText("")
+            setSourceMap(null)
             setIsScriptModified(false)
             prevStateRef.current = state
         }
@@ -239,8 +430,8 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
             if (sourceOriginalContent) {
                 setInputText(sourceOriginalContent)
             } else {
-                const lang = templateType.startsWith("xml") ? "xml" : "json"
-                const sample = treeToSample(sourceTreeNode, lang)
+                const lang = srcLang(templateType)
+                const sample = treeToSample(sourceTreeNode, lang, state.sourceCsvOptions)
                 setInputText(sample)
             }
         }
@@ -255,7 +446,6 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
 
     const inputLang = srcLang(templateType)
     const outputLang = tgtLang(templateType)
-    const [srcType, tgtType] = templateType.split("_to_") as ["json" | "xml", "json" | "xml"]
 
     const hasSourceTree = !!state.sourceTreeNode
     const hasTargetTree = !!state.targetTreeNode
@@ -264,18 +454,21 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
     const isGroovy = scriptLanguage === "groovy"
     const scriptEditorLanguage = isGroovy ? "groovy" : "javascript"
 
-    function doGenerateScript(): string {
-        if (isGroovy) {
-            return generateGroovyScript(state, srcType, tgtType)
-        }
-        return generateScript(state, srcType, tgtType)
+    /** Generates the script with the current version of the library tables the map links. */
+    async function doGenerateScript(): Promise<GeneratedScript> {
+        const library = await fetchSharedLibrary(state)
+        const generated = isGroovy
+            ? generateGroovyScriptWithSourceMap(state, inputLang, outputLang, { library })
+            : generateScriptWithSourceMap(state, inputLang, outputLang, { library })
+        setScriptText(generated.script)
+        setSourceMap(generated.sourceMap)
+        setIsScriptModified(false)
+        return generated
     }
 
-    function handleGenerateScript() {
+    async function handleGenerateScript() {
         try {
-            const script = doGenerateScript()
-            setScriptText(script)
-            setIsScriptModified(false)
+            await doGenerateScript()
             setScriptPaneVisible(true)
             setStatus({ type: "idle", message: "Script generated" })
         } catch (err) {
@@ -286,11 +479,9 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
         }
     }
 
-    function handleResetScript() {
+    async function handleResetScript() {
         try {
-            const script = doGenerateScript()
-            setScriptText(script)
-            setIsScriptModified(false)
+            await doGenerateScript()
             setStatus({ type: "idle", message: "Script regenerated" })
         } catch (err) {
             setStatus({
@@ -300,7 +491,30 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
         }
     }
 
-    async function handleRunGroovy(script: string, input: string) {
+    /** Show the run's validation issues and summarise them in the status line. */
+    function applyValidation(issues: Array<ValidationIssue>, message: string) {
+        setValidationIssues(issues)
+        setValidationExpanded(true)
+        if (issues.length === 0) {
+            setStatus({ type: "success", message })
+        } else {
+            const count = `${issues.length} validation ${issues.length === 1 ? "issue" : "issues"}`
+            setStatus({ type: "warning", message: `${message} — ${count}` })
+        }
+    }
+
+    function handleSelectNode(nodeId: string) {
+        selectTargetNode(nodeId)
+        onClose()
+    }
+
+    /** Open the node editor or environment section an error came from. */
+    function handleGoToOrigin(origin: ScriptOrigin) {
+        focusScriptOrigin(origin)
+        onClose()
+    }
+
+    async function handleRunGroovy(script: string, input: string, map: ScriptSourceMap | null) {
         // Check sidecar availability
         try {
             const { available } = await checkGroovySidecar()
@@ -329,6 +543,10 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
 
         if (result.error) {
             setOutputText(`ERROR:\n${result.error}`)
+            if (map) {
+                const line = groovyErrorLine(result.error, result.errorLine)
+                setErrorOrigin(resolveScriptLine(map, line))
+            }
             setStatus({
                 type: "error",
                 message: `Error (${result.durationMs}ms)`,
@@ -336,9 +554,89 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
             setScriptPaneVisible(true)
         } else {
             setOutputText(result.output ?? "")
+            applyValidation(result.validation, `Done (${result.durationMs}ms) via Groovy sidecar`)
+        }
+    }
+
+    /**
+     * Runs the input through the browser and the Groovy sidecar and diffs the
+     * outputs. Both scripts are generated from the mapper state — a hand-edited
+     * script only applies to one engine, so it is not used here.
+     */
+    async function handleCompareEngines(input: string) {
+        try {
+            const { available } = await checkGroovySidecar()
+            if (!available) {
+                setStatus({ type: "error", message: "Groovy sidecar offline — cannot compare" })
+                return
+            }
+        } catch {
+            setStatus({ type: "error", message: "Groovy sidecar unreachable — cannot compare" })
+            return
+        }
+
+        const library = await fetchSharedLibrary(state)
+        const scripts = generateEngineScripts(state, inputLang, outputLang, library)
+        const controller = new AbortController()
+        abortRef.current = controller
+
+        const platformData = scripts.injectGroovyShims ? await getPlatformData() : undefined
+        const runJs = executeScriptIsolated(scripts.js, input, state.localContext, {
+            injectGroovyShims: scripts.injectGroovyShims,
+            platformData,
+            timeoutMs: state.mapperPreferences.scriptTimeoutMs,
+            signal: controller.signal,
+        })
+        const runGroovy = executeGroovyScript({
+            data: { script: scripts.groovy, input, timeout: 30000 },
+        }).catch((err: unknown) => ({
+            output: "",
+            error: err instanceof Error ? err.message : String(err),
+            logs: [],
+            durationMs: 0,
+        }))
+        const [js, groovy] = await Promise.all([runJs, runGroovy])
+
+        const logs = [
+            ...js.logs.map((log) => `[js] ${log}`),
+            ...groovy.logs.map((log) => `[groovy] ${log}`),
+        ]
+        if (logs.length > 0) {
+            setConsoleLogs(logs)
+            setConsoleExpanded(true)
+        }
+
+        const jsRun: EngineRun = {
+            output: js.output,
+            error: js.error,
+            durationMs: Math.round(js.durationMs),
+        }
+        const groovyRun: EngineRun = {
+            output: groovy.output,
+            error: groovy.error,
+            durationMs: groovy.durationMs,
+        }
+        const comparison = compareEngineRuns(jsRun, groovyRun, outputLang, state.targetCsvOptions)
+        setCompareResult({
+            js: jsRun,
+            groovy: groovyRun,
+            comparison,
+            transpileWarnings: scripts.transpileWarnings,
+        })
+
+        const timing = `JS ${jsRun.durationMs}ms, Groovy ${groovyRun.durationMs}ms`
+        if (comparison.status === "error") {
+            setStatus({ type: "error", message: `Both engines failed (${timing})` })
+        } else if (comparison.status === "same") {
+            setStatus({ type: "success", message: `Engines agree (${timing})` })
+        } else {
+            const count = comparison.diffs.length
             setStatus({
-                type: "success",
-                message: `Done (${result.durationMs}ms) via Groovy sidecar`,
+                type: "warning",
+                message:
+                    count === 0
+                        ? `Engines differ (${timing})`
+                        : `${count} ${count === 1 ? "difference" : "differences"} (${timing})`,
             })
         }
     }
@@ -350,6 +648,26 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
             return
         }
 
+        if (compareMode) {
+            setIsRunning(true)
+            setStatus({ type: "running", message: "Running on both engines..." })
+            setCompareResult(null)
+            setConsoleLogs([])
+            setValidationIssues([])
+            try {
+                await handleCompareEngines(input)
+            } catch (err) {
+                setStatus({
+                    type: "error",
+                    message: err instanceof Error ? err.message : "Compare failed",
+                })
+            } finally {
+                abortRef.current = null
+                setIsRunning(false)
+            }
+            return
+        }
+
         setIsRunning(true)
         setStatus({
             type: "running",
@@ -357,27 +675,50 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
         })
         setOutputText("")
         setConsoleLogs([])
+        setValidationIssues([])
+        setTrace(null)
+        setErrorOrigin(null)
 
         try {
             // Use whatever is currently in the script editor (hand-edited or auto-generated)
-            // Only auto-generate if no script exists yet
+            // Only auto-generate if no script exists yet. Error lines only map back to the
+            // mapper while the script is unedited.
             let script = scriptText
+            let map = isScriptModified ? null : sourceMap
             if (!script) {
-                script = doGenerateScript()
-                setScriptText(script)
-                setIsScriptModified(false)
+                const generated = await doGenerateScript()
+                script = generated.script
+                map = generated.sourceMap
             }
 
             if (isGroovy) {
-                await handleRunGroovy(script, input)
+                await handleRunGroovy(script, input, map)
             } else {
-                // JavaScript: execute in browser
-                const injectShims = !!(
-                    state.scriptLanguage === "javascript" && state.sourceOriginalContent
-                )
-                const result = await executeScript(script, input, state.localContext, {
+                const injectShims = needsGroovyShims(state)
+                // Coverage and trace need the instrumented script — a hand-edited one runs as-is
+                const instrumented = (recordCoverage || recordTrace) && !isScriptModified
+                if (instrumented) {
+                    const generated = generateScriptWithSourceMap(state, inputLang, outputLang, {
+                        coverage: recordCoverage,
+                        trace: recordTrace,
+                        library: await fetchSharedLibrary(state),
+                    })
+                    script = generated.script
+                    map = generated.sourceMap
+                }
+                // JavaScript: execute in a worker, cancellable and bounded by the map's timeout
+                const controller = new AbortController()
+                abortRef.current = controller
+                // Platform calls in the shims resolve against the workspace's platform data
+                const platformData = injectShims ? await getPlatformData() : undefined
+                const result = await executeScriptIsolated(script, input, state.localContext, {
                     injectGroovyShims: injectShims,
+                    platformData,
+                    timeoutMs: state.mapperPreferences.scriptTimeoutMs,
+                    signal: controller.signal,
                 })
+                if (result.coverage) setCoverage(result.coverage)
+                if (result.trace) setTrace(result.trace)
 
                 // Show captured logs and auto-expand if any exist
                 if (result.logs.length > 0) {
@@ -387,6 +728,7 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
 
                 if (result.error) {
                     setOutputText(`ERROR:\n${result.error}`)
+                    if (map) setErrorOrigin(resolveScriptLine(map, result.errorLine))
                     setStatus({
                         type: "error",
                         message: `Error (${result.durationMs.toFixed(0)}ms)`,
@@ -395,10 +737,18 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                     setScriptPaneVisible(true)
                 } else {
                     setOutputText(result.output)
-                    setStatus({
-                        type: "success",
-                        message: `Done (${result.durationMs.toFixed(0)}ms)`,
-                    })
+                    const coverageNote =
+                        !recordCoverage && !recordTrace
+                            ? ""
+                            : instrumented
+                              ? recordCoverage
+                                  ? ", coverage shown in the target tree"
+                                  : ""
+                              : ", no coverage or trace for a modified script"
+                    applyValidation(
+                        result.validation,
+                        `Done (${result.durationMs.toFixed(0)}ms${coverageNote})`,
+                    )
                 }
             }
         } catch (err) {
@@ -407,6 +757,7 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
             setStatus({ type: "error", message: "Error" })
             setScriptPaneVisible(true)
         } finally {
+            abortRef.current = null
             setIsRunning(false)
         }
     }
@@ -462,6 +813,43 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                         )}
 
                         <div className="flex gap-2 ml-auto">
+                            {!isGroovy && !compareMode && (
+                                <Button
+                                    variant={recordCoverage ? "secondary" : "outline"}
+                                    size="sm"
+                                    className="rounded-full"
+                                    onClick={() => setRecordCoverage((v) => !v)}
+                                    disabled={isRunning}
+                                    title="Record which target nodes, loops and conditions the run hits"
+                                >
+                                    <ListChecks className="h-3.5 w-3.5 mr-1" />
+                                    Coverage
+                                </Button>
+                            )}
+                            {!isGroovy && !compareMode && (
+                                <Button
+                                    variant={recordTrace ? "secondary" : "outline"}
+                                    size="sm"
+                                    className="rounded-full"
+                                    onClick={() => setRecordTrace((v) => !v)}
+                                    disabled={isRunning}
+                                    title="Record each condition, loop iteration, reference read and assignment"
+                                >
+                                    <Footprints className="h-3.5 w-3.5 mr-1" />
+                                    Trace
+                                </Button>
+                            )}
+                            <Button
+                                variant={compareMode ? "secondary" : "outline"}
+                                size="sm"
+                                className="rounded-full"
+                                onClick={() => setCompareMode((v) => !v)}
+                                disabled={isRunning}
+                                title="Run the input through JavaScript and Groovy and diff the outputs"
+                            >
+                                <GitCompare className="h-3.5 w-3.5 mr-1" />
+                                Compare engines
+                            </Button>
                             <Button
                                 variant="outline"
                                 size="sm"
@@ -472,6 +860,18 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                             >
                                 View Script
                             </Button>
+                            {isRunning && (!isGroovy || compareMode) && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="rounded-full"
+                                    onClick={() => abortRef.current?.abort()}
+                                    title="Stop the running script"
+                                >
+                                    <Square className="h-3.5 w-3.5 mr-1" />
+                                    Cancel
+                                </Button>
+                            )}
                             <Button
                                 size="sm"
                                 className="rounded-full"
@@ -482,7 +882,9 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                                         ? "Load source and target models first"
                                         : !inputText.trim()
                                           ? "Enter input data first"
-                                          : "Run transformation"
+                                          : compareMode
+                                            ? "Run on both engines and compare the outputs"
+                                            : "Run transformation"
                                 }
                             >
                                 {isRunning ? (
@@ -490,7 +892,7 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                                 ) : (
                                     <Play className="h-3.5 w-3.5 mr-1" />
                                 )}
-                                Run
+                                {compareMode ? "Compare" : "Run"}
                             </Button>
                         </div>
                     </div>
@@ -505,7 +907,7 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                             <MonacoEditor
                                 height="100%"
                                 theme="vs-dark"
-                                language={inputLang}
+                                language={editorLanguage(inputLang)}
                                 value={inputText}
                                 onChange={(v) => setInputText(v ?? "")}
                                 options={editorOptions}
@@ -547,6 +949,15 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                     <div className="flex flex-col flex-1 min-w-0 min-h-0 border-l border-glass-border">
                         <PaneHeader label="Output" type={outputLang.toUpperCase()} side="target" />
 
+                        {validationIssues.length > 0 && (
+                            <ValidationPanel
+                                issues={validationIssues}
+                                expanded={validationExpanded}
+                                onToggle={() => setValidationExpanded((v) => !v)}
+                                onSelect={(issue) => handleSelectNode(issue.nodeId)}
+                            />
+                        )}
+
                         {/* Console log section — collapsible, auto-expands when logs present */}
                         {consoleLogs.length > 0 && (
                             <div className="shrink-0 border-b border-glass-border bg-[oklch(0.15_0.01_240/0.8)]">
@@ -592,18 +1003,82 @@ export function ExecuteDialog({ open, onClose }: ExecuteDialogProps) {
                             </div>
                         )}
 
-                        <div className="flex-1 min-h-0">
-                            <MonacoEditor
-                                height="100%"
-                                theme="vs-dark"
-                                language={outputLang}
-                                value={outputText}
-                                options={{
-                                    ...readonlyEditorOptions,
-                                    fontSize: 13,
-                                }}
-                            />
-                        </div>
+                        {compareMode ? (
+                            <>
+                                {compareResult && <EngineDiffList result={compareResult} />}
+                                <div className="flex-1 min-h-0 flex">
+                                    {(["js", "groovy"] as const).map((engine) => {
+                                        const run = compareResult?.[engine]
+                                        return (
+                                            <div
+                                                key={engine}
+                                                className="flex flex-col flex-1 min-w-0 min-h-0 first:border-r border-glass-border"
+                                            >
+                                                <div className="shrink-0 px-3 py-1 text-[10px] font-medium text-muted-foreground uppercase tracking-wide border-b border-glass-border">
+                                                    {engine === "js" ? "JavaScript" : "Groovy"}
+                                                </div>
+                                                <div className="flex-1 min-h-0">
+                                                    <MonacoEditor
+                                                        height="100%"
+                                                        theme="vs-dark"
+                                                        language={editorLanguage(outputLang)}
+                                                        value={
+                                                            run?.error
+                                                                ? `ERROR:\n${run.error}`
+                                                                : (run?.output ?? "")
+                                                        }
+                                                        options={readonlyEditorOptions}
+                                                    />
+                                                </div>
+                                            </div>
+                                        )
+                                    })}
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                {errorOrigin && (
+                                    <div className="shrink-0 px-3 py-1.5 flex items-center gap-2 border-b border-glass-border bg-destructive/10 text-xs">
+                                        <MapPin className="h-3 w-3 text-destructive shrink-0" />
+                                        <span className="text-muted-foreground shrink-0">
+                                            Thrown in
+                                        </span>
+                                        <span className="font-mono text-destructive truncate">
+                                            {describeScriptOrigin(errorOrigin, state)}
+                                        </span>
+                                        <Button
+                                            variant="outline"
+                                            size="xs"
+                                            className="ml-auto rounded-full shrink-0"
+                                            onClick={() => handleGoToOrigin(errorOrigin)}
+                                            title="Open the mapping rule or environment code behind the error"
+                                        >
+                                            Go to source
+                                        </Button>
+                                    </div>
+                                )}
+                                <div className="flex-1 min-h-0">
+                                    <MonacoEditor
+                                        height="100%"
+                                        theme="vs-dark"
+                                        language={editorLanguage(outputLang)}
+                                        value={outputText}
+                                        options={{
+                                            ...readonlyEditorOptions,
+                                            fontSize: 13,
+                                        }}
+                                    />
+                                </div>
+                                {trace && !isGroovy && (
+                                    <div className="shrink-0 h-2/5 min-h-0 border-t border-glass-border">
+                                        <TraceTimeline
+                                            trace={trace}
+                                            onSelectNode={handleSelectNode}
+                                        />
+                                    </div>
+                                )}
+                            </>
+                        )}
                     </div>
                 </div>
 
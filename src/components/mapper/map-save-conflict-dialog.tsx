@@ -0,0 +1,103 @@
+import type { ConflictChange } from "@/components/save-conflict-dialog"
+import type { MapChange } from "@/lib/mapper/map-merge"
+import type { MapperState } from "@/lib/mapper/types"
+import { SaveConflictDialog } from "@/components/save-conflict-dialog"
+import { diffMapperStates } from "@/lib/mapper/map-diff"
+import {
+    listMapChanges,
+    localChangeKeys,
+    mapChangeKey,
+    revertMapChanges,
+} from "@/lib/mapper/map-merge"
+import { deserializeMapperState } from "@/lib/mapper/serialization"
+import { useMapperStore } from "@/lib/mapper/store"
+import { loadMapRevision } from "@/lib/mapper/versions.server"
+
+/** The map as currently stored, returned by saveMap when a save was stale. */
+export interface MapSaveConflict {
+    id: string
+    name: string
+    revision: number
+    updatedAt: string
+    state: Record<string, unknown>
+}
+
+interface MapSaveConflictDialogProps {
+    conflict: MapSaveConflict | null
+    onSave: (state: MapperState, revision: number) => Promise<void>
+    onClose: () => void
+}
+
+const CONTEXT_SECTION_LABEL: Record<string, string> = {
+    globalVariables: "Variable",
+    lookupTables: "Lookup table",
+    functions: "Function",
+    prologScript: "Script",
+    epilogScript: "Script",
+}
+
+function toConflictChange(item: MapChange, local: Set<string>): ConflictChange {
+    const key = mapChangeKey(item)
+    const base = { key, local: local.has(key) }
+    switch (item.type) {
+        case "node":
+            return {
+                ...base,
+                kind: item.change.kind,
+                label: `${item.change.side}: ${item.change.path}`,
+                detail: item.change.fields.map((f) => f.field).join(", ") || undefined,
+            }
+        case "context":
+            return {
+                ...base,
+                kind: item.change.kind,
+                label: `${CONTEXT_SECTION_LABEL[item.change.section]}: ${item.change.name}`,
+            }
+        case "setting":
+            return { ...base, kind: "changed", label: `Setting: ${item.change.field}` }
+    }
+}
+
+export function MapSaveConflictDialog({ conflict, onSave, onClose }: MapSaveConflictDialogProps) {
+    const mapperState = useMapperStore((s) => s.mapperState)
+    const loadedRevision = useMapperStore((s) => s.currentResourceRevision)
+    const loadState = useMapperStore((s) => s.loadState)
+
+    const theirs = () => deserializeMapperState(JSON.stringify(conflict?.state))
+
+    async function loadChanges() {
+        if (!conflict) return []
+        // Without the loaded revision every difference counts as made here
+        const base =
+            loadedRevision === null
+                ? null
+                : await loadMapRevision({ data: { mapId: conflict.id, revision: loadedRevision } })
+        const diff = diffMapperStates(theirs(), mapperState)
+        const items = listMapChanges(diff)
+        const local = base
+            ? localChangeKeys(deserializeMapperState(JSON.stringify(base)), mapperState)
+            : new Set(items.map(mapChangeKey))
+        return items.map((item) => toConflictChange(item, local))
+    }
+
+    return (
+        <SaveConflictDialog
+            conflict={conflict}
+            resourceLabel="map"
+            loadChanges={loadChanges}
+            onReload={() => {
+                if (!conflict) return
+                loadState(theirs(), conflict.name, conflict.id, conflict.revision)
+                onClose()
+            }}
+            onOverwrite={async () => {
+                if (conflict) await onSave(mapperState, conflict.revision)
+            }}
+            onMerge={async (takeTheirs) => {
+                if (!conflict) return
+                await onSave(revertMapChanges(mapperState, theirs(), takeTheirs), conflict.revision)
+            }}
+            onClose={onClose}
+        />
+    )
+}
@@ -0,0 +1,465 @@
+import { useEffect, useMemo, useState } from "react"
+import {
+    CheckCircle2,
+    CircleDashed,
+    FlaskConical,
+    Loader2,
+    Play,
+    Plus,
+    Trash2,
+    XCircle,
+} from "lucide-react"
+import type { MappingCoverage } from "@/lib/mapper/coverage"
+import type { DataFormat } from "@/lib/mapper/engine"
+import type { MapTestResult, MapTestRun, OutputDiff } from "@/lib/mapper/map-tests"
+import type { PlatformData } from "@/lib/mapper/platform-data"
+import type { SharedLibrary } from "@/lib/mapper/shared-library"
+import type { MapTestCase, MapperState } from "@/lib/mapper/types"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { mergeCoverage } from "@/lib/mapper/coverage"
+import { generateScript, needsGroovyShims, toDataFormat } from "@/lib/mapper/engine"
+import { generateGroovyScript } from "@/lib/mapper/groovy-engine"
+import { executeGroovyScript } from "@/lib/mapper/groovy-executor.server"
+import { createTestCase, runMapTestCase } from "@/lib/mapper/map-tests"
+import { getPlatformData } from "@/lib/mapper/platform-data.server"
+import { executeScriptIsolated } from "@/lib/mapper/script-executor"
+import { fetchSharedLibrary } from "@/lib/mapper/shared-library.server"
+import { useMapperStore } from "@/lib/mapper/store"
+import { cn } from "@/lib/utils"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface MapTestsDialogProps {
+    open: boolean
+    onClose: () => void
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────────
+
+/**
+ * Generates the map's script once and returns a runner for test inputs —
+ * JavaScript in a worker like the execute dialog, Groovy on the sidecar.
+ * JavaScript scripts are instrumented and hand each run's counters to
+ * `onCoverage`. Scripts with the Groovy shims load the workspace's platform
+ * data once, on the first run. Linked lookup tables are inlined from `library`.
+ */
+function createTestExecutor(
+    state: MapperState,
+    library: SharedLibrary,
+    onCoverage: (coverage: MappingCoverage) => void,
+): (input: string) => Promise<MapTestRun> {
+    const src = toDataFormat(state.sourceInputType)
+    const tgt = toDataFormat(state.targetInputType)
+
+    if (state.scriptLanguage === "groovy") {
+        const script = generateGroovyScript(state, src, tgt, { library })
+        return (input) => executeGroovyScript({ data: { script, input, timeout: 30000 } })
+    }
+
+    const script = generateScript(state, src, tgt, { coverage: true, library })
+    const injectGroovyShims = needsGroovyShims(state)
+    let platformData: Promise<PlatformData> | undefined
+    return async (input) => {
+        if (injectGroovyShims) platformData ??= getPlatformData()
+        const result = await executeScriptIsolated(script, input, state.localContext, {
+            injectGroovyShims,
+            platformData: await platformData,
+            timeoutMs: state.mapperPreferences.scriptTimeoutMs,
+        })
+        if (result.coverage) onCoverage(result.coverage)
+        return result
+    }
+}
+
+function formatValue(value: unknown): string {
+    const text = JSON.stringify(value)
+    return text.length > 80 ? `${text.slice(0, 77)}…` : text
+}
+
+const DIFF_LABELS: Record<OutputDiff["kind"], string> = {
+    missing: "Missing",
+    unexpected: "Unexpected",
+    changed: "Changed",
+    type: "Type",
+}
+
+// ─── Sub-components ─────────────────────────────────────────────────────────────
+
+function StatusIcon({ result, running }: { result?: MapTestResult; running: boolean }) {
+    if (running) return <Loader2 className="h-3.5 w-3.5 animate-spin text-primary shrink-0" />
+    if (!result) return <CircleDashed className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+    if (result.status === "pass")
+        return <CheckCircle2 className="h-3.5 w-3.5 text-accent shrink-0" />
+    return <XCircle className="h-3.5 w-3.5 text-destructive shrink-0" />
+}
+
+function DiffList({ diffs }: { diffs: Array<OutputDiff> }) {
+    return (
+        <div className="rounded-xl border border-glass-border divide-y divide-glass-border/40 text-xs">
+            {diffs.map((diff, i) => (
+                <div key={i} className="flex items-start gap-2 px-2 py-1.5 min-w-0">
+                    <span className="px-1.5 py-0.5 rounded-full text-[10px] uppercase font-semibold bg-destructive/10 text-destructive shrink-0">
+                        {DIFF_LABELS[diff.kind]}
+                    </span>
+                    <span className="font-mono shrink-0">{diff.path || "(root)"}</span>
+                    <span className="flex-1 min-w-0 font-mono text-muted-foreground truncate">
+                        {"expected" in diff && <>expected {formatValue(diff.expected)}</>}
+                        {"expected" in diff && "actual" in diff && " · "}
+                        {"actual" in diff && <>actual {formatValue(diff.actual)}</>}
+                    </span>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+function ResultPanel({
+    result,
+    onAcceptOutput,
+}: {
+    result: MapTestResult
+    onAcceptOutput: () => void
+}) {
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2 text-xs">
+                <span
+                    className={cn(
+                        "font-medium",
+                        result.status === "pass" ? "text-accent" : "text-destructive",
+                    )}
+                >
+                    {result.status === "pass"
+                        ? "Passed"
+                        : result.status === "fail"
+                          ? `Failed — ${result.diffs.length} ${result.diffs.length === 1 ? "difference" : "differences"}`
+                          : "Error"}
+                </span>
+                <span className="text-muted-foreground">{result.durationMs.toFixed(0)}ms</span>
+                {result.status === "fail" && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="rounded-full h-6 text-xs ml-auto"
+                        onClick={onAcceptOutput}
+                        title="Replace the expected output with this run's output"
+                    >
+                        Use output as expected
+                    </Button>
+                )}
+            </div>
+            {result.error && (
+                <pre className="text-xs text-destructive whitespace-pre-wrap break-all">
+                    {result.error}
+                </pre>
+            )}
+            {result.diffs.length > 0 && <DiffList diffs={result.diffs} />}
+            {result.logs.length > 0 && (
+                <pre className="max-h-24 overflow-y-auto rounded-xl bg-muted/20 p-2 text-[11px] text-muted-foreground whitespace-pre-wrap">
+                    {result.logs.join("\n")}
+                </pre>
+            )}
+        </div>
+    )
+}
+
+function CaseEditor({
+    testCase,
+    format,
+    onChange,
+}: {
+    testCase: MapTestCase
+    format: DataFormat
+    onChange: (patch: Partial<MapTestCase>) => void
+}) {
+    const { options } = testCase
+    return (
+        <div className="flex flex-col gap-2">
+            <Input
+                value={testCase.name}
+                onChange={(e) => onChange({ name: e.target.value })}
+                placeholder="Test case name"
+                className="rounded-full"
+            />
+            <div className="grid grid-cols-2 gap-2">
+                <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+                    Input
+                    <Textarea
+                        value={testCase.input}
+                        onChange={(e) => onChange({ input: e.target.value })}
+                        className="font-mono text-xs h-48 field-sizing-fixed"
+                        spellCheck={false}
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+                    Expected output ({format.toUpperCase()})
+                    <Textarea
+                        value={testCase.expectedOutput}
+                        onChange={(e) => onChange({ expectedOutput: e.target.value })}
+                        className="font-mono text-xs h-48 field-sizing-fixed"
+                        spellCheck={false}
+                    />
+                </label>
+            </div>
+            <div className="flex items-center gap-3 text-xs">
+                <Input
+                    value={options.ignorePaths.join(", ")}
+                    onChange={(e) =>
+                        onChange({
+                            options: {
+                                ...options,
+                                ignorePaths: e.target.value.split(",").map((p) => p.trim()),
+                            },
+                        })
+                    }
+                    placeholder="Ignore paths, e.g. meta.createdAt, items[*].id"
+                    className="rounded-full flex-1 h-8 text-xs"
+                />
+                <label className="flex items-center gap-1.5 cursor-pointer shrink-0">
+                    <input
+                        type="checkbox"
+                        checked={options.ignoreOrder}
+                        onChange={(e) =>
+                            onChange({ options: { ...options, ignoreOrder: e.target.checked } })
+                        }
+                        className="accent-primary"
+                    />
+                    Ignore order
+                </label>
+                <label className="flex items-center gap-1.5 shrink-0">
+                    Tolerance
+                    <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={options.numericTolerance}
+                        onChange={(e) =>
+                            onChange({
+                                options: {
+                                    ...options,
+                                    numericTolerance: Math.max(0, Number(e.target.value) || 0),
+                                },
+                            })
+                        }
+                        className="rounded-full w-20 h-8 text-xs"
+                    />
+                </label>
+            </div>
+        </div>
+    )
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * Test cases of the open map: input payloads with expected outputs. "Run all
+ * tests" runs every case through the current map and compares outputs as
+ * data, listing each difference by path.
+ */
+export function MapTestsDialog({ open, onClose }: MapTestsDialogProps) {
+    const state = useMapperStore((s) => s.mapperState)
+    const addTestCase = useMapperStore((s) => s.addTestCase)
+    const updateTestCase = useMapperStore((s) => s.updateTestCase)
+    const removeTestCase = useMapperStore((s) => s.removeTestCase)
+    const setCoverage = useMapperStore((s) => s.setCoverage)
+
+    const testCases = useMemo(() => state.testCases ?? [], [state.testCases])
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [results, setResults] = useState<Record<string, MapTestResult>>({})
+    const [runningId, setRunningId] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const format = toDataFormat(state.targetInputType)
+    const selected = testCases.find((t) => t.id === selectedId) ?? testCases.at(0) ?? null
+    const summary = Object.values(results)
+    const passed = summary.filter((r) => r.status === "pass").length
+
+    useEffect(() => {
+        if (!open) return
+        setResults({})
+        setError(null)
+    }, [open])
+
+    function handleAdd() {
+        const testCase = createTestCase(
+            `Test ${testCases.length + 1}`,
+            state.sourceOriginalContent ?? "",
+        )
+        addTestCase(testCase)
+        setSelectedId(testCase.id)
+    }
+
+    function handleRemove(testCase: MapTestCase) {
+        if (!window.confirm(`Delete test case "${testCase.name}"?`)) return
+        removeTestCase(testCase.id)
+        setResults(({ [testCase.id]: _removed, ...rest }) => rest)
+    }
+
+    async function runCases(cases: Array<MapTestCase>) {
+        setError(null)
+        // Counters of every case run — merged, they show the rules the suite never hits
+        const coverageRuns: Array<MappingCoverage> = []
+        let execute: (input: string) => Promise<MapTestRun>
+        try {
+            const library = await fetchSharedLibrary(state)
+            execute = createTestExecutor(state, library, (coverage) => coverageRuns.push(coverage))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Script generation failed")
+            return
+        }
+        for (const testCase of cases) {
+            setRunningId(testCase.id)
+            const result = await runMapTestCase(testCase, format, state.targetCsvOptions, execute)
+            setResults((prev) => ({ ...prev, [testCase.id]: result }))
+        }
+        if (coverageRuns.length > 0) setCoverage(mergeCoverage(...coverageRuns))
+        setRunningId(null)
+    }
+
+    const selectedResult = selected ? results[selected.id] : undefined
+    const isRunning = runningId !== null
+
+    return (
+        <Dialog open={open} onOpenChange={(v) => !v && !isRunning && onClose()}>
+            <DialogContent className="max-w-5xl">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <FlaskConical className="h-4 w-4" />
+                        Test Cases
+                        {summary.length > 0 && (
+                            <span
+                                className={cn(
+                                    "text-xs font-normal",
+                                    passed === summary.length ? "text-accent" : "text-destructive",
+                                )}
+                            >
+                                {passed} / {summary.length} passed
+                            </span>
+                        )}
+                    </DialogTitle>
+                </DialogHeader>
+
+                <div className="flex gap-3 min-h-[50vh] max-h-[70vh]">
+                    <div className="w-56 shrink-0 flex flex-col gap-2">
+                        <div className="flex-1 overflow-y-auto rounded-xl border border-glass-border divide-y divide-glass-border/40">
+                            {testCases.length === 0 ? (
+                                <div className="py-8 px-3 text-center text-xs text-muted-foreground">
+                                    No test cases yet
+                                </div>
+                            ) : (
+                                testCases.map((testCase) => (
+                                    <div
+                                        key={testCase.id}
+                                        className={cn(
+                                            "group flex items-center gap-2 px-2 py-1.5 cursor-pointer text-sm",
+                                            testCase.id === selected?.id
+                                                ? "bg-primary/10"
+                                                : "hover:bg-muted/20",
+                                        )}
+                                        onClick={() => setSelectedId(testCase.id)}
+                                    >
+                                        <StatusIcon
+                                            result={results[testCase.id]}
+                                            running={runningId === testCase.id}
+                                        />
+                                        <span className="flex-1 truncate">{testCase.name}</span>
+                                        <button
+                                            type="button"
+                                            className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive cursor-pointer"
+                                            onClick={(e) => {
+                                                e.stopPropagation()
+                                                handleRemove(testCase)
+                                            }}
+                                            title="Delete test case"
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </button>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="rounded-full gap-1.5"
+                            onClick={handleAdd}
+                            disabled={isRunning}
+                        >
+                            <Plus className="h-4 w-4" />
+                            Add test case
+                        </Button>
+                    </div>
+
+                    <div className="flex-1 min-w-0 overflow-y-auto flex flex-col gap-3">
+                        {selected ? (
+                            <>
+                                <CaseEditor
+                                    testCase={selected}
+                                    format={format}
+                                    onChange={(patch) => updateTestCase(selected.id, patch)}
+                                />
+                                {selectedResult && (
+                                    <ResultPanel
+                                        result={selectedResult}
+                                        onAcceptOutput={() =>
+                                            updateTestCase(selected.id, {
+                                                expectedOutput: selectedResult.output,
+                                            })
+                                        }
+                                    />
+                                )}
+                            </>
+                        ) : (
+                            <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                                Add a test case with an input and the output you expect.
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {error && <p className="text-xs text-destructive px-1">{error}</p>}
+
+                <DialogFooter>
+                    <Button
+                        variant="ghost"
+                        className="rounded-full gap-1.5"
+                        onClick={() => selected && runCases([selected])}
+                        disabled={!selected || isRunning}
+                    >
+                        <Play className="h-4 w-4" />
+                        Run
+                    </Button>
+                    <Button
+                        className="rounded-full gap-1.5"
+                        onClick={() => runCases(testCases)}
+                        disabled={testCases.length === 0 || isRunning}
+                    >
+                        {isRunning ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                            <Play className="h-4 w-4" />
+                        )}
+                        Run all tests
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        className="rounded-full"
+                        onClick={onClose}
+                        disabled={isRunning}
+                    >
+                        Close
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
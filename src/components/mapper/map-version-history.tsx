@@ -0,0 +1,419 @@
+import * as React from "react"
+import { ArrowLeft, ArrowRight, GitCompare, Loader2, RotateCcw } from "lucide-react"
+import type {
+    MapContextChange,
+    MapDiff,
+    MapFieldChange,
+    MapNodeChange,
+} from "@/lib/mapper/map-diff"
+import type { MapVersionSummary, MapperState } from "@/lib/mapper/types"
+import { Button } from "@/components/ui/button"
+import { diffMapperStates, isEmptyMapDiff } from "@/lib/mapper/map-diff"
+import { deserializeMapperState } from "@/lib/mapper/serialization"
+import { listMapVersions, loadMapVersion, restoreMapVersion } from "@/lib/mapper/versions.server"
+import { cn } from "@/lib/utils"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface MapVersionHistoryProps {
+    map: { id: string; name: string }
+    onBack: () => void
+    onRestored: (state: MapperState, name: string, id: string, revision: number) => void
+}
+
+// ─── Diff formatting ─────────────────────────────────────────────────────────────
+
+const CHANGE_KIND_CLASS: Record<MapNodeChange["kind"], string> = {
+    added: "bg-accent/10 text-accent",
+    removed: "bg-destructive/10 text-destructive",
+    changed: "bg-primary/10 text-primary",
+    moved: "bg-secondary/10 text-secondary",
+}
+
+const CONTEXT_SECTION_LABEL: Record<MapContextChange["section"], string> = {
+    globalVariables: "Variable",
+    lookupTables: "Lookup table",
+    functions: "Function",
+    prologScript: "Script",
+    epilogScript: "Script",
+}
+
+/** Short one-line rendering of a changed property value. */
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === "") return "—"
+    const text = typeof value === "string" ? value : JSON.stringify(value)
+    return text.length > 80 ? `${text.slice(0, 77)}…` : text
+}
+
+function FieldChanges({ fields }: { fields: Array<MapFieldChange> }) {
+    return (
+        <div className="mt-1 flex flex-col gap-0.5">
+            {fields.map((f) => (
+                <div key={f.field} className="flex items-center gap-1.5 text-xs font-mono min-w-0">
+                    <span className="text-muted-foreground shrink-0">{f.field}</span>
+                    <span className="text-destructive/80 truncate">{formatValue(f.before)}</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+                    <span className="text-accent truncate">{formatValue(f.after)}</span>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+function NodeChangeRow({ change }: { change: MapNodeChange }) {
+    return (
+        <div className="px-2 py-1.5" style={{ paddingLeft: `${0.5 + change.depth * 0.75}rem` }}>
+            <div className="flex items-center gap-2 min-w-0">
+                <span
+                    className={cn(
+                        "px-1.5 py-0.5 rounded-full text-[10px] uppercase font-semibold shrink-0",
+                        CHANGE_KIND_CLASS[change.kind],
+                    )}
+                >
+                    {change.kind}
+                </span>
+                <span className="text-xs font-mono truncate" title={change.path}>
+                    {change.path}
+                </span>
+            </div>
+            {change.fromPath && (
+                <div className="mt-0.5 text-xs text-muted-foreground font-mono truncate">
+                    from {change.fromPath}
+                </div>
+            )}
+            {change.fields.length > 0 && <FieldChanges fields={change.fields} />}
+        </div>
+    )
+}
+
+function DiffSection({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <div>
+            <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wide px-2 mb-1">
+                {title}
+            </div>
+            <div className="flex flex-col divide-y divide-glass-border/40">{children}</div>
+        </div>
+    )
+}
+
+function DiffView({ diff }: { diff: MapDiff }) {
+    if (isEmptyMapDiff(diff)) {
+        return (
+            <div className="py-10 text-center text-sm text-muted-foreground">
+                These versions are identical.
+            </div>
+        )
+    }
+
+    const sourceNodes = diff.nodes.filter((c) => c.side === "source")
+    const targetNodes = diff.nodes.filter((c) => c.side === "target")
+
+    return (
+        <div className="flex flex-col gap-4">
+            {diff.settings.length > 0 && (
+                <DiffSection title="Settings">
+                    <div className="px-2 py-1.5">
+                        <FieldChanges fields={diff.settings} />
+                    </div>
+                </DiffSection>
+            )}
+            {diff.context.length > 0 && (
+                <DiffSection title="Environment">
+                    {diff.context.map((c) => (
+                        <div
+                            key={`${c.section}-${c.name}`}
+                            className="flex items-center gap-2 px-2 py-1.5"
+                        >
+                            <span
+                                className={cn(
+                                    "px-1.5 py-0.5 rounded-full text-[10px] uppercase font-semibold shrink-0",
+                                    CHANGE_KIND_CLASS[c.kind],
+                                )}
+                            >
+                                {c.kind}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                                {CONTEXT_SECTION_LABEL[c.section]}
+                            </span>
+                            <span className="text-xs font-mono truncate">{c.name}</span>
+                        </div>
+                    ))}
+                </DiffSection>
+            )}
+            {sourceNodes.length > 0 && (
+                <DiffSection title="Source tree">
+                    {sourceNodes.map((c) => (
+                        <NodeChangeRow key={c.nodeId} change={c} />
+                    ))}
+                </DiffSection>
+            )}
+            {targetNodes.length > 0 && (
+                <DiffSection title="Target tree">
+                    {targetNodes.map((c) => (
+                        <NodeChangeRow key={c.nodeId} change={c} />
+                    ))}
+                </DiffSection>
+            )}
+        </div>
+    )
+}
+
+// ─── Version row ──────────────────────────────────────────────────────────────────
+
+function VersionRow({
+    version,
+    isTarget,
+    isBase,
+    isLatest,
+    onSelect,
+    onCompare,
+    onRestore,
+    isRestoring,
+}: {
+    version: MapVersionSummary
+    isTarget: boolean
+    isBase: boolean
+    isLatest: boolean
+    onSelect: () => void
+    onCompare: () => void
+    onRestore: () => void
+    isRestoring: boolean
+}) {
+    return (
+        <div
+            className={cn(
+                "flex items-center gap-2 px-3 py-2 rounded-xl transition-colors group cursor-pointer",
+                isTarget ? "bg-primary/10" : isBase ? "bg-secondary/10" : "hover:bg-muted/20",
+            )}
+            onClick={onSelect}
+        >
+            <span className="px-1.5 py-0.5 rounded-full text-xs bg-muted/40 font-mono shrink-0">
+                v{version.version}
+            </span>
+            <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">
+                    {version.message ?? (
+                        <span className="text-muted-foreground italic">No message</span>
+                    )}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                    {version.authorName ?? "Unknown"} ·{" "}
+                    {new Date(version.createdAt).toLocaleString()}
+                </div>
+            </div>
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                {!isTarget && (
+                    <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className={cn("rounded-full h-7 w-7", isBase && "text-secondary")}
+                        onClick={(e) => {
+                            e.stopPropagation()
+                            onCompare()
+                        }}
+                        title="Compare against this version"
+                    >
+                        <GitCompare className="h-3.5 w-3.5" />
+                    </Button>
+                )}
+                {!isLatest && (
+                    <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className="rounded-full h-7 w-7"
+                        onClick={(e) => {
+                            e.stopPropagation()
+                            onRestore()
+                        }}
+                        disabled={isRestoring}
+                        title="Restore this version"
+                    >
+                        {isRestoring ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                            <RotateCcw className="h-3.5 w-3.5" />
+                        )}
+                    </Button>
+                )}
+            </div>
+        </div>
+    )
+}
+
+// ─── Version history ──────────────────────────────────────────────────────────────
+
+/**
+ * Saved versions of one map: pick a version (defaults to the latest) and a
+ * base to compare it with (defaults to the one before), or restore one.
+ */
+export function MapVersionHistory({ map, onBack, onRestored }: MapVersionHistoryProps) {
+    const [versions, setVersions] = React.useState<Array<MapVersionSummary>>([])
+    const [targetId, setTargetId] = React.useState<string | null>(null)
+    const [baseId, setBaseId] = React.useState<string | null>(null)
+    const [diff, setDiff] = React.useState<MapDiff | null>(null)
+    const [isLoading, setIsLoading] = React.useState(true)
+    const [isDiffing, setIsDiffing] = React.useState(false)
+    const [restoringId, setRestoringId] = React.useState<string | null>(null)
+    const [error, setError] = React.useState<string | null>(null)
+
+    // Versions are immutable, so loaded states can be cached for the dialog's lifetime
+    const states = React.useRef(new Map<string, MapperState>())
+
+    async function loadVersionState(id: string): Promise<MapperState> {
+        const cached = states.current.get(id)
+        if (cached) return cached
+        const raw = await loadMapVersion({ data: { id } })
+        const state = deserializeMapperState(JSON.stringify(raw))
+        states.current.set(id, state)
+        return state
+    }
+
+    React.useEffect(() => {
+        let cancelled = false
+        setIsLoading(true)
+        listMapVersions({ data: { mapId: map.id } })
+            .then((list) => {
+                if (cancelled) return
+                setVersions(list)
+                setTargetId(list[0]?.id ?? null)
+                setBaseId(list[1]?.id ?? null)
+            })
+            .catch((err: unknown) => {
+                if (!cancelled)
+                    setError(err instanceof Error ? err.message : "Failed to load versions")
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [map.id])
+
+    React.useEffect(() => {
+        if (!targetId || !baseId) {
+            setDiff(null)
+            return
+        }
+        let cancelled = false
+        setIsDiffing(true)
+        Promise.all([loadVersionState(baseId), loadVersionState(targetId)])
+            .then(([before, after]) => {
+                if (!cancelled) setDiff(diffMapperStates(before, after))
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : "Failed to compare")
+            })
+            .finally(() => {
+                if (!cancelled) setIsDiffing(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [targetId, baseId])
+
+    function handleSelect(id: string) {
+        if (id === targetId) return
+        setTargetId(id)
+        // Keep the base older than the selected version where possible
+        const index = versions.findIndex((v) => v.id === id)
+        if (baseId === id || versions.findIndex((v) => v.id === baseId) <= index) {
+            setBaseId(versions[index + 1]?.id ?? null)
+        }
+    }
+
+    async function handleRestore(version: MapVersionSummary) {
+        if (!window.confirm(`Restore version ${version.version} of "${map.name}"?`)) return
+        setRestoringId(version.id)
+        setError(null)
+        try {
+            const result = await restoreMapVersion({ data: { id: version.id } })
+            const state = deserializeMapperState(JSON.stringify(result.state))
+            onRestored(state, result.name, result.id, result.revision)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to restore version")
+        } finally {
+            setRestoringId(null)
+        }
+    }
+
+    const target = versions.find((v) => v.id === targetId)
+    const base = versions.find((v) => v.id === baseId)
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+                <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="rounded-full h-7 w-7"
+                    onClick={onBack}
+                    title="Back to saved maps"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm font-medium truncate">{map.name}</span>
+                <span className="text-xs text-muted-foreground">
+                    {versions.length} version{versions.length === 1 ? "" : "s"}
+                </span>
+            </div>
+
+            {error && (
+                <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg px-3 py-2">
+                    {error}
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex items-center justify-center py-10 text-muted-foreground gap-2">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                    <span className="text-sm">Loading versions…</span>
+                </div>
+            ) : versions.length === 0 ? (
+                <div className="py-10 text-center text-sm text-muted-foreground">
+                    No versions saved yet.
+                </div>
+            ) : (
+                <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-3">
+                    <div className="max-h-96 overflow-y-auto flex flex-col gap-1 p-1">
+                        {versions.map((v, index) => (
+                            <VersionRow
+                                key={v.id}
+                                version={v}
+                                isTarget={v.id === targetId}
+                                isBase={v.id === baseId}
+                                isLatest={index === 0}
+                                onSelect={() => handleSelect(v.id)}
+                                onCompare={() => setBaseId(v.id)}
+                                onRestore={() => void handleRestore(v)}
+                                isRestoring={restoringId === v.id}
+                            />
+                        ))}
+                    </div>
+                    <div className="max-h-96 overflow-y-auto rounded-xl border border-glass-border/50 p-2">
+                        {target && base && (
+                            <div className="text-xs text-muted-foreground px-2 pb-2 font-mono">
+                                v{base.version} → v{target.version}
+                            </div>
+                        )}
+                        {isDiffing ? (
+                            <div className="flex items-center justify-center py-10 text-muted-foreground gap-2">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                <span className="text-sm">Comparing…</span>
+                            </div>
+                        ) : diff ? (
+                            <DiffView diff={diff} />
+                        ) : (
+                            <div className="py-10 text-center text-sm text-muted-foreground">
+                                {versions.length === 1
+                                    ? "Only one version — nothing to compare yet."
+                                    : "Pick a version to compare against."}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -48,6 +48,8 @@ function MapperFlowInner() {
     const addMapping = useMapperStore((s) => s.addMapping)
     const snapshot = useMapperStore((s) => s.snapshot)
     const references = useMapperStore((s) => s.mapperState.references)
+    const mapperTab = useMapperStore((s) => s.mapperTab)
+    const setMapperTab = useMapperStore((s) => s.setMapperTab)
 
     // beforeunload guard — warn when leaving with unsaved changes
     useEffect(() => {
@@ -115,7 +117,11 @@ function MapperFlowInner() {
             />
 
             {/* Tab layout */}
-            <Tabs defaultValue="mapper" className="flex-1 flex flex-col min-h-0">
+            <Tabs
+                value={mapperTab}
+                onValueChange={setMapperTab}
+                className="flex-1 flex flex-col min-h-0"
+            >
                 <div className="px-6 pt-3 pb-0 shrink-0">
                     <TabsList>
                         <TabsTrigger value="mapper">Mapper</TabsTrigger>
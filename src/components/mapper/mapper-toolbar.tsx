@@ -5,6 +5,7 @@ import {
     Download,
     FileCode,
     FilePlus2,
+    FlaskConical,
     FolderOpen,
     Loader2,
     Play,
@@ -19,9 +20,13 @@ import {
 } from "lucide-react"
 
 import { ExecuteDialog } from "./execute-dialog"
+import { MapTestsDialog } from "./map-tests-dialog"
 import { UploadExcelDialog } from "./upload-excel-dialog"
 import { OpenMapDialog } from "./open-map-dialog"
 import { SaveAsDialog } from "./save-as-dialog"
+import { MapSaveConflictDialog } from "./map-save-conflict-dialog"
+import type { MapSaveConflict } from "./map-save-conflict-dialog"
+import type { MapperState } from "@/lib/mapper/types"
 import { Button } from "@/components/ui/button"
 import {
     DropdownMenu,
@@ -107,6 +112,7 @@ export function MapperToolbar({ onAutoMapClick, onPreferencesClick }: MapperTool
     const mapperState = useMapperStore((s) => s.mapperState)
     const currentResourceName = useMapperStore((s) => s.currentResourceName)
     const currentResourceId = useMapperStore((s) => s.currentResourceId)
+    const currentResourceRevision = useMapperStore((s) => s.currentResourceRevision)
     const canUndo = useCanUndo()
     const canRedo = useCanRedo()
     const isDirty = useIsDirty()
@@ -114,10 +120,12 @@ export function MapperToolbar({ onAutoMapClick, onPreferencesClick }: MapperTool
     const scriptLanguage = useScriptLanguage()
 
     const [executeOpen, setExecuteOpen] = useState(false)
+    const [testsOpen, setTestsOpen] = useState(false)
     const [excelImportOpen, setExcelImportOpen] = useState(false)
     const [openMapOpen, setOpenMapOpen] = useState(false)
     const [saveAsOpen, setSaveAsOpen] = useState(false)
     const [isTranslating, setIsTranslating] = useState(false)
+    const [conflict, setConflict] = useState<MapSaveConflict | null>(null)
 
     const handleTranslateToJs = useCallback(async () => {
         const confirmed = window.confirm(
@@ -163,6 +171,37 @@ export function MapperToolbar({ onAutoMapClick, onPreferencesClick }: MapperTool
         resetState()
     }
 
+    /**
+     * Save `state` over the current map, expecting it at `revision`. A stale
+     * revision leaves the map alone and opens the conflict dialog instead.
+     */
+    async function saveToServer(state: MapperState, revision: number | null) {
+        if (!currentResourceId || !currentResourceName) return
+        const stateWithName = { ...state, name: currentResourceName }
+        const nodeCount = countNodes(state.sourceTreeNode) + countNodes(state.targetTreeNode)
+        const result = await saveMap({
+            data: {
+                id: currentResourceId,
+                revision: revision ?? undefined,
+                name: currentResourceName,
+                state: stateWithName as unknown as Record<string, unknown>,
+                sourceInputType: state.sourceInputType ?? undefined,
+                targetInputType: state.targetInputType ?? undefined,
+                nodeCount,
+            },
+        })
+        if (result.status === "conflict") {
+            setConflict(result)
+            return
+        }
+        // A merge saves a state the editor does not hold yet
+        if (state !== mapperState) loadState(state, result.name, result.id, result.revision)
+        setCurrentResource(result.name, result.id, result.revision)
+        setLastSavedAt(result.savedAt)
+        setDirty(false)
+        setConflict(null)
+    }
+
     async function handleSave() {
         if (!currentResourceId || !currentResourceName) {
             setSaveAsOpen(true)
@@ -171,22 +210,7 @@ export function MapperToolbar({ onAutoMapClick, onPreferencesClick }: MapperTool
         setSaving(true)
         setSaveError(null)
         try {
-            const stateWithName = { ...mapperState, name: currentResourceName }
-            const nodeCount =
-                countNodes(mapperState.sourceTreeNode) + countNodes(mapperState.targetTreeNode)
-            const result = await saveMap({
-                data: {
-                    id: currentResourceId,
-                    name: currentResourceName,
-                    state: stateWithName as unknown as Record<string, unknown>,
-                    sourceInputType: mapperState.sourceInputType ?? undefined,
-                    targetInputType: mapperState.targetInputType ?? undefined,
-                    nodeCount,
-                },
-            })
-            setCurrentResource(result.name, result.id)
-            setLastSavedAt(result.savedAt)
-            setDirty(false)
+            await saveToServer(mapperState, currentResourceRevision)
         } catch (err) {
             const message = err instanceof Error ? err.message : "Failed to save."
             setSaveError(message)
@@ -262,6 +286,11 @@ export function MapperToolbar({ onAutoMapClick, onPreferencesClick }: MapperTool
             {/* Dialogs for file operations */}
             <OpenMapDialog open={openMapOpen} onClose={() => setOpenMapOpen(false)} />
             <SaveAsDialog open={saveAsOpen} onClose={() => setSaveAsOpen(false)} />
+            <MapSaveConflictDialog
+                conflict={conflict}
+                onSave={saveToServer}
+                onClose={() => setConflict(null)}
+            />
 
             <Separator orientation="vertical" className="h-5 mx-1" />
 
@@ -277,7 +306,18 @@ export function MapperToolbar({ onAutoMapClick, onPreferencesClick }: MapperTool
                 <span className="hidden sm:inline">Execute</span>
             </Button>
 
+            <Button
+                variant="ghost"
+                size="icon-sm"
+                className="rounded-full text-accent hover:text-accent-foreground hover:bg-accent/20"
+                onClick={() => setTestsOpen(true)}
+                title="Test cases"
+            >
+                <FlaskConical className="h-4 w-4" />
+            </Button>
+
             <ExecuteDialog open={executeOpen} onClose={() => setExecuteOpen(false)} />
+            <MapTestsDialog open={testsOpen} onClose={() => setTestsOpen(false)} />
 
             <Separator orientation="vertical" className="h-5 mx-1" />
 
@@ -8,6 +8,7 @@ import { LoopEditor } from "./loop-editor"
 import { LoopConditionsEditor } from "./loop-conditions-editor"
 import { ConditionEditor } from "./condition-editor"
 import { SourceNodeEditor } from "./source-node-editor"
+import { SubmapEditor } from "./submap-editor"
 
 // ─── Drop placeholder ─────────────────────────────────────────────────────────
 
@@ -45,6 +46,7 @@ function TargetNodeEditorTabs() {
     const hasCondition = !!node.nodeCondition?.condition
     const hasLoop = !!node.loopReference
     const loopCondCount = node.loopConditions?.length ?? 0
+    const isSubmap = node.type === "submap"
 
     return (
         <div className="flex flex-col h-full">
@@ -73,10 +75,22 @@ function TargetNodeEditorTabs() {
                 </button>
             </div>
 
-            {/* Tabs */}
-            <Tabs defaultValue="value" className="flex-1 flex flex-col min-h-0">
+            {/* Tabs — sub-map nodes open on their map; remount so the default tab applies */}
+            <Tabs
+                key={isSubmap ? "submap" : "node"}
+                defaultValue={isSubmap ? "submap" : "value"}
+                className="flex-1 flex flex-col min-h-0"
+            >
                 <div className="px-2 pt-2 pb-0 shrink-0">
                     <TabsList className="w-full flex gap-0.5">
+                        {isSubmap && (
+                            <TabsTrigger
+                                value="submap"
+                                className="flex-1 text-[11px] px-1 py-1 h-7"
+                            >
+                                Map
+                            </TabsTrigger>
+                        )}
                         <TabsTrigger value="value" className="flex-1 text-[11px] px-1 py-1 h-7">
                             Value
                         </TabsTrigger>
@@ -111,6 +125,12 @@ function TargetNodeEditorTabs() {
                     </TabsList>
                 </div>
 
+                {isSubmap && (
+                    <TabsContent value="submap" className="flex-1 min-h-0 overflow-y-auto">
+                        <SubmapEditor node={node} />
+                    </TabsContent>
+                )}
+
                 <TabsContent value="value" className="flex-1 min-h-0 overflow-hidden">
                     <ValueEditor node={node} />
                 </TabsContent>
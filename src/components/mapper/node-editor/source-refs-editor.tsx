@@ -1,11 +1,13 @@
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { Trash2, Plus, X } from "lucide-react"
+import type { RenamedField } from "@/lib/mapper/rename"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { useMapperStore } from "@/lib/mapper/store"
 import { findNodeById, getFullPath } from "@/lib/mapper/node-utils"
+import { previewVariableRename } from "@/lib/mapper/rename"
 import { SourceTreePicker } from "./source-tree-picker"
 import type { MapperTreeNode, SourceReference } from "@/lib/mapper/types"
 
@@ -31,76 +33,169 @@ interface RefRowProps {
     loopVarName: string | undefined
 }
 
+const RENAMED_FIELD_LABELS: Record<RenamedField, string> = {
+    value: "value",
+    customCode: "custom code",
+    nodeCondition: "condition",
+    loopConditions: "filter",
+    loopStatement: "loop statement",
+}
+
 function RefRow({ ref, nodeId, sourceTree, loopVarName }: RefRowProps) {
+    const mapperState = useMapperStore((s) => s.mapperState)
     const updateSourceReference = useMapperStore((s) => s.updateSourceReference)
     const deleteSourceReference = useMapperStore((s) => s.deleteSourceReference)
+    const renameVariable = useMapperStore((s) => s.renameVariable)
     const snapshot = useMapperStore((s) => s.snapshot)
 
     const [varName, setVarName] = useState(ref.variableName)
 
+    // Sync when the name changes elsewhere (undo, rename from another row)
+    const prevName = useRef(ref.variableName)
+    if (prevName.current !== ref.variableName) {
+        prevName.current = ref.variableName
+        setVarName(ref.variableName)
+    }
+
+    // Renames go through a preview of every expression they rewrite
+    const preview =
+        varName !== ref.variableName ? previewVariableRename(mapperState, ref.id, varName) : null
+
+    const applyRename = () => {
+        if (!preview || preview.error) return
+        snapshot()
+        renameVariable(ref.id, varName)
+    }
+
     const sourcePath = sourceTree ? getFullPath(ref.sourceNodeId, sourceTree) : ref.sourceNodeId
 
     return (
-        <div
-            className={cn(
-                "grid items-center gap-2 px-2 py-1.5 rounded-lg transition-colors",
-                "grid-cols-[1fr_110px_52px_80px_32px]",
-                getReferenceRowClass(ref, sourceTree),
-            )}
-        >
-            {/* Source path */}
-            <span className="text-xs text-muted-foreground truncate font-mono" title={sourcePath}>
-                {sourcePath || ref.sourceNodeId}
-            </span>
-
-            {/* Variable name */}
-            <Input
-                className="h-6 text-xs font-mono px-2 py-0 bg-transparent border-glass-border"
-                value={varName}
-                onChange={(e) => setVarName(e.target.value)}
-                onBlur={(e) => {
-                    snapshot()
-                    updateSourceReference(nodeId, ref.id, { variableName: e.target.value })
-                }}
-            />
+        <div className="flex flex-col gap-1">
+            <div
+                className={cn(
+                    "grid items-center gap-2 px-2 py-1.5 rounded-lg transition-colors",
+                    "grid-cols-[1fr_110px_52px_80px_32px]",
+                    getReferenceRowClass(ref, sourceTree),
+                )}
+            >
+                {/* Source path */}
+                <span
+                    className="text-xs text-muted-foreground truncate font-mono"
+                    title={sourcePath}
+                >
+                    {sourcePath || ref.sourceNodeId}
+                </span>
 
-            {/* Text ref checkbox */}
-            <label className="flex items-center gap-1 cursor-pointer">
-                <input
-                    type="checkbox"
-                    checked={ref.textReference}
-                    onChange={(e) => {
-                        snapshot()
-                        updateSourceReference(nodeId, ref.id, { textReference: e.target.checked })
+                {/* Variable name */}
+                <Input
+                    className={cn(
+                        "h-6 text-xs font-mono px-2 py-0 bg-transparent border-glass-border",
+                        preview?.error && "border-destructive/50",
+                    )}
+                    value={varName}
+                    onChange={(e) => setVarName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") applyRename()
+                        if (e.key === "Escape") setVarName(ref.variableName)
                     }}
-                    className="w-3.5 h-3.5 accent-primary"
                 />
-                <span className="text-xs text-muted-foreground">Text</span>
-            </label>
-
-            {/* Loop over badge */}
-            <div className="truncate">
-                {loopVarName ? (
-                    <span className="text-[10px] font-mono px-1.5 py-0.5 rounded-full bg-accent/15 text-accent">
-                        {loopVarName}
-                    </span>
-                ) : (
-                    <span className="text-xs text-muted-foreground/40">—</span>
-                )}
+
+                {/* Text ref checkbox */}
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={ref.textReference}
+                        onChange={(e) => {
+                            snapshot()
+                            updateSourceReference(nodeId, ref.id, {
+                                textReference: e.target.checked,
+                            })
+                        }}
+                        className="w-3.5 h-3.5 accent-primary"
+                    />
+                    <span className="text-xs text-muted-foreground">Text</span>
+                </label>
+
+                {/* Loop over badge */}
+                <div className="truncate">
+                    {loopVarName ? (
+                        <span className="text-[10px] font-mono px-1.5 py-0.5 rounded-full bg-accent/15 text-accent">
+                            {loopVarName}
+                        </span>
+                    ) : (
+                        <span className="text-xs text-muted-foreground/40">—</span>
+                    )}
+                </div>
+
+                {/* Delete */}
+                <button
+                    type="button"
+                    className="flex items-center justify-center w-6 h-6 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                    onClick={() => {
+                        snapshot()
+                        deleteSourceReference(nodeId, ref.id)
+                    }}
+                    title="Remove reference"
+                >
+                    <Trash2 className="h-3 w-3" />
+                </button>
             </div>
 
-            {/* Delete */}
-            <button
-                type="button"
-                className="flex items-center justify-center w-6 h-6 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
-                onClick={() => {
-                    snapshot()
-                    deleteSourceReference(nodeId, ref.id)
-                }}
-                title="Remove reference"
-            >
-                <Trash2 className="h-3 w-3" />
-            </button>
+            {/* Rename preview */}
+            {preview && (
+                <div className="flex flex-col gap-1.5 mx-2 px-3 py-2 rounded-xl bg-muted/20 border border-glass-border">
+                    {preview.error ? (
+                        <p className="text-xs text-destructive">{preview.error}</p>
+                    ) : (
+                        <>
+                            <p className="text-xs text-muted-foreground">
+                                Rename <code className="font-mono">{preview.oldName}</code> to{" "}
+                                <code className="font-mono text-foreground">{varName}</code>
+                                {preview.nodes.length === 0
+                                    ? " — no expressions use it"
+                                    : ` and rewrite ${preview.nodes.length} node${preview.nodes.length === 1 ? "" : "s"}:`}
+                            </p>
+                            {preview.nodes.length > 0 && (
+                                <ul className="space-y-0.5">
+                                    {preview.nodes.map((n) => (
+                                        <li
+                                            key={n.nodeId}
+                                            className="flex gap-2 text-[11px] min-w-0"
+                                        >
+                                            <span className="font-mono truncate" title={n.path}>
+                                                {n.path}
+                                            </span>
+                                            <span className="text-muted-foreground/70 shrink-0">
+                                                {n.fields
+                                                    .map((f) => RENAMED_FIELD_LABELS[f])
+                                                    .join(", ")}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                    <div className="flex justify-end gap-1.5">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 rounded-full text-xs"
+                            onClick={() => setVarName(ref.variableName)}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            size="sm"
+                            className="h-6 rounded-full text-xs"
+                            disabled={!!preview.error}
+                            onClick={applyRename}
+                        >
+                            Rename
+                        </Button>
+                    </div>
+                </div>
+            )}
         </div>
     )
 }
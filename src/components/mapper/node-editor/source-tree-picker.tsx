@@ -31,6 +31,7 @@ function MiniTypeIcon({ type }: { type: MapperNodeType }) {
         arrayChild: { label: "·", className: "bg-accent/15 text-accent/70" },
         attribute: { label: "@", className: "bg-amber-500/20 text-amber-400" },
         code: { label: "</>", className: "bg-primary/20 text-primary" },
+        submap: { label: "⇢", className: "bg-sky-500/20 text-sky-400" },
     }
     const { label, className } = config[type] ?? config.element
     return (
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react"
+import { AlertTriangle, ArrowUpRight, Loader2 } from "lucide-react"
+import type { MapperTreeNode, ScriptLanguage } from "@/lib/mapper/types"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select"
+import { listMaps, loadMap } from "@/lib/mapper/persistence.server"
+import { deserializeMapperState } from "@/lib/mapper/serialization"
+import { getSharedLibrary } from "@/lib/mapper/shared-library.server"
+import { useMapperStore, useScriptLanguage } from "@/lib/mapper/store"
+import { describeSubmapPath, findSubmapPath, submapProblem } from "@/lib/mapper/submaps"
+
+interface SubmapEditorProps {
+    node: MapperTreeNode
+}
+
+/**
+ * Why `mapId` cannot build a subtree of the map `currentMapId` — it leads back
+ * to that map, is written in the other language or loops on its own. Null
+ * when it can.
+ */
+async function findSubmapIssue(
+    mapId: string,
+    currentMapId: string | null,
+    language: ScriptLanguage,
+): Promise<string | null> {
+    const { submaps } = await getSharedLibrary({
+        data: { language, lookupTables: [], functions: [], submaps: [mapId] },
+    })
+    if (currentMapId) {
+        const path = findSubmapPath([mapId], currentMapId, submaps)
+        if (path) return `Sub-map cycle: ${describeSubmapPath([currentMapId, ...path], submaps)}`
+    }
+    return submapProblem(mapId, language, submaps)
+}
+
+// ─── SubmapEditor ─────────────────────────────────────────────────────────────
+
+export function SubmapEditor({ node }: SubmapEditorProps) {
+    const updateTargetNode = useMapperStore((s) => s.updateTargetNode)
+    const snapshot = useMapperStore((s) => s.snapshot)
+    const loadState = useMapperStore((s) => s.loadState)
+    const isDirty = useMapperStore((s) => s.isDirty)
+    const currentResourceId = useMapperStore((s) => s.currentResourceId)
+    const scriptLanguage = useScriptLanguage()
+
+    const [maps, setMaps] = useState<Array<{ id: string; name: string }> | null>(null)
+    const [issue, setIssue] = useState<string | null>(null)
+    const [checking, setChecking] = useState(false)
+    const [opening, setOpening] = useState(false)
+
+    useEffect(() => {
+        let cancelled = false
+        listMaps()
+            .then((rows) => !cancelled && setMaps(rows))
+            .catch(() => !cancelled && setMaps([]))
+        return () => {
+            cancelled = true
+        }
+    }, [])
+
+    // Re-check the referenced map — it may have changed since it was picked
+    const submapId = node.submapId
+    useEffect(() => {
+        setIssue(null)
+        if (!submapId) return
+        let cancelled = false
+        findSubmapIssue(submapId, currentResourceId, scriptLanguage)
+            .then((found) => !cancelled && setIssue(found))
+            .catch(() => {})
+        return () => {
+            cancelled = true
+        }
+    }, [submapId, currentResourceId, scriptLanguage])
+
+    const selectable = (maps ?? []).filter((m) => m.id !== currentResourceId)
+    const selected = maps?.find((m) => m.id === submapId)
+
+    async function handleSelect(mapId: string) {
+        setChecking(true)
+        try {
+            const found = await findSubmapIssue(mapId, currentResourceId, scriptLanguage)
+            if (found) {
+                setIssue(found)
+                return
+            }
+            snapshot()
+            updateTargetNode(node.id, { submapId: mapId })
+        } catch (err) {
+            setIssue(err instanceof Error ? err.message : "Could not check the map")
+        } finally {
+            setChecking(false)
+        }
+    }
+
+    async function handleGoToMap() {
+        if (!submapId) return
+        if (isDirty && !window.confirm("Discard unsaved changes?")) return
+        setOpening(true)
+        try {
+            const { state, revision } = await loadMap({ data: { id: submapId } })
+            // Server returns the raw state object — deserialize via JSON round-trip
+            loadState(
+                deserializeMapperState(JSON.stringify(state)),
+                selected?.name ?? "Sub-map",
+                submapId,
+                revision,
+            )
+        } catch (err) {
+            setIssue(err instanceof Error ? err.message : "Could not open the map")
+        } finally {
+            setOpening(false)
+        }
+    }
+
+    return (
+        <div className="flex flex-col gap-4 p-4">
+            <div className="flex flex-col gap-1">
+                <Label className="text-xs font-medium">Sub-map</Label>
+                <p className="text-xs text-muted-foreground">
+                    Another saved map builds this node. It runs on the node&apos;s source reference
+                    (Refs tab) — inside a loop, on the current item — or on the whole input without
+                    one.
+                </p>
+            </div>
+
+            <div className="flex items-center gap-1.5">
+                <Select
+                    value={submapId ?? ""}
+                    onValueChange={(v: string | null) => v && void handleSelect(v)}
+                    disabled={checking}
+                >
+                    <SelectTrigger size="sm" className="flex-1 min-w-0 rounded-full text-xs">
+                        <span className="truncate">
+                            {maps === null
+                                ? "Loading…"
+                                : submapId
+                                  ? (selected?.name ?? "Unknown map")
+                                  : "Select a saved map…"}
+                        </span>
+                    </SelectTrigger>
+                    <SelectContent>
+                        {selectable.map((m) => (
+                            <SelectItem key={m.id} value={m.id}>
+                                {m.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                {checking && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-full h-7 text-xs shrink-0"
+                    disabled={!submapId || opening}
+                    onClick={() => void handleGoToMap()}
+                    title="Open the referenced map"
+                >
+                    <ArrowUpRight className="h-3.5 w-3.5" />
+                    Go to map
+                </Button>
+            </div>
+
+            {maps !== null && selectable.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                    No other saved maps in this workspace
+                </p>
+            )}
+
+            {issue && (
+                <div className="flex items-start gap-2 px-3 py-2 rounded-xl bg-destructive/8 border border-destructive/20">
+                    <AlertTriangle className="h-3.5 w-3.5 text-destructive shrink-0 mt-0.5" />
+                    <span className="text-xs text-destructive">{issue}</span>
+                </div>
+            )}
+
+            {!currentResourceId && (
+                <p className="text-xs text-muted-foreground/70">
+                    Save this map to check sub-maps for cycles back to it.
+                </p>
+            )}
+        </div>
+    )
+}
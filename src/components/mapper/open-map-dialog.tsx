@@ -1,5 +1,15 @@
 import * as React from "react"
-import { ArrowLeftRight, Coffee, FileCode, FileDown, Loader2, Search, Trash2 } from "lucide-react"
+import {
+    ArrowLeftRight,
+    Coffee,
+    FileCode,
+    FileDown,
+    History,
+    Loader2,
+    Search,
+    Trash2,
+} from "lucide-react"
+import { MapVersionHistory } from "./map-version-history"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
@@ -51,11 +61,13 @@ function formatRelativeTime(date: Date | string): string {
 function MapListRow({
     entry,
     onOpen,
+    onHistory,
     onDelete,
     isLoading,
 }: {
     entry: SavedMapEntry
     onOpen: (entry: SavedMapEntry) => void
+    onHistory: (entry: SavedMapEntry) => void
     onDelete: (id: string, name: string) => void
     isLoading: boolean
 }) {
@@ -101,6 +113,15 @@ function MapListRow({
                 >
                     {isLoading ? <Loader2 className="h-3 w-3 animate-spin" /> : "Open"}
                 </Button>
+                <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="rounded-full h-7 w-7"
+                    onClick={() => onHistory(entry)}
+                    title="Version history"
+                >
+                    <History className="h-3.5 w-3.5" />
+                </Button>
                 <Button
                     variant="ghost"
                     size="icon-sm"
@@ -198,6 +219,7 @@ export function OpenMapDialog({ open, onClose }: OpenMapDialogProps) {
     const [openError, setOpenError] = React.useState<string | null>(null)
     const [isLoadingList, setIsLoadingList] = React.useState(false)
     const [loadingMapId, setLoadingMapId] = React.useState<string | null>(null)
+    const [historyMap, setHistoryMap] = React.useState<SavedMapEntry | null>(null)
 
     // File tab state
     const [droppedFile, setDroppedFile] = React.useState<File | null>(null)
@@ -223,6 +245,7 @@ export function OpenMapDialog({ open, onClose }: OpenMapDialogProps) {
             setSearch("")
             setOpenError(null)
             setLoadingMapId(null)
+            setHistoryMap(null)
             setDroppedFile(null)
             setFileName(null)
             setFileError(null)
@@ -253,11 +276,11 @@ export function OpenMapDialog({ open, onClose }: OpenMapDialogProps) {
         setLoadingMapId(entry.id)
         setOpenError(null)
         try {
-            const stateData = await loadMap({ data: { id: entry.id } })
+            const { state: stateData, revision } = await loadMap({ data: { id: entry.id } })
             // Server returns the raw state object — deserialize via JSON round-trip
             const json = JSON.stringify(stateData)
             const state = deserializeMapperState(json)
-            loadState(state, entry.name, entry.id)
+            loadState(state, entry.name, entry.id, revision)
             onClose()
         } catch (err) {
             setOpenError(
@@ -342,7 +365,7 @@ export function OpenMapDialog({ open, onClose }: OpenMapDialogProps) {
 
     function handleOpenFile() {
         if (!parsedFileState || !droppedFile) return
-        loadState(parsedFileState, droppedFile.name.replace(/\.jtmap$/i, ""), null)
+        loadState(parsedFileState, droppedFile.name.replace(/\.jtmap$/i, ""), null, null)
         onClose()
     }
 
@@ -352,12 +375,24 @@ export function OpenMapDialog({ open, onClose }: OpenMapDialogProps) {
 
     return (
         <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
-            <DialogContent className="max-w-lg">
+            <DialogContent className={historyMap ? "max-w-4xl" : "max-w-lg"}>
                 <DialogHeader>
-                    <DialogTitle>Open Mapper</DialogTitle>
+                    <DialogTitle>{historyMap ? "Version History" : "Open Mapper"}</DialogTitle>
                 </DialogHeader>
 
-                <Tabs defaultValue="saved" className="mt-2">
+                {historyMap && (
+                    <MapVersionHistory
+                        map={historyMap}
+                        onBack={() => setHistoryMap(null)}
+                        onRestored={(state, name, id, revision) => {
+                            loadState(state, name, id, revision)
+                            onClose()
+                        }}
+                    />
+                )}
+
+                {/* Hidden rather than unmounted so the list keeps its filter */}
+                <Tabs defaultValue="saved" className={cn("mt-2", historyMap && "hidden")}>
                     <TabsList className="w-full">
                         <TabsTrigger value="saved" className="flex-1">
                             Saved Maps
@@ -419,6 +454,7 @@ export function OpenMapDialog({ open, onClose }: OpenMapDialogProps) {
                                             key={entry.id}
                                             entry={entry}
                                             onOpen={handleOpenSaved}
+                                            onHistory={setHistoryMap}
                                             onDelete={handleDelete}
                                             isLoading={loadingMapId === entry.id}
                                         />
@@ -8,6 +8,8 @@ import {
     DialogFooter,
 } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DEFAULT_SCRIPT_TIMEOUT_MS } from "@/lib/mapper/engine"
 import { useMapperStore, usePreferences } from "@/lib/mapper/store"
 import type { MapperPreferences } from "@/lib/mapper/types"
 
@@ -16,8 +18,10 @@ interface PreferencesDialogProps {
     onOpenChange: (open: boolean) => void
 }
 
+type TogglePreference = Exclude<keyof MapperPreferences, "scriptTimeoutMs">
+
 const PREFERENCE_ITEMS: Array<{
-    key: keyof MapperPreferences
+    key: TogglePreference
     label: string
     description: string
 }> = [
@@ -53,10 +57,18 @@ export function PreferencesDialog({ open, onOpenChange }: PreferencesDialogProps
     const preferences = usePreferences()
     const updatePreferences = useMapperStore((s) => s.updatePreferences)
 
-    const toggle = (key: keyof MapperPreferences) => {
+    const toggle = (key: TogglePreference) => {
         updatePreferences({ [key]: !preferences[key] })
     }
 
+    const timeoutSeconds = (preferences.scriptTimeoutMs ?? DEFAULT_SCRIPT_TIMEOUT_MS) / 1000
+    const setTimeoutSeconds = (value: string) => {
+        const seconds = Number(value)
+        if (Number.isFinite(seconds) && seconds >= 1) {
+            updatePreferences({ scriptTimeoutMs: Math.round(seconds * 1000) })
+        }
+    }
+
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
             <DialogContent className="max-w-lg">
@@ -107,6 +119,25 @@ export function PreferencesDialog({ open, onOpenChange }: PreferencesDialogProps
                             </div>
                         </label>
                     ))}
+
+                    <label className="flex items-start gap-3 p-3 rounded-xl hover:bg-muted/30 transition-colors">
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium leading-tight">
+                                JavaScript timeout (seconds)
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                                Stop test and chain runs of this map that take longer than this
+                            </p>
+                        </div>
+                        <Input
+                            type="number"
+                            min={1}
+                            step={1}
+                            className="w-20 h-8"
+                            value={timeoutSeconds}
+                            onChange={(e) => setTimeoutSeconds(e.target.value)}
+                        />
+                    </label>
                 </div>
 
                 <DialogFooter>
@@ -25,6 +25,7 @@ export function SaveAsDialog({ open, onClose }: SaveAsDialogProps) {
     const setLastSavedAt = useMapperStore((s) => s.setLastSavedAt)
 
     const [name, setName] = React.useState("")
+    const [message, setMessage] = React.useState("")
     const [error, setError] = React.useState<string | null>(null)
     const [saving, setSaving] = React.useState(false)
 
@@ -32,6 +33,7 @@ export function SaveAsDialog({ open, onClose }: SaveAsDialogProps) {
     React.useEffect(() => {
         if (open) {
             setName(currentName ?? "")
+            setMessage("")
             setError(null)
             setSaving(false)
         }
@@ -56,9 +58,12 @@ export function SaveAsDialog({ open, onClose }: SaveAsDialogProps) {
                     sourceInputType: mapperState.sourceInputType ?? undefined,
                     targetInputType: mapperState.targetInputType ?? undefined,
                     nodeCount,
+                    message: message.trim() || undefined,
                 },
             })
-            setCurrentResource(result.name, result.id)
+            // A new map has no earlier revision to conflict with
+            if (result.status === "conflict") throw new Error("Map was saved elsewhere")
+            setCurrentResource(result.name, result.id, result.revision)
             setLastSavedAt(result.savedAt)
             setDirty(false)
             onClose()
@@ -87,6 +92,14 @@ export function SaveAsDialog({ open, onClose }: SaveAsDialogProps) {
                         onKeyDown={(e) => e.key === "Enter" && handleSave()}
                         autoFocus
                     />
+                    <Input
+                        value={message}
+                        onChange={(e) => setMessage(e.target.value)}
+                        placeholder="Version message (optional)"
+                        maxLength={500}
+                        className="rounded-full"
+                        onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                    />
                     {error && <p className="text-xs text-destructive px-1">{error}</p>}
                 </div>
 
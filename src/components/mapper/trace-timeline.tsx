@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ChevronDown, ChevronUp, Crosshair, Footprints } from "lucide-react"
+import type { ExecutionTrace, TraceEvent, TraceEventKind } from "@/lib/mapper/trace"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { TRACE_EVENT_LABELS, filterTrace, formatLoopIndexes, tracePaths } from "@/lib/mapper/trace"
+import { cn } from "@/lib/utils"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface TraceTimelineProps {
+    trace: ExecutionTrace
+    onSelectNode: (nodeId: string) => void // Jump to the event's target node
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────────
+
+/** Rows rendered at once — long traces are paged by the path filter instead. */
+const MAX_VISIBLE_EVENTS = 1000
+
+const ALL_PATHS = "__all__"
+
+const KIND_CLASSES: Record<TraceEventKind, string> = {
+    condition: "border-secondary/30 text-secondary",
+    iteration: "border-primary/30 text-primary",
+    filter: "border-secondary/30 text-secondary",
+    ref: "border-source/30 text-source",
+    assign: "border-target/30 text-target",
+}
+
+function formatTraceValue(value: unknown): string {
+    if (value === undefined) return "undefined"
+    return JSON.stringify(value)
+}
+
+function describeEvent(event: TraceEvent): string {
+    switch (event.kind) {
+        case "condition":
+        case "filter":
+            return event.value ? "passed" : "failed"
+        case "iteration":
+            return `item ${event.loops.at(-1) ?? 0}`
+        case "ref":
+            return `${event.name} = ${formatTraceValue(event.value)}`
+        case "assign":
+            return `= ${formatTraceValue(event.value)}`
+    }
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * Timeline of a traced run. Step through the events with the arrows, narrow
+ * them to one target path, and jump to the node behind an event.
+ */
+export function TraceTimeline({ trace, onSelectNode }: TraceTimelineProps) {
+    const [path, setPath] = useState(ALL_PATHS)
+    const [selectedSeq, setSelectedSeq] = useState<number | null>(null)
+    const rowRefs = useRef(new Map<number, HTMLElement>())
+
+    const paths = useMemo(() => tracePaths(trace), [trace])
+    const events = useMemo(() => filterTrace(trace, path === ALL_PATHS ? "" : path), [trace, path])
+    const visible = events.slice(0, MAX_VISIBLE_EVENTS)
+    const selectedIndex = visible.findIndex((event) => event.seq === selectedSeq)
+
+    useEffect(() => {
+        setPath(ALL_PATHS)
+        setSelectedSeq(null)
+    }, [trace])
+
+    useEffect(() => {
+        if (selectedSeq === null) return
+        rowRefs.current.get(selectedSeq)?.scrollIntoView({ block: "nearest" })
+    }, [selectedSeq])
+
+    function step(delta: number) {
+        if (visible.length === 0) return
+        const next =
+            selectedIndex === -1
+                ? delta > 0
+                    ? 0
+                    : visible.length - 1
+                : Math.min(Math.max(selectedIndex + delta, 0), visible.length - 1)
+        setSelectedSeq(visible[next].seq)
+    }
+
+    return (
+        <div className="flex flex-col min-h-0 h-full">
+            <div className="shrink-0 px-3 py-1.5 flex items-center gap-2 border-b border-glass-border bg-glass-bg/50">
+                <Footprints className="h-3 w-3 text-primary shrink-0" />
+                <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                    Trace
+                </span>
+                <span className="text-[11px] text-muted-foreground/60">
+                    {events.length} {events.length === 1 ? "event" : "events"}
+                    {trace.truncated && " (truncated)"}
+                </span>
+                <Select value={path} onValueChange={(v: string | null) => v && setPath(v)}>
+                    <SelectTrigger size="sm" className="ml-auto w-44 rounded-full text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL_PATHS}>All target paths</SelectItem>
+                        {paths.map((p) => (
+                            <SelectItem key={p} value={p}>
+                                {p}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="rounded-full"
+                    onClick={() => step(-1)}
+                    disabled={visible.length === 0}
+                    title="Previous event"
+                >
+                    <ChevronUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="rounded-full"
+                    onClick={() => step(1)}
+                    disabled={visible.length === 0}
+                    title="Next event"
+                >
+                    <ChevronDown className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto px-1.5 py-1 flex flex-col gap-0.5">
+                {visible.length === 0 && (
+                    <div className="py-6 text-center text-xs text-muted-foreground">
+                        No events recorded
+                    </div>
+                )}
+                {visible.map((event) => (
+                    <div
+                        key={event.seq}
+                        ref={(el) => {
+                            if (el) rowRefs.current.set(event.seq, el)
+                            else rowRefs.current.delete(event.seq)
+                        }}
+                        className={cn(
+                            "group/event flex items-baseline gap-2 rounded-md px-1.5 py-0.5 text-[11px] cursor-pointer hover:bg-muted/40 transition-colors",
+                            event.seq === selectedSeq && "bg-primary/10",
+                        )}
+                        style={{ paddingLeft: `${0.375 + event.loops.length * 0.75}rem` }}
+                        onClick={() => setSelectedSeq(event.seq)}
+                    >
+                        <span className="w-8 shrink-0 text-right font-mono text-muted-foreground/60">
+                            {event.seq}
+                        </span>
+                        <Badge
+                            variant="outline"
+                            className={cn(
+                                "text-[10px] px-1.5 py-0 rounded-full shrink-0",
+                                KIND_CLASSES[event.kind],
+                            )}
+                        >
+                            {TRACE_EVENT_LABELS[event.kind]}
+                        </Badge>
+                        <span className="font-mono text-target shrink-0">
+                            {event.path}
+                            <span className="text-muted-foreground">
+                                {formatLoopIndexes(event.loops)}
+                            </span>
+                        </span>
+                        <span
+                            className={cn(
+                                "font-mono break-all min-w-0",
+                                (event.kind === "condition" || event.kind === "filter") &&
+                                    !event.value
+                                    ? "text-amber-400"
+                                    : "text-foreground/80",
+                            )}
+                        >
+                            {describeEvent(event)}
+                        </span>
+                        <button
+                            type="button"
+                            className="ml-auto shrink-0 text-muted-foreground opacity-0 group-hover/event:opacity-100 hover:text-foreground transition-opacity"
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                onSelectNode(event.nodeId)
+                            }}
+                            title="Select this node in the target tree"
+                        >
+                            <Crosshair className="h-3 w-3" />
+                        </button>
+                    </div>
+                ))}
+                {events.length > visible.length && (
+                    <div className="py-1 text-center text-[11px] text-muted-foreground">
+                        Showing the first {MAX_VISIBLE_EVENTS} events — pick a target path to narrow
+                        the trace
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -1,6 +1,14 @@
 import { useState, useRef, useEffect } from "react"
 import { useDraggable, useDroppable } from "@dnd-kit/core"
-import { ChevronRight, Link2, MoreHorizontal } from "lucide-react"
+import {
+    ChevronRight,
+    CircleCheck,
+    CircleDashed,
+    CircleSlash,
+    Link2,
+    MoreHorizontal,
+} from "lucide-react"
+import type { CoverageStatus, NodeCoverage } from "@/lib/mapper/coverage"
 import type { DragData, MapperNodeType, MapperTreeNode } from "@/lib/mapper/types"
 import { useMapperStore } from "@/lib/mapper/store"
 import { getFullPath } from "@/lib/mapper/node-utils"
@@ -34,6 +42,41 @@ interface TreeNodeProps {
     onToggleExpand: (id: string) => void
     selectedNodeId: string | null
     depth?: number
+    coverage?: Map<string, NodeCoverage> // Target side: summary of the last instrumented run
+}
+
+// ─── Coverage marker ───────────────────────────────────────────────────────────
+
+const COVERAGE_MARKERS: Record<CoverageStatus, { label: string; className: string }> = {
+    covered: { label: "Covered", className: "text-accent" },
+    skipped: { label: "Skipped", className: "text-amber-400" },
+    unreached: { label: "Never reached", className: "text-destructive/80" },
+}
+
+function CoverageMarker({ coverage }: { coverage: NodeCoverage }) {
+    const { label, className } = COVERAGE_MARKERS[coverage.status]
+    const { counts } = coverage
+    const detail = [
+        `reached ${counts.reached}×`,
+        `written ${counts.written}×`,
+        counts.loops > 0 && `${counts.iterations} loop items`,
+    ]
+        .filter(Boolean)
+        .join(", ")
+    const Icon =
+        coverage.status === "covered"
+            ? CircleCheck
+            : coverage.status === "skipped"
+              ? CircleSlash
+              : CircleDashed
+    return (
+        <span
+            title={`${coverage.reason ?? label} (${detail})`}
+            className={cn("shrink-0 ml-1", className)}
+        >
+            <Icon className="h-3 w-3" />
+        </span>
+    )
 }
 
 // ─── Type Icon ─────────────────────────────────────────────────────────────────
@@ -45,6 +88,7 @@ function NodeTypeIcon({ type }: { type: MapperNodeType }) {
         arrayChild: { label: "·", className: "bg-accent/15 text-accent/70" },
         attribute: { label: "@", className: "bg-amber-500/20 text-amber-400" },
         code: { label: "</>", className: "bg-primary/20 text-primary" },
+        submap: { label: "⇢", className: "bg-sky-500/20 text-sky-400" },
     }
     const { label, className } = config[type] ?? config.element
     return (
@@ -138,6 +182,7 @@ function AddNodeDialog({ mode, side, defaultType, onDone }: AddNodeDialogProps)
         { value: "arrayChild", label: "Array Child ·" },
         { value: "attribute", label: "Attribute @" },
         { value: "code", label: "Code </>" },
+        ...(side === "target" ? [{ value: "submap" as const, label: "Sub-map ⇢" }] : []),
     ]
 
     const title =
@@ -230,8 +275,16 @@ const TYPE_ICON_LABELS: Array<{
     { type: "arrayChild", icon: "·", iconClass: "text-accent/70", label: "Array Child" },
     { type: "attribute", icon: "@", iconClass: "text-amber-400", label: "Attribute" },
     { type: "code", icon: "</>", iconClass: "text-primary", label: "Code Node" },
+    { type: "submap", icon: "⇢", iconClass: "text-sky-400", label: "Sub-map" },
 ]
 
+/** Node types a side's menus offer — sub-maps only build target subtrees. */
+function typeIconLabels(side: "source" | "target"): typeof TYPE_ICON_LABELS {
+    return side === "target"
+        ? TYPE_ICON_LABELS
+        : TYPE_ICON_LABELS.filter((t) => t.type !== "submap")
+}
+
 // ─── TreeNode ──────────────────────────────────────────────────────────────────
 
 export function TreeNode({
@@ -242,6 +295,7 @@ export function TreeNode({
     onToggleExpand,
     selectedNodeId,
     depth = 0,
+    coverage,
 }: TreeNodeProps) {
     const clearNodeMappings = useMapperStore((s) => s.clearNodeMappings)
     const selectSourceNode = useMapperStore((s) => s.selectSourceNode)
@@ -261,6 +315,7 @@ export function TreeNode({
 
     const isMapped = side === "target" && !!node.sourceReferences?.length
     const hasLoopReference = side === "target" && !!node.loopReference
+    const nodeCoverage = side === "target" ? coverage?.get(node.id) : undefined
 
     // ─── Drag (source side only) ────────────────────────────────────────────────
     const dragData: DragData = { nodeId: node.id, side }
@@ -418,6 +473,9 @@ export function TreeNode({
                             <Link2 className="h-3 w-3 text-accent shrink-0 ml-1" />
                         )}
 
+                        {/* Coverage marker (target only, after an instrumented run) */}
+                        {nodeCoverage && <CoverageMarker coverage={nodeCoverage} />}
+
                         {/* Hover ⋯ dropdown button */}
                         {!isRenaming && (
                             <DropdownMenu>
@@ -441,7 +499,7 @@ export function TreeNode({
                                             Add Child Node
                                         </DropdownMenuSubTrigger>
                                         <DropdownMenuSubContent>
-                                            {TYPE_ICON_LABELS.map(
+                                            {typeIconLabels(side).map(
                                                 ({ type, icon, iconClass, label }) => (
                                                     <DropdownMenuItem
                                                         key={type}
@@ -470,7 +528,7 @@ export function TreeNode({
                                                     Above
                                                 </DropdownMenuSubTrigger>
                                                 <DropdownMenuSubContent>
-                                                    {TYPE_ICON_LABELS.map(
+                                                    {typeIconLabels(side).map(
                                                         ({ type, icon, iconClass, label }) => (
                                                             <DropdownMenuItem
                                                                 key={type}
@@ -500,7 +558,7 @@ export function TreeNode({
                                                     Below
                                                 </DropdownMenuSubTrigger>
                                                 <DropdownMenuSubContent>
-                                                    {TYPE_ICON_LABELS.map(
+                                                    {typeIconLabels(side).map(
                                                         ({ type, icon, iconClass, label }) => (
                                                             <DropdownMenuItem
                                                                 key={type}
@@ -583,7 +641,7 @@ export function TreeNode({
                     <ContextMenuSub>
                         <ContextMenuSubTrigger>Add Child Node</ContextMenuSubTrigger>
                         <ContextMenuSubContent>
-                            {TYPE_ICON_LABELS.map(({ type, icon, iconClass, label }) => (
+                            {typeIconLabels(side).map(({ type, icon, iconClass, label }) => (
                                 <ContextMenuItem
                                     key={type}
                                     onClick={() => handleOpenAddChild(type)}
@@ -608,43 +666,47 @@ export function TreeNode({
                             <ContextMenuSub>
                                 <ContextMenuSubTrigger>Above</ContextMenuSubTrigger>
                                 <ContextMenuSubContent>
-                                    {TYPE_ICON_LABELS.map(({ type, icon, iconClass, label }) => (
-                                        <ContextMenuItem
-                                            key={type}
-                                            onClick={() => handleOpenAddSibling("above", type)}
-                                        >
-                                            <span
-                                                className={cn(
-                                                    "w-5 font-mono text-xs font-semibold",
-                                                    iconClass,
-                                                )}
+                                    {typeIconLabels(side).map(
+                                        ({ type, icon, iconClass, label }) => (
+                                            <ContextMenuItem
+                                                key={type}
+                                                onClick={() => handleOpenAddSibling("above", type)}
                                             >
-                                                {icon}
-                                            </span>
-                                            {label}
-                                        </ContextMenuItem>
-                                    ))}
+                                                <span
+                                                    className={cn(
+                                                        "w-5 font-mono text-xs font-semibold",
+                                                        iconClass,
+                                                    )}
+                                                >
+                                                    {icon}
+                                                </span>
+                                                {label}
+                                            </ContextMenuItem>
+                                        ),
+                                    )}
                                 </ContextMenuSubContent>
                             </ContextMenuSub>
                             <ContextMenuSub>
                                 <ContextMenuSubTrigger>Below</ContextMenuSubTrigger>
                                 <ContextMenuSubContent>
-                                    {TYPE_ICON_LABELS.map(({ type, icon, iconClass, label }) => (
-                                        <ContextMenuItem
-                                            key={type}
-                                            onClick={() => handleOpenAddSibling("below", type)}
-                                        >
-                                            <span
-                                                className={cn(
-                                                    "w-5 font-mono text-xs font-semibold",
-                                                    iconClass,
-                                                )}
+                                    {typeIconLabels(side).map(
+                                        ({ type, icon, iconClass, label }) => (
+                                            <ContextMenuItem
+                                                key={type}
+                                                onClick={() => handleOpenAddSibling("below", type)}
                                             >
-                                                {icon}
-                                            </span>
-                                            {label}
-                                        </ContextMenuItem>
-                                    ))}
+                                                <span
+                                                    className={cn(
+                                                        "w-5 font-mono text-xs font-semibold",
+                                                        iconClass,
+                                                    )}
+                                                >
+                                                    {icon}
+                                                </span>
+                                                {label}
+                                            </ContextMenuItem>
+                                        ),
+                                    )}
                                 </ContextMenuSubContent>
                             </ContextMenuSub>
                         </ContextMenuSubContent>
@@ -688,6 +750,7 @@ export function TreeNode({
                                 onToggleExpand={onToggleExpand}
                                 selectedNodeId={selectedNodeId}
                                 depth={depth + 1}
+                                coverage={coverage}
                             />
                         ))}
                     </div>
@@ -1,10 +1,11 @@
-import { useRef, useState, useCallback, useEffect } from "react"
+import { useRef, useState, useCallback, useEffect, useMemo } from "react"
 import { Network } from "lucide-react"
 import { TreeNode } from "./tree-node"
 import type { MapperTreeNode } from "@/lib/mapper/types"
 import { useMapperStore } from "@/lib/mapper/store"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { traverseDown } from "@/lib/mapper/node-utils"
+import { countCoverage, summarizeCoverage } from "@/lib/mapper/coverage"
+import { getAncestors, traverseDown } from "@/lib/mapper/node-utils"
 
 interface TreeViewProps {
     tree: MapperTreeNode | null
@@ -38,6 +39,15 @@ export function TreeView({ tree, side, onNodeRefs }: TreeViewProps) {
     const selectedTargetNodeId = useMapperStore((s) => s.selectedTargetNodeId)
     const selectedNodeId = side === "source" ? selectedSourceNodeId : selectedTargetNodeId
 
+    // Coverage overlay (target only) — counters of the last instrumented run or test suite
+    const coverage = useMapperStore((s) => s.coverage)
+    const setCoverage = useMapperStore((s) => s.setCoverage)
+    const coverageSummary = useMemo(
+        () => (side === "target" && tree && coverage ? summarizeCoverage(tree, coverage) : null),
+        [side, tree, coverage],
+    )
+    const coverageTotals = coverageSummary ? countCoverage(coverageSummary) : null
+
     // Auto-expand first 2 levels when tree loads
     useEffect(() => {
         if (tree) {
@@ -47,6 +57,20 @@ export function TreeView({ tree, side, onNodeRefs }: TreeViewProps) {
         }
     }, [tree?.id]) // Only re-run when tree root changes (new file loaded)
 
+    // Reveal the selected node when it is selected from outside the tree
+    // (e.g. a validation issue in the Execute dialog): expand its ancestors
+    useEffect(() => {
+        if (!tree || !selectedNodeId) return
+        const ancestorIds = getAncestors(selectedNodeId, tree).map((n) => n.id)
+        setExpandedNodes((prev) => {
+            if (ancestorIds.every((id) => prev.has(id))) return prev
+            return new Set([...prev, ...ancestorIds])
+        })
+        requestAnimationFrame(() => {
+            nodeRefsMap.current.get(selectedNodeId)?.scrollIntoView({ block: "nearest" })
+        })
+    }, [selectedNodeId, tree])
+
     const handleNodeRef = useCallback(
         (id: string, el: HTMLElement | null) => {
             if (el) {
@@ -115,6 +139,29 @@ export function TreeView({ tree, side, onNodeRefs }: TreeViewProps) {
                 >
                     Collapse all
                 </button>
+                {coverageTotals && (
+                    <>
+                        <span
+                            className="ml-auto text-xs text-muted-foreground truncate"
+                            title="Target rules hit by the last coverage run"
+                        >
+                            <span className="text-accent">{coverageTotals.covered} covered</span>
+                            {" · "}
+                            <span className="text-amber-400">{coverageTotals.skipped} skipped</span>
+                            {" · "}
+                            <span className="text-destructive/80">
+                                {coverageTotals.unreached} never reached
+                            </span>
+                        </span>
+                        <button
+                            onClick={() => setCoverage(null)}
+                            className="text-xs text-muted-foreground hover:text-foreground transition-colors shrink-0"
+                            title="Hide the coverage markers"
+                        >
+                            Clear
+                        </button>
+                    </>
+                )}
             </div>
 
             <ScrollArea className="flex-1">
@@ -127,6 +174,7 @@ export function TreeView({ tree, side, onNodeRefs }: TreeViewProps) {
                         onToggleExpand={handleToggleExpand}
                         selectedNodeId={selectedNodeId}
                         depth={0}
+                        coverage={coverageSummary ?? undefined}
                     />
                 </div>
             </ScrollArea>
@@ -1,5 +1,5 @@
 import * as React from "react"
-import { Check, Database, FileCode, FileJson, Globe, Upload } from "lucide-react"
+import { Check, Database, FileCode, FileJson, FileSpreadsheet, Globe, Upload } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
     Dialog,
@@ -8,10 +8,27 @@ import {
     DialogHeader,
     DialogTitle,
 } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { DEFAULT_CSV_OPTIONS, detectCsvDelimiter } from "@/lib/mapper/csv"
 import { useMapperStore } from "@/lib/mapper/store"
-import { parseJSON, parseXML } from "@/lib/mapper/parsers"
+import { isJsonSchemaContent, parseJsonSchema } from "@/lib/mapper/json-schema-parser"
+import { parseCSV, parseJSON, parseXML } from "@/lib/mapper/parsers"
+import { isXsdContent, parseXSD } from "@/lib/mapper/xsd-parser"
 import { fromParserTreeNode } from "@/lib/mapper/node-utils"
-import type { ApplyMethod, InputType, MapperNodeType, MapperTreeNode } from "@/lib/mapper/types"
+import type {
+    ApplyMethod,
+    CsvOptions,
+    InputType,
+    MapperNodeType,
+    MapperTreeNode,
+} from "@/lib/mapper/types"
 import { cn } from "@/lib/utils"
 
 // ─── Props ─────────────────────────────────────────────────────────────────────
@@ -115,6 +132,7 @@ function NodeTypeIcon({ type }: { type: MapperNodeType }) {
         arrayChild: { label: "·", className: "bg-accent/15 text-accent/70" },
         attribute: { label: "@", className: "bg-amber-500/20 text-amber-400" },
         code: { label: "</>", className: "bg-primary/20 text-primary" },
+        submap: { label: "⇢", className: "bg-sky-500/20 text-sky-400" },
     }
     const { label, className } = config[type] ?? config.element
     return (
@@ -193,6 +211,73 @@ function ModelPreview({ root }: { root: MapperTreeNode }) {
     )
 }
 
+// ─── CSV options ───────────────────────────────────────────────────────────────
+
+const CSV_DELIMITERS: Array<{ value: string; label: string }> = [
+    { value: ",", label: "Comma  ," },
+    { value: ";", label: "Semicolon  ;" },
+    { value: "\t", label: "Tab" },
+    { value: "|", label: "Pipe  |" },
+]
+
+function parseCsvModel(content: string, options: CsvOptions): MapperTreeNode {
+    return fromParserTreeNode(parseCSV(content, options))
+}
+
+function CsvOptionsFields({
+    options,
+    onChange,
+}: {
+    options: CsvOptions
+    onChange: (options: CsvOptions) => void
+}) {
+    return (
+        <div className="rounded-lg bg-glass-bg/40 border border-glass-border px-3 py-2.5 space-y-2">
+            <p className="text-xs font-medium text-foreground">CSV options</p>
+            <div className="flex items-center gap-3">
+                <Select
+                    value={options.delimiter}
+                    onValueChange={(v) => onChange({ ...options, delimiter: v as string })}
+                >
+                    <SelectTrigger size="sm" className="w-36 rounded-full text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {CSV_DELIMITERS.map((d) => (
+                            <SelectItem key={d.value} value={d.value}>
+                                {d.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    Quote
+                    <Input
+                        className="h-7 w-9 text-center text-xs bg-glass-bg/50 border-glass-border"
+                        maxLength={1}
+                        value={options.quote}
+                        onChange={(e) =>
+                            onChange({
+                                ...options,
+                                quote: e.target.value || DEFAULT_CSV_OPTIONS.quote,
+                            })
+                        }
+                    />
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={options.hasHeader}
+                        onChange={(e) => onChange({ ...options, hasHeader: e.target.checked })}
+                        className="accent-[oklch(var(--primary))]"
+                    />
+                    Header row
+                </label>
+            </div>
+        </div>
+    )
+}
+
 // ─── Step 1: Select method ─────────────────────────────────────────────────────
 
 function MethodSelectStep({ onNext }: { onNext: () => void }) {
@@ -237,7 +322,12 @@ interface FileUploadStepProps {
     side: "source" | "target"
     resultRoot: MapperTreeNode | null
     resultType: InputType | null
-    onFileParsed: (root: MapperTreeNode, type: InputType, rawContent: string) => void
+    onFileParsed: (
+        root: MapperTreeNode,
+        type: InputType,
+        rawContent: string | null,
+        csvOptions: CsvOptions | null,
+    ) => void
 }
 
 function FileUploadStep({ side, resultRoot, resultType, onFileParsed }: FileUploadStepProps) {
@@ -260,22 +350,42 @@ function FileUploadStep({ side, resultRoot, resultType, onFileParsed }: FileUplo
         try {
             let parsedRoot: MapperTreeNode
             let detectedType: InputType
-
-            if (ext === "json") {
+            let isSchema = false
+            let csvOptions: CsvOptions | null = null
+
+            if (
+                ext === "json" &&
+                (file.name.toLowerCase().endsWith(".schema.json") || isJsonSchemaContent(text))
+            ) {
+                parsedRoot = parseJsonSchema(text)
+                detectedType = "JSON"
+                isSchema = true
+            } else if (ext === "json") {
                 const parsed = parseJSON(text)
                 parsedRoot = fromParserTreeNode(parsed)
                 detectedType = "JSON"
-            } else if (ext === "xml" || ext === "xsd") {
+            } else if (ext === "xsd" || (ext === "xml" && isXsdContent(text))) {
+                // Schema describes the document shape — build the model from its declarations
+                parsedRoot = parseXSD(text)
+                detectedType = "XML"
+                isSchema = true
+            } else if (ext === "xml") {
                 const parsed = parseXML(text)
                 parsedRoot = fromParserTreeNode(parsed)
                 detectedType = "XML"
+            } else if (ext === "csv") {
+                // Columns come from the header row — options can be adjusted in the next step
+                csvOptions = { ...DEFAULT_CSV_OPTIONS, delimiter: detectCsvDelimiter(text) }
+                parsedRoot = parseCsvModel(text, csvOptions)
+                detectedType = "CSV"
             } else {
-                setParseError("Unsupported file type. Accepted: .json, .xml, .xsd")
+                setParseError("Unsupported file type. Accepted: .json, .xml, .xsd, .csv")
                 return
             }
 
             setFileName(file.name)
-            onFileParsed(parsedRoot, detectedType, text)
+            // A schema is not a sample payload — don't offer it as Execute dialog input
+            onFileParsed(parsedRoot, detectedType, isSchema ? null : text, csvOptions)
         } catch (err) {
             const message = err instanceof Error ? err.message : "Failed to parse file."
             setParseError(`Parse error: ${message}`)
@@ -326,10 +436,12 @@ function FileUploadStep({ side, resultRoot, resultType, onFileParsed }: FileUplo
             >
                 <Upload className="h-7 w-7 mx-auto mb-2.5 text-muted-foreground" />
                 <p className="text-sm font-medium">Drop file here or click to browse</p>
-                <p className="text-xs text-muted-foreground mt-1">Supports .json, .xml, .xsd</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                    Supports .json, .xml, .xsd, .csv
+                </p>
                 <input
                     type="file"
-                    accept=".json,.xml,.xsd"
+                    accept=".json,.xml,.xsd,.csv"
                     className="hidden"
                     ref={fileInputRef}
                     onChange={handleFileChange}
@@ -355,6 +467,8 @@ function FileUploadStep({ side, resultRoot, resultType, onFileParsed }: FileUplo
                     <div className="flex items-center gap-2">
                         {resultType === "JSON" ? (
                             <FileJson className="h-4 w-4 text-muted-foreground" />
+                        ) : resultType === "CSV" ? (
+                            <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
                         ) : (
                             <FileCode className="h-4 w-4 text-muted-foreground" />
                         )}
@@ -383,6 +497,8 @@ interface ApplyMethodStepProps {
     resultType: InputType | null
     applyMethod: ApplyMethod
     onApplyMethodChange: (method: ApplyMethod) => void
+    csvOptions: CsvOptions | null
+    onCsvOptionsChange: (options: CsvOptions) => void
 }
 
 function ApplyMethodStep({
@@ -391,6 +507,8 @@ function ApplyMethodStep({
     resultType,
     applyMethod,
     onApplyMethodChange,
+    csvOptions,
+    onCsvOptionsChange,
 }: ApplyMethodStepProps) {
     const ALL_METHODS: ApplyMethod[] = ["REPLACE", "ADD_ONLY", "DELETE_ONLY", "MERGE", "RESET"]
 
@@ -412,6 +530,10 @@ function ApplyMethodStep({
                 Choose how the new model should be merged with the existing one.
             </p>
 
+            {resultType === "CSV" && csvOptions && (
+                <CsvOptionsFields options={csvOptions} onChange={onCsvOptionsChange} />
+            )}
+
             <div className="space-y-2">
                 {ALL_METHODS.map((method) => (
                     <label
@@ -472,10 +594,12 @@ export function UploadModelDialog({ open, onClose, side }: UploadModelDialogProp
     const [resultRoot, setResultRoot] = React.useState<MapperTreeNode | null>(null)
     const [resultType, setResultType] = React.useState<InputType | null>(null)
     const [resultRawContent, setResultRawContent] = React.useState<string | null>(null)
+    const [csvOptions, setCsvOptions] = React.useState<CsvOptions | null>(null)
     const [applyMethod, setApplyMethod] = React.useState<ApplyMethod>("REPLACE")
 
     const applySourceModel = useMapperStore((s) => s.applySourceModel)
     const applyTargetModel = useMapperStore((s) => s.applyTargetModel)
+    const setStoreCsvOptions = useMapperStore((s) => s.setCsvOptions)
     const snapshot = useMapperStore((s) => s.snapshot)
 
     // Reset state when dialog opens
@@ -485,17 +609,30 @@ export function UploadModelDialog({ open, onClose, side }: UploadModelDialogProp
             setResultRoot(null)
             setResultType(null)
             setResultRawContent(null)
+            setCsvOptions(null)
             setApplyMethod("REPLACE")
         }
     }, [open])
 
-    function handleFileParsed(root: MapperTreeNode, type: InputType, rawContent: string) {
+    function handleFileParsed(
+        root: MapperTreeNode,
+        type: InputType,
+        rawContent: string | null,
+        parsedCsvOptions: CsvOptions | null,
+    ) {
         setResultRoot(root)
         setResultType(type)
         setResultRawContent(rawContent)
+        setCsvOptions(parsedCsvOptions)
         setStep(3)
     }
 
+    function handleCsvOptionsChange(options: CsvOptions) {
+        setCsvOptions(options)
+        // Re-infer the columns with the new delimiter / quote / header settings
+        if (resultRawContent) setResultRoot(parseCsvModel(resultRawContent, options))
+    }
+
     function handleNext() {
         if (step === 1) setStep(2)
         else if (step === 2 && resultRoot) setStep(3)
@@ -509,6 +646,7 @@ export function UploadModelDialog({ open, onClose, side }: UploadModelDialogProp
         if (!resultRoot || !resultType) return
 
         snapshot()
+        if (resultType === "CSV" && csvOptions) setStoreCsvOptions(side, csvOptions)
         if (side === "source") {
             applySourceModel(resultRoot, resultType, applyMethod, resultRawContent)
         } else {
@@ -551,6 +689,8 @@ export function UploadModelDialog({ open, onClose, side }: UploadModelDialogProp
                             resultType={resultType}
                             applyMethod={applyMethod}
                             onApplyMethodChange={setApplyMethod}
+                            csvOptions={csvOptions}
+                            onCsvOptionsChange={handleCsvOptionsChange}
                         />
                     )}
                 </div>
@@ -0,0 +1,367 @@
+import * as React from "react"
+import { Database, Loader2, Plus, Trash2 } from "lucide-react"
+import { v4 as uuidv4 } from "uuid"
+import type { PlatformData } from "@/lib/mapper/platform-data"
+import type { WorkspaceSummary } from "@/lib/workspace/types"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { getPlatformData, savePlatformData } from "@/lib/mapper/platform-data.server"
+import { cn } from "@/lib/utils"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface PlatformDataDialogProps {
+    workspace: WorkspaceSummary | null // The active workspace
+    open: boolean
+    onClose: () => void
+}
+
+// ─── Rows ───────────────────────────────────────────────────────────────────────
+
+interface EntryRow {
+    id: string
+    key: string
+    value: string
+}
+
+interface TableRow {
+    id: string
+    name: string
+    entries: Array<EntryRow>
+}
+
+function toEntryRows(record: Record<string, string>): Array<EntryRow> {
+    return Object.entries(record).map(([key, value]) => ({ id: uuidv4(), key, value }))
+}
+
+/** Entries as a record — fully blank rows are dropped, blank or repeated keys fail. */
+function toRecord(rows: Array<EntryRow>, label: string): Record<string, string> {
+    const record: Record<string, string> = {}
+    for (const row of rows) {
+        const key = row.key.trim()
+        if (!key && !row.value) continue
+        if (!key) throw new Error(`${label}: an entry has no key`)
+        if (Object.hasOwn(record, key)) throw new Error(`${label}: "${key}" is listed twice`)
+        record[key] = row.value
+    }
+    return record
+}
+
+function toPlatformData(globals: Array<EntryRow>, tables: Array<TableRow>): PlatformData {
+    const lookupTables: PlatformData["lookupTables"] = {}
+    for (const table of tables) {
+        const name = table.name.trim()
+        if (!name) throw new Error("A lookup table has no name")
+        if (Object.hasOwn(lookupTables, name)) {
+            throw new Error(`The lookup table "${name}" is listed twice`)
+        }
+        lookupTables[name] = toRecord(table.entries, `Lookup table "${name}"`)
+    }
+    return { globalData: toRecord(globals, "Global data"), lookupTables }
+}
+
+// ─── Entry list ─────────────────────────────────────────────────────────────────
+
+function EntryList({
+    rows,
+    readOnly,
+    keyPlaceholder,
+    onChange,
+}: {
+    rows: Array<EntryRow>
+    readOnly: boolean
+    keyPlaceholder: string
+    onChange: (rows: Array<EntryRow>) => void
+}) {
+    function update(id: string, patch: Partial<EntryRow>) {
+        onChange(rows.map((row) => (row.id === id ? { ...row, ...patch } : row)))
+    }
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            {rows.map((row) => (
+                <div key={row.id} className="flex items-center gap-2">
+                    <Input
+                        value={row.key}
+                        onChange={(e) => update(row.id, { key: e.target.value })}
+                        placeholder={keyPlaceholder}
+                        disabled={readOnly}
+                        className="h-8 rounded-full font-mono text-xs w-2/5"
+                    />
+                    <Input
+                        value={row.value}
+                        onChange={(e) => update(row.id, { value: e.target.value })}
+                        placeholder="Value"
+                        disabled={readOnly}
+                        className="h-8 rounded-full font-mono text-xs flex-1"
+                    />
+                    {!readOnly && (
+                        <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            className="rounded-full text-muted-foreground hover:text-destructive"
+                            onClick={() => onChange(rows.filter((r) => r.id !== row.id))}
+                            title="Remove entry"
+                        >
+                            <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                    )}
+                </div>
+            ))}
+            {!readOnly && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-full gap-1.5 self-start text-xs"
+                    onClick={() => onChange([...rows, { id: uuidv4(), key: "", value: "" }])}
+                >
+                    <Plus className="h-3.5 w-3.5" />
+                    Add entry
+                </Button>
+            )}
+        </div>
+    )
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * Global data and platform lookup tables of the active workspace — what
+ * JTUtil.getGlobalData and JTLookupUtil calls in maps resolve to when they
+ * run here, in JavaScript (through the Groovy shims) and on the Groovy
+ * sidecar. Editors change them; viewers only see them.
+ */
+export function PlatformDataDialog({ workspace, open, onClose }: PlatformDataDialogProps) {
+    const [globals, setGlobals] = React.useState<Array<EntryRow>>([])
+    const [tables, setTables] = React.useState<Array<TableRow>>([])
+    const [selectedTableId, setSelectedTableId] = React.useState<string | null>(null)
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [isSaving, setIsSaving] = React.useState(false)
+    const [error, setError] = React.useState<string | null>(null)
+
+    const readOnly = workspace?.role === "viewer"
+    const selectedTable = tables.find((t) => t.id === selectedTableId) ?? null
+
+    React.useEffect(() => {
+        if (!open) return
+        let cancelled = false
+        setError(null)
+        setIsLoading(true)
+        getPlatformData()
+            .then((data) => {
+                if (cancelled) return
+                const rows = Object.entries(data.lookupTables).map(([name, entries]) => ({
+                    id: uuidv4(),
+                    name,
+                    entries: toEntryRows(entries),
+                }))
+                setGlobals(toEntryRows(data.globalData))
+                setTables(rows)
+                setSelectedTableId(rows[0]?.id ?? null)
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    setError(err instanceof Error ? err.message : "Failed to load platform data")
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [open, workspace])
+
+    function updateTable(id: string, patch: Partial<TableRow>) {
+        setTables((prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)))
+    }
+
+    function handleAddTable() {
+        const table: TableRow = { id: uuidv4(), name: "", entries: [] }
+        setTables((prev) => [...prev, table])
+        setSelectedTableId(table.id)
+    }
+
+    function handleRemoveTable(table: TableRow) {
+        const label = table.name.trim() || "this lookup table"
+        if (table.entries.length > 0 && !window.confirm(`Remove ${label}?`)) return
+        const rest = tables.filter((t) => t.id !== table.id)
+        setTables(rest)
+        setSelectedTableId(rest[0]?.id ?? null)
+    }
+
+    async function handleSave() {
+        setError(null)
+        let data: PlatformData
+        try {
+            data = toPlatformData(globals, tables)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+            return
+        }
+        setIsSaving(true)
+        try {
+            await savePlatformData({ data })
+            onClose()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save platform data")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+            <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>Platform Data</DialogTitle>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="flex flex-col gap-4 max-h-[65vh] overflow-y-auto px-1">
+                        <p className="text-xs text-muted-foreground">
+                            Maps in this workspace read these through{" "}
+                            <code className="font-mono">JTUtil.getGlobalData</code> and{" "}
+                            <code className="font-mono">JTLookupUtil</code> when they run here.
+                            Calls for anything missing return null.
+                        </p>
+
+                        <section className="flex flex-col gap-2">
+                            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                                Global data
+                            </h3>
+                            <EntryList
+                                rows={globals}
+                                readOnly={readOnly}
+                                keyPlaceholder="Key"
+                                onChange={setGlobals}
+                            />
+                        </section>
+
+                        <section className="flex flex-col gap-2">
+                            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                                Lookup tables
+                            </h3>
+                            <div className="flex gap-3 min-h-40">
+                                <div className="w-48 shrink-0 flex flex-col gap-1 rounded-xl border border-glass-border p-1.5">
+                                    {tables.length === 0 && (
+                                        <div className="py-4 text-center text-xs text-muted-foreground">
+                                            No lookup tables
+                                        </div>
+                                    )}
+                                    {tables.map((table) => (
+                                        <button
+                                            key={table.id}
+                                            type="button"
+                                            onClick={() => setSelectedTableId(table.id)}
+                                            className={cn(
+                                                "flex items-center gap-1.5 rounded-lg px-2 py-1 text-left text-xs transition-colors hover:bg-muted/40",
+                                                table.id === selectedTableId && "bg-primary/10",
+                                            )}
+                                        >
+                                            <span className="flex-1 truncate font-mono">
+                                                {table.name.trim() || "(unnamed)"}
+                                            </span>
+                                            <span className="text-muted-foreground">
+                                                {table.entries.length}
+                                            </span>
+                                        </button>
+                                    ))}
+                                    {!readOnly && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="rounded-full gap-1.5 text-xs mt-auto"
+                                            onClick={handleAddTable}
+                                        >
+                                            <Plus className="h-3.5 w-3.5" />
+                                            Add table
+                                        </Button>
+                                    )}
+                                </div>
+
+                                <div className="flex-1 min-w-0 flex flex-col gap-2">
+                                    {selectedTable ? (
+                                        <>
+                                            <div className="flex items-center gap-2">
+                                                <Input
+                                                    value={selectedTable.name}
+                                                    onChange={(e) =>
+                                                        updateTable(selectedTable.id, {
+                                                            name: e.target.value,
+                                                        })
+                                                    }
+                                                    placeholder="Table name"
+                                                    disabled={readOnly}
+                                                    className="h-8 rounded-full font-mono text-xs flex-1"
+                                                />
+                                                {!readOnly && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon-sm"
+                                                        className="rounded-full text-muted-foreground hover:text-destructive"
+                                                        onClick={() =>
+                                                            handleRemoveTable(selectedTable)
+                                                        }
+                                                        title="Remove lookup table"
+                                                    >
+                                                        <Trash2 className="h-3.5 w-3.5" />
+                                                    </Button>
+                                                )}
+                                            </div>
+                                            <EntryList
+                                                rows={selectedTable.entries}
+                                                readOnly={readOnly}
+                                                keyPlaceholder="Lookup key"
+                                                onChange={(entries) =>
+                                                    updateTable(selectedTable.id, { entries })
+                                                }
+                                            />
+                                        </>
+                                    ) : (
+                                        <div className="flex-1 flex items-center justify-center text-xs text-muted-foreground">
+                                            Select or add a lookup table
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </section>
+                    </div>
+                )}
+
+                {error && <p className="text-xs text-destructive px-1">{error}</p>}
+
+                <DialogFooter>
+                    <Button variant="ghost" className="rounded-full" onClick={onClose}>
+                        {readOnly ? "Close" : "Cancel"}
+                    </Button>
+                    {!readOnly && (
+                        <Button
+                            className="rounded-full gap-1.5"
+                            onClick={handleSave}
+                            disabled={isLoading || isSaving}
+                        >
+                            {isSaving ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                                <Database className="h-4 w-4" />
+                            )}
+                            Save
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
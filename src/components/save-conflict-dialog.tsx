@@ -0,0 +1,274 @@
+import * as React from "react"
+import { AlertTriangle, ArrowLeft, Download, GitMerge, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+
+// ─── Types ──────────────────────────────────────────────────────────────────────
+
+/** One difference between the editor ("yours") and the stored copy ("theirs"). */
+export interface ConflictChange {
+    key: string
+    kind: "added" | "removed" | "changed" | "moved" // From theirs to yours
+    label: string
+    detail?: string
+    local: boolean // Made in this editor since it loaded — defaults to yours
+}
+
+interface SaveConflictDialogProps {
+    conflict: { name: string; updatedAt: string } | null
+    resourceLabel: string // "map" / "chain"
+    loadChanges: () => Promise<Array<ConflictChange>>
+    onReload: () => void
+    onOverwrite: () => Promise<void>
+    onMerge: (takeTheirs: Set<string>) => Promise<void>
+    onClose: () => void
+}
+
+// ─── Change list ────────────────────────────────────────────────────────────────
+
+const KIND_LABEL: Record<ConflictChange["kind"], string> = {
+    added: "Yours only",
+    removed: "Theirs only",
+    changed: "Changed",
+    moved: "Moved",
+}
+
+const KIND_CLASS: Record<ConflictChange["kind"], string> = {
+    added: "bg-accent/10 text-accent",
+    removed: "bg-destructive/10 text-destructive",
+    changed: "bg-primary/10 text-primary",
+    moved: "bg-secondary/10 text-secondary",
+}
+
+function SideToggle({
+    theirs,
+    onChange,
+}: {
+    theirs: boolean
+    onChange: (theirs: boolean) => void
+}) {
+    return (
+        <div className="flex shrink-0 rounded-full border border-glass-border p-0.5 text-xs">
+            {(["Yours", "Theirs"] as const).map((label) => {
+                const active = (label === "Theirs") === theirs
+                return (
+                    <button
+                        key={label}
+                        type="button"
+                        className={cn(
+                            "px-2 py-0.5 rounded-full cursor-pointer transition-colors",
+                            active
+                                ? "bg-primary/20 text-primary"
+                                : "text-muted-foreground hover:text-foreground",
+                        )}
+                        onClick={() => onChange(label === "Theirs")}
+                    >
+                        {label}
+                    </button>
+                )
+            })}
+        </div>
+    )
+}
+
+function ChangeRow({
+    change,
+    theirs,
+    onChange,
+}: {
+    change: ConflictChange
+    theirs: boolean
+    onChange: (theirs: boolean) => void
+}) {
+    return (
+        <div className="flex items-center gap-2 px-2 py-1.5 min-w-0">
+            <span
+                className={cn(
+                    "px-1.5 py-0.5 rounded-full text-[10px] uppercase font-semibold shrink-0",
+                    KIND_CLASS[change.kind],
+                )}
+            >
+                {KIND_LABEL[change.kind]}
+            </span>
+            <div className="flex-1 min-w-0">
+                <div className="text-xs font-mono truncate" title={change.label}>
+                    {change.label}
+                </div>
+                {change.detail && (
+                    <div className="text-xs text-muted-foreground truncate">{change.detail}</div>
+                )}
+            </div>
+            {change.local && <span className="text-[10px] text-muted-foreground">edited here</span>}
+            <SideToggle theirs={theirs} onChange={onChange} />
+        </div>
+    )
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * Shown when a save was rejected because someone saved the same map or chain
+ * after this editor loaded it. Offers to reload their copy, overwrite it with
+ * this one, or merge change by change.
+ */
+export function SaveConflictDialog({
+    conflict,
+    resourceLabel,
+    loadChanges,
+    onReload,
+    onOverwrite,
+    onMerge,
+    onClose,
+}: SaveConflictDialogProps) {
+    const [changes, setChanges] = React.useState<Array<ConflictChange> | null>(null)
+    const [takeTheirs, setTakeTheirs] = React.useState<Set<string>>(new Set())
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [isSaving, setIsSaving] = React.useState(false)
+    const [error, setError] = React.useState<string | null>(null)
+
+    // A new conflict (e.g. after a merge raced another save) starts over at the prompt
+    React.useEffect(() => {
+        setChanges(null)
+        setError(null)
+        setIsSaving(false)
+    }, [conflict])
+
+    async function handleOpenMerge() {
+        setIsLoading(true)
+        setError(null)
+        try {
+            const list = await loadChanges()
+            setChanges(list)
+            setTakeTheirs(new Set(list.filter((c) => !c.local).map((c) => c.key)))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to compare versions")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    async function run(action: () => Promise<void>) {
+        setIsSaving(true)
+        setError(null)
+        try {
+            await action()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save.")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    function setSide(key: string, theirs: boolean) {
+        setTakeTheirs((prev) => {
+            const next = new Set(prev)
+            if (theirs) next.add(key)
+            else next.delete(key)
+            return next
+        })
+    }
+
+    const savedAt = conflict ? new Date(conflict.updatedAt).toLocaleString() : ""
+
+    return (
+        <Dialog open={conflict !== null} onOpenChange={(v) => !v && !isSaving && onClose()}>
+            <DialogContent className={changes ? "max-w-2xl" : "max-w-md"}>
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-amber-400" />
+                        {changes ? `Merge "${conflict?.name}"` : "Save conflict"}
+                    </DialogTitle>
+                </DialogHeader>
+
+                {!changes ? (
+                    <p className="text-sm text-muted-foreground">
+                        This {resourceLabel} was saved elsewhere ({savedAt}) after you opened it.
+                        Your changes have not been saved.
+                    </p>
+                ) : changes.length === 0 ? (
+                    <div className="py-8 text-center text-sm text-muted-foreground">
+                        Both copies are identical — saving keeps them as they are.
+                    </div>
+                ) : (
+                    <div className="max-h-[55vh] overflow-y-auto rounded-xl border border-glass-border divide-y divide-glass-border/40">
+                        {changes.map((change) => (
+                            <ChangeRow
+                                key={change.key}
+                                change={change}
+                                theirs={takeTheirs.has(change.key)}
+                                onChange={(theirs) => setSide(change.key, theirs)}
+                            />
+                        ))}
+                    </div>
+                )}
+
+                {error && <p className="text-xs text-destructive px-1">{error}</p>}
+
+                <DialogFooter>
+                    {!changes ? (
+                        <>
+                            <Button
+                                variant="ghost"
+                                className="rounded-full gap-1.5"
+                                onClick={onReload}
+                                disabled={isSaving}
+                                title="Discard your changes and load the saved copy"
+                            >
+                                <Download className="h-4 w-4" />
+                                Reload
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                className="rounded-full gap-1.5"
+                                onClick={() => run(onOverwrite)}
+                                disabled={isSaving}
+                                title="Replace the saved copy with yours"
+                            >
+                                <Upload className="h-4 w-4" />
+                                Overwrite
+                            </Button>
+                            <Button
+                                className="rounded-full gap-1.5"
+                                onClick={handleOpenMerge}
+                                disabled={isSaving || isLoading}
+                            >
+                                {isLoading ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <GitMerge className="h-4 w-4" />
+                                )}
+                                Merge…
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            <Button
+                                variant="ghost"
+                                className="rounded-full gap-1.5"
+                                onClick={() => setChanges(null)}
+                                disabled={isSaving}
+                            >
+                                <ArrowLeft className="h-4 w-4" />
+                                Back
+                            </Button>
+                            <Button
+                                className="rounded-full"
+                                onClick={() => run(() => onMerge(takeTheirs))}
+                                disabled={isSaving}
+                            >
+                                {isSaving ? "Saving…" : "Save merged"}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
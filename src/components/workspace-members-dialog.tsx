@@ -0,0 +1,271 @@
+import * as React from "react"
+import { Loader2, Trash2, UserPlus } from "lucide-react"
+import type { WorkspaceRole } from "@/lib/workspace/roles"
+import type { WorkspaceMember, WorkspaceSummary } from "@/lib/workspace/types"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS, isWorkspaceRole } from "@/lib/workspace/roles"
+import {
+    addWorkspaceMember,
+    listWorkspaceMembers,
+    removeWorkspaceMember,
+    renameWorkspace,
+    updateWorkspaceMemberRole,
+} from "@/lib/workspace/workspaces.server"
+
+// ─── Props ──────────────────────────────────────────────────────────────────────
+
+interface WorkspaceMembersDialogProps {
+    workspace: WorkspaceSummary | null // The active workspace
+    currentUserId: string
+    open: boolean
+    onClose: () => void
+    onRenamed: () => void
+}
+
+// ─── Role picker ────────────────────────────────────────────────────────────────
+
+function RoleSelect({
+    value,
+    disabled,
+    onChange,
+}: {
+    value: WorkspaceRole
+    disabled?: boolean
+    onChange: (role: WorkspaceRole) => void
+}) {
+    return (
+        <Select
+            value={value}
+            onValueChange={(role: string | null) => {
+                if (role && isWorkspaceRole(role)) onChange(role)
+            }}
+            disabled={disabled}
+        >
+            <SelectTrigger size="sm" className="rounded-full w-28 text-xs">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                {WORKSPACE_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                        {WORKSPACE_ROLE_LABELS[role]}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+/**
+ * Members of the active workspace. Everyone can see the list; admins can
+ * rename the workspace, add registered users by email, change roles and
+ * remove members.
+ */
+export function WorkspaceMembersDialog({
+    workspace,
+    currentUserId,
+    open,
+    onClose,
+    onRenamed,
+}: WorkspaceMembersDialogProps) {
+    const [members, setMembers] = React.useState<Array<WorkspaceMember>>([])
+    const [name, setName] = React.useState("")
+    const [email, setEmail] = React.useState("")
+    const [role, setRole] = React.useState<WorkspaceRole>("editor")
+    const [isLoading, setIsLoading] = React.useState(false)
+    const [busyUserId, setBusyUserId] = React.useState<string | null>(null)
+    const [error, setError] = React.useState<string | null>(null)
+
+    const isAdmin = workspace?.role === "admin"
+
+    async function fetchMembers() {
+        setIsLoading(true)
+        try {
+            setMembers(await listWorkspaceMembers())
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load members")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    React.useEffect(() => {
+        if (!open) return
+        setName(workspace?.name ?? "")
+        setEmail("")
+        setError(null)
+        void fetchMembers()
+    }, [open, workspace])
+
+    /** Run a member change, then refresh the list. */
+    async function change(userId: string, action: () => Promise<unknown>) {
+        setBusyUserId(userId)
+        setError(null)
+        try {
+            await action()
+            await fetchMembers()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to update member")
+        } finally {
+            setBusyUserId(null)
+        }
+    }
+
+    async function handleAdd() {
+        const trimmed = email.trim()
+        if (!trimmed) return
+        await change("__new__", () => addWorkspaceMember({ data: { email: trimmed, role } }))
+        setEmail("")
+    }
+
+    async function handleRename() {
+        const trimmed = name.trim()
+        if (!trimmed || trimmed === workspace?.name) return
+        setError(null)
+        try {
+            await renameWorkspace({ data: { name: trimmed } })
+            onRenamed()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to rename workspace")
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Workspace Members</DialogTitle>
+                </DialogHeader>
+
+                <div className="flex flex-col gap-3">
+                    {isAdmin && (
+                        <Input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onBlur={handleRename}
+                            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                            placeholder="Workspace name"
+                            className="rounded-full"
+                        />
+                    )}
+
+                    <div className="max-h-[50vh] overflow-y-auto rounded-xl border border-glass-border divide-y divide-glass-border/40">
+                        {isLoading && members.length === 0 ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : (
+                            members.map((member) => (
+                                <div
+                                    key={member.userId}
+                                    className="flex items-center gap-2 px-3 py-2 min-w-0"
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm truncate">
+                                            {member.name || member.email}
+                                            {member.userId === currentUserId && (
+                                                <span className="text-muted-foreground">
+                                                    {" "}
+                                                    (you)
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground truncate">
+                                            {member.email}
+                                        </div>
+                                    </div>
+                                    {isAdmin ? (
+                                        <>
+                                            <RoleSelect
+                                                value={member.role}
+                                                disabled={busyUserId === member.userId}
+                                                onChange={(next) =>
+                                                    change(member.userId, () =>
+                                                        updateWorkspaceMemberRole({
+                                                            data: {
+                                                                userId: member.userId,
+                                                                role: next,
+                                                            },
+                                                        }),
+                                                    )
+                                                }
+                                            />
+                                            <Button
+                                                variant="ghost"
+                                                size="icon-sm"
+                                                className="rounded-full text-muted-foreground hover:text-destructive"
+                                                disabled={busyUserId === member.userId}
+                                                onClick={() => {
+                                                    const label = member.name || member.email
+                                                    if (!window.confirm(`Remove ${label}?`)) return
+                                                    void change(member.userId, () =>
+                                                        removeWorkspaceMember({
+                                                            data: { userId: member.userId },
+                                                        }),
+                                                    )
+                                                }}
+                                                title="Remove member"
+                                            >
+                                                <Trash2 className="h-3.5 w-3.5" />
+                                            </Button>
+                                        </>
+                                    ) : (
+                                        <span className="text-xs text-muted-foreground">
+                                            {WORKSPACE_ROLE_LABELS[member.role]}
+                                        </span>
+                                    )}
+                                </div>
+                            ))
+                        )}
+                    </div>
+
+                    {isAdmin && (
+                        <div className="flex items-center gap-2">
+                            <Input
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                                placeholder="Email of a registered user"
+                                className="rounded-full flex-1"
+                            />
+                            <RoleSelect value={role} onChange={setRole} />
+                            <Button
+                                size="sm"
+                                className="rounded-full gap-1.5"
+                                onClick={handleAdd}
+                                disabled={!email.trim() || busyUserId !== null}
+                            >
+                                <UserPlus className="h-4 w-4" />
+                                Add
+                            </Button>
+                        </div>
+                    )}
+
+                    {error && <p className="text-xs text-destructive px-1">{error}</p>}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="ghost" className="rounded-full" onClick={onClose}>
+                        Close
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
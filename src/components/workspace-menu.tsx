@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+    Building2,
+    Check,
+    ChevronDown,
+    Database,
+    KeyRound,
+    Library,
+    Plus,
+    SquareFunction,
+    Users,
+} from "lucide-react"
+import type { WorkspaceSummary } from "@/lib/workspace/types"
+import { ApiTokensDialog } from "@/components/api-tokens-dialog"
+import { FunctionLibraryDialog } from "@/components/function-library-dialog"
+import { LookupLibraryDialog } from "@/components/lookup-library-dialog"
+import { PlatformDataDialog } from "@/components/platform-data-dialog"
+import { WorkspaceMembersDialog } from "@/components/workspace-members-dialog"
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useMapChainStore } from "@/lib/mapchain/store"
+import { useMapperStore } from "@/lib/mapper/store"
+import { cn } from "@/lib/utils"
+import { WORKSPACE_ROLE_LABELS } from "@/lib/workspace/roles"
+import { createWorkspace, listWorkspaces, switchWorkspace } from "@/lib/workspace/workspaces.server"
+
+/**
+ * Header switcher for the active workspace. Maps and chains are listed per
+ * workspace, so switching clears the open map and chain.
+ */
+export function WorkspaceMenu({ userId }: { userId: string }) {
+    const resetMapper = useMapperStore((s) => s.resetState)
+    const resetChain = useMapChainStore((s) => s.resetChain)
+    const mapperDirty = useMapperStore((s) => s.isDirty)
+    const chainDirty = useMapChainStore((s) => s.isDirty)
+
+    const [workspaces, setWorkspaces] = useState<Array<WorkspaceSummary>>([])
+    const [activeId, setActiveId] = useState<string | null>(null)
+    const [membersOpen, setMembersOpen] = useState(false)
+    const [tokensOpen, setTokensOpen] = useState(false)
+    const [platformDataOpen, setPlatformDataOpen] = useState(false)
+    const [libraryOpen, setLibraryOpen] = useState(false)
+    const [functionLibraryOpen, setFunctionLibraryOpen] = useState(false)
+
+    const fetchWorkspaces = useCallback(async () => {
+        try {
+            const result = await listWorkspaces()
+            setWorkspaces(result.workspaces)
+            setActiveId(result.activeId)
+        } catch {
+            setWorkspaces([])
+        }
+    }, [])
+
+    useEffect(() => {
+        void fetchWorkspaces()
+    }, [fetchWorkspaces])
+
+    const active = workspaces.find((w) => w.id === activeId) ?? null
+
+    function confirmDiscard(): boolean {
+        if (!mapperDirty && !chainDirty) return true
+        return window.confirm("Discard unsaved changes to the open map and chain?")
+    }
+
+    async function handleSwitch(id: string) {
+        if (id === activeId || !confirmDiscard()) return
+        try {
+            await switchWorkspace({ data: { id } })
+            resetMapper()
+            resetChain()
+            await fetchWorkspaces()
+        } catch (err) {
+            window.alert(err instanceof Error ? err.message : "Failed to switch workspace")
+        }
+    }
+
+    async function handleCreate() {
+        const name = window.prompt("Name of the new workspace")?.trim()
+        if (!name || !confirmDiscard()) return
+        try {
+            await createWorkspace({ data: { name } })
+            resetMapper()
+            resetChain()
+            await fetchWorkspaces()
+        } catch (err) {
+            window.alert(err instanceof Error ? err.message : "Failed to create workspace")
+        }
+    }
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger
+                    className={cn(
+                        "flex items-center gap-1.5 rounded-full px-3 py-1.5 text-sm transition-colors",
+                        "text-muted-foreground hover:text-foreground hover:bg-muted/20",
+                        "focus:outline-none focus-visible:ring-2 focus-visible:ring-ring/50",
+                    )}
+                >
+                    <Building2 className="h-4 w-4" />
+                    <span className="max-w-40 truncate">{active?.name ?? "Workspace"}</span>
+                    {active && (
+                        <span className="text-xs text-muted-foreground/70">
+                            {WORKSPACE_ROLE_LABELS[active.role]}
+                        </span>
+                    )}
+                    <ChevronDown className="h-3.5 w-3.5" />
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" sideOffset={8} className="w-64">
+                    {workspaces.map((workspace) => (
+                        <DropdownMenuItem
+                            key={workspace.id}
+                            onClick={() => handleSwitch(workspace.id)}
+                        >
+                            <Check
+                                className={cn("size-4", workspace.id !== activeId && "invisible")}
+                            />
+                            <span className="flex-1 truncate">{workspace.name}</span>
+                            <span className="text-xs text-muted-foreground">
+                                {WORKSPACE_ROLE_LABELS[workspace.role]}
+                            </span>
+                        </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setMembersOpen(true)} disabled={!active}>
+                        <Users className="size-4" />
+                        Members…
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setTokensOpen(true)} disabled={!active}>
+                        <KeyRound className="size-4" />
+                        API tokens…
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setPlatformDataOpen(true)} disabled={!active}>
+                        <Database className="size-4" />
+                        Platform data…
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setLibraryOpen(true)} disabled={!active}>
+                        <Library className="size-4" />
+                        Lookup library…
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                        onClick={() => setFunctionLibraryOpen(true)}
+                        disabled={!active}
+                    >
+                        <SquareFunction className="size-4" />
+                        Function library…
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleCreate}>
+                        <Plus className="size-4" />
+                        New workspace…
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <WorkspaceMembersDialog
+                workspace={active}
+                currentUserId={userId}
+                open={membersOpen}
+                onClose={() => setMembersOpen(false)}
+                onRenamed={() => void fetchWorkspaces()}
+            />
+            <ApiTokensDialog
+                workspace={active}
+                open={tokensOpen}
+                onClose={() => setTokensOpen(false)}
+            />
+            <PlatformDataDialog
+                workspace={active}
+                open={platformDataOpen}
+                onClose={() => setPlatformDataOpen(false)}
+            />
+            <LookupLibraryDialog
+                workspace={active}
+                open={libraryOpen}
+                onClose={() => setLibraryOpen(false)}
+            />
+            <FunctionLibraryDialog
+                workspace={active}
+                open={functionLibraryOpen}
+                onClose={() => setFunctionLibraryOpen(false)}
+            />
+        </>
+    )
+}
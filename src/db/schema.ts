@@ -1,4 +1,14 @@
-import { pgTable, text, boolean, timestamp, uuid, jsonb, integer, index } from "drizzle-orm/pg-core"
+import {
+    pgTable,
+    text,
+    boolean,
+    timestamp,
+    uuid,
+    jsonb,
+    integer,
+    index,
+    uniqueIndex,
+} from "drizzle-orm/pg-core"
 
 // ─── Better Auth Tables ──────────────────────────────────────────────
 
@@ -52,13 +62,178 @@ export const verifications = pgTable("verifications", {
     updatedAt: timestamp("updated_at").defaultNow(),
 })
 
+// ─── Workspaces ──────────────────────────────────────────────────────
+
+export const workspaces = pgTable("workspaces", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    createdBy: text("created_by")
+        .notNull()
+        .references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+})
+
+export const workspaceMembers = pgTable(
+    "workspace_members",
+    {
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        role: text("role").notNull(), // WorkspaceRole: "viewer" | "editor" | "admin"
+        createdAt: timestamp("created_at").defaultNow(),
+    },
+    (table) => [
+        uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+        index("workspace_members_user_idx").on(table.userId),
+    ],
+)
+
+// ─── API Tokens ──────────────────────────────────────────────────────
+
+export const apiTokens = pgTable(
+    "api_tokens",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        userId: text("user_id") // Owner of a personal token, creator of a workspace token
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        kind: text("kind").notNull(), // ApiTokenKind: "personal" | "workspace"
+        name: text("name").notNull(),
+        tokenHash: text("token_hash").unique().notNull(), // SHA-256 of the token; the token itself is never stored
+        prefix: text("prefix").notNull(), // Start of the token, shown to tell tokens apart
+        scopes: jsonb("scopes").notNull(), // Array<ApiTokenScope>
+        expiresAt: timestamp("expires_at"), // null: never expires
+        lastUsedAt: timestamp("last_used_at"),
+        createdAt: timestamp("created_at").defaultNow(),
+    },
+    (table) => [index("api_tokens_workspace_idx").on(table.workspaceId)],
+)
+
+// ─── Platform Data ───────────────────────────────────────────────────
+
+// What JTUtil.getGlobalData and JTLookupUtil resolve to when maps run here
+// (see src/lib/mapper/platform-data.ts)
+
+export const platformGlobalData = pgTable(
+    "platform_global_data",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        key: text("key").notNull(),
+        value: text("value").notNull(),
+        updatedAt: timestamp("updated_at").defaultNow(),
+    },
+    (table) => [
+        uniqueIndex("platform_global_data_workspace_key_idx").on(table.workspaceId, table.key),
+    ],
+)
+
+export const platformLookupTables = pgTable(
+    "platform_lookup_tables",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        name: text("name").notNull(),
+        entries: jsonb("entries").notNull(), // Record<string, string>
+        updatedAt: timestamp("updated_at").defaultNow(),
+    },
+    (table) => [
+        uniqueIndex("platform_lookup_tables_workspace_name_idx").on(table.workspaceId, table.name),
+    ],
+)
+
+// ─── Shared Library ──────────────────────────────────────────────────
+
+// Lookup tables maps link by name instead of embedding them; generation
+// inlines the current entries (see src/lib/mapper/shared-library.ts)
+
+export const sharedLookupTables = pgTable(
+    "shared_lookup_tables",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        name: text("name").notNull(), // What maps link to — LookupTable.libraryTable
+        description: text("description"),
+        entries: jsonb("entries").notNull(), // Array<LookupEntry>
+        updatedBy: text("updated_by").references(() => users.id, { onDelete: "set null" }),
+        createdAt: timestamp("created_at").defaultNow(),
+        updatedAt: timestamp("updated_at").defaultNow(),
+    },
+    (table) => [
+        uniqueIndex("shared_lookup_tables_workspace_name_idx").on(table.workspaceId, table.name),
+    ],
+)
+
+// Transform functions maps import by name, pinned to a version or following
+// the latest; each version is an immutable body in one script language
+
+export const sharedFunctions = pgTable(
+    "shared_functions",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        name: text("name").notNull(), // What maps import — TransformFunction.libraryFunction
+        language: text("language").notNull(), // ScriptLanguage of every version
+        description: text("description"),
+        latestVersion: integer("latest_version").notNull().default(1),
+        createdAt: timestamp("created_at").defaultNow(),
+        updatedAt: timestamp("updated_at").defaultNow(),
+    },
+    (table) => [
+        uniqueIndex("shared_functions_workspace_name_language_idx").on(
+            table.workspaceId,
+            table.name,
+            table.language,
+        ),
+    ],
+)
+
+export const sharedFunctionVersions = pgTable(
+    "shared_function_versions",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        functionId: uuid("function_id")
+            .notNull()
+            .references(() => sharedFunctions.id, { onDelete: "cascade" }),
+        version: integer("version").notNull(),
+        body: text("body").notNull(),
+        message: text("message"),
+        userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+        createdAt: timestamp("created_at").defaultNow(),
+    },
+    (table) => [
+        uniqueIndex("shared_function_versions_function_version_idx").on(
+            table.functionId,
+            table.version,
+        ),
+    ],
+)
+
 // ─── Application Tables ──────────────────────────────────────────────
 
 export const mapperMaps = pgTable(
     "mapper_maps",
     {
         id: uuid("id").primaryKey().defaultRandom(),
-        userId: text("user_id")
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        userId: text("user_id") // Creator
             .notNull()
             .references(() => users.id),
         name: text("name").notNull(),
@@ -66,24 +241,70 @@ export const mapperMaps = pgTable(
         sourceInputType: text("source_input_type"),
         targetInputType: text("target_input_type"),
         nodeCount: integer("node_count").default(0),
+        revision: integer("revision").notNull().default(1), // Bumped on every save; = latest version
         createdAt: timestamp("created_at").defaultNow(),
         updatedAt: timestamp("updated_at").defaultNow(),
     },
-    (table) => [index("mapper_maps_user_updated_idx").on(table.userId, table.updatedAt)],
+    (table) => [index("mapper_maps_workspace_updated_idx").on(table.workspaceId, table.updatedAt)],
+)
+
+export const mapperMapVersions = pgTable(
+    "mapper_map_versions",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        mapId: uuid("map_id")
+            .notNull()
+            .references(() => mapperMaps.id, { onDelete: "cascade" }),
+        version: integer("version").notNull(),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id),
+        message: text("message"),
+        name: text("name").notNull(),
+        state: jsonb("state").notNull(),
+        nodeCount: integer("node_count").default(0),
+        createdAt: timestamp("created_at").defaultNow(),
+    },
+    (table) => [uniqueIndex("mapper_map_versions_map_version_idx").on(table.mapId, table.version)],
 )
 
 export const mapChains = pgTable(
     "map_chains",
     {
         id: uuid("id").primaryKey().defaultRandom(),
-        userId: text("user_id")
+        workspaceId: uuid("workspace_id")
+            .notNull()
+            .references(() => workspaces.id, { onDelete: "cascade" }),
+        userId: text("user_id") // Creator
             .notNull()
             .references(() => users.id),
         name: text("name").notNull(),
         chain: jsonb("chain").notNull(),
         linkCount: integer("link_count").default(0),
+        revision: integer("revision").notNull().default(1), // Bumped on every save
         createdAt: timestamp("created_at").defaultNow(),
         updatedAt: timestamp("updated_at").defaultNow(),
     },
-    (table) => [index("map_chains_user_updated_idx").on(table.userId, table.updatedAt)],
+    (table) => [index("map_chains_workspace_updated_idx").on(table.workspaceId, table.updatedAt)],
+)
+
+export const mapChainRuns = pgTable(
+    "map_chain_runs",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        chainId: uuid("chain_id")
+            .notNull()
+            .references(() => mapChains.id, { onDelete: "cascade" }),
+        userId: text("user_id")
+            .notNull()
+            .references(() => users.id),
+        status: text("status").notNull(),
+        input: text("input").notNull(),
+        output: text("output"),
+        steps: jsonb("steps").notNull(),
+        error: text("error"),
+        durationMs: integer("duration_ms").default(0),
+        createdAt: timestamp("created_at").defaultNow(),
+    },
+    (table) => [index("map_chain_runs_chain_created_idx").on(table.chainId, table.createdAt)],
 )
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { apiError, apiOutput, contentTypeForInputType, detectContentType } from "../responses"
+
+describe("contentTypeForInputType", () => {
+    it("maps each target format to its content type", () => {
+        expect(contentTypeForInputType("JSON")).toBe("application/json; charset=utf-8")
+        expect(contentTypeForInputType("XML")).toBe("application/xml; charset=utf-8")
+        expect(contentTypeForInputType("CSV")).toBe("text/csv; charset=utf-8")
+    })
+
+    it("treats an unknown target like the script does — as JSON", () => {
+        expect(contentTypeForInputType("UNKNOWN")).toBe("application/json; charset=utf-8")
+    })
+})
+
+describe("detectContentType", () => {
+    it("detects JSON documents and scalars", () => {
+        expect(detectContentType('{"a": 1}')).toBe("application/json; charset=utf-8")
+        expect(detectContentType("  [1, 2]\n")).toBe("application/json; charset=utf-8")
+        expect(detectContentType("42")).toBe("application/json; charset=utf-8")
+    })
+
+    it("detects XML by its leading tag", () => {
+        expect(detectContentType('<?xml version="1.0"?><a/>')).toBe(
+            "application/xml; charset=utf-8",
+        )
+    })
+
+    it("falls back to plain text", () => {
+        expect(detectContentType("id,name\n1,a")).toBe("text/plain; charset=utf-8")
+        expect(detectContentType("{broken")).toBe("text/plain; charset=utf-8")
+        expect(detectContentType("")).toBe("text/plain; charset=utf-8")
+    })
+})
+
+describe("apiError / apiOutput", () => {
+    it("returns errors as JSON with the logs", async () => {
+        const response = apiError(422, { error: "boom", logs: ["line 1"] })
+        expect(response.status).toBe(422)
+        expect(response.headers.get("Content-Type")).toContain("application/json")
+        expect(await response.json()).toEqual({ error: "boom", logs: ["line 1"] })
+    })
+
+    it("returns the output as-is with its content type and duration", async () => {
+        const response = apiOutput("<a/>", "application/xml; charset=utf-8", 12.6)
+        expect(response.status).toBe(200)
+        expect(response.headers.get("Content-Type")).toBe("application/xml; charset=utf-8")
+        expect(response.headers.get("X-Transform-Duration-Ms")).toBe("13")
+        expect(await response.text()).toBe("<a/>")
+    })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import {
+    API_TOKEN_PREFIX,
+    generateApiToken,
+    hashApiToken,
+    isApiTokenExpired,
+    parseBearerToken,
+    scopeForRole,
+} from "../tokens"
+
+describe("parseBearerToken", () => {
+    it("extracts the token of a Bearer header", () => {
+        expect(parseBearerToken("Bearer jtm_abc")).toBe("jtm_abc")
+        expect(parseBearerToken("bearer  jtm_abc ")).toBe("jtm_abc")
+    })
+
+    it("ignores missing and other headers", () => {
+        expect(parseBearerToken(null)).toBeNull()
+        expect(parseBearerToken("Basic dXNlcjpwYXNz")).toBeNull()
+        expect(parseBearerToken("Bearer")).toBeNull()
+        expect(parseBearerToken("Bearer a b")).toBeNull()
+    })
+})
+
+describe("generateApiToken", () => {
+    it("creates distinct prefixed tokens with a short display prefix", () => {
+        const a = generateApiToken()
+        const b = generateApiToken()
+        expect(a.token).not.toBe(b.token)
+        expect(a.token.startsWith(API_TOKEN_PREFIX)).toBe(true)
+        expect(a.token).toMatch(/^jtm_[A-Za-z0-9_-]{43}$/)
+        expect(a.token.startsWith(a.prefix)).toBe(true)
+        expect(a.prefix.length).toBeLessThan(a.token.length)
+    })
+})
+
+describe("hashApiToken", () => {
+    it("hashes to stable SHA-256 hex", async () => {
+        expect(await hashApiToken("abc")).toBe(
+            "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+        )
+        expect(await hashApiToken("abc")).not.toBe(await hashApiToken("abd"))
+    })
+})
+
+describe("isApiTokenExpired", () => {
+    const now = new Date("2026-01-10T00:00:00Z")
+
+    it("never expires tokens without an expiry", () => {
+        expect(isApiTokenExpired(null, now)).toBe(false)
+    })
+
+    it("compares the expiry with now", () => {
+        expect(isApiTokenExpired("2026-01-09T23:59:59Z", now)).toBe(true)
+        expect(isApiTokenExpired(new Date("2026-01-11T00:00:00Z"), now)).toBe(false)
+    })
+})
+
+describe("scopeForRole", () => {
+    it("maps roles to the scope a token needs and keeps admin work from tokens", () => {
+        expect(scopeForRole("viewer")).toBe("read")
+        expect(scopeForRole("editor")).toBe("write")
+        expect(scopeForRole("admin")).toBeNull()
+    })
+})
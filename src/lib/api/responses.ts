@@ -0,0 +1,60 @@
+import type { ValidationIssue } from "@/lib/mapper/engine"
+import type { ChainStepResult } from "@/lib/mapchain/types"
+import type { InputType } from "@/lib/mapper/types"
+import { toDataFormat } from "@/lib/mapper/engine"
+
+// ============================================================
+// HTTP API — Response helpers
+// ============================================================
+
+/** Body of every failed API request. */
+export interface ApiErrorBody {
+    error: string
+    logs: Array<string> // Console output of the script(s) up to the failure
+    validation?: Array<ValidationIssue>
+    steps?: Array<ChainStepResult> // Chain transforms: every step that ran
+}
+
+const FORMAT_CONTENT_TYPES = {
+    json: "application/json; charset=utf-8",
+    xml: "application/xml; charset=utf-8",
+    csv: "text/csv; charset=utf-8",
+} as const
+
+/** Content type of a map's output, from its target input type. */
+export function contentTypeForInputType(type: InputType): string {
+    return FORMAT_CONTENT_TYPES[toDataFormat(type)]
+}
+
+/**
+ * Content type of an output whose format is not declared (chain outputs —
+ * routes and scripts can change it): JSON if it parses, XML if it starts with
+ * a tag, plain text otherwise.
+ */
+export function detectContentType(output: string): string {
+    const trimmed = output.trim()
+    if (trimmed.startsWith("<")) return FORMAT_CONTENT_TYPES.xml
+    if (trimmed !== "") {
+        try {
+            JSON.parse(trimmed)
+            return FORMAT_CONTENT_TYPES.json
+        } catch {
+            // Not JSON
+        }
+    }
+    return "text/plain; charset=utf-8"
+}
+
+export function apiError(status: number, body: ApiErrorBody): Response {
+    return Response.json(body, { status })
+}
+
+export function apiOutput(output: string, contentType: string, durationMs: number): Response {
+    return new Response(output, {
+        status: 200,
+        headers: {
+            "Content-Type": contentType,
+            "X-Transform-Duration-Ms": String(Math.round(durationMs)),
+        },
+    })
+}
@@ -0,0 +1,136 @@
+import { createServerFn } from "@tanstack/react-start"
+import { z } from "zod"
+import { and, desc, eq } from "drizzle-orm"
+import { API_TOKEN_KINDS, API_TOKEN_SCOPES, generateApiToken, hashApiToken } from "./tokens"
+import type { ApiTokenKind, ApiTokenScope, ApiTokenSummary } from "./tokens"
+import { requireRole } from "@/lib/auth-middleware"
+import { db } from "@/db"
+import { apiTokens, users } from "@/db/schema"
+
+// Tokens are managed from the browser only — a token cannot list, mint or
+// revoke tokens, hence requireRole(..., null) throughout.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type ApiTokenRow = Omit<typeof apiTokens.$inferSelect, "tokenHash" | "userId" | "workspaceId">
+
+function toTokenSummary(row: ApiTokenRow, createdBy: string): ApiTokenSummary {
+    return {
+        id: row.id,
+        name: row.name,
+        kind: row.kind as ApiTokenKind,
+        prefix: row.prefix,
+        scopes: row.scopes as Array<ApiTokenScope>,
+        createdBy,
+        expiresAt: row.expiresAt?.toISOString() ?? null,
+        lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+        createdAt: (row.createdAt ?? new Date()).toISOString(),
+    }
+}
+
+// ============================================================
+// listApiTokens — Tokens of the active workspace the user may manage
+// ============================================================
+
+/** Members see their personal tokens; admins see every token of the workspace. */
+export const listApiTokens = createServerFn()
+    .middleware([requireRole("viewer", null)])
+    .handler(async ({ context }): Promise<Array<ApiTokenSummary>> => {
+        const rows = await db
+            .select({
+                id: apiTokens.id,
+                name: apiTokens.name,
+                kind: apiTokens.kind,
+                prefix: apiTokens.prefix,
+                scopes: apiTokens.scopes,
+                expiresAt: apiTokens.expiresAt,
+                lastUsedAt: apiTokens.lastUsedAt,
+                createdAt: apiTokens.createdAt,
+                ownerName: users.name,
+                ownerEmail: users.email,
+            })
+            .from(apiTokens)
+            .innerJoin(users, eq(apiTokens.userId, users.id))
+            .where(
+                context.role === "admin"
+                    ? eq(apiTokens.workspaceId, context.workspaceId)
+                    : and(
+                          eq(apiTokens.workspaceId, context.workspaceId),
+                          eq(apiTokens.userId, context.userId),
+                          eq(apiTokens.kind, "personal"),
+                      ),
+            )
+            .orderBy(desc(apiTokens.createdAt))
+
+        return rows.map(({ ownerName, ownerEmail, ...row }) =>
+            toTokenSummary(row, ownerName || ownerEmail),
+        )
+    })
+
+// ============================================================
+// createApiToken — Create a token; the token is returned only here
+// ============================================================
+
+export const createApiToken = createServerFn({ method: "POST" })
+    .middleware([requireRole("viewer", null)])
+    .inputValidator(
+        z.object({
+            name: z.string().trim().min(1).max(100),
+            kind: z.enum(API_TOKEN_KINDS),
+            scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+            expiresInDays: z.number().int().min(1).max(3650).nullable(), // null: never expires
+        }),
+    )
+    .handler(async ({ data, context }) => {
+        if (data.kind === "workspace" && context.role !== "admin") {
+            throw new Error("Forbidden: only admins create workspace tokens")
+        }
+
+        const { token, prefix } = generateApiToken()
+        const [row] = await db
+            .insert(apiTokens)
+            .values({
+                workspaceId: context.workspaceId,
+                userId: context.userId,
+                kind: data.kind,
+                name: data.name,
+                tokenHash: await hashApiToken(token),
+                prefix,
+                scopes: [...new Set(data.scopes)],
+                expiresAt:
+                    data.expiresInDays === null
+                        ? null
+                        : new Date(Date.now() + data.expiresInDays * DAY_MS),
+            })
+            .returning()
+
+        return { token, summary: toTokenSummary(row, context.user.name || context.user.email) }
+    })
+
+// ============================================================
+// revokeApiToken — Delete a token; requests using it fail from now on
+// ============================================================
+
+/** Owners revoke their personal tokens; admins revoke any token of the workspace. */
+export const revokeApiToken = createServerFn({ method: "POST" })
+    .middleware([requireRole("viewer", null)])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        const removed = await db
+            .delete(apiTokens)
+            .where(
+                context.role === "admin"
+                    ? and(eq(apiTokens.id, data.id), eq(apiTokens.workspaceId, context.workspaceId))
+                    : and(
+                          eq(apiTokens.id, data.id),
+                          eq(apiTokens.workspaceId, context.workspaceId),
+                          eq(apiTokens.userId, context.userId),
+                          eq(apiTokens.kind, "personal"),
+                      ),
+            )
+            .returning({ id: apiTokens.id })
+
+        if (removed.length === 0) throw new Error("Token not found")
+
+        return { revoked: true }
+    })
@@ -0,0 +1,86 @@
+import type { WorkspaceRole } from "@/lib/workspace/roles"
+
+// ============================================================
+// API tokens
+// ============================================================
+// Scripts and CI authenticate with `Authorization: Bearer <token>` instead of
+// a browser session. A token belongs to one workspace and grants only its
+// scopes: "read" for server functions any member may call, "write" for those
+// that need an editor (saves, deletes, restores) and "execute" for running
+// scripts and chains. Member management is never available to tokens.
+//
+// Personal tokens act as their owner and lose access with the owner's role;
+// workspace tokens are managed by admins and act as an editor.
+
+export const API_TOKEN_SCOPES = ["read", "execute", "write"] as const
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number]
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+    read: "Read maps & chains",
+    execute: "Execute",
+    write: "Write",
+}
+
+export const API_TOKEN_KINDS = ["personal", "workspace"] as const
+
+export type ApiTokenKind = (typeof API_TOKEN_KINDS)[number]
+
+/** Every token starts with this, so leaked tokens are easy to search for. */
+export const API_TOKEN_PREFIX = "jtm_"
+
+/** Characters of a token kept in clear to tell tokens apart in the UI. */
+const DISPLAYED_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6
+
+/** A token as listed in the UI — the token itself is shown only once, on creation. */
+export interface ApiTokenSummary {
+    id: string
+    name: string
+    kind: ApiTokenKind
+    prefix: string
+    scopes: Array<ApiTokenScope>
+    createdBy: string // Name or email of the owner / creator
+    expiresAt: string | null
+    lastUsedAt: string | null
+    createdAt: string
+}
+
+export function isApiTokenScope(value: string): value is ApiTokenScope {
+    return (API_TOKEN_SCOPES as ReadonlyArray<string>).includes(value)
+}
+
+/**
+ * Scope a token needs to act with `role`. Tokens never act as admins.
+ */
+export function scopeForRole(role: WorkspaceRole): ApiTokenScope | null {
+    if (role === "viewer") return "read"
+    if (role === "editor") return "write"
+    return null
+}
+
+/** The token of an `Authorization: Bearer` header, or null for anything else. */
+export function parseBearerToken(header: string | null): string | null {
+    const match = header?.match(/^Bearer\s+(\S+)\s*$/i)
+    return match?.[1] ?? null
+}
+
+export function isApiTokenExpired(expiresAt: Date | string | null, now = new Date()): boolean {
+    return expiresAt !== null && new Date(expiresAt).getTime() <= now.getTime()
+}
+
+/** A new random token and the start of it that is stored for display. */
+export function generateApiToken(): { token: string; prefix: string } {
+    const bytes = crypto.getRandomValues(new Uint8Array(32))
+    const base64url = btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "")
+    const token = API_TOKEN_PREFIX + base64url
+    return { token, prefix: token.slice(0, DISPLAYED_PREFIX_LENGTH) }
+}
+
+/** SHA-256 of a token as hex — what the api_tokens table stores and looks up. */
+export async function hashApiToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token))
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
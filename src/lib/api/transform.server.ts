@@ -0,0 +1,168 @@
+import { z } from "zod"
+import { and, eq } from "drizzle-orm"
+import { apiError, apiOutput, contentTypeForInputType, detectContentType } from "./responses"
+import type { MapChain } from "@/lib/mapchain/types"
+import type { PlatformData } from "@/lib/mapper/platform-data"
+import type { SharedLibrary } from "@/lib/mapper/shared-library"
+import type { MapperState } from "@/lib/mapper/types"
+import type { AuthContext } from "@/lib/auth-middleware"
+import { accessError, resolveRequestAuth } from "@/lib/auth-middleware"
+import { db } from "@/db"
+import { mapChains, mapperMaps } from "@/db/schema"
+import { runChain } from "@/lib/mapchain/chain-engine"
+import { createServerRuntime } from "@/lib/mapchain/runs.server"
+import { generateScript, needsGroovyShims, toDataFormat } from "@/lib/mapper/engine"
+import { generateGroovyScript } from "@/lib/mapper/groovy-engine"
+import { runGroovyOnSidecar } from "@/lib/mapper/groovy-executor.server"
+import { loadPlatformData } from "@/lib/mapper/platform-data.server"
+import { libraryRequest } from "@/lib/mapper/shared-library"
+import { loadSharedLibrary } from "@/lib/mapper/shared-library.server"
+import { executeScriptInVm } from "@/lib/mapper/script-executor.server"
+import { deserializeMapperState } from "@/lib/mapper/serialization"
+
+const idSchema = z.string().uuid()
+
+/**
+ * The caller's auth context, or the error response to send instead.
+ * Transforms run scripts, so they need the same role and API token scope as
+ * chain runs.
+ */
+async function authorize(request: Request): Promise<AuthContext | Response> {
+    const context = await resolveRequestAuth(request)
+    if (!context) return apiError(401, { error: "Unauthorized", logs: [] })
+    const error = accessError(context, "editor", "execute")
+    if (error) return apiError(403, { error, logs: [] })
+    return context
+}
+
+function errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err)
+}
+
+// ============================================================
+// transformWithMap — POST /api/maps/$id/transform
+// ============================================================
+
+/**
+ * Runs a saved map on the raw request body and returns its output typed by
+ * the map's target format. Script errors and a stored state that cannot be
+ * loaded answer 422 (script errors with the script's logs), an unreachable
+ * Groovy sidecar 502, a failure to load the shared library or platform data
+ * 500 — all with the same error body.
+ */
+export async function transformWithMap(request: Request, mapId: string): Promise<Response> {
+    const context = await authorize(request)
+    if (context instanceof Response) return context
+
+    if (!idSchema.safeParse(mapId).success) {
+        return apiError(404, { error: "Map not found", logs: [] })
+    }
+
+    const rows = await db
+        .select({ state: mapperMaps.state })
+        .from(mapperMaps)
+        .where(and(eq(mapperMaps.id, mapId), eq(mapperMaps.workspaceId, context.workspaceId)))
+        .limit(1)
+
+    if (rows.length === 0) return apiError(404, { error: "Map not found", logs: [] })
+
+    const input = await request.text()
+    let state: MapperState
+    try {
+        state = deserializeMapperState(JSON.stringify(rows[0].state))
+    } catch {
+        return apiError(422, { error: "Map state could not be loaded", logs: [] })
+    }
+    const srcType = toDataFormat(state.sourceInputType)
+    const tgtType = toDataFormat(state.targetInputType)
+    const contentType = contentTypeForInputType(state.targetInputType)
+    const injectGroovyShims = needsGroovyShims(state)
+
+    let library: SharedLibrary
+    let platformData: PlatformData | undefined
+    try {
+        library = await loadSharedLibrary(context.workspaceId, libraryRequest(state))
+        if (state.scriptLanguage === "groovy" || injectGroovyShims) {
+            platformData = await loadPlatformData(context.workspaceId)
+        }
+    } catch (err) {
+        return apiError(500, { error: errorMessage(err), logs: [] })
+    }
+
+    if (state.scriptLanguage === "groovy") {
+        const script = generateGroovyScript(state, srcType, tgtType, { library })
+        let result
+        try {
+            result = await runGroovyOnSidecar(script, input, undefined, platformData)
+        } catch (err) {
+            return apiError(502, { error: errorMessage(err), logs: [] })
+        }
+        if (result.error) {
+            return apiError(422, {
+                error: result.error,
+                logs: result.logs,
+                validation: result.validation,
+            })
+        }
+        return apiOutput(result.output, contentType, result.durationMs)
+    }
+
+    const script = generateScript(state, srcType, tgtType, { library })
+    const result = await executeScriptInVm(script, input, state.localContext, {
+        injectGroovyShims,
+        platformData,
+        timeoutMs: state.mapperPreferences.scriptTimeoutMs,
+        signal: request.signal,
+    })
+    if (result.error) {
+        return apiError(422, {
+            error: result.error,
+            logs: result.logs,
+            validation: result.validation,
+        })
+    }
+    return apiOutput(result.output, contentType, result.durationMs)
+}
+
+// ============================================================
+// transformWithChain — POST /api/chains/$id/transform
+// ============================================================
+
+/**
+ * Runs a saved chain on the raw request body. Nothing is recorded in the
+ * chain's run history. Failures answer 422 with every step that ran and the
+ * logs of all scripts, in order.
+ */
+export async function transformWithChain(request: Request, chainId: string): Promise<Response> {
+    const context = await authorize(request)
+    if (context instanceof Response) return context
+
+    if (!idSchema.safeParse(chainId).success) {
+        return apiError(404, { error: "Chain not found", logs: [] })
+    }
+
+    const rows = await db
+        .select({ chain: mapChains.chain })
+        .from(mapChains)
+        .where(and(eq(mapChains.id, chainId), eq(mapChains.workspaceId, context.workspaceId)))
+        .limit(1)
+
+    if (rows.length === 0) return apiError(404, { error: "Chain not found", logs: [] })
+
+    const logs: Array<string> = []
+    const runtime = createServerRuntime(context.workspaceId, (scriptLogs) =>
+        logs.push(...scriptLogs),
+    )
+
+    const chain = rows[0].chain as MapChain
+    const outcome = await runChain(chain.links, await request.text(), runtime)
+
+    if (outcome.status === "error" || outcome.output === null) {
+        return apiError(422, {
+            error: outcome.error ?? "Chain produced no output",
+            logs,
+            steps: outcome.steps,
+        })
+    }
+    return apiOutput(outcome.output, detectContentType(outcome.output), outcome.durationMs)
+}
@@ -1,20 +1,191 @@
 import { createMiddleware } from "@tanstack/react-start"
+import { getCookie } from "@tanstack/react-start/server"
+import { and, asc, eq } from "drizzle-orm"
+import type { ApiTokenScope } from "@/lib/api/tokens"
+import type { WorkspaceRole } from "@/lib/workspace/roles"
 import { auth } from "@/lib/auth"
+import { db } from "@/db"
+import { apiTokens, users, workspaceMembers, workspaces } from "@/db/schema"
+import {
+    API_TOKEN_SCOPE_LABELS,
+    hashApiToken,
+    isApiTokenExpired,
+    parseBearerToken,
+    scopeForRole,
+} from "@/lib/api/tokens"
+import { ACTIVE_WORKSPACE_COOKIE, WORKSPACE_ROLE_LABELS, hasRole } from "@/lib/workspace/roles"
+
+/**
+ * The workspace a request works in: the one named by the active-workspace
+ * cookie if the user is a member, otherwise the user's oldest membership.
+ * Users without any workspace (new sign-ups) get a personal one.
+ */
+async function resolveWorkspace(
+    user: { id: string; name: string | null; email: string },
+    requestedId: string | undefined,
+): Promise<{ id: string; role: WorkspaceRole }> {
+    const memberships = await db
+        .select({ id: workspaceMembers.workspaceId, role: workspaceMembers.role })
+        .from(workspaceMembers)
+        .where(eq(workspaceMembers.userId, user.id))
+        .orderBy(asc(workspaceMembers.createdAt))
+
+    const active = memberships.find((m) => m.id === requestedId) ?? memberships.at(0)
+    if (active) return { id: active.id, role: active.role as WorkspaceRole }
+
+    return db.transaction(async (tx) => {
+        const [workspace] = await tx
+            .insert(workspaces)
+            .values({ name: `${user.name || user.email}'s workspace`, createdBy: user.id })
+            .returning({ id: workspaces.id })
+        await tx
+            .insert(workspaceMembers)
+            .values({ workspaceId: workspace.id, userId: user.id, role: "admin" })
+        return { id: workspace.id, role: "admin" as const }
+    })
+}
+
+/** What authMiddleware adds to the context of a server function. */
+export interface AuthContext {
+    userId: string
+    user: { id: string; name: string | null; email: string }
+    workspaceId: string
+    role: WorkspaceRole
+    token: { id: string; scopes: Array<ApiTokenScope> } | null // Set for API token requests
+}
+
+/**
+ * Auth context of an API token, or null when it is unknown, expired, or a
+ * personal token whose owner left the token's workspace. Records the use.
+ */
+async function resolveApiToken(token: string): Promise<AuthContext | null> {
+    const rows = await db
+        .select({
+            id: apiTokens.id,
+            workspaceId: apiTokens.workspaceId,
+            kind: apiTokens.kind,
+            scopes: apiTokens.scopes,
+            expiresAt: apiTokens.expiresAt,
+            userId: users.id,
+            name: users.name,
+            email: users.email,
+        })
+        .from(apiTokens)
+        .innerJoin(users, eq(apiTokens.userId, users.id))
+        .where(eq(apiTokens.tokenHash, await hashApiToken(token)))
+        .limit(1)
+
+    if (rows.length === 0 || isApiTokenExpired(rows[0].expiresAt)) return null
+    const row = rows[0]
+
+    // Workspace tokens act as an editor; personal tokens with their owner's role
+    let role: WorkspaceRole = "editor"
+    if (row.kind === "personal") {
+        const memberships = await db
+            .select({ role: workspaceMembers.role })
+            .from(workspaceMembers)
+            .where(
+                and(
+                    eq(workspaceMembers.workspaceId, row.workspaceId),
+                    eq(workspaceMembers.userId, row.userId),
+                ),
+            )
+            .limit(1)
+        if (memberships.length === 0) return null
+        role = memberships[0].role as WorkspaceRole
+    }
+
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, row.id))
+
+    return {
+        userId: row.userId,
+        user: { id: row.userId, name: row.name, email: row.email },
+        workspaceId: row.workspaceId,
+        role,
+        token: { id: row.id, scopes: row.scopes as Array<ApiTokenScope> },
+    }
+}
+
+/**
+ * The caller of a request and the workspace it works in, or null when it is
+ * not authenticated. Requests with an `Authorization: Bearer` header are
+ * judged by the token alone; others need a browser session. Shared by the
+ * middlewares below and the HTTP API routes.
+ */
+export async function resolveRequestAuth(request: Request): Promise<AuthContext | null> {
+    const bearer = parseBearerToken(request.headers.get("authorization"))
+    if (bearer !== null) return resolveApiToken(bearer)
 
-export const authMiddleware = createMiddleware().server(async ({ next, request }) => {
     const session = await auth.api.getSession({
         headers: request.headers,
     })
 
-    if (!session) {
+    if (!session) return null
+
+    const workspace = await resolveWorkspace(session.user, getCookie(ACTIVE_WORKSPACE_COOKIE))
+
+    return {
+        userId: session.user.id,
+        user: { id: session.user.id, name: session.user.name, email: session.user.email },
+        workspaceId: workspace.id,
+        role: workspace.role,
+        token: null,
+    }
+}
+
+/**
+ * Why `context` may not do something that needs `required` — and, for API
+ * tokens, `scope` — or null when it may.
+ */
+export function accessError(
+    context: AuthContext,
+    required: WorkspaceRole,
+    scope: ApiTokenScope | null = scopeForRole(required),
+): string | null {
+    if (!hasRole(context.role, required)) {
+        return `Forbidden: requires the ${WORKSPACE_ROLE_LABELS[required]} role in this workspace`
+    }
+    if (context.token) {
+        if (scope === null) return "Forbidden: not available to API tokens"
+        if (!context.token.scopes.includes(scope)) {
+            return `Forbidden: the API token lacks the "${API_TOKEN_SCOPE_LABELS[scope]}" scope`
+        }
+    }
+    return null
+}
+
+/** Authenticates the request without checking any permission. */
+const identityMiddleware = createMiddleware().server(async ({ next, request }) => {
+    const context = await resolveRequestAuth(request)
+
+    if (!context) {
         throw new Error("Unauthorized")
     }
 
-    return next({
-        context: {
-            userId: session.user.id,
-            user: session.user,
-            session: session.session,
-        },
-    })
+    return next({ context })
 })
+
+/** Any member of the active workspace — API tokens need the "read" scope. */
+export const authMiddleware = createMiddleware()
+    .middleware([identityMiddleware])
+    .server(({ next, context }) => {
+        const error = accessError(context, "viewer")
+        if (error) throw new Error(error)
+        return next()
+    })
+
+/**
+ * A minimum role in the active workspace — reads need only membership, saves
+ * need "editor", member management "admin". API tokens also need `scope`,
+ * by default the one matching the role ("write" for editors); runs pass
+ * "execute", and null keeps a function to browser sessions.
+ */
+export function requireRole(required: WorkspaceRole, scope?: ApiTokenScope | null) {
+    return createMiddleware()
+        .middleware([identityMiddleware])
+        .server(({ next, context }) => {
+            const error = accessError(context, required, scope)
+            if (error) throw new Error(error)
+            return next()
+        })
+}
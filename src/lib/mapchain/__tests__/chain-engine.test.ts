@@ -0,0 +1,393 @@
+import { describe, expect, it, vi } from "vitest"
+import { isChainExecutable, resolveSplitExpression, runChain } from "../chain-engine"
+import type { ChainRuntime } from "../chain-engine"
+import type { ChainRoute, MapChainLink } from "../types"
+import type { ScriptExecutionResult } from "@/lib/mapper/engine"
+import { executeScript } from "@/lib/mapper/engine"
+import { createEmptyMapperState, createNode } from "@/lib/mapper/node-utils"
+import { serializeMapperState } from "@/lib/mapper/serialization"
+import { emptySharedLibrary } from "@/lib/mapper/shared-library"
+
+// The browser runtime's map loader is a server function; these tests inject a runtime instead
+vi.mock("@/lib/mapper/persistence.server", () => ({ loadMapForChainExecution: vi.fn() }))
+
+function scriptLink(id: string, scriptCode: string, enabled = true): MapChainLink {
+    return { id, type: "JT_SCRIPT", name: id, enabled, scriptCode }
+}
+
+function routerLink(id: string, routes: Array<ChainRoute>): MapChainLink {
+    return { id, type: "ROUTER", name: id, enabled: true, routes }
+}
+
+function route(id: string, predicate: string, links: Array<MapChainLink>): ChainRoute {
+    return { id, name: id, predicate, links }
+}
+
+function splitLink(id: string, splitExpression: string, enabled = true): MapChainLink {
+    return { id, type: "SPLIT", name: id, enabled, splitExpression }
+}
+
+function aggregateLink(id: string, patch: Partial<MapChainLink> = {}): MapChainLink {
+    return { id, type: "AGGREGATE", name: id, enabled: true, aggregateFormat: "json", ...patch }
+}
+
+const failedResult: ScriptExecutionResult = {
+    output: "",
+    logs: [],
+    error: null,
+    durationMs: 0,
+    scriptBody: "",
+    validation: [],
+}
+
+function createRuntime(maps: Record<string, unknown> = {}): ChainRuntime {
+    return {
+        loadMap: (mapId) => {
+            if (!(mapId in maps)) return Promise.reject(new Error("Linked map not found"))
+            return Promise.resolve(maps[mapId] as Record<string, unknown>)
+        },
+        runScript: executeScript,
+        runGroovy: () => Promise.reject(new Error("Groovy is not available")),
+        loadLibrary: () => Promise.resolve(emptySharedLibrary()),
+    }
+}
+
+describe("runChain", () => {
+    it("feeds each step's output into the next and collects every step", async () => {
+        const links = [
+            scriptLink("upper", "return input.toUpperCase()"),
+            scriptLink("off", "return 'never'", false),
+            scriptLink("wrap", "return '[' + input + ']'"),
+        ]
+
+        const run = await runChain(links, "abc", createRuntime())
+        expect(run.status).toBe("done")
+        expect(run.output).toBe("[ABC]")
+        expect(run.error).toBeNull()
+        expect(run.steps.map((s) => [s.linkId, s.status])).toEqual([
+            ["upper", "done"],
+            ["off", "skipped"],
+            ["wrap", "done"],
+        ])
+    })
+
+    it("stops at the first failing step", async () => {
+        const links = [
+            scriptLink("fail", 'throw new Error("bad input")'),
+            scriptLink("after", "return input"),
+        ]
+
+        const run = await runChain(links, "x", createRuntime())
+        expect(run.status).toBe("error")
+        expect(run.output).toBeNull()
+        expect(run.error).toBe("bad input")
+        expect(run.steps).toHaveLength(1)
+        expect(run.steps[0].status).toBe("error")
+    })
+
+    it("loads JT_MAP steps through the runtime", async () => {
+        const state = createEmptyMapperState("JSON", "JSON")
+        state.targetTreeNode = createNode("root", "element", {
+            children: [createNode("greeting", "element", { value: '"hello"' })],
+        })
+        const mapLink: MapChainLink = { id: "map", type: "JT_MAP", name: "map", enabled: true }
+
+        const runtime = createRuntime({ "map-1": JSON.parse(serializeMapperState(state)) })
+        const run = await runChain([{ ...mapLink, mapId: "map-1" }], "{}", runtime)
+        expect(run.error).toBeNull()
+        expect(JSON.parse(run.output ?? "")).toEqual({ greeting: "hello" })
+
+        const missing = await runChain([{ ...mapLink, mapId: "map-2" }], "{}", runtime)
+        expect(missing.error).toBe("Linked map not found")
+    })
+})
+
+describe("ROUTER links", () => {
+    const router = routerLink("router", [
+        route("orders", 'data?.type === "order"', [scriptLink("tag-order", "return 'ORDER'")]),
+        route("xml", "data?.invoice != null", [scriptLink("tag-xml", "return 'INVOICE'")]),
+        route("otherwise", "", [scriptLink("tag-other", "return 'OTHER'")]),
+    ])
+    const links = [router, scriptLink("after", "return input + '!'")]
+
+    it("runs the first route whose predicate holds and continues with its output", async () => {
+        const run = await runChain(links, '{"type":"order"}', createRuntime())
+        expect(run.output).toBe("ORDER!")
+        expect(run.steps.map((s) => s.linkId)).toEqual(["router", "tag-order", "after"])
+        expect(run.steps[0].branch).toEqual({ routeId: "orders", routeName: "orders" })
+        expect(run.steps[0].output).toBe('{"type":"order"}')
+    })
+
+    it("parses XML payloads for predicates", async () => {
+        const run = await runChain(links, "<invoice><id>1</id></invoice>", createRuntime())
+        expect(run.output).toBe("INVOICE!")
+    })
+
+    it("falls back to a route with an empty predicate", async () => {
+        const run = await runChain(links, "not json", createRuntime())
+        expect(run.output).toBe("OTHER!")
+        expect(run.steps[0].branch?.routeName).toBe("otherwise")
+    })
+
+    it("evaluates predicates that end in a line comment", async () => {
+        const commented = routerLink("commented", [
+            route("orders", 'data?.type === "order" // orders only', [
+                scriptLink("tag", "return 'ORDER'"),
+            ]),
+        ])
+        const run = await runChain([commented], '{"type":"order"}', createRuntime())
+        expect(run.error).toBeNull()
+        expect(run.output).toBe("ORDER")
+    })
+
+    it("passes the payload through when no route matches", async () => {
+        const strict = routerLink("strict", [
+            route("never", "false", [scriptLink("x", "return 'x'")]),
+        ])
+        const run = await runChain([strict], "payload", createRuntime())
+        expect(run.output).toBe("payload")
+        expect(run.steps[0].branch).toBeNull()
+    })
+
+    it("stops the chain when a branch step or predicate fails", async () => {
+        const failing = routerLink("r", [
+            route("bad", "", [scriptLink("boom", 'throw new Error("branch failed")')]),
+        ])
+        const branchRun = await runChain(
+            [failing, scriptLink("after", "return 'no'")],
+            "{}",
+            createRuntime(),
+        )
+        expect(branchRun.status).toBe("error")
+        expect(branchRun.error).toBe("branch failed")
+        expect(branchRun.steps.map((s) => s.linkId)).toEqual(["r", "boom"])
+
+        const broken = routerLink("r", [route("typo", "data.(", [])])
+        const predicateRun = await runChain([broken], "{}", createRuntime())
+        expect(predicateRun.steps[0].status).toBe("error")
+        expect(predicateRun.error).toMatch(/^Route "typo": /)
+    })
+
+    it("requires routes and configured branch steps to be executable", () => {
+        expect(isChainExecutable([routerLink("r", [])])).toBe(false)
+        expect(isChainExecutable([routerLink("r", [route("a", "", [])])])).toBe(true)
+        const unconfigured: MapChainLink = { id: "m", type: "JT_MAP", name: "m", enabled: true }
+        expect(isChainExecutable([routerLink("r", [route("a", "", [unconfigured])])])).toBe(false)
+    })
+})
+
+describe("SPLIT / AGGREGATE links", () => {
+    const orders = JSON.stringify({ orders: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    const addTotal = scriptLink(
+        "total",
+        "const o = JSON.parse(input); return JSON.stringify({ ...o, total: o.id * 10 })",
+    )
+
+    it("resolves paths null-safely and keeps expressions as written", () => {
+        expect(resolveSplitExpression("orders.order")).toEqual({
+            expression: "data?.orders?.order",
+            itemName: "order",
+        })
+        expect(resolveSplitExpression("data.items")).toEqual({
+            expression: "data?.items",
+            itemName: "items",
+        })
+        expect(resolveSplitExpression("data.items.slice(1)")).toEqual({
+            expression: "data.items.slice(1)",
+            itemName: "item",
+        })
+    })
+
+    it("runs the segment once per item and aggregates into a JSON array", async () => {
+        const links = [
+            splitLink("split", "orders"),
+            addTotal,
+            aggregateLink("agg"),
+            scriptLink("count", "return String(JSON.parse(input).length)"),
+        ]
+
+        const run = await runChain(links, orders, createRuntime())
+        expect(run.error).toBeNull()
+        expect(run.output).toBe("3")
+
+        const agg = run.steps.find((s) => s.linkId === "agg")
+        expect(JSON.parse(agg?.output ?? "")).toEqual([
+            { id: 1, total: 10 },
+            { id: 2, total: 20 },
+            { id: 3, total: 30 },
+        ])
+        const total = run.steps.find((s) => s.linkId === "total")
+        expect(total?.items?.map((item) => item.status)).toEqual(["done", "done", "done"])
+    })
+
+    it("splits XML payloads into elements and wraps the results", async () => {
+        const xml = "<orders><order><id>1</id></order><order><id>2</id></order></orders>"
+        const links = [
+            splitLink("split", "orders.order"),
+            scriptLink("id", "return parseXML(input).order.id"),
+            aggregateLink("agg", { aggregateFormat: "xml", aggregateRoot: "ids" }),
+        ]
+
+        const run = await runChain(links, xml, createRuntime())
+        expect(run.error).toBeNull()
+        expect(run.output).toBe("<ids>\n<item>1</item>\n<item>2</item>\n</ids>")
+    })
+
+    it("runs every item and reports which ones failed", async () => {
+        const links = [
+            splitLink("split", "data.orders"),
+            scriptLink(
+                "check",
+                'if (JSON.parse(input).id === 2) throw new Error("bad order"); return input',
+            ),
+            scriptLink("after", "return input"),
+            aggregateLink("agg"),
+            scriptLink("end", "return input"),
+        ]
+
+        const run = await runChain(links, orders, createRuntime())
+        expect(run.status).toBe("error")
+        expect(run.error).toBe("1 of 3 items failed")
+
+        const split = run.steps.find((s) => s.linkId === "split")
+        expect(split?.items?.map((item) => [item.status, item.error])).toEqual([
+            ["done", null],
+            ["error", "check: bad order"],
+            ["done", null],
+        ])
+        const after = run.steps.find((s) => s.linkId === "after")
+        expect(after?.items?.map((item) => item.index)).toEqual([0, 2])
+        expect(run.steps.map((s) => s.linkId)).not.toContain("end")
+    })
+
+    it("aggregates to a JSON array when the segment runs to the end", async () => {
+        const run = await runChain(
+            [splitLink("split", "orders"), addTotal],
+            orders,
+            createRuntime(),
+        )
+        expect(JSON.parse(run.output ?? "")).toHaveLength(3)
+    })
+
+    it("skips a disabled split together with its aggregate", async () => {
+        const links = [
+            splitLink("split", "orders", false),
+            scriptLink("keep", "return input"),
+            aggregateLink("agg"),
+        ]
+
+        const run = await runChain(links, orders, createRuntime())
+        expect(run.output).toBe(orders)
+        expect(run.steps.map((s) => [s.linkId, s.status])).toEqual([
+            ["split", "skipped"],
+            ["keep", "done"],
+            ["agg", "skipped"],
+        ])
+    })
+
+    it("requires an expression and a split for every aggregate", () => {
+        expect(isChainExecutable([splitLink("split", " ")])).toBe(false)
+        expect(isChainExecutable([aggregateLink("agg")])).toBe(false)
+        expect(isChainExecutable([splitLink("split", "items"), aggregateLink("agg")])).toBe(true)
+    })
+})
+
+describe("error policies", () => {
+    const failing = (policy: MapChainLink["errorPolicy"]): MapChainLink => ({
+        ...scriptLink("fail", 'throw new Error("boom")'),
+        errorPolicy: policy,
+    })
+    const after = scriptLink("after", "return input + '!'")
+
+    it("skips the failing step and passes its input through", async () => {
+        const run = await runChain([failing({ action: "skip" }), after], "in", createRuntime())
+        expect(run.output).toBe("in!")
+        expect(run.steps[0]).toMatchObject({
+            status: "done",
+            output: "in",
+            policy: { fired: "skip", attempts: 1, error: "boom" },
+        })
+    })
+
+    it("substitutes the fallback output", async () => {
+        const policy = { action: "fallback" as const, fallbackOutput: "default" }
+        const run = await runChain([failing(policy), after], "in", createRuntime())
+        expect(run.output).toBe("default!")
+        expect(run.steps[0].policy?.fired).toBe("fallback")
+    })
+
+    it("retries a step until it succeeds", async () => {
+        let calls = 0
+        const runtime = createRuntime()
+        const flaky: ChainRuntime = {
+            ...runtime,
+            runScript: (script, input, context, options) => {
+                calls++
+                return calls < 3
+                    ? Promise.resolve({ ...failedResult, error: `attempt ${calls}` })
+                    : runtime.runScript(script, input, context, options)
+            },
+        }
+        const link = {
+            ...scriptLink("flaky", "return 'ok'"),
+            errorPolicy: { action: "retry" as const, retries: 2 },
+        }
+
+        const run = await runChain([link], "in", flaky)
+        expect(run.output).toBe("ok")
+        expect(run.steps[0].policy).toEqual({ fired: "retry", attempts: 3, error: "attempt 2" })
+    })
+
+    it("stops once the retries are used up", async () => {
+        const run = await runChain(
+            [failing({ action: "retry", retries: 2 }), after],
+            "in",
+            createRuntime(),
+        )
+        expect(run.status).toBe("error")
+        expect(run.error).toBe("boom")
+        expect(run.steps.map((s) => s.linkId)).toEqual(["fail"])
+        expect(run.steps[0].policy).toMatchObject({ fired: "retry", attempts: 3 })
+    })
+
+    it("recovers with the on-error steps, which receive the error and payload", async () => {
+        const handler = [
+            scriptLink(
+                "handle",
+                "const e = JSON.parse(input); return e.step + ': ' + e.error + ' on ' + e.input",
+            ),
+        ]
+        const run = await runChain(
+            [failing({ action: "stop", handler }), after],
+            "in",
+            createRuntime(),
+        )
+        expect(run.output).toBe("fail: boom on in!")
+        expect(run.steps.map((s) => [s.linkId, s.status])).toEqual([
+            ["handle", "done"],
+            ["fail", "done"],
+            ["after", "done"],
+        ])
+        expect(run.steps[1].policy?.fired).toBe("handler")
+    })
+
+    it("applies the action when the on-error steps fail", async () => {
+        const handler = [scriptLink("handle", 'throw new Error("handler failed")')]
+        const run = await runChain(
+            [failing({ action: "skip", handler }), after],
+            "in",
+            createRuntime(),
+        )
+        expect(run.output).toBe("in!")
+        expect(run.steps.find((s) => s.linkId === "handle")?.status).toBe("error")
+        expect(run.steps.find((s) => s.linkId === "fail")?.policy?.fired).toBe("skip")
+    })
+
+    it("requires on-error steps to be configured", () => {
+        const unconfigured: MapChainLink = { id: "m", type: "JT_MAP", name: "m", enabled: true }
+        expect(isChainExecutable([failing({ action: "stop", handler: [] })])).toBe(true)
+        expect(isChainExecutable([failing({ action: "stop", handler: [unconfigured] })])).toBe(
+            false,
+        )
+    })
+})
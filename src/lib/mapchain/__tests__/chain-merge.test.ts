@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { diffChains, revertChainChanges } from "../chain-merge"
+import type { MapChain, MapChainLink } from "../types"
+
+function link(id: string, code = ""): MapChainLink {
+    return { id, type: "JT_SCRIPT", name: id, enabled: true, scriptCode: code }
+}
+
+const theirs: MapChain = {
+    id: "chain",
+    name: "Orders",
+    links: [link("a"), link("b", "return input"), link("c")],
+    testInput: "{}",
+}
+
+const mine: MapChain = {
+    ...theirs,
+    links: [link("a"), link("b", "return input.trim()"), link("d")],
+    testInput: '{"id":1}',
+}
+
+describe("diffChains", () => {
+    it("lists added, changed and removed steps and the test input", () => {
+        expect(diffChains(theirs, mine)).toEqual([
+            { key: "b", kind: "changed", name: "b" },
+            { key: "d", kind: "added", name: "d" },
+            { key: "c", kind: "removed", name: "c" },
+            { key: "testInput", kind: "changed", name: "Test input" },
+        ])
+    })
+})
+
+describe("revertChainChanges", () => {
+    it("keeps mine when nothing is taken from theirs", () => {
+        expect(revertChainChanges(mine, theirs, new Set())).toEqual(mine)
+    })
+
+    it("takes the chosen changes from theirs in place", () => {
+        const merged = revertChainChanges(mine, theirs, new Set(["b", "c", "testInput"]))
+        expect(merged.links.map((l) => [l.id, l.scriptCode])).toEqual([
+            ["a", ""],
+            ["b", "return input"],
+            ["c", ""],
+            ["d", ""],
+        ])
+        expect(merged.testInput).toBe("{}")
+        expect(mine.links[1].scriptCode).toBe("return input.trim()")
+    })
+
+    it("takes everything from theirs when every change is reverted", () => {
+        const all = new Set(diffChains(theirs, mine).map((c) => c.key))
+        expect(revertChainChanges(mine, theirs, all)).toEqual(theirs)
+    })
+})
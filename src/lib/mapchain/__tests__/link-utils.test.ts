@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { findLinkById, findLinkList, flattenLinks, splitDepths } from "../link-utils"
+import type { MapChainLink } from "../types"
+
+function link(id: string, routes?: Array<Array<MapChainLink>>): MapChainLink {
+    return {
+        id,
+        type: routes ? "ROUTER" : "JT_SCRIPT",
+        name: id,
+        enabled: true,
+        routes: routes?.map((links, i) => ({ id: `${id}-${i}`, name: "", predicate: "", links })),
+    }
+}
+
+const branchA = [link("a1"), link("a2", [[link("deep")]])]
+const branchB = [link("b1")]
+const links = [link("first"), link("router", [branchA, branchB]), link("last")]
+
+describe("link tree helpers", () => {
+    it("flattens the tree depth-first in execution order", () => {
+        expect(flattenLinks(links).map((l) => l.id)).toEqual([
+            "first",
+            "router",
+            "a1",
+            "a2",
+            "deep",
+            "b1",
+            "last",
+        ])
+    })
+
+    it("finds the list that directly contains a link", () => {
+        expect(findLinkList(links, "last")).toBe(links)
+        expect(findLinkList(links, "a1")).toBe(branchA)
+        expect(findLinkList(links, "b1")).toBe(branchB)
+        expect(findLinkList(links, "missing")).toBeNull()
+    })
+
+    it("includes on-error steps in the tree", () => {
+        const guarded = {
+            ...link("guarded"),
+            errorPolicy: { action: "stop" as const, handler: [link("handler")] },
+        }
+        expect(flattenLinks([guarded]).map((l) => l.id)).toEqual(["guarded", "handler"])
+        expect(findLinkList([guarded], "handler")).toBe(guarded.errorPolicy.handler)
+    })
+
+    it("finds nested links by id", () => {
+        expect(findLinkById(links, "deep")?.id).toBe("deep")
+        expect(findLinkById(links, "missing")).toBeNull()
+    })
+
+    it("indents the steps between a split and its aggregate", () => {
+        const types: Array<MapChainLink["type"]> = [
+            "SPLIT",
+            "JT_SCRIPT",
+            "SPLIT",
+            "JT_MAP",
+            "AGGREGATE",
+            "AGGREGATE",
+            "JT_SCRIPT",
+        ]
+        const list = types.map((type, i) => ({ ...link(`s${i}`), type }))
+        expect(splitDepths(list)).toEqual([0, 1, 1, 2, 1, 0, 0])
+    })
+})
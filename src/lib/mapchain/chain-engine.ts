@@ -1,19 +1,83 @@
-import type { ChainStepResult, MapChainLink } from "./types"
+import type {
+    ChainItemResult,
+    ChainPolicyResult,
+    ChainRoute,
+    ChainRunStatus,
+    ChainStepResult,
+    MapChainLink,
+} from "./types"
+import type {
+    SandboxExecuteOptions,
+    ScriptExecutionResult,
+    ValidationIssue,
+} from "@/lib/mapper/engine"
+import type { SharedLibrary, SharedLibraryRequest } from "@/lib/mapper/shared-library"
+import type { MapperContext } from "@/lib/mapper/types"
 import { loadMapForChainExecution } from "@/lib/mapper/persistence.server"
 import { deserializeMapperState } from "@/lib/mapper/serialization"
-import { executeScript, generateScript } from "@/lib/mapper/engine"
+import { generateScript, needsGroovyShims, toDataFormat } from "@/lib/mapper/engine"
 import { generateGroovyScript } from "@/lib/mapper/groovy-engine"
 import { executeGroovyScript } from "@/lib/mapper/groovy-executor.server"
+import { getPlatformData } from "@/lib/mapper/platform-data.server"
+import { SCRIPT_CANCELLED_MESSAGE, executeScriptIsolated } from "@/lib/mapper/script-executor"
+import { isEmptyLibraryRequest, libraryRequest } from "@/lib/mapper/shared-library"
+import { getSharedLibrary } from "@/lib/mapper/shared-library.server"
+import { createDefaultContext } from "@/lib/mapper/reference-utils"
 
 // ============================================================
 // Public types
 // ============================================================
 
+/**
+ * Where a chain run loads maps and executes scripts. The default browser
+ * runtime goes through server functions and a Web Worker; server-side runs
+ * (runs.server.ts) read the database directly and run scripts in a worker thread.
+ */
+export interface ChainRuntime {
+    loadMap: (mapId: string) => Promise<Record<string, unknown>>
+    /** Supplies the workspace's platform data to runs with `injectGroovyShims` */
+    runScript: (
+        scriptBody: string,
+        input: string,
+        context: MapperContext,
+        options: SandboxExecuteOptions,
+    ) => Promise<ScriptExecutionResult>
+    runGroovy: (
+        script: string,
+        input: string,
+    ) => Promise<{ output: string; error: string | null; validation: Array<ValidationIssue> }>
+    /** What a map references in the shared library (libraryRequest) */
+    loadLibrary: (request: SharedLibraryRequest) => Promise<SharedLibrary>
+}
+
+const browserRuntime: ChainRuntime = {
+    loadMap: (mapId) => loadMapForChainExecution({ data: { mapId } }),
+    runScript: async (scriptBody, input, context, options) => {
+        const platformData = options.injectGroovyShims ? await getPlatformData() : undefined
+        return executeScriptIsolated(scriptBody, input, context, { ...options, platformData })
+    },
+    runGroovy: (script, input) => executeGroovyScript({ data: { script, input, timeout: 30000 } }),
+    loadLibrary: (request) => getSharedLibrary({ data: request }),
+}
+
 export interface ChainExecutionOptions {
     onStepStart: (linkId: string) => void
     onStepComplete: (result: ChainStepResult) => void
     onChainComplete: (finalOutput: string) => void
     onChainError: (linkId: string, error: string) => void
+    /** Aborting cancels the running step and stops the chain */
+    signal?: AbortSignal
+    /** Defaults to the browser runtime */
+    runtime?: ChainRuntime
+}
+
+/** Collected result of a whole chain run (see runChain). */
+export interface ChainRunOutcome {
+    status: ChainRunStatus
+    output: string | null
+    steps: Array<ChainStepResult>
+    error: string | null
+    durationMs: number
 }
 
 // ============================================================
@@ -26,12 +90,329 @@ export interface ChainExecutionOptions {
  */
 export function isChainExecutable(links: Array<MapChainLink>): boolean {
     if (links.length === 0) return false
-    return links.every((link) => {
-        if (!link.enabled) return true // disabled steps don't block
-        if (link.type === "JT_MAP") return Boolean(link.mapId)
-        // JT_SCRIPT
-        return Boolean(link.scriptCode?.trim())
+    return isLinkListExecutable(links)
+}
+
+/** Nested lists (routes, on-error steps) may be empty — they pass the payload through. */
+function isLinkListExecutable(links: Array<MapChainLink>): boolean {
+    return links.every(isLinkExecutable) && !hasUnmatchedAggregate(links)
+}
+
+function isLinkExecutable(link: MapChainLink): boolean {
+    if (!link.enabled) return true // disabled steps don't block
+    const handler = link.errorPolicy?.handler
+    if (handler && !isLinkListExecutable(handler)) return false
+    if (link.type === "JT_MAP") return Boolean(link.mapId)
+    if (link.type === "SPLIT") return Boolean(link.splitExpression?.trim())
+    if (link.type === "AGGREGATE") return true // matched against its SPLIT in isLinkListExecutable
+    if (link.type === "ROUTER") {
+        const routes = link.routes ?? []
+        return routes.length > 0 && routes.every((route) => isLinkListExecutable(route.links))
+    }
+    // JT_SCRIPT
+    return Boolean(link.scriptCode?.trim())
+}
+
+// ============================================================
+// Routing
+// ============================================================
+
+/**
+ * Script prelude shared by route predicates and split expressions: `data` is
+ * the payload parsed as XML when it starts with "<", otherwise as JSON, and
+ * null when it cannot be parsed. `input` stays the raw payload.
+ */
+const PAYLOAD_DATA_PRELUDE = [
+    "const data = (() => {",
+    "  const text = input.trim()",
+    "  try {",
+    '    return text.startsWith("<") ? parseXML(text) : JSON.parse(text)',
+    "  } catch {",
+    "    return null",
+    "  }",
+    "})()",
+].join("\n")
+
+/**
+ * Script that evaluates a route predicate in the runtime's sandbox. The
+ * predicate gets lines of its own, so a trailing // comment cannot swallow
+ * the closing parentheses.
+ */
+export function buildRoutePredicateScript(predicate: string): string {
+    return `${PAYLOAD_DATA_PRELUDE}\nreturn String(Boolean((\n${predicate}\n)))`
+}
+
+/** First route whose predicate holds for `input`; null when none does. */
+async function selectRoute(
+    link: MapChainLink,
+    input: string,
+    options: ChainExecutionOptions,
+    runtime: ChainRuntime,
+): Promise<ChainRoute | null> {
+    for (const route of link.routes ?? []) {
+        if (!route.predicate.trim()) return route // "otherwise"
+        const result = await runtime.runScript(
+            buildRoutePredicateScript(route.predicate),
+            input,
+            createDefaultContext(),
+            { signal: options.signal },
+        )
+        if (result.error) throw new Error(`Route "${route.name}": ${result.error}`)
+        if (result.output === "true") return route
+    }
+    return null
+}
+
+// ============================================================
+// Split / aggregate
+// ============================================================
+
+const SPLIT_PATH_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/
+
+/**
+ * Resolve a SPLIT link's setting to a JS expression over `data`. A plain
+ * dotted path ("orders.order" or "data.orders.order") is read null-safely
+ * from the payload and names XML items after its last segment; anything
+ * else is used as an expression and its XML items are named "item".
+ */
+export function resolveSplitExpression(setting: string): { expression: string; itemName: string } {
+    const trimmed = setting.trim()
+    if (!SPLIT_PATH_PATTERN.test(trimmed)) return { expression: trimmed, itemName: "item" }
+
+    const segments = trimmed.split(".")
+    if (segments[0] === "data") segments.shift()
+    return {
+        expression: ["data", ...segments].join("?."),
+        itemName: segments.at(-1) ?? "item",
+    }
+}
+
+/**
+ * Script that splits the payload in the runtime's sandbox and returns the
+ * item payloads as a JSON array of strings. A non-array result is treated as
+ * a single item (XML repeats only become arrays when an element occurs twice).
+ * Items are serialised in the payload's format: XML items are wrapped in an
+ * element named after the split path.
+ */
+export function buildSplitScript(setting: string): string {
+    const { expression, itemName } = resolveSplitExpression(setting)
+    return [
+        PAYLOAD_DATA_PRELUDE,
+        `const selected = ${expression}`,
+        "const items = Array.isArray(selected) ? selected : selected == null ? [] : [selected]",
+        'const isXml = input.trim().startsWith("<")',
+        "return JSON.stringify(items.map((item) => {",
+        '  if (typeof item === "string") return item',
+        `  return isXml ? toXML({ ${JSON.stringify(itemName)}: item }) : JSON.stringify(item, null, 2)`,
+        "}))",
+    ].join("\n")
+}
+
+function escapeXmlText(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+/**
+ * Reassemble item outputs. JSON: an array of the parsed outputs (outputs
+ * that are not JSON stay strings). XML: the outputs, minus their XML
+ * declarations, inside an `aggregateRoot` element; non-XML outputs are
+ * escaped into <item> elements.
+ */
+export function aggregateOutputs(outputs: Array<string>, link: MapChainLink | null): string {
+    if (link?.aggregateFormat === "xml") {
+        const root = link.aggregateRoot?.trim() || "items"
+        const parts = outputs.map((output) => {
+            const text = output.replace(/^\s*<\?xml[^>]*\?>\s*/, "").trim()
+            return text.startsWith("<") ? text : `<item>${escapeXmlText(text)}</item>`
+        })
+        return [`<${root}>`, ...parts, `</${root}>`].join("\n")
+    }
+
+    const values = outputs.map((output) => {
+        try {
+            return JSON.parse(output) as unknown
+        } catch {
+            return output
+        }
     })
+    return JSON.stringify(values, null, 2)
+}
+
+/**
+ * Index of the AGGREGATE closing the SPLIT at `splitIndex` (nested splits
+ * pair up first), or -1 when the segment runs to the end of the list.
+ */
+export function findAggregateIndex(links: Array<MapChainLink>, splitIndex: number): number {
+    let depth = 0
+    for (let i = splitIndex + 1; i < links.length; i++) {
+        if (links[i].type === "SPLIT") depth++
+        if (links[i].type === "AGGREGATE") {
+            if (depth === 0) return i
+            depth--
+        }
+    }
+    return -1
+}
+
+/** True when a list contains an AGGREGATE that no earlier SPLIT opens. */
+function hasUnmatchedAggregate(links: Array<MapChainLink>): boolean {
+    let open = 0
+    for (const link of links) {
+        if (link.type === "SPLIT") open++
+        if (link.type === "AGGREGATE") {
+            if (open === 0) return true
+            open--
+        }
+    }
+    return false
+}
+
+/** Summary error for a step some items failed at. */
+function failedItemsMessage(items: Array<ChainItemResult>): string | null {
+    const failed = items.filter((item) => item.status === "error").length
+    return failed > 0 ? `${failed} of ${items.length} items failed` : null
+}
+
+/**
+ * Runs a SPLIT segment: splits the payload, runs `segment` once per item and
+ * reassembles the outputs (through `aggregate`, or as a JSON array when the
+ * segment runs to the end of its list). Every item runs even when others
+ * fail; the SPLIT step and each repeated step report per-item outcomes, and
+ * the chain stops after the segment if any item failed.
+ */
+async function executeSplit(
+    split: MapChainLink,
+    segment: Array<MapChainLink>,
+    aggregate: MapChainLink | null,
+    input: string,
+    options: ChainExecutionOptions,
+    runtime: ChainRuntime,
+): Promise<string | null> {
+    options.onStepStart(split.id)
+    const start = performance.now()
+
+    const fail = (
+        linkId: string,
+        error: string,
+        durationMs: number,
+        items?: Array<ChainItemResult>,
+    ) => {
+        options.onStepComplete({ linkId, status: "error", output: "", error, durationMs, items })
+        options.onChainError(linkId, error)
+        return null
+    }
+
+    let payloads: Array<string>
+    try {
+        const result = await runtime.runScript(
+            buildSplitScript(split.splitExpression ?? ""),
+            input,
+            createDefaultContext(),
+            { signal: options.signal },
+        )
+        if (result.error) throw new Error(result.error)
+        payloads = JSON.parse(result.output) as Array<string>
+    } catch (err) {
+        return fail(
+            split.id,
+            err instanceof Error ? err.message : String(err),
+            performance.now() - start,
+        )
+    }
+
+    // Per-item results of the segment's steps, reported once all items ran
+    const stepItems = new Map<string, Array<ChainItemResult>>()
+    const items: Array<ChainItemResult> = []
+
+    for (const [index, payload] of payloads.entries()) {
+        if (options.signal?.aborted) break
+        const itemStart = performance.now()
+        const failure: { error: string | null } = { error: null }
+
+        const output = await executeLinks(
+            segment,
+            payload,
+            {
+                ...options,
+                onStepStart: () => {},
+                onStepComplete: (result) => {
+                    const outcomes = stepItems.get(result.linkId) ?? []
+                    outcomes.push({
+                        index,
+                        status:
+                            result.status === "error"
+                                ? "error"
+                                : result.status === "skipped"
+                                  ? "skipped"
+                                  : "done",
+                        output: result.output,
+                        error: result.error,
+                        durationMs: result.durationMs,
+                    })
+                    stepItems.set(result.linkId, outcomes)
+                },
+                onChainComplete: () => {},
+                onChainError: (linkId, error) => {
+                    const step = segment.find((l) => l.id === linkId)
+                    failure.error = step ? `${step.name}: ${error}` : error
+                },
+            },
+            runtime,
+        )
+
+        items.push({
+            index,
+            status: output === null ? "error" : "done",
+            output: output ?? "",
+            error: failure.error,
+            durationMs: performance.now() - itemStart,
+        })
+    }
+
+    for (const [linkId, outcomes] of stepItems) {
+        const error = failedItemsMessage(outcomes)
+        options.onStepComplete({
+            linkId,
+            status: error
+                ? "error"
+                : outcomes.every((o) => o.status === "skipped")
+                  ? "skipped"
+                  : "done",
+            output: "",
+            error,
+            durationMs: outcomes.reduce((sum, o) => sum + o.durationMs, 0),
+            items: outcomes,
+        })
+    }
+
+    const durationMs = performance.now() - start
+    if (options.signal?.aborted) return fail(split.id, SCRIPT_CANCELLED_MESSAGE, durationMs, items)
+    const error = failedItemsMessage(items)
+    if (error) return fail(split.id, error, durationMs, items)
+
+    options.onStepComplete({
+        linkId: split.id,
+        status: "done",
+        output: input,
+        error: null,
+        durationMs,
+        items,
+    })
+
+    const outputs = items.map((item) => item.output)
+    if (!aggregate) return aggregateOutputs(outputs, null)
+
+    options.onStepStart(aggregate.id)
+    const aggregateStart = performance.now()
+    const output = aggregateOutputs(outputs, aggregate)
+    options.onStepComplete({
+        linkId: aggregate.id,
+        status: "done",
+        output,
+        error: null,
+        durationMs: performance.now() - aggregateStart,
+    })
+    return output
 }
 
 // ============================================================
@@ -48,10 +429,54 @@ export async function executeChain(
     input: string,
     options: ChainExecutionOptions,
 ): Promise<void> {
+    const output = await executeLinks(links, input, options, options.runtime ?? browserRuntime)
+    if (output !== null) options.onChainComplete(output)
+}
+
+/**
+ * Runs a link list (the chain or a ROUTER branch) and returns its output,
+ * or null once a step has failed and the chain was stopped.
+ */
+async function executeLinks(
+    links: Array<MapChainLink>,
+    input: string,
+    options: ChainExecutionOptions,
+    runtime: ChainRuntime,
+): Promise<string | null> {
     let currentInput = input
+    // AGGREGATE links closing a disabled SPLIT are skipped with it
+    const skippedAggregates = new Set<number>()
 
-    for (const link of links) {
-        if (!link.enabled) {
+    for (let i = 0; i < links.length; i++) {
+        const link = links[i]
+        if (options.signal?.aborted) {
+            options.onChainError(link.id, SCRIPT_CANCELLED_MESSAGE)
+            return null
+        }
+
+        if (link.type === "SPLIT") {
+            const end = findAggregateIndex(links, i)
+            if (!link.enabled) {
+                if (end !== -1) skippedAggregates.add(end)
+            } else {
+                const segment = links.slice(i + 1, end === -1 ? links.length : end)
+                const aggregate = end === -1 ? null : links[end]
+                const output = await executeSplit(
+                    link,
+                    segment,
+                    aggregate,
+                    currentInput,
+                    options,
+                    runtime,
+                )
+                if (output === null) return null
+                currentInput = output
+                i = end === -1 ? links.length : end
+                continue
+            }
+        }
+
+        if (!link.enabled || skippedAggregates.has(i)) {
             options.onStepComplete({
                 linkId: link.id,
                 status: "skipped",
@@ -65,71 +490,221 @@ export async function executeChain(
         options.onStepStart(link.id)
         const start = performance.now()
 
-        try {
-            let output: string
-
-            if (link.type === "JT_MAP") {
-                // Load the map from server
-                if (!link.mapId) throw new Error("No map selected for this step")
-                const stateData = await loadMapForChainExecution({
-                    data: { mapId: link.mapId },
-                })
-                // Server returns raw JSONB — deserialize via JSON round-trip
-                const json = JSON.stringify(stateData)
-                const mapState = deserializeMapperState(json)
-
-                // Generate and execute the transformation script
-                const srcType = mapState.sourceInputType.toLowerCase() as "json" | "xml"
-                const tgtType = mapState.targetInputType.toLowerCase() as "json" | "xml"
-                const isGroovy = mapState.scriptLanguage === "groovy"
-
-                if (isGroovy) {
-                    // Groovy: generate Groovy script and execute on sidecar
-                    const script = generateGroovyScript(mapState, srcType, tgtType)
-                    const groovyResult = await executeGroovyScript({
-                        data: { script, input: currentInput, timeout: 30 },
-                    })
-                    if (groovyResult.error) throw new Error(groovyResult.error)
-                    output = groovyResult.output ?? ""
-                } else {
-                    // JavaScript: generate JS script and execute in-process
-                    const script = generateScript(mapState, srcType, tgtType)
-                    const result = await executeScript(script, currentInput, mapState.localContext)
-                    if (result.error) throw new Error(result.error)
-                    output = result.output
-                }
-            } else {
-                // JT_SCRIPT: execute inline JS script
-                // Script must accept 'input' (string) and return a string
-                const scriptBody = link.scriptCode ?? ""
-                const fn = new Function("input", `"use strict";\n${scriptBody}`)
-                const result = fn(currentInput) as unknown
-                output = result != null ? String(result) : ""
-            }
-
-            const durationMs = performance.now() - start
+        const step = await runWithErrorPolicy(link, currentInput, options, runtime)
+        const durationMs = performance.now() - start
+        if (!step.ok) {
             options.onStepComplete({
                 linkId: link.id,
-                status: "done",
-                output,
-                error: null,
+                status: "error",
+                output: "",
+                error: step.error,
                 durationMs,
+                policy: step.policy,
             })
+            options.onChainError(link.id, step.error)
+            return null // stop chain
+        }
+
+        // A router step itself only picks a branch (its output is its input);
+        // the branch's steps report their own results
+        options.onStepComplete({
+            linkId: link.id,
+            status: "done",
+            output: step.output,
+            error: null,
+            durationMs,
+            validation: step.validation,
+            branch:
+                step.route === undefined
+                    ? undefined
+                    : step.route && { routeId: step.route.id, routeName: step.route.name },
+            policy: step.policy,
+        })
+        currentInput = step.output // output becomes next step's input
+
+        if (step.route) {
+            const branchOutput = await executeLinks(
+                step.route.links,
+                currentInput,
+                options,
+                runtime,
+            )
+            if (branchOutput === null) return null
+            currentInput = branchOutput
+        }
+    }
+
+    return currentInput
+}
+
+interface StepOutput {
+    output: string
+    validation: Array<ValidationIssue>
+    route?: ChainRoute | null // ROUTER steps: the branch to run next (null: none matched)
+}
+
+type PolicyStepResult =
+    | ({ ok: true; policy?: ChainPolicyResult } & StepOutput)
+    | { ok: false; error: string; policy?: ChainPolicyResult }
+
+function errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err)
+}
+
+/**
+ * Runs a step under its error policy: retries it, then runs the on-error
+ * steps (whose output recovers the step), then skips it or substitutes the
+ * fallback output. Cancellation never triggers a policy.
+ */
+async function runWithErrorPolicy(
+    link: MapChainLink,
+    input: string,
+    options: ChainExecutionOptions,
+    runtime: ChainRuntime,
+): Promise<PolicyStepResult> {
+    const policy = link.errorPolicy
+    const maxAttempts = policy?.action === "retry" ? 1 + Math.max(0, policy.retries ?? 0) : 1
 
-            currentInput = output // output becomes next step's input
+    let error = ""
+    let attempts = 0
+    while (attempts < maxAttempts && !options.signal?.aborted) {
+        attempts++
+        try {
+            const output = await runLinkStep(link, input, options, runtime)
+            const retried = attempts > 1 ? { fired: "retry" as const, attempts, error } : undefined
+            return { ok: true, ...output, policy: retried }
         } catch (err) {
-            const error = err instanceof Error ? err.message : String(err)
-            options.onStepComplete({
-                linkId: link.id,
-                status: "error",
-                output: "",
-                error,
-                durationMs: performance.now() - start,
-            })
-            options.onChainError(link.id, error)
-            return // stop chain on first error
+            error = errorMessage(err)
         }
     }
 
-    options.onChainComplete(currentInput)
+    if (!policy || options.signal?.aborted) return { ok: false, error }
+    const fired = (kind: ChainPolicyResult["fired"]): ChainPolicyResult => ({
+        fired: kind,
+        attempts,
+        error,
+    })
+
+    if (policy.handler && policy.handler.length > 0) {
+        // On-error steps report their own results; their failure falls through to the action
+        const payload = JSON.stringify({ error, input, step: link.name }, null, 2)
+        const output = await executeLinks(
+            policy.handler,
+            payload,
+            { ...options, onChainError: () => {} },
+            runtime,
+        )
+        if (output !== null) return { ok: true, output, validation: [], policy: fired("handler") }
+    }
+
+    switch (policy.action) {
+        case "skip":
+            return { ok: true, output: input, validation: [], policy: fired("skip") }
+        case "fallback":
+            return {
+                ok: true,
+                output: policy.fallbackOutput ?? "",
+                validation: [],
+                policy: fired("fallback"),
+            }
+        case "retry":
+            return { ok: false, error, policy: attempts > 1 ? fired("retry") : undefined }
+        case "stop":
+            return { ok: false, error }
+    }
+}
+
+/** Executes a JT_MAP, JT_SCRIPT or ROUTER step. Throws on failure. */
+async function runLinkStep(
+    link: MapChainLink,
+    input: string,
+    options: ChainExecutionOptions,
+    runtime: ChainRuntime,
+): Promise<StepOutput> {
+    if (link.type === "ROUTER") {
+        const route = await selectRoute(link, input, options, runtime)
+        return { output: input, validation: [], route }
+    }
+
+    if (link.type === "AGGREGATE") {
+        throw new Error("Aggregate step has no matching Split step")
+    }
+
+    if (link.type === "JT_MAP") {
+        // Load the map from server
+        if (!link.mapId) throw new Error("No map selected for this step")
+        const stateData = await runtime.loadMap(link.mapId)
+        // Server returns raw JSONB — deserialize via JSON round-trip
+        const json = JSON.stringify(stateData)
+        const mapState = deserializeMapperState(json)
+
+        // Generate and execute the transformation script, inlining the
+        // library tables and functions the map references
+        const srcType = toDataFormat(mapState.sourceInputType)
+        const tgtType = toDataFormat(mapState.targetInputType)
+        const libraryRefs = libraryRequest(mapState)
+        const library = isEmptyLibraryRequest(libraryRefs)
+            ? undefined
+            : await runtime.loadLibrary(libraryRefs)
+
+        if (mapState.scriptLanguage === "groovy") {
+            // Groovy: generate Groovy script and execute on sidecar
+            const script = generateGroovyScript(mapState, srcType, tgtType, { library })
+            const groovyResult = await runtime.runGroovy(script, input)
+            if (groovyResult.error) throw new Error(groovyResult.error)
+            return { output: groovyResult.output, validation: groovyResult.validation }
+        }
+
+        // JavaScript: generate JS script and execute in the runtime's sandbox
+        const script = generateScript(mapState, srcType, tgtType, { library })
+        const result = await runtime.runScript(script, input, mapState.localContext, {
+            injectGroovyShims: needsGroovyShims(mapState),
+            timeoutMs: mapState.mapperPreferences.scriptTimeoutMs,
+            signal: options.signal,
+        })
+        if (result.error) throw new Error(result.error)
+        return { output: result.output, validation: result.validation }
+    }
+
+    // JT_SCRIPT: execute inline JS script in the runtime's sandbox
+    // Script must accept 'input' (string) and return a string
+    const result = await runtime.runScript(link.scriptCode ?? "", input, createDefaultContext(), {
+        signal: options.signal,
+    })
+    if (result.error) throw new Error(result.error)
+    return { output: result.output, validation: [] }
+}
+
+/**
+ * Executes a chain and collects every step result instead of streaming
+ * them — the shape server-side runs persist. Never throws.
+ */
+export async function runChain(
+    links: Array<MapChainLink>,
+    input: string,
+    runtime?: ChainRuntime,
+): Promise<ChainRunOutcome> {
+    const start = performance.now()
+    const steps: Array<ChainStepResult> = []
+    const result: { output: string | null; error: string | null } = { output: null, error: null }
+
+    await executeChain(links, input, {
+        runtime,
+        onStepStart: () => {},
+        onStepComplete: (step) => steps.push(step),
+        onChainComplete: (finalOutput) => {
+            result.output = finalOutput
+        },
+        onChainError: (_linkId, message) => {
+            result.error = message
+        },
+    })
+
+    return {
+        status: result.error === null ? "done" : "error",
+        output: result.output,
+        steps,
+        error: result.error,
+        durationMs: performance.now() - start,
+    }
 }
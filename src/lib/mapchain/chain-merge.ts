@@ -0,0 +1,73 @@
+import type { MapChain, MapChainLink } from "./types"
+
+// ============================================================
+// Chain merge — resolve a save conflict step by step
+// ============================================================
+// The chain counterpart of mapper/map-merge.ts. Top-level steps are matched
+// by id and compared whole, so a change anywhere inside a ROUTER (or among a
+// step's on-error steps) is one change to that step. The test input is
+// compared as well.
+
+export interface ChainChange {
+    key: string // Link id, or "testInput"
+    kind: "added" | "removed" | "changed"
+    name: string
+}
+
+const TEST_INPUT_KEY = "testInput"
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Differences from `before` to `after`, in the order of `after` with removals last. */
+export function diffChains(before: MapChain, after: MapChain): Array<ChainChange> {
+    const old = new Map(before.links.map((link) => [link.id, link]))
+    const current = new Set(after.links.map((link) => link.id))
+    const changes: Array<ChainChange> = []
+
+    for (const link of after.links) {
+        const previous = old.get(link.id)
+        if (!previous) changes.push({ key: link.id, kind: "added", name: link.name })
+        else if (!isEqual(previous, link)) {
+            changes.push({ key: link.id, kind: "changed", name: link.name })
+        }
+    }
+    for (const link of before.links) {
+        if (!current.has(link.id)) changes.push({ key: link.id, kind: "removed", name: link.name })
+    }
+    if ((before.testInput ?? "") !== (after.testInput ?? "")) {
+        changes.push({ key: TEST_INPUT_KEY, kind: "changed", name: "Test input" })
+    }
+    return changes
+}
+
+/**
+ * Merge result: `mine` with the changes in `revert` (keys from
+ * diffChains(theirs, mine)) taken from `theirs`. Restored steps go back to
+ * their position in theirs. Neither input is modified.
+ */
+export function revertChainChanges(
+    mine: MapChain,
+    theirs: MapChain,
+    revert: Set<string>,
+): MapChain {
+    const merged = structuredClone(mine)
+
+    for (const change of diffChains(theirs, mine)) {
+        if (!revert.has(change.key)) continue
+        if (change.key === TEST_INPUT_KEY) {
+            merged.testInput = theirs.testInput
+            continue
+        }
+        const mineIndex = merged.links.findIndex((link) => link.id === change.key)
+        const theirsIndex = theirs.links.findIndex((link) => link.id === change.key)
+        if (mineIndex !== -1) merged.links.splice(mineIndex, 1)
+        if (theirsIndex !== -1) {
+            const restored: MapChainLink = structuredClone(theirs.links[theirsIndex])
+            const at = mineIndex !== -1 ? mineIndex : Math.min(theirsIndex, merged.links.length)
+            merged.links.splice(at, 0, restored)
+        }
+    }
+    return merged
+}
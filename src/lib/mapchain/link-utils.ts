@@ -0,0 +1,52 @@
+import type { MapChainLink } from "./types"
+
+// ============================================================
+// Link tree helpers
+// ============================================================
+// ROUTER links nest further link lists inside their routes, and error
+// policies nest on-error steps, so a chain is a tree of links. These helpers
+// locate links anywhere in that tree.
+
+/** Link lists nested directly under a link: its routes' steps, then its on-error steps. */
+function childLists(link: MapChainLink): Array<Array<MapChainLink>> {
+    const lists = (link.routes ?? []).map((route) => route.links)
+    if (link.errorPolicy?.handler) lists.push(link.errorPolicy.handler)
+    return lists
+}
+
+/** Every link in the tree, depth-first in execution order. */
+export function flattenLinks(links: Array<MapChainLink>): Array<MapChainLink> {
+    return links.flatMap((link) => [link, ...childLists(link).flatMap(flattenLinks)])
+}
+
+/** The link list (top level, a route's or on-error steps) that directly contains `id`. */
+export function findLinkList(links: Array<MapChainLink>, id: string): Array<MapChainLink> | null {
+    if (links.some((l) => l.id === id)) return links
+    for (const link of links) {
+        for (const list of childLists(link)) {
+            const found = findLinkList(list, id)
+            if (found) return found
+        }
+    }
+    return null
+}
+
+/** Find a link anywhere in the tree. */
+export function findLinkById(links: Array<MapChainLink>, id: string): MapChainLink | null {
+    return findLinkList(links, id)?.find((l) => l.id === id) ?? null
+}
+
+/**
+ * Split nesting depth of each link in one list: links between a SPLIT and
+ * its AGGREGATE run once per item and sit one level deeper. The SPLIT and
+ * AGGREGATE themselves stay at the outer level.
+ */
+export function splitDepths(links: Array<MapChainLink>): Array<number> {
+    let depth = 0
+    return links.map((link) => {
+        if (link.type === "AGGREGATE") depth = Math.max(0, depth - 1)
+        const current = depth
+        if (link.type === "SPLIT") depth++
+        return current
+    })
+}
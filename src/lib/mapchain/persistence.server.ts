@@ -1,12 +1,12 @@
 import { createServerFn } from "@tanstack/react-start"
 import { z } from "zod"
-import { eq, and, desc } from "drizzle-orm"
-import { authMiddleware } from "@/lib/auth-middleware"
+import { eq, and, desc, sql } from "drizzle-orm"
+import { authMiddleware, requireRole } from "@/lib/auth-middleware"
 import { db } from "@/db"
 import { mapChains } from "@/db/schema"
 
 // ============================================================
-// listChains — List all chains for the current user
+// listChains — List all chains in the active workspace
 // ============================================================
 
 export const listChains = createServerFn()
@@ -21,7 +21,7 @@ export const listChains = createServerFn()
                 updatedAt: mapChains.updatedAt,
             })
             .from(mapChains)
-            .where(eq(mapChains.userId, context.userId))
+            .where(eq(mapChains.workspaceId, context.workspaceId))
             .orderBy(desc(mapChains.updatedAt))
     })
 
@@ -29,11 +29,16 @@ export const listChains = createServerFn()
 // saveChain — Create or update a chain (upsert)
 // ============================================================
 
+/**
+ * Revision-checked like saveMap: a save carrying a stale `revision` changes
+ * nothing and returns the chain as currently stored.
+ */
 export const saveChain = createServerFn({ method: "POST" })
-    .middleware([authMiddleware])
+    .middleware([requireRole("editor")])
     .inputValidator(
         z.object({
             id: z.string().uuid().optional(),
+            revision: z.number().int().optional(),
             name: z.string().min(1),
             chain: z.record(z.string(), z.any()),
             linkCount: z.number().int().optional(),
@@ -43,10 +48,11 @@ export const saveChain = createServerFn({ method: "POST" })
         const id = data.id ?? crypto.randomUUID()
         const now = new Date()
 
-        await db
+        const updated = await db
             .insert(mapChains)
             .values({
                 id,
+                workspaceId: context.workspaceId,
                 userId: context.userId,
                 name: data.name,
                 chain: data.chain,
@@ -60,12 +66,43 @@ export const saveChain = createServerFn({ method: "POST" })
                     name: data.name,
                     chain: data.chain,
                     linkCount: data.linkCount,
+                    revision: sql`${mapChains.revision} + 1`,
                     updatedAt: now,
                 },
-                where: eq(mapChains.userId, context.userId),
+                where: and(
+                    eq(mapChains.workspaceId, context.workspaceId),
+                    data.revision === undefined ? undefined : eq(mapChains.revision, data.revision),
+                ),
             })
+            .returning({ revision: mapChains.revision })
+
+        if (updated.length === 0) {
+            const rows = await db
+                .select()
+                .from(mapChains)
+                .where(and(eq(mapChains.id, id), eq(mapChains.workspaceId, context.workspaceId)))
+                .limit(1)
+
+            if (rows.length === 0) throw new Error("Chain not found in this workspace")
+            const current = rows[0]
 
-        return { id, name: data.name, savedAt: now.toISOString() }
+            return {
+                status: "conflict" as const,
+                id,
+                name: current.name,
+                revision: current.revision,
+                updatedAt: (current.updatedAt ?? now).toISOString(),
+                chain: current.chain as Record<string, any>,
+            }
+        }
+
+        return {
+            status: "saved" as const,
+            id,
+            name: data.name,
+            revision: updated[0].revision,
+            savedAt: now.toISOString(),
+        }
     })
 
 // ============================================================
@@ -79,13 +116,13 @@ export const loadChain = createServerFn()
         const [chain] = await db
             .select()
             .from(mapChains)
-            .where(and(eq(mapChains.id, data.id), eq(mapChains.userId, context.userId)))
+            .where(and(eq(mapChains.id, data.id), eq(mapChains.workspaceId, context.workspaceId)))
             .limit(1)
 
         if (!chain) throw new Error("Chain not found")
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return chain.chain as Record<string, any>
+        return { chain: chain.chain as Record<string, any>, revision: chain.revision }
     })
 
 // ============================================================
@@ -93,12 +130,12 @@ export const loadChain = createServerFn()
 // ============================================================
 
 export const deleteChain = createServerFn({ method: "POST" })
-    .middleware([authMiddleware])
+    .middleware([requireRole("editor")])
     .inputValidator(z.object({ id: z.string().uuid() }))
     .handler(async ({ data, context }) => {
         const result = await db
             .delete(mapChains)
-            .where(and(eq(mapChains.id, data.id), eq(mapChains.userId, context.userId)))
+            .where(and(eq(mapChains.id, data.id), eq(mapChains.workspaceId, context.workspaceId)))
             .returning({ id: mapChains.id })
 
         if (result.length === 0) throw new Error("Chain not found")
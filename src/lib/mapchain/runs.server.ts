@@ -0,0 +1,209 @@
+import { createServerFn } from "@tanstack/react-start"
+import { z } from "zod"
+import { and, desc, eq, inArray, notInArray } from "drizzle-orm"
+import { runChain } from "./chain-engine"
+import type { ChainRuntime } from "./chain-engine"
+import type { ChainRun, ChainRunStatus, ChainRunSummary, ChainStepResult, MapChain } from "./types"
+import type { PlatformData } from "@/lib/mapper/platform-data"
+import { authMiddleware, requireRole } from "@/lib/auth-middleware"
+import { db } from "@/db"
+import { mapChainRuns, mapChains } from "@/db/schema"
+import { loadChainMapState } from "@/lib/mapper/persistence.server"
+import { runGroovyOnSidecar } from "@/lib/mapper/groovy-executor.server"
+import { loadPlatformData } from "@/lib/mapper/platform-data.server"
+import { loadSharedLibrary } from "@/lib/mapper/shared-library.server"
+import { executeScriptInVm } from "@/lib/mapper/script-executor.server"
+
+/** Runs kept per chain — older runs are deleted when a new one is recorded. */
+const RUN_HISTORY_LIMIT = 50
+
+type ChainRunRow = typeof mapChainRuns.$inferSelect
+
+function toRunSummary(row: Omit<ChainRunRow, "input" | "output" | "steps">): ChainRunSummary {
+    return {
+        id: row.id,
+        chainId: row.chainId,
+        status: row.status as ChainRunStatus,
+        error: row.error,
+        durationMs: row.durationMs ?? 0,
+        createdAt: (row.createdAt ?? new Date()).toISOString(),
+    }
+}
+
+function toRun(row: ChainRunRow): ChainRun {
+    return {
+        ...toRunSummary(row),
+        input: row.input,
+        output: row.output,
+        steps: row.steps as Array<ChainStepResult>,
+    }
+}
+
+/**
+ * Maps come straight from the database and scripts run in a worker thread.
+ * `onLogs` receives the console output of every script that ran — the chain
+ * transform API route returns it with errors. The workspace's platform data
+ * is loaded once, by the first Groovy step or JS step with the Groovy shims.
+ */
+export function createServerRuntime(
+    workspaceId: string,
+    onLogs?: (logs: Array<string>) => void,
+): ChainRuntime {
+    let platformData: Promise<PlatformData> | undefined
+    return {
+        loadMap: (mapId) => loadChainMapState(mapId, workspaceId),
+        runScript: async (scriptBody, input, context, options) => {
+            if (options.injectGroovyShims) platformData ??= loadPlatformData(workspaceId)
+            const result = await executeScriptInVm(scriptBody, input, context, {
+                ...options,
+                platformData: options.injectGroovyShims ? await platformData : undefined,
+            })
+            onLogs?.(result.logs)
+            return result
+        },
+        runGroovy: async (script, input) => {
+            platformData ??= loadPlatformData(workspaceId)
+            const result = await runGroovyOnSidecar(script, input, undefined, await platformData)
+            onLogs?.(result.logs)
+            return result
+        },
+        loadLibrary: (request) => loadSharedLibrary(workspaceId, request),
+    }
+}
+
+// ============================================================
+// executeSavedChain — Run a saved chain on the server and record it
+// ============================================================
+
+export const executeSavedChain = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor", "execute")])
+    .inputValidator(
+        z.object({
+            chainId: z.string().uuid(),
+            input: z.string().optional(), // defaults to the chain's saved test input
+        }),
+    )
+    .handler(async ({ data, context }) => {
+        const rows = await db
+            .select()
+            .from(mapChains)
+            .where(
+                and(eq(mapChains.id, data.chainId), eq(mapChains.workspaceId, context.workspaceId)),
+            )
+            .limit(1)
+
+        if (rows.length === 0) throw new Error("Chain not found")
+
+        const chain = rows[0].chain as MapChain
+        const input = data.input ?? chain.testInput ?? ""
+        const outcome = await runChain(chain.links, input, createServerRuntime(context.workspaceId))
+
+        return db.transaction(async (tx) => {
+            const [run] = await tx
+                .insert(mapChainRuns)
+                .values({
+                    chainId: data.chainId,
+                    userId: context.userId,
+                    status: outcome.status,
+                    input,
+                    output: outcome.output,
+                    steps: outcome.steps,
+                    error: outcome.error,
+                    durationMs: Math.round(outcome.durationMs),
+                })
+                .returning()
+
+            // Keep the newest RUN_HISTORY_LIMIT runs of the chain
+            const kept = tx
+                .select({ id: mapChainRuns.id })
+                .from(mapChainRuns)
+                .where(eq(mapChainRuns.chainId, data.chainId))
+                .orderBy(desc(mapChainRuns.createdAt))
+                .limit(RUN_HISTORY_LIMIT)
+            await tx
+                .delete(mapChainRuns)
+                .where(
+                    and(eq(mapChainRuns.chainId, data.chainId), notInArray(mapChainRuns.id, kept)),
+                )
+
+            return toRun(run)
+        })
+    })
+
+// ============================================================
+// listChainRuns — Most recent runs of a chain
+// ============================================================
+
+export const listChainRuns = createServerFn()
+    .middleware([authMiddleware])
+    .inputValidator(z.object({ chainId: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        const rows = await db
+            .select({
+                id: mapChainRuns.id,
+                chainId: mapChainRuns.chainId,
+                userId: mapChainRuns.userId,
+                status: mapChainRuns.status,
+                error: mapChainRuns.error,
+                durationMs: mapChainRuns.durationMs,
+                createdAt: mapChainRuns.createdAt,
+            })
+            .from(mapChainRuns)
+            .innerJoin(mapChains, eq(mapChainRuns.chainId, mapChains.id))
+            .where(
+                and(
+                    eq(mapChainRuns.chainId, data.chainId),
+                    eq(mapChains.workspaceId, context.workspaceId),
+                ),
+            )
+            .orderBy(desc(mapChainRuns.createdAt))
+            .limit(RUN_HISTORY_LIMIT)
+
+        return rows.map(toRunSummary)
+    })
+
+// ============================================================
+// loadChainRun — Load a single run with input, steps and output
+// ============================================================
+
+export const loadChainRun = createServerFn()
+    .middleware([authMiddleware])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        const rows = await db
+            .select({ run: mapChainRuns })
+            .from(mapChainRuns)
+            .innerJoin(mapChains, eq(mapChainRuns.chainId, mapChains.id))
+            .where(
+                and(eq(mapChainRuns.id, data.id), eq(mapChains.workspaceId, context.workspaceId)),
+            )
+            .limit(1)
+
+        if (rows.length === 0) throw new Error("Run not found")
+
+        return toRun(rows[0].run)
+    })
+
+// ============================================================
+// deleteChainRun — Delete a run from the history
+// ============================================================
+
+export const deleteChainRun = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor")])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        const workspaceChains = db
+            .select({ id: mapChains.id })
+            .from(mapChains)
+            .where(eq(mapChains.workspaceId, context.workspaceId))
+        const result = await db
+            .delete(mapChainRuns)
+            .where(
+                and(eq(mapChainRuns.id, data.id), inArray(mapChainRuns.chainId, workspaceChains)),
+            )
+            .returning({ id: mapChainRuns.id })
+
+        if (result.length === 0) throw new Error("Run not found")
+
+        return { deleted: true }
+    })
@@ -1,7 +1,14 @@
 import { create } from "zustand"
 import { immer } from "zustand/middleware/immer"
 import { v4 as uuid } from "uuid"
-import type { MapChain, MapChainLink, MapChainLinkType } from "./types"
+import { findLinkById, findLinkList } from "./link-utils"
+import type {
+    ChainErrorPolicy,
+    ChainRoute,
+    MapChain,
+    MapChainLink,
+    MapChainLinkType,
+} from "./types"
 
 // ============================================================
 // Default state
@@ -16,6 +23,34 @@ function createDefaultChain(): MapChain {
     }
 }
 
+function createRoute(name: string): ChainRoute {
+    return { id: uuid(), name, predicate: "", links: [] }
+}
+
+function createLink(type: MapChainLinkType): MapChainLink {
+    const base = { id: uuid(), type, enabled: true }
+    switch (type) {
+        case "JT_MAP":
+            return { ...base, name: "New Map" }
+        case "JT_SCRIPT":
+            return {
+                ...base,
+                name: "New Script",
+                scriptCode: "// input is available as: input\nreturn input",
+                scriptName: "Script",
+            }
+        case "ROUTER":
+            return { ...base, name: "Router", routes: [createRoute("Route 1")] }
+        case "SPLIT":
+            return { ...base, name: "Split", splitExpression: "" }
+        case "AGGREGATE":
+            return { ...base, name: "Aggregate", aggregateFormat: "json" }
+    }
+}
+
+/** Where addLink puts a new link instead of the top level: a ROUTER route or a link's on-error steps. */
+export type LinkTarget = { routerId: string; routeId: string } | { handlerOf: string }
+
 // ============================================================
 // Store interface
 // ============================================================
@@ -28,29 +63,44 @@ interface MapChainStore {
     saveError: string | null
     currentChainId: string | null
     currentChainName: string | null
+    currentChainRevision: number | null // Revision the editor state is based on
 
     // Chain-level mutations
     setChainName: (name: string) => void
     setTestInput: (input: string) => void
 
-    // Link mutations
-    addLink: (type: MapChainLinkType) => void
+    // Link mutations (links may sit at the top level, inside a ROUTER route or
+    // among a link's on-error steps)
+    addLink: (type: MapChainLinkType, target?: LinkTarget) => void
     removeLink: (id: string) => void
     moveLink: (id: string, direction: "up" | "down") => void
     reorderLinks: (ids: Array<string>) => void
     updateLink: (id: string, patch: Partial<MapChainLink>) => void
     toggleLinkEnabled: (id: string) => void
 
+    // Error policy (undefined removes it — the step stops the chain again)
+    updateErrorPolicy: (id: string, patch: Partial<ChainErrorPolicy> | undefined) => void
+
     // Map picker (for JT_MAP links)
     setLinkMap: (linkId: string, mapId: string, mapName: string) => void
 
+    // Routes (for ROUTER links)
+    addRoute: (routerId: string) => void
+    updateRoute: (
+        routerId: string,
+        routeId: string,
+        patch: Partial<Pick<ChainRoute, "name" | "predicate">>,
+    ) => void
+    removeRoute: (routerId: string, routeId: string) => void
+    moveRoute: (routerId: string, routeId: string, direction: "up" | "down") => void
+
     // Persistence
-    loadChain: (chain: MapChain, name: string, id: string | null) => void
+    loadChain: (chain: MapChain, name: string, id: string | null, revision?: number | null) => void
     resetChain: () => void
     setDirty: (dirty: boolean) => void
     setSaving: (saving: boolean) => void
     setSaveError: (error: string | null) => void
-    setCurrentChain: (name: string, id: string) => void
+    setCurrentChain: (name: string, id: string, revision: number) => void
 }
 
 // ============================================================
@@ -65,6 +115,7 @@ export const useMapChainStore = create<MapChainStore>()(
         saveError: null,
         currentChainId: null,
         currentChainName: null,
+        currentChainRevision: null,
 
         setChainName(name) {
             set((state) => {
@@ -80,45 +131,50 @@ export const useMapChainStore = create<MapChainStore>()(
             })
         },
 
-        addLink(type) {
+        addLink(type, target) {
             set((state) => {
-                const link: MapChainLink = {
-                    id: uuid(),
-                    type,
-                    name: type === "JT_MAP" ? "New Map" : "New Script",
-                    enabled: true,
-                    ...(type === "JT_SCRIPT"
-                        ? {
-                              scriptCode: "// input is available as: input\nreturn input",
-                              scriptName: "Script",
-                          }
-                        : {}),
+                const link = createLink(type)
+                if (target && "handlerOf" in target) {
+                    const policy = findLinkById(state.chain.links, target.handlerOf)?.errorPolicy
+                    if (!policy) return
+                    policy.handler ??= []
+                    policy.handler.push(link)
+                } else if (target) {
+                    const router = findLinkById(state.chain.links, target.routerId)
+                    const route = router?.routes?.find((r) => r.id === target.routeId)
+                    if (!route) return
+                    route.links.push(link)
+                } else {
+                    state.chain.links.push(link)
                 }
-                state.chain.links.push(link)
                 state.isDirty = true
             })
         },
 
         removeLink(id) {
             set((state) => {
-                state.chain.links = state.chain.links.filter((l) => l.id !== id)
+                const list = findLinkList(state.chain.links, id)
+                if (!list) return
+                const idx = list.findIndex((l) => l.id === id)
+                list.splice(idx, 1)
                 state.isDirty = true
             })
         },
 
         moveLink(id, direction) {
             set((state) => {
-                const idx = state.chain.links.findIndex((l) => l.id === id)
-                if (idx === -1) return
+                const list = findLinkList(state.chain.links, id)
+                if (!list) return
+                const idx = list.findIndex((l) => l.id === id)
                 if (direction === "up" && idx > 0) {
-                    const tmp = state.chain.links[idx - 1]
-                    state.chain.links[idx - 1] = state.chain.links[idx]
-                    state.chain.links[idx] = tmp
+                    const tmp = list[idx - 1]
+                    list[idx - 1] = list[idx]
+                    list[idx] = tmp
                 }
-                if (direction === "down" && idx < state.chain.links.length - 1) {
-                    const tmp = state.chain.links[idx + 1]
-                    state.chain.links[idx + 1] = state.chain.links[idx]
-                    state.chain.links[idx] = tmp
+                if (direction === "down" && idx < list.length - 1) {
+                    const tmp = list[idx + 1]
+                    list[idx + 1] = list[idx]
+                    list[idx] = tmp
                 }
                 state.isDirty = true
             })
@@ -126,16 +182,20 @@ export const useMapChainStore = create<MapChainStore>()(
 
         reorderLinks(ids) {
             set((state) => {
-                state.chain.links = ids
-                    .map((id) => state.chain.links.find((l) => l.id === id))
+                // ids are the new order of one list — the one containing them
+                const list = ids.length > 0 ? findLinkList(state.chain.links, ids[0]) : null
+                if (!list) return
+                const reordered = ids
+                    .map((id) => list.find((l) => l.id === id))
                     .filter((l): l is MapChainLink => Boolean(l))
+                list.splice(0, list.length, ...reordered)
                 state.isDirty = true
             })
         },
 
         updateLink(id, patch) {
             set((state) => {
-                const link = state.chain.links.find((l) => l.id === id)
+                const link = findLinkById(state.chain.links, id)
                 if (!link) return
                 Object.assign(link, patch)
                 state.isDirty = true
@@ -144,16 +204,30 @@ export const useMapChainStore = create<MapChainStore>()(
 
         toggleLinkEnabled(id) {
             set((state) => {
-                const link = state.chain.links.find((l) => l.id === id)
+                const link = findLinkById(state.chain.links, id)
                 if (!link) return
                 link.enabled = !link.enabled
                 state.isDirty = true
             })
         },
 
+        updateErrorPolicy(id, patch) {
+            set((state) => {
+                const link = findLinkById(state.chain.links, id)
+                if (!link) return
+                if (patch) {
+                    link.errorPolicy ??= { action: "stop" }
+                    Object.assign(link.errorPolicy, patch)
+                } else {
+                    delete link.errorPolicy
+                }
+                state.isDirty = true
+            })
+        },
+
         setLinkMap(linkId, mapId, mapName) {
             set((state) => {
-                const link = state.chain.links.find((l) => l.id === linkId)
+                const link = findLinkById(state.chain.links, linkId)
                 if (!link) return
                 link.mapId = mapId
                 link.mapName = mapName
@@ -162,11 +236,55 @@ export const useMapChainStore = create<MapChainStore>()(
             })
         },
 
-        loadChain(chain, name, id) {
+        addRoute(routerId) {
+            set((state) => {
+                const router = findLinkById(state.chain.links, routerId)
+                if (!router) return
+                router.routes ??= []
+                router.routes.push(createRoute(`Route ${router.routes.length + 1}`))
+                state.isDirty = true
+            })
+        },
+
+        updateRoute(routerId, routeId, patch) {
+            set((state) => {
+                const router = findLinkById(state.chain.links, routerId)
+                const route = router?.routes?.find((r) => r.id === routeId)
+                if (!route) return
+                Object.assign(route, patch)
+                state.isDirty = true
+            })
+        },
+
+        removeRoute(routerId, routeId) {
+            set((state) => {
+                const router = findLinkById(state.chain.links, routerId)
+                if (!router?.routes) return
+                router.routes = router.routes.filter((r) => r.id !== routeId)
+                state.isDirty = true
+            })
+        },
+
+        moveRoute(routerId, routeId, direction) {
+            set((state) => {
+                const routes = findLinkById(state.chain.links, routerId)?.routes
+                if (!routes) return
+                const idx = routes.findIndex((r) => r.id === routeId)
+                const swap = direction === "up" ? idx - 1 : idx + 1
+                if (idx === -1 || swap < 0 || swap >= routes.length) return
+                const tmp = routes[swap]
+                routes[swap] = routes[idx]
+                routes[idx] = tmp
+                state.isDirty = true
+            })
+        },
+
+        loadChain(chain, name, id, revision) {
             set((state) => {
                 state.chain = chain
                 state.currentChainName = name
                 state.currentChainId = id
+                state.currentChainRevision = revision ?? null
                 state.isDirty = false
                 state.isSaving = false
                 state.saveError = null
@@ -178,6 +296,7 @@ export const useMapChainStore = create<MapChainStore>()(
                 state.chain = createDefaultChain()
                 state.currentChainId = null
                 state.currentChainName = null
+                state.currentChainRevision = null
                 state.isDirty = false
                 state.isSaving = false
                 state.saveError = null
@@ -202,10 +321,11 @@ export const useMapChainStore = create<MapChainStore>()(
             })
         },
 
-        setCurrentChain(name, id) {
+        setCurrentChain(name, id, revision) {
             set((state) => {
                 state.currentChainName = name
                 state.currentChainId = id
+                state.currentChainRevision = revision
             })
         },
     })),
@@ -1,9 +1,35 @@
+import type { ValidationIssue } from "@/lib/mapper/engine"
+
 // ============================================================
 // Map Chain — Type Definitions
 // Phase 11
 // ============================================================
 
-export type MapChainLinkType = "JT_MAP" | "JT_SCRIPT"
+export type MapChainLinkType = "JT_MAP" | "JT_SCRIPT" | "ROUTER" | "SPLIT" | "AGGREGATE"
+
+export type AggregateFormat = "json" | "xml"
+
+// One branch of a ROUTER link. Routes are tried in order; the first whose
+// predicate holds runs its links. An empty predicate always matches ("otherwise").
+export interface ChainRoute {
+    id: string // UUID
+    name: string
+    predicate: string // JS expression over `input` (raw string) and `data` (parsed JSON / XML)
+    links: Array<MapChainLink>
+}
+
+// What happens when a step fails. "retry" re-runs the step up to `retries`
+// more times and stops the chain if it still fails. On-error steps (handler)
+// run before the action applies: they receive { error, input, step } as JSON
+// and, when they succeed, their output replaces the failed step's output.
+export type ChainErrorAction = "stop" | "skip" | "fallback" | "retry"
+
+export interface ChainErrorPolicy {
+    action: ChainErrorAction
+    retries?: number // For "retry": attempts after the first
+    fallbackOutput?: string // For "fallback": output used instead of the step's
+    handler?: Array<MapChainLink> // On-error steps
+}
 
 export interface MapChainLink {
     id: string // UUID
@@ -18,6 +44,19 @@ export interface MapChainLink {
     // For JT_SCRIPT links:
     scriptCode?: string // Inline JS code (must accept input string, return output string)
     scriptName?: string // User-given name for this script step
+
+    // For ROUTER links:
+    routes?: Array<ChainRoute>
+
+    // For SPLIT links — the links up to the matching AGGREGATE run once per item:
+    splitExpression?: string // Path into the payload ("orders.order") or JS expression over `data`
+
+    // For AGGREGATE links:
+    aggregateFormat?: AggregateFormat // default: "json" (array of item outputs)
+    aggregateRoot?: string // XML wrapper element; default: "items"
+
+    // For JT_MAP, JT_SCRIPT and ROUTER links; default: stop the chain
+    errorPolicy?: ChainErrorPolicy
 }
 
 export interface MapChain {
@@ -27,10 +66,51 @@ export interface MapChain {
     testInput?: string // Saved test payload for the execute dialog
 }
 
+// Outcome of one item of a SPLIT segment at a given step
+export interface ChainItemResult {
+    index: number
+    status: "done" | "error" | "skipped"
+    output: string
+    error: string | null
+    durationMs: number
+}
+
+// Error policy that handled a failed step (see ChainErrorPolicy)
+export interface ChainPolicyResult {
+    fired: "retry" | "skip" | "fallback" | "handler"
+    attempts: number // Times the step ran
+    error: string // Last error of the step itself
+}
+
 export interface ChainStepResult {
     linkId: string
     status: "pending" | "running" | "done" | "error" | "skipped"
     output: string
     error: string | null
     durationMs: number
+    validation?: Array<ValidationIssue> // Issues reported by a JT_MAP step's script
+    branch?: { routeId: string; routeName: string } | null // Route a ROUTER step took (null: none matched)
+    items?: Array<ChainItemResult> // Per-item outcomes of SPLIT steps and the steps they repeat
+    policy?: ChainPolicyResult // Set when the step failed and its error policy fired
+}
+
+// ============================================================
+// Server-side runs (map_chain_runs)
+// ============================================================
+
+export type ChainRunStatus = "done" | "error"
+
+export interface ChainRunSummary {
+    id: string
+    chainId: string
+    status: ChainRunStatus
+    error: string | null
+    durationMs: number
+    createdAt: string // ISO timestamp
+}
+
+export interface ChainRun extends ChainRunSummary {
+    input: string
+    output: string | null
+    steps: Array<ChainStepResult>
 }
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest"
+import { countCoverage, emptyCoverageCounts, mergeCoverage, summarizeCoverage } from "../coverage"
+import { executeScript, generateScript } from "../engine"
+import { createEmptyMapperState, fromParserTreeNode } from "../node-utils"
+import { parseJSON } from "../parsers"
+import { createLoopReference, createSourceReference } from "../reference-utils"
+import type { MapperState, MapperTreeNode } from "../types"
+
+/**
+ * source: { products: [{ id }], active }
+ * target: items (array, loop over products) → [] → productId
+ *         flag (value "yes", node condition on sourceData.active)
+ *         unmapped
+ */
+function buildState(): MapperState {
+    const state = createEmptyMapperState("JSON", "JSON")
+    state.sourceTreeNode = fromParserTreeNode(
+        parseJSON(JSON.stringify({ products: [{ id: 1 }], active: false })),
+    )
+    state.targetTreeNode = fromParserTreeNode(
+        parseJSON(
+            JSON.stringify({
+                items: [{ productId: null }],
+                flag: null,
+                unmapped: null,
+            }),
+        ),
+    )
+
+    const srcProducts = state.sourceTreeNode.children!.find((n) => n.name === "products")!
+    const srcId = srcProducts.children![0].children!.find((n) => n.name === "id")!
+    const target = (name: string) => state.targetTreeNode!.children!.find((n) => n.name === name)!
+
+    const tgtItems = target("items")
+    const loopRef = createLoopReference(srcProducts.id, "_products")
+    tgtItems.loopReference = loopRef
+    tgtItems.loopIterator = "_product"
+    const tgtProductId = tgtItems.children![0].children!.find((n) => n.name === "productId")!
+    tgtProductId.sourceReferences = [
+        createSourceReference(srcId.id, "_id", true, { loopOverId: loopRef.id }),
+    ]
+
+    const flag = target("flag")
+    flag.value = "yes"
+    flag.plainTextValue = true
+    flag.nodeCondition = { condition: "sourceData.active === true" }
+
+    return state
+}
+
+function byName(tree: MapperTreeNode, name: string): MapperTreeNode {
+    let found: MapperTreeNode | null = null
+    const walk = (node: MapperTreeNode) => {
+        if (node.name === name) found = node
+        node.children?.forEach(walk)
+    }
+    walk(tree)
+    return found!
+}
+
+async function runWithCoverage(state: MapperState, input: unknown) {
+    const script = generateScript(state, "json", "json", { coverage: true })
+    const result = await executeScript(script, JSON.stringify(input), state.localContext)
+    expect(result.error).toBeNull()
+    return result
+}
+
+describe("generateScript with coverage", () => {
+    it("emits no counters unless asked", () => {
+        const script = generateScript(buildState(), "json", "json")
+        expect(script).not.toContain("_cover")
+        expect(script).not.toContain("reportCoverage")
+    })
+
+    it("counts reached nodes, loop iterations and condition hits", async () => {
+        const state = buildState()
+        const result = await runWithCoverage(state, {
+            products: [{ id: 1 }, { id: 2 }],
+            active: false,
+        })
+        expect(JSON.parse(result.output)).toEqual({ items: [{ productId: 1 }, { productId: 2 }] })
+
+        const tree = state.targetTreeNode!
+        const coverage = result.coverage!
+        expect(coverage[byName(tree, "items").id]).toMatchObject({
+            reached: 1,
+            loops: 1,
+            iterations: 2,
+            written: 2,
+        })
+        expect(coverage[byName(tree, "productId").id]).toMatchObject({ reached: 2, written: 2 })
+        expect(coverage[byName(tree, "flag").id]).toMatchObject({
+            reached: 1,
+            entered: 0,
+            written: 0,
+        })
+    })
+
+    it("keeps the counts of a run that throws while building the output", async () => {
+        const state = buildState()
+        byName(state.targetTreeNode!, "unmapped").value = "sourceData.missing.deep"
+        const script = generateScript(state, "json", "json", { coverage: true })
+        const result = await executeScript(
+            script,
+            JSON.stringify({ products: [{ id: 1 }, { id: 2 }], active: false }),
+            state.localContext,
+        )
+        expect(result.error).not.toBeNull()
+        expect(result.coverage?.[byName(state.targetTreeNode!, "items").id]).toMatchObject({
+            iterations: 2,
+            written: 2,
+        })
+    })
+})
+
+describe("summarizeCoverage", () => {
+    it("marks covered, skipped and never reached nodes with the reason", async () => {
+        const state = buildState()
+        const tree = state.targetTreeNode!
+        const { coverage } = await runWithCoverage(state, { products: [], active: false })
+        const summary = summarizeCoverage(tree, coverage!)
+
+        expect(summary.get(byName(tree, "items").id)).toMatchObject({
+            status: "skipped",
+            reason: "Loop iterated zero times",
+        })
+        expect(summary.get(byName(tree, "productId").id)).toMatchObject({
+            status: "unreached",
+            reason: "Never reached",
+        })
+        expect(summary.get(byName(tree, "flag").id)).toMatchObject({
+            status: "skipped",
+            reason: "Node condition was never true",
+        })
+        expect(summary.get(byName(tree, "[]").id)?.status).toBe("unreached")
+        expect(summary.has(byName(tree, "unmapped").id)).toBe(false)
+        expect(countCoverage(summary)).toEqual({ covered: 0, skipped: 2, unreached: 2 })
+    })
+
+    it("marks containers covered when a descendant wrote a value", async () => {
+        const state = buildState()
+        const tree = state.targetTreeNode!
+        const { coverage } = await runWithCoverage(state, { products: [{ id: 1 }], active: true })
+        const summary = summarizeCoverage(tree, coverage!)
+        expect(summary.get(byName(tree, "[]").id)?.status).toBe("covered")
+        expect(countCoverage(summary)).toEqual({ covered: 4, skipped: 0, unreached: 0 })
+    })
+
+    it("treats nodes missing from the counters as never reached", () => {
+        const tree = buildState().targetTreeNode!
+        const summary = summarizeCoverage(tree, {})
+        expect(countCoverage(summary)).toEqual({ covered: 0, skipped: 0, unreached: 4 })
+    })
+})
+
+describe("mergeCoverage", () => {
+    it("sums the counters of several runs so one covering run is enough", async () => {
+        const state = buildState()
+        const tree = state.targetTreeNode!
+        const first = await runWithCoverage(state, { products: [], active: false })
+        const second = await runWithCoverage(state, { products: [{ id: 1 }], active: true })
+        const merged = mergeCoverage(first.coverage!, second.coverage!)
+
+        expect(merged[byName(tree, "flag").id]).toEqual({
+            ...emptyCoverageCounts(),
+            reached: 2,
+            entered: 1,
+            written: 1,
+        })
+        const summary = summarizeCoverage(tree, merged)
+        expect(countCoverage(summary).covered).toBe(summary.size)
+    })
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest"
+import { detectCsvDelimiter, parseCSV, parseCSVRecords, toCSV } from "../csv"
+
+describe("parseCSVRecords", () => {
+    it("splits records and fields", () => {
+        expect(parseCSVRecords("a,b\n1,2")).toEqual([
+            ["a", "b"],
+            ["1", "2"],
+        ])
+    })
+
+    it("handles quoted fields with delimiters, newlines and doubled quotes", () => {
+        const csv = 'name,note\n"Smith, J","said ""hi""\nthen left"'
+        expect(parseCSVRecords(csv)).toEqual([
+            ["name", "note"],
+            ["Smith, J", 'said "hi"\nthen left'],
+        ])
+    })
+
+    it("accepts CRLF line endings and skips blank lines", () => {
+        expect(parseCSVRecords("a,b\r\n\r\n1,2\r\n")).toEqual([
+            ["a", "b"],
+            ["1", "2"],
+        ])
+    })
+
+    it("keeps empty fields", () => {
+        expect(parseCSVRecords("a,,c\n,,")).toEqual([
+            ["a", "", "c"],
+            ["", "", ""],
+        ])
+    })
+
+    it("honours custom delimiter and quote characters", () => {
+        const options = { delimiter: ";", quote: "'", hasHeader: true }
+        expect(parseCSVRecords("a;'b;c'", options)).toEqual([["a", "b;c"]])
+    })
+})
+
+describe("parseCSV", () => {
+    it("keys rows by trimmed header names", () => {
+        expect(parseCSV("id, name\n1,Laptop\n2,Mouse")).toEqual([
+            { id: "1", name: "Laptop" },
+            { id: "2", name: "Mouse" },
+        ])
+    })
+
+    it("names columns column1..N without a header row", () => {
+        const rows = parseCSV("1,Laptop", { delimiter: ",", quote: '"', hasHeader: false })
+        expect(rows).toEqual([{ column1: "1", column2: "Laptop" }])
+    })
+
+    it("names columns beyond the header positionally", () => {
+        expect(parseCSV("id\n1,extra")).toEqual([{ id: "1", column2: "extra" }])
+    })
+})
+
+describe("toCSV", () => {
+    it("writes a header and one line per row", () => {
+        expect(toCSV([{ id: 1, name: "Laptop" }])).toBe("id,name\n1,Laptop")
+    })
+
+    it("uses the union of keys in first-seen order", () => {
+        expect(toCSV([{ a: 1 }, { b: 2, a: 3 }])).toBe("a,b\n1,\n3,2")
+    })
+
+    it("quotes fields containing the delimiter, quote or newlines", () => {
+        expect(toCSV([{ v: 'a,"b"' }, { v: "x\ny" }])).toBe('v\n"a,""b"""\n"x\ny"')
+    })
+
+    it("omits the header when hasHeader is false", () => {
+        expect(toCSV([{ a: 1, b: 2 }], { delimiter: "\t", quote: '"', hasHeader: false })).toBe(
+            "1\t2",
+        )
+    })
+
+    it("writes nested values as JSON and tolerates missing rows", () => {
+        expect(toCSV([{ tags: [1, 2] }], { delimiter: ";", quote: "'", hasHeader: false })).toBe(
+            "[1,2]",
+        )
+        expect(toCSV(undefined)).toBe("")
+    })
+})
+
+describe("detectCsvDelimiter", () => {
+    it("picks the most frequent candidate on the first line", () => {
+        expect(detectCsvDelimiter("a;b;c\n1;2;3")).toBe(";")
+        expect(detectCsvDelimiter("a\tb\n1\t2")).toBe("\t")
+    })
+
+    it("ignores delimiters inside quotes and defaults to comma", () => {
+        expect(detectCsvDelimiter('"a;b;c",d')).toBe(",")
+        expect(detectCsvDelimiter("single")).toBe(",")
+    })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+import { compareEngineRuns, generateEngineScripts } from "../engine-compare"
+import { createEmptyMapperState, createNode } from "../node-utils"
+import type { EngineRun } from "../engine-compare"
+import type { MapperState } from "../types"
+
+function run(output: string, error: string | null = null): EngineRun {
+    return { output, error, durationMs: 1 }
+}
+
+describe("compareEngineRuns", () => {
+    it("treats outputs that differ only in formatting as the same", () => {
+        expect(
+            compareEngineRuns(run('{"a":1,"b":2}'), run('{\n  "b": 2.0,\n  "a": 1\n}'), "json"),
+        ).toEqual({ status: "same", diffs: [], note: null })
+    })
+
+    it("reports differing values, fields only one engine produced, and type differences", () => {
+        const result = compareEngineRuns(
+            run('{"total": 10, "name": "x", "js": true}'),
+            run('{"total": "10", "name": "y", "groovy": null}'),
+            "json",
+        )
+        expect(result.status).toBe("different")
+        expect(result.diffs).toEqual([
+            {
+                path: "total",
+                kind: "type",
+                js: 10,
+                groovy: "10",
+                jsType: "number",
+                groovyType: "string",
+            },
+            {
+                path: "name",
+                kind: "changed",
+                js: "x",
+                groovy: "y",
+                jsType: "string",
+                groovyType: "string",
+            },
+            { path: "js", kind: "js-only", js: true, jsType: "boolean" },
+            { path: "groovy", kind: "groovy-only", groovy: null, groovyType: "null" },
+        ])
+    })
+
+    it("compares XML structurally", () => {
+        expect(
+            compareEngineRuns(
+                run("<a><b>1</b></a>"),
+                run('<?xml version="1.0"?>\n<a>\n  <b>1</b>\n</a>'),
+                "xml",
+            ).status,
+        ).toBe("same")
+    })
+
+    it("falls back to text when an output does not parse", () => {
+        const result = compareEngineRuns(run("{}"), run("not json"), "json")
+        expect(result.status).toBe("different")
+        expect(result.note).toMatch(/^Groovy output is not valid JSON/)
+        expect(result.diffs).toEqual([{ path: "", kind: "changed", js: "{}", groovy: "not json" }])
+    })
+
+    it("reports failing engines", () => {
+        expect(compareEngineRuns(run("", "boom"), run("{}"), "json")).toEqual({
+            status: "different",
+            diffs: [],
+            note: "JavaScript failed: boom",
+        })
+        expect(compareEngineRuns(run("", "a"), run("", "b"), "json").status).toBe("error")
+    })
+})
+
+describe("generateEngineScripts", () => {
+    const state: MapperState = {
+        ...createEmptyMapperState(),
+        sourceTreeNode: createNode("root", "element", { children: [createNode("id", "element")] }),
+        targetTreeNode: createNode("root", "element", {
+            children: [createNode("id", "element", { value: '"1"' })],
+        }),
+    }
+
+    it("generates both scripts from a JavaScript map as is", () => {
+        const scripts = generateEngineScripts(state, "json", "json")
+        expect(scripts.js).not.toBe("")
+        expect(scripts.groovy).not.toBe("")
+        expect(scripts.injectGroovyShims).toBe(false)
+    })
+
+    it("runs Groovy maps through the transpiler on the JavaScript side", () => {
+        const scripts = generateEngineScripts(
+            { ...state, scriptLanguage: "groovy" },
+            "json",
+            "json",
+        )
+        expect(scripts.injectGroovyShims).toBe(true)
+        expect(scripts.transpileWarnings).toBe(0)
+    })
+})
@@ -1,7 +1,7 @@
 import { readFileSync } from "node:fs"
 import { resolve } from "node:path"
 import { describe, expect, it } from "vitest"
-import { parseJSON } from "../parsers"
+import { parseCSV, parseJSON } from "../parsers"
 import {
     applyMappings,
     applyTransform,
@@ -10,6 +10,7 @@ import {
     executeScript,
     generateJSONOutput,
     generateScript,
+    needsGroovyShims,
     treeToData,
 } from "../engine"
 import { createEmptyMapperState, createNode, fromParserTreeNode } from "../node-utils"
@@ -953,12 +954,271 @@ describe("detectTemplateType", () => {
         const state = createEmptyMapperState("XML", "XML")
         expect(detectTemplateType(state)).toBe("xml_to_xml")
     })
+
+    it("returns csv_to_json for CSV→JSON", () => {
+        const state = createEmptyMapperState("CSV", "JSON")
+        expect(detectTemplateType(state)).toBe("csv_to_json")
+    })
+})
+
+// ============================================================
+// CSV input / output
+// ============================================================
+
+/**
+ * source:  root → rows (array) → [] → id, name   (parsed from a CSV header)
+ * target:  root → rows (array, loopRef) → [] → sku, label
+ */
+function buildCsvState(): MapperState {
+    const state = createEmptyMapperState("CSV", "CSV")
+    state.sourceTreeNode = fromParserTreeNode(parseCSV("id,name\n1,Laptop"))
+    state.targetTreeNode = fromParserTreeNode(
+        parseCSV("sku;label", { delimiter: ";", quote: '"', hasHeader: true }),
+    )
+
+    const srcRows = state.sourceTreeNode.children![0]
+    const tgtRows = state.targetTreeNode.children![0]
+    const loopRef = createLoopReference(srcRows.id, "_rows")
+    tgtRows.loopReference = loopRef
+    tgtRows.loopIterator = "_row"
+
+    const srcFields = srcRows.children![0].children!
+    const tgtFields = tgtRows.children![0].children!
+    const idRef = createSourceReference(srcFields[0].id, "_id", true, { loopOverId: loopRef.id })
+    const nameRef = createSourceReference(srcFields[1].id, "_name", true, {
+        loopOverId: loopRef.id,
+    })
+    tgtFields[0].sourceReferences = [idRef]
+    tgtFields[0].value = "_id"
+    tgtFields[1].sourceReferences = [nameRef]
+    tgtFields[1].value = "_name"
+    return state
+}
+
+describe("generateScript - CSV input and output", () => {
+    it("models a CSV file as root → rows → [] → columns", () => {
+        const state = buildCsvState()
+        const rows = state.sourceTreeNode!.children![0]
+        expect(rows.name).toBe("rows")
+        expect(rows.type).toBe("array")
+        expect(rows.children![0].children!.map((c) => c.name)).toEqual(["id", "name"])
+    })
+
+    it("reads input with parseCSV using the source options", () => {
+        const state = buildCsvState()
+        state.sourceCsvOptions = { delimiter: "|", quote: "'", hasHeader: false }
+        const script = generateScript(state, "csv", "json")
+        expect(script).toContain(
+            `const sourceData = { rows: parseCSV(input, {"delimiter":"|","quote":"'","hasHeader":false}) }`,
+        )
+    })
+
+    it("writes output with toCSV using the target options", () => {
+        const state = buildCsvState()
+        state.targetCsvOptions = { delimiter: ";", quote: '"', hasHeader: true }
+        const script = generateScript(state, "json", "csv")
+        expect(script).toContain(
+            'return toCSV(output.rows, {"delimiter":";","quote":"\\"","hasHeader":true})',
+        )
+    })
+
+    it("transforms CSV to CSV end-to-end", async () => {
+        const state = buildCsvState()
+        state.targetCsvOptions = { delimiter: ";", quote: '"', hasHeader: true }
+        const script = generateScript(state, "csv", "csv")
+        const result = await executeScript(
+            script,
+            'id,name\n1,Laptop\n2,"Mouse; wireless"',
+            state.localContext,
+        )
+        expect(result.error).toBeNull()
+        expect(result.output).toBe('sku;label\n1;Laptop\n2;"Mouse; wireless"')
+    })
+})
+
+/**
+ * Build a state exercising nonEmpty / errorMessage / format.
+ * source:  root → id, placed, total, lines (array) → [] → sku
+ * target:  root → orderId (nonEmpty), placed ("dd/MM/yyyy"), total ("#,##0.00"),
+ *          note (nonEmpty + errorMessage, unmapped), lines (loop) → [] → sku (nonEmpty)
+ */
+function buildFieldRulesState(): MapperState {
+    const state = createEmptyMapperState("JSON", "JSON")
+
+    const srcId = createNode("id", "element")
+    const srcPlaced = createNode("placed", "element")
+    const srcTotal = createNode("total", "element")
+    const srcSku = createNode("sku", "element")
+    const srcItem = createNode("[]", "arrayChild", { children: [srcSku] })
+    const srcLines = createNode("lines", "array", { children: [srcItem] })
+    state.sourceTreeNode = createNode("root", "element", {
+        children: [srcId, srcPlaced, srcTotal, srcLines],
+    })
+
+    const loopRef = createLoopReference(srcItem.id, "_lines")
+    const skuRef = createSourceReference(srcSku.id, "_sku", true, { loopOverId: loopRef.id })
+    const tgtSku = createNode("sku", "element", { sourceReferences: [skuRef], nonEmpty: true })
+    const tgtLines = createNode("lines", "array", {
+        loopReference: loopRef,
+        loopIterator: "_line",
+        children: [createNode("[]", "arrayChild", { children: [tgtSku] })],
+    })
+
+    state.targetTreeNode = createNode("root", "element", {
+        children: [
+            createNode("orderId", "element", {
+                sourceReferences: [createSourceReference(srcId.id, "_id", true)],
+                nonEmpty: true,
+            }),
+            createNode("placed", "element", {
+                sourceReferences: [createSourceReference(srcPlaced.id, "_placed", true)],
+                format: "dd/MM/yyyy",
+            }),
+            createNode("total", "element", {
+                sourceReferences: [createSourceReference(srcTotal.id, "_total", true)],
+                format: "#,##0.00",
+            }),
+            createNode("note", "element", {
+                nonEmpty: true,
+                errorMessage: "Note is mandatory",
+                nodeCondition: { condition: "_id === 'NOTE'" },
+            }),
+            tgtLines,
+        ],
+    })
+    return state
+}
+
+describe("generateScript - nonEmpty, errorMessage and format", () => {
+    it("emits no helpers when no node carries a rule", () => {
+        const script = generateScript(buildSimpleState(), "json", "json")
+        expect(script).not.toContain("_validationIssues")
+        expect(script).not.toContain("_formatDate")
+    })
+
+    it("wraps formatted values and checks required nodes after they are built", () => {
+        const state = buildFieldRulesState()
+        const [orderId, placed, total] = state.targetTreeNode!.children!
+        const sku = state.targetTreeNode!.children![4].children![0].children![0]
+        const script = generateScript(state, "json", "json")
+        expect(script).toContain(
+            `output.placed = _formatDate(_placed, "dd/MM/yyyy", "${placed.id}", "placed")`,
+        )
+        expect(script).toContain(`output.total = _formatNumber(_total, 2, "${total.id}", "total")`)
+        expect(script).toContain(
+            `_checkRequired(output?.orderId, "value", "${orderId.id}", "orderId", "Required field \\"orderId\\" is empty")`,
+        )
+        expect(script).toContain(
+            `_checkRequired(_item_1?.sku, "value", "${sku.id}", "lines.sku", "Required field \\"lines.sku\\" is empty")`,
+        )
+    })
+
+    it("applies date and number formats via the shims", async () => {
+        const state = buildFieldRulesState()
+        const script = generateScript(state, "json", "json")
+        const input = JSON.stringify({
+            id: "A1",
+            placed: "2024-03-05",
+            total: "12.346",
+            lines: [{ sku: "X" }],
+        })
+        const result = await executeScript(script, input, state.localContext)
+        expect(result.error).toBeNull()
+        expect(result.validation).toEqual([])
+        expect(JSON.parse(result.output)).toEqual({
+            orderId: "A1",
+            placed: "05/03/2024",
+            total: 12.35,
+            lines: [{ sku: "X" }],
+        })
+    })
+
+    it("keeps unparseable values and reports them as format issues", async () => {
+        const state = buildFieldRulesState()
+        const script = generateScript(state, "json", "json")
+        const input = JSON.stringify({ id: "A1", placed: "soon", total: "n/a", lines: [] })
+        const result = await executeScript(script, input, state.localContext)
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output)).toMatchObject({ placed: "soon", total: "n/a" })
+        expect(result.validation.map((v) => [v.kind, v.path, v.message])).toEqual([
+            ["format", "placed", 'Cannot format "soon" as "dd/MM/yyyy"'],
+            ["format", "total", 'Cannot format "n/a" as a number'],
+        ])
+    })
+
+    it("reports required issues per target path without failing the run", async () => {
+        const state = buildFieldRulesState()
+        const note = state.targetTreeNode!.children![3]
+        const script = generateScript(state, "json", "json")
+        const input = JSON.stringify({ id: "NOTE", lines: [{ sku: "X" }, { sku: "" }] })
+        const result = await executeScript(script, input, state.localContext)
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output).orderId).toBe("NOTE")
+        expect(result.validation).toEqual([
+            { nodeId: note.id, path: "note", kind: "required", message: "Note is mandatory" },
+            expect.objectContaining({ path: "lines.sku", kind: "required" }),
+        ])
+    })
+
+    it("reports values that do not match the node's shape as type issues", async () => {
+        const state = buildFieldRulesState()
+        state.targetTreeNode!.children![0].value = "{ code: _id }"
+        const script = generateScript(state, "json", "json")
+        const result = await executeScript(script, '{"id":"A1","lines":[]}', state.localContext)
+        expect(result.validation).toEqual([
+            expect.objectContaining({
+                kind: "type",
+                path: "orderId",
+                message: 'Expected a value at "orderId"',
+            }),
+        ])
+    })
+
+    it("throws the collected messages when the runtime has no reporter", () => {
+        const state = buildFieldRulesState()
+        const script = generateScript(state, "json", "json")
+        const run = new Function("input", "createDateFormatter", "roundTo", script) as (
+            input: string,
+            ...shims: Array<unknown>
+        ) => string
+        expect(() => run('{"id":"NOTE","lines":[]}')).toThrow("Note is mandatory")
+    })
+
+    it("ignores JSON Schema named formats", () => {
+        const state = buildFieldRulesState()
+        state.targetTreeNode!.children![1].format = "date-time"
+        const script = generateScript(state, "json", "json")
+        expect(script).toContain("output.placed = _placed")
+    })
+
+    it("keeps Groovy shim injection working alongside the format shims", async () => {
+        const state = buildFieldRulesState()
+        const script = generateScript(state, "json", "json")
+        const input = JSON.stringify({ id: "A1", placed: "2024-03-05", lines: [] })
+        const result = await executeScript(script, input, state.localContext, {
+            injectGroovyShims: true,
+        })
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output).placed).toBe("05/03/2024")
+    })
 })
 
 // ============================================================
 // Phase 6 — executeScript tests
 // ============================================================
 
+describe("needsGroovyShims", () => {
+    it("is true only for JavaScript maps with an uploaded source file", () => {
+        const state = createEmptyMapperState("JSON", "JSON")
+        state.scriptLanguage = "javascript"
+        expect(needsGroovyShims(state)).toBe(false)
+        state.sourceOriginalContent = '{"id":1}'
+        expect(needsGroovyShims(state)).toBe(true)
+        expect(needsGroovyShims({ ...state, scriptLanguage: "groovy" })).toBe(false)
+        expect(needsGroovyShims({ ...state, scriptLanguage: undefined })).toBe(false)
+    })
+})
+
 describe("executeScript", () => {
     it("executes a simple JSON passthrough and returns output", async () => {
         const script = [
@@ -1009,6 +1269,15 @@ describe("executeScript", () => {
         expect(parsed.orderId).toBe("ORDER-42")
     })
 
+    it("captures console output without touching the global console", async () => {
+        const globalLog = console.log
+        const script = "console.log('a', 1); console.error('b'); return typeof console.table"
+        const result = await executeScript(script, "{}", emptyContext)
+        expect(result.logs).toEqual(["a 1", "[error] b"])
+        expect(result.output).toBe("undefined")
+        expect(console.log).toBe(globalLog)
+    })
+
     it("returns empty string output on null script return", async () => {
         const script = "const x = 1" // no return → undefined
         const result = await executeScript(script, "{}", emptyContext)
@@ -429,6 +429,42 @@ describe("generateGroovyScript - XML output", () => {
     })
 })
 
+// ============================================================
+// generateGroovyScript - CSV input / output
+// ============================================================
+
+describe("generateGroovyScript - CSV", () => {
+    it("embeds the parseCsv reader and exposes records as sourceData.rows", () => {
+        const state = buildSimpleState()
+        state.sourceCsvOptions = { delimiter: ";", quote: '"', hasHeader: true }
+        const script = generateGroovyScript(state, "csv", "json")
+        expect(script).toContain(
+            "def parseCsv(String text, String delimiter, String quote, boolean hasHeader)",
+        )
+        expect(script).toContain('def sourceData = [rows: parseCsv(input, ";", "\\"", true)]')
+        expect(script).not.toContain("JsonSlurper")
+        // Line-break checks stay escaped in the Groovy source
+        expect(script).toContain('} else if (ch == "\\n" || ch == "\\r") {')
+    })
+
+    it("serializes output.rows with the buildCsv helper", () => {
+        const state = buildSimpleState()
+        state.targetCsvOptions = { delimiter: "\t", quote: "'", hasHeader: false }
+        const script = generateGroovyScript(state, "json", "csv")
+        expect(script).toContain(
+            "def buildCsv(rows, String delimiter, String quote, boolean hasHeader)",
+        )
+        expect(script).toContain('return buildCsv(output["rows"], "\\t", "\'", false)')
+        expect(script).not.toContain("JsonBuilder(output)")
+    })
+
+    it("defaults to comma / double quote / header when no options are stored", () => {
+        const script = generateGroovyScript(buildSimpleState(), "csv", "csv")
+        expect(script).toContain('parseCsv(input, ",", "\\"", true)')
+        expect(script).toContain('buildCsv(output["rows"], ",", "\\"", true)')
+    })
+})
+
 // ============================================================
 // generateGroovyScript - loops
 // ============================================================
@@ -1186,6 +1222,94 @@ describe("generateGroovyScript - nested output", () => {
     })
 })
 
+// ============================================================
+// nonEmpty / errorMessage / format
+// ============================================================
+
+describe("generateGroovyScript - nonEmpty, errorMessage and format", () => {
+    function buildFieldRulesState(): MapperState {
+        const state = createEmptyMapperState("JSON", "JSON")
+        const srcPlaced = createNode("placed", "element")
+        const srcTotal = createNode("total", "element")
+        state.sourceTreeNode = createNode("root", "element", { children: [srcPlaced, srcTotal] })
+
+        const tgtCode = createNode("code", "element", { nonEmpty: true })
+        state.targetTreeNode = createNode("root", "element", {
+            children: [
+                createNode("placed", "element", {
+                    sourceReferences: [createSourceReference(srcPlaced.id, "_placed", true)],
+                    format: "dd/MM/yyyy",
+                }),
+                createNode("total", "element", {
+                    sourceReferences: [createSourceReference(srcTotal.id, "_total", true)],
+                    format: "###.##",
+                }),
+                createNode("header", "element", {
+                    children: [tgtCode],
+                    nonEmpty: true,
+                    errorMessage: 'Header "$ref" missing',
+                }),
+            ],
+        })
+        return state
+    }
+
+    it("emits no helpers when no node carries a rule", () => {
+        const script = generateGroovyScript(buildSimpleState(), "json", "json")
+        expect(script).not.toContain("_validationIssues")
+        expect(script).not.toContain("_formatDate")
+    })
+
+    it("wraps formatted values in the format helpers", () => {
+        const state = buildFieldRulesState()
+        const [placed, total] = state.targetTreeNode!.children!
+        const script = generateGroovyScript(state, "json", "json")
+        expect(script).toContain(
+            `output["placed"] = _formatDate(_placed, "dd/MM/yyyy", "${placed.id}", "placed")`,
+        )
+        expect(script).toContain(
+            `output["total"] = _formatNumber(_total, 2, "${total.id}", "total")`,
+        )
+        expect(script).toContain("new java.text.SimpleDateFormat(pattern).format(date)")
+        expect(script).toContain("setScale(places, java.math.RoundingMode.HALF_UP)")
+    })
+
+    it("checks required nodes with null-safe access and escaped messages", () => {
+        const state = buildFieldRulesState()
+        const header = state.targetTreeNode!.children![2]
+        const code = header.children![0]
+        const script = generateGroovyScript(state, "json", "json")
+        expect(script).toContain("_validationIssues = []")
+        expect(script).toContain(
+            `_checkRequired(output?.get("header")?.get("code"), "value", "${code.id}", "header.code", "Required field \\"header.code\\" is empty")`,
+        )
+        expect(script).toContain(
+            `_checkRequired(output?.get("header"), "object", "${header.id}", "header", "Header \\"\\$ref\\" missing")`,
+        )
+    })
+
+    it("hands issues to reportValidation after the epilog, before the return", () => {
+        const state = buildFieldRulesState()
+        state.localContext.epilogScript = "// epilog"
+        const script = generateGroovyScript(state, "json", "json")
+        const reportIdx = script.indexOf(
+            'if (binding.hasVariable("reportValidation")) reportValidation(_validationIssues)',
+        )
+        expect(reportIdx).toBeGreaterThan(script.indexOf("// epilog"))
+        expect(reportIdx).toBeLessThan(script.indexOf("return new JsonBuilder"))
+        expect(script).toContain(
+            'else throw new RuntimeException(_validationIssues.collect { it.message }.join("\\n"))',
+        )
+    })
+
+    it("records format failures as issues", () => {
+        const script = generateGroovyScript(buildFieldRulesState(), "json", "json")
+        expect(script).toContain(
+            '_validationIssues << [nodeId: nodeId, path: path, kind: "format", message: "Cannot format \\"" + text + "\\" as a number"]',
+        )
+    })
+})
+
 // ============================================================
 // Attribute nodes
 // ============================================================
@@ -1,8 +1,10 @@
 import { describe, expect, test, vi } from "vitest"
+import { executeScript } from "../engine"
 import {
     bigDecimal,
     chunkArray,
     createDateFormatter,
+    createJtShims,
     createLocale,
     deepFindAll,
     findResult,
@@ -23,6 +25,7 @@ import {
     sum,
     xmlProxy,
 } from "../groovy-shims"
+import { createDefaultContext } from "../reference-utils"
 
 // ============================================================
 // 7.2 — Date Formatting Shims
@@ -689,10 +692,10 @@ describe("jtShims", () => {
         errorSpy.mockRestore()
     })
 
-    test("getLookupTable returns empty object", () => {
+    test("getLookupTable returns null", () => {
         const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
         const result = jtShims.getLookupTable("tableName")
-        expect(result).toEqual({})
+        expect(result).toBeNull()
         warnSpy.mockRestore()
     })
 
@@ -714,6 +717,74 @@ describe("jtShims", () => {
     })
 })
 
+describe("createJtShims with platform data", () => {
+    const shims = createJtShims({
+        globalData: { region: "EU" },
+        lookupTables: { countries: { NL: "Netherlands", DE: "Germany" } },
+    })
+
+    test("getGlobalData resolves the key, with or without a transaction", () => {
+        expect(shims.getGlobalData("region")).toBe("EU")
+        expect(shims.getGlobalData({ id: "tx" }, "region")).toBe("EU")
+    })
+
+    test("lookup table calls resolve the table and key", () => {
+        expect(shims.getLookupTable("countries")).toEqual({ NL: "Netherlands", DE: "Germany" })
+        expect(shims.getLookupTableValue("countries", "DE")).toBe("Germany")
+        expect(shims.getLookupTableValue({ id: "tx" }, "countries", "NL")).toBe("Netherlands")
+    })
+
+    test("entries the data does not have warn and return null", () => {
+        const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+        expect(shims.getGlobalData("missing")).toBeNull()
+        expect(shims.getLookupTable("missing")).toBeNull()
+        expect(shims.getLookupTableValue("countries", "FR")).toBeNull()
+        expect(warnSpy).toHaveBeenCalledTimes(3)
+        warnSpy.mockRestore()
+    })
+
+    test("warns on the console it is given", () => {
+        const log = { warn: vi.fn(), error: vi.fn() }
+        const logged = createJtShims(undefined, log)
+        logged.getGlobalData("missing")
+        logged.logFailureEvent("failed")
+        expect(log.warn).toHaveBeenCalledTimes(1)
+        expect(log.error).toHaveBeenCalledWith("[JTUtil.logFailureEvent]", "failed")
+    })
+
+    test("reports warnings in the logs of executeScript", async () => {
+        const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+        const result = await executeScript(
+            'jtShims.getGlobalData("missing")\nreturn "ok"',
+            "{}",
+            createDefaultContext(),
+            { injectGroovyShims: true },
+        )
+        expect(result.output).toBe("ok")
+        expect(result.logs[0]).toMatch(/^\[warn\] \[JTUtil\.getGlobalData\]/)
+        expect(warnSpy).not.toHaveBeenCalled()
+        warnSpy.mockRestore()
+    })
+
+    test("a missing lookup table is null in scripts, as on the Groovy sidecar", async () => {
+        const result = await executeScript(
+            'return JSON.stringify(jtShims.getLookupTable("missing"))',
+            "{}",
+            createDefaultContext(),
+            { injectGroovyShims: true, platformData: { globalData: {}, lookupTables: {} } },
+        )
+        expect(result.output).toBe("null")
+        expect(result.logs).toHaveLength(1)
+    })
+
+    test("resolves in Function scope via getGroovyShimParamValues", () => {
+        const names = getGroovyShimParamNames()
+        const values = getGroovyShimParamValues({ globalData: { env: "test" }, lookupTables: {} })
+        const fn = new Function(...names, 'return jtShims.getGlobalData("env")')
+        expect(fn(...values)).toBe("test")
+    })
+})
+
 describe("JsonSlurper (via groovyShims)", () => {
     test("parseText parses JSON", () => {
         const result = groovyShims.JsonSlurper.parseText('{"name":"test"}')
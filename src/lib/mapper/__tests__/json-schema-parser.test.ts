@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest"
+import { isJsonSchemaContent, parseJsonSchema } from "../json-schema-parser"
+import type { MapperTreeNode } from "../types"
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const ORDER_SCHEMA = JSON.stringify({
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    required: ["orderId", "items"],
+    properties: {
+        orderId: { type: "string", description: "Unique order number" },
+        createdAt: { type: "string", format: "date-time" },
+        shipTo: { $ref: "#/$defs/Address" },
+        items: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["sku"],
+                properties: {
+                    sku: { type: "string" },
+                    qty: { type: "integer" },
+                },
+            },
+        },
+        tags: { type: "array", items: { type: "string" } },
+    },
+    $defs: {
+        Address: {
+            type: "object",
+            description: "Postal address",
+            required: ["city"],
+            properties: {
+                street: { type: "string" },
+                city: { type: "string" },
+            },
+        },
+    },
+})
+
+function childNames(node: MapperTreeNode | undefined): Array<string> {
+    return (node?.children ?? []).map((c) => c.name)
+}
+
+function child(node: MapperTreeNode | undefined, name: string): MapperTreeNode | undefined {
+    return node?.children?.find((c) => c.name === name)
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe("isJsonSchemaContent", () => {
+    it("detects documents with a $schema keyword", () => {
+        expect(isJsonSchemaContent(ORDER_SCHEMA)).toBe(true)
+    })
+
+    it("rejects plain JSON instances", () => {
+        expect(isJsonSchemaContent('{"type":"object","properties":{}}')).toBe(false)
+        expect(isJsonSchemaContent("not json")).toBe(false)
+    })
+})
+
+describe("parseJsonSchema", () => {
+    const tree = parseJsonSchema(ORDER_SCHEMA)
+
+    it("builds a root node from top-level properties", () => {
+        expect(tree.name).toBe("root")
+        expect(tree.type).toBe("element")
+        expect(childNames(tree)).toEqual(["orderId", "createdAt", "shipTo", "items", "tags"])
+    })
+
+    it("maps required to nonEmpty", () => {
+        expect(child(tree, "orderId")!.nonEmpty).toBe(true)
+        expect(child(tree, "items")!.nonEmpty).toBe(true)
+        expect(child(tree, "createdAt")!.nonEmpty).toBeUndefined()
+        expect(child(child(tree, "shipTo"), "city")!.nonEmpty).toBe(true)
+    })
+
+    it("maps description to comment and format to format", () => {
+        expect(child(tree, "orderId")!.comment).toBe("Unique order number")
+        expect(child(tree, "createdAt")!.format).toBe("date-time")
+    })
+
+    it("resolves $ref into $defs", () => {
+        const shipTo = child(tree, "shipTo")!
+        expect(childNames(shipTo)).toEqual(["street", "city"])
+        expect(shipTo.comment).toBe("Postal address")
+    })
+
+    it("maps arrays to array + arrayChild", () => {
+        const items = child(tree, "items")!
+        expect(items.type).toBe("array")
+        const template = items.children![0]
+        expect(template.type).toBe("arrayChild")
+        expect(template.name).toBe("[]")
+        expect(childNames(template)).toEqual(["sku", "qty"])
+        expect(child(template, "sku")!.nonEmpty).toBe(true)
+    })
+
+    it("leaves primitive array items without children", () => {
+        const tags = child(tree, "tags")!
+        expect(tags.type).toBe("array")
+        expect(tags.children![0].children).toBeUndefined()
+    })
+
+    it("throws for non-object documents", () => {
+        expect(() => parseJsonSchema("[]")).toThrow(/must be an object/)
+    })
+})
+
+describe("parseJsonSchema — composition and drafts", () => {
+    it("resolves draft-07 definitions", () => {
+        const tree = parseJsonSchema(
+            JSON.stringify({
+                $schema: "http://json-schema.org/draft-07/schema#",
+                properties: { owner: { $ref: "#/definitions/Person" } },
+                definitions: {
+                    Person: { type: "object", properties: { name: { type: "string" } } },
+                },
+            }),
+        )
+        expect(childNames(child(tree, "owner"))).toEqual(["name"])
+    })
+
+    it("merges allOf branches including their required lists", () => {
+        const tree = parseJsonSchema(
+            JSON.stringify({
+                allOf: [
+                    { $ref: "#/$defs/Base" },
+                    { properties: { extra: { type: "string" } }, required: ["extra"] },
+                ],
+                $defs: {
+                    Base: {
+                        type: "object",
+                        properties: { id: { type: "string" } },
+                        required: ["id"],
+                    },
+                },
+            }),
+        )
+        expect(childNames(tree)).toEqual(["id", "extra"])
+        expect(child(tree, "id")!.nonEmpty).toBe(true)
+        expect(child(tree, "extra")!.nonEmpty).toBe(true)
+    })
+
+    it("unions oneOf alternatives without making their fields required", () => {
+        const tree = parseJsonSchema(
+            JSON.stringify({
+                type: "object",
+                properties: {
+                    payment: {
+                        oneOf: [
+                            { properties: { card: { type: "string" } }, required: ["card"] },
+                            { properties: { iban: { type: "string" } }, required: ["iban"] },
+                        ],
+                    },
+                },
+            }),
+        )
+        const payment = child(tree, "payment")!
+        expect(childNames(payment)).toEqual(["card", "iban"])
+        expect(child(payment, "card")!.nonEmpty).toBeUndefined()
+    })
+
+    it("uses prefixItems for 2020-12 tuples", () => {
+        const tree = parseJsonSchema(
+            JSON.stringify({
+                properties: {
+                    point: {
+                        type: "array",
+                        prefixItems: [{ type: "object", properties: { x: { type: "number" } } }],
+                    },
+                },
+            }),
+        )
+        expect(childNames(child(tree, "point")!.children![0])).toEqual(["x"])
+    })
+
+    it("accepts nullable type lists", () => {
+        const tree = parseJsonSchema(
+            JSON.stringify({
+                properties: {
+                    meta: { type: ["object", "null"], properties: { a: { type: "string" } } },
+                },
+            }),
+        )
+        expect(childNames(child(tree, "meta"))).toEqual(["a"])
+    })
+
+    it("stops expanding recursive refs", () => {
+        const tree = parseJsonSchema(
+            JSON.stringify({
+                $ref: "#/$defs/Node",
+                $defs: {
+                    Node: {
+                        type: "object",
+                        properties: {
+                            label: { type: "string" },
+                            child: { $ref: "#/$defs/Node" },
+                        },
+                    },
+                },
+            }),
+        )
+        expect(childNames(tree)).toEqual(["label", "child"])
+        expect(child(tree, "child")!.children).toBeUndefined()
+    })
+
+    it("builds a root array for top-level array schemas", () => {
+        const tree = parseJsonSchema(
+            JSON.stringify({ type: "array", items: { properties: { id: { type: "string" } } } }),
+        )
+        expect(tree.type).toBe("array")
+        expect(childNames(tree.children![0])).toEqual(["id"])
+    })
+})
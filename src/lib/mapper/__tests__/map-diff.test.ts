@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { diffMapperStates, isEmptyMapDiff } from "../map-diff"
+import { createEmptyMapperState, createNode } from "../node-utils"
+import type { MapperState, MapperTreeNode } from "../types"
+
+function stateWithTarget(target: MapperTreeNode): MapperState {
+    return { ...createEmptyMapperState(), targetTreeNode: target }
+}
+
+/** A deep copy, so edits to the "after" version leave the "before" one alone. */
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T
+}
+
+const id = createNode("id", "element", { value: "_order.id" })
+const total = createNode("total", "element", { value: "0" })
+const order = createNode("order", "element", { children: [id, total] })
+const before = stateWithTarget(createNode("root", "element", { children: [order] }))
+
+describe("diffMapperStates", () => {
+    it("reports nothing for identical versions", () => {
+        expect(isEmptyMapDiff(diffMapperStates(before, clone(before)))).toBe(true)
+    })
+
+    it("reports changed node properties with their paths", () => {
+        const after = clone(before)
+        after.targetTreeNode!.children![0].children![0].value = "_order.orderId"
+
+        const diff = diffMapperStates(before, after)
+        expect(diff.nodes).toEqual([
+            {
+                side: "target",
+                kind: "changed",
+                nodeId: id.id,
+                path: "root.order.id",
+                depth: 2,
+                fields: [{ field: "value", before: "_order.id", after: "_order.orderId" }],
+            },
+        ])
+    })
+
+    it("matches nodes by id, so renames are changes and moves keep their history", () => {
+        const after = clone(before)
+        const [moved] = after.targetTreeNode!.children![0].children!.splice(1, 1)
+        moved.name = "sum"
+        after.targetTreeNode!.children!.push(moved)
+
+        const [change] = diffMapperStates(before, after).nodes
+        expect(change.kind).toBe("moved")
+        expect(change.path).toBe("root.sum")
+        expect(change.fromPath).toBe("root.order.total")
+        expect(change.fields).toEqual([{ field: "name", before: "total", after: "sum" }])
+    })
+
+    it("lists removed nodes where they were, ahead of nodes added there", () => {
+        const after = clone(before)
+        const orderNode = after.targetTreeNode!.children![0]
+        orderNode.children = [createNode("note", "element"), orderNode.children![1]]
+
+        const diff = diffMapperStates(before, after)
+        expect(diff.nodes.map((c) => [c.kind, c.path])).toEqual([
+            ["removed", "root.order.id"],
+            ["added", "root.order.note"],
+        ])
+    })
+
+    it("ignores sample values but reports environment and settings changes", () => {
+        const after = clone(before)
+        after.targetTreeNode!.children![0].children![0].sampleValue = "42"
+        after.localContext.globalVariables.push({
+            id: "g1",
+            name: "rate",
+            value: "1.2",
+            plainTextValue: false,
+        })
+        after.localContext.prologScript = "const x = 1"
+        after.scriptLanguage = "groovy"
+
+        const diff = diffMapperStates(before, after)
+        expect(diff.nodes).toEqual([])
+        expect(diff.context).toEqual([
+            { section: "globalVariables", kind: "added", key: "g1", name: "rate" },
+            { section: "prologScript", kind: "added", key: "prologScript", name: "Prolog" },
+        ])
+        expect(diff.settings).toEqual([
+            { field: "scriptLanguage", before: before.scriptLanguage, after: "groovy" },
+        ])
+    })
+})
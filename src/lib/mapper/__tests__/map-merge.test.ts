@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+import { diffMapperStates } from "../map-diff"
+import { listMapChanges, localChangeKeys, mapChangeKey, revertMapChanges } from "../map-merge"
+import { createEmptyMapperState, createNode } from "../node-utils"
+import type { MapperState, MapperTreeNode } from "../types"
+
+function stateWithTarget(target: MapperTreeNode): MapperState {
+    return { ...createEmptyMapperState(), targetTreeNode: target }
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T
+}
+
+const id = createNode("id", "element", { value: "_order.id" })
+const total = createNode("total", "element", { value: "0" })
+const order = createNode("order", "element", { children: [id, total] })
+const base = stateWithTarget(createNode("root", "element", { children: [order] }))
+
+function orderNode(state: MapperState): MapperTreeNode {
+    return state.targetTreeNode!.children![0]
+}
+
+function allKeys(theirs: MapperState, mine: MapperState): Set<string> {
+    return new Set(listMapChanges(diffMapperStates(theirs, mine)).map(mapChangeKey))
+}
+
+describe("revertMapChanges", () => {
+    it("returns mine unchanged when nothing is taken from theirs", () => {
+        const mine = clone(base)
+        orderNode(mine).children![0].value = "_order.orderId"
+        const theirs = clone(base)
+        orderNode(theirs).children![1].value = "1"
+
+        const merged = revertMapChanges(mine, theirs, new Set())
+        expect(merged).toEqual(mine)
+        expect(merged).not.toBe(mine)
+    })
+
+    it("takes changed fields from theirs and keeps the rest of mine", () => {
+        const mine = clone(base)
+        orderNode(mine).children![0].value = "_order.orderId"
+        orderNode(mine).children![1].value = "2"
+        const theirs = clone(base)
+        orderNode(theirs).children![1].value = "1"
+
+        const merged = revertMapChanges(mine, theirs, new Set([`node:target:${total.id}`]))
+        expect(orderNode(merged).children!.map((n) => n.value)).toEqual(["_order.orderId", "1"])
+        expect(orderNode(mine).children![1].value).toBe("2")
+    })
+
+    it("restores removed nodes in place and drops added ones", () => {
+        const mine = clone(base)
+        const note = createNode("note", "element")
+        orderNode(mine).children = [note, orderNode(mine).children![1]]
+        const theirs = clone(base)
+
+        const merged = revertMapChanges(mine, theirs, allKeys(theirs, mine))
+        expect(merged.targetTreeNode).toEqual(theirs.targetTreeNode)
+    })
+
+    it("moves nodes back under their parent in theirs", () => {
+        const mine = clone(base)
+        const [moved] = orderNode(mine).children!.splice(0, 1)
+        moved.name = "orderId"
+        mine.targetTreeNode!.children!.push(moved)
+        const theirs = clone(base)
+
+        const merged = revertMapChanges(mine, theirs, allKeys(theirs, mine))
+        expect(merged.targetTreeNode).toEqual(theirs.targetTreeNode)
+    })
+
+    it("takes context items and settings from theirs", () => {
+        const mine = clone(base)
+        mine.localContext.globalVariables.push({
+            id: "g1",
+            name: "rate",
+            value: "1.2",
+            plainTextValue: false,
+        })
+        mine.scriptLanguage = "groovy"
+        const theirs = clone(base)
+        theirs.localContext.prologScript = "const x = 1"
+
+        const merged = revertMapChanges(mine, theirs, allKeys(theirs, mine))
+        expect(merged.localContext).toEqual(theirs.localContext)
+        expect(merged.scriptLanguage).toBeUndefined()
+    })
+})
+
+describe("localChangeKeys", () => {
+    it("keys the changes made since the base revision", () => {
+        const mine = clone(base)
+        orderNode(mine).children![0].value = "_order.orderId"
+        mine.localContext.prologScript = "init()"
+
+        expect(localChangeKeys(base, mine)).toEqual(
+            new Set([`node:target:${id.id}`, "context:prologScript:prologScript"]),
+        )
+    })
+})
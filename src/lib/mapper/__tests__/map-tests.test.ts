@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest"
+import {
+    DEFAULT_TEST_COMPARE_OPTIONS,
+    compareOutputs,
+    createTestCase,
+    parseTestOutput,
+    runMapTestCase,
+} from "../map-tests"
+import type { MapTestRun } from "../map-tests"
+import type { MapTestCompareOptions } from "../types"
+
+function options(patch: Partial<MapTestCompareOptions>): MapTestCompareOptions {
+    return { ...DEFAULT_TEST_COMPARE_OPTIONS, ...patch }
+}
+
+function runReturning(output: string, error: string | null = null) {
+    return (): Promise<MapTestRun> =>
+        Promise.resolve({ output, error, logs: ["log"], durationMs: 1 })
+}
+
+describe("compareOutputs", () => {
+    it("finds no differences in equal data regardless of key order", () => {
+        expect(compareOutputs({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toEqual([])
+    })
+
+    it("reports changed, missing and unexpected values with their paths", () => {
+        const diffs = compareOutputs(
+            { order: { id: "1", items: [{ sku: "A" }, { sku: "B" }] } },
+            { order: { id: "2", items: [{ sku: "A" }], extra: true } },
+        )
+        expect(diffs).toEqual([
+            { path: "order.id", kind: "changed", expected: "1", actual: "2" },
+            { path: "order.items[1]", kind: "missing", expected: { sku: "B" } },
+            { path: "order.extra", kind: "unexpected", actual: true },
+        ])
+    })
+
+    it("treats keys named like Object.prototype members as missing or unexpected", () => {
+        expect(compareOutputs({ constructor: "x" }, {})).toEqual([
+            { path: "constructor", kind: "missing", expected: "x" },
+        ])
+        expect(compareOutputs({}, { toString: "y" })).toEqual([
+            { path: "toString", kind: "unexpected", actual: "y" },
+        ])
+    })
+
+    it("reports type differences", () => {
+        expect(compareOutputs({ n: 1, list: [] }, { n: "1", list: {} })).toEqual([
+            { path: "n", kind: "type", expected: 1, actual: "1" },
+            { path: "list", kind: "type", expected: [], actual: {} },
+        ])
+    })
+
+    it("ignores paths, their children and any index or key given as *", () => {
+        const expected = { meta: { at: 1, by: "x" }, items: [{ id: 1, v: 1 }], keep: 1 }
+        const actual = { meta: { at: 2, by: "y" }, items: [{ id: 9, v: 1 }], keep: 1 }
+        expect(compareOutputs(expected, actual, options({ ignorePaths: ["meta"] }))).toEqual([
+            { path: "items[0].id", kind: "changed", expected: 1, actual: 9 },
+        ])
+        expect(
+            compareOutputs(
+                expected,
+                actual,
+                options({ ignorePaths: ["*.at", "meta.by", "items[*].id"] }),
+            ),
+        ).toEqual([])
+        expect(
+            compareOutputs(expected, actual, options({ ignorePaths: ["meta", "items.id"] })),
+        ).toEqual([])
+    })
+
+    it("matches array items in any order when ignoring order", () => {
+        const expected = [{ id: 1 }, { id: 2 }, { id: 3 }]
+        const actual = [{ id: 3 }, { id: 1 }, { id: 2 }]
+        expect(compareOutputs(expected, actual)).toHaveLength(3)
+        expect(compareOutputs(expected, actual, options({ ignoreOrder: true }))).toEqual([])
+    })
+
+    it("pairs leftover items when ignoring order so changes show as diffs", () => {
+        expect(
+            compareOutputs(
+                [{ id: 1 }, { id: 2 }],
+                [{ id: 5 }, { id: 1 }],
+                options({ ignoreOrder: true }),
+            ),
+        ).toEqual([{ path: "[0].id", kind: "changed", expected: 2, actual: 5 }])
+    })
+
+    it("accepts numbers and numeric strings within the tolerance", () => {
+        const tolerant = options({ numericTolerance: 0.01 })
+        expect(compareOutputs({ p: 1.005, s: "2.50" }, { p: 1.0, s: "2.5" }, tolerant)).toEqual([])
+        expect(compareOutputs({ p: 1.02 }, { p: 1.0 }, tolerant)).toHaveLength(1)
+        expect(compareOutputs({ p: 1.005 }, { p: 1.0 })).toHaveLength(1)
+    })
+})
+
+describe("parseTestOutput", () => {
+    it("parses XML keeping values as strings and attributes under @", () => {
+        expect(parseTestOutput('<order id="7"><total>10.0</total></order>', "xml")).toEqual({
+            order: { "@id": "7", total: "10.0" },
+        })
+    })
+
+    it("parses CSV into rows", () => {
+        expect(parseTestOutput("a,b\n1,2", "csv")).toEqual([{ a: "1", b: "2" }])
+    })
+
+    it("throws on invalid JSON", () => {
+        expect(() => parseTestOutput("{", "json")).toThrow()
+    })
+})
+
+describe("runMapTestCase", () => {
+    const testCase = createTestCase("Order", "{}", '{"total": 10}')
+
+    it("passes when the output matches", async () => {
+        const result = await runMapTestCase(
+            testCase,
+            "json",
+            undefined,
+            runReturning('{"total":10}'),
+        )
+        expect(result).toMatchObject({
+            caseId: testCase.id,
+            status: "pass",
+            diffs: [],
+            logs: ["log"],
+        })
+    })
+
+    it("fails with the diffs when the output differs", async () => {
+        const result = await runMapTestCase(
+            testCase,
+            "json",
+            undefined,
+            runReturning('{"total":11}'),
+        )
+        expect(result.status).toBe("fail")
+        expect(result.diffs).toEqual([{ path: "total", kind: "changed", expected: 10, actual: 11 }])
+    })
+
+    it("reports script errors, thrown errors and unparsable outputs as errors", async () => {
+        const failed = await runMapTestCase(testCase, "json", undefined, runReturning("", "boom"))
+        expect(failed).toMatchObject({ status: "error", error: "boom", logs: ["log"] })
+
+        const thrown = await runMapTestCase(testCase, "json", undefined, () =>
+            Promise.reject(new Error("sidecar down")),
+        )
+        expect(thrown).toMatchObject({ status: "error", error: "sidecar down" })
+
+        const garbled = await runMapTestCase(testCase, "json", undefined, runReturning("nope"))
+        expect(garbled.status).toBe("error")
+        expect(garbled.error).toMatch(/^Output is not valid JSON/)
+    })
+})
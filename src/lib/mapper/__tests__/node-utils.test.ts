@@ -13,6 +13,7 @@ import {
     getDisplayName,
     getFullPath,
     getPathFragment,
+    getValidationMessage,
     groupNodes,
     insertChild,
     isLeaf,
@@ -20,6 +21,7 @@ import {
     mergeTrees,
     moveNodeDown,
     moveNodeUp,
+    parseFieldFormat,
     removeNode,
     traverseDown,
     traverseDownPPL,
@@ -371,6 +373,50 @@ describe("isRoot", () => {
     })
 })
 
+// ============================================================
+// Field validation / formatting
+// ============================================================
+
+describe("parseFieldFormat", () => {
+    it("reads decimal places from number patterns", () => {
+        expect(parseFieldFormat("###.##")).toEqual({ kind: "number", places: 2 })
+        expect(parseFieldFormat("#,##0.000")).toEqual({ kind: "number", places: 3 })
+        expect(parseFieldFormat("0")).toEqual({ kind: "number", places: 0 })
+    })
+
+    it("recognises SimpleDateFormat patterns", () => {
+        expect(parseFieldFormat("yyyy-MM-dd")).toEqual({ kind: "date", pattern: "yyyy-MM-dd" })
+        expect(parseFieldFormat("yyyy-MM-dd'T'HH:mm")).toEqual({
+            kind: "date",
+            pattern: "yyyy-MM-dd'T'HH:mm",
+        })
+    })
+
+    it("ignores empty, JSON Schema named and unrecognised formats", () => {
+        expect(parseFieldFormat(undefined)).toBeNull()
+        expect(parseFieldFormat("  ")).toBeNull()
+        expect(parseFieldFormat("date-time")).toBeNull()
+        expect(parseFieldFormat("email")).toBeNull()
+        expect(parseFieldFormat("'literal'")).toBeNull()
+    })
+})
+
+describe("getValidationMessage", () => {
+    it("prefers the node's errorMessage", () => {
+        const field = createNode("id", "element", { errorMessage: "Order id is required" })
+        const tree = createNode("root", "element", { children: [field] })
+        expect(getValidationMessage(field, tree)).toBe("Order id is required")
+    })
+
+    it("defaults to the path below the root, skipping array children", () => {
+        const sku = createNode("sku", "element")
+        const item = createNode("[]", "arrayChild", { children: [sku] })
+        const lines = createNode("lines", "array", { children: [item] })
+        const tree = createNode("root", "element", { children: [lines] })
+        expect(getValidationMessage(sku, tree)).toBe('Required field "lines.sku" is empty')
+    })
+})
+
 // ============================================================
 // fromParserTreeNode
 // ============================================================
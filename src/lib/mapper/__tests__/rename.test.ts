@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest"
+import { createEmptyMapperState, createNode } from "../node-utils"
+import { applyVariableRename, previewVariableRename, renameIdentifier } from "../rename"
+import { createLoopReference, createSourceReference } from "../reference-utils"
+import type { MapperState, MapperTreeNode } from "../types"
+
+describe("renameIdentifier", () => {
+    it("renames whole identifiers only", () => {
+        expect(renameIdentifier("var0 + var01 + _var0", "var0", "total")).toBe(
+            "total + var01 + _var0",
+        )
+    })
+
+    it("leaves strings, comments and property names alone", () => {
+        expect(
+            renameIdentifier('var0.var0 + "var0" // var0\nx?.var0 /* var0 */', "var0", "a"),
+        ).toBe('a.var0 + "var0" // var0\nx?.var0 /* var0 */')
+    })
+
+    it("renames inside template literal placeholders", () => {
+        expect(renameIdentifier("`${var0}-var0-${{ k: var0 }.k}`", "var0", "a")).toBe(
+            "`${a}-var0-${{ k: a }.k}`",
+        )
+        expect(renameIdentifier("[...var0]", "var0", "a")).toBe("[...a]")
+    })
+
+    it("leaves regular expression literals alone but not division", () => {
+        expect(renameIdentifier("const r = /foo'/.test(s); return foo", "foo", "bar")).toBe(
+            "const r = /foo'/.test(s); return bar",
+        )
+        expect(renameIdentifier("return /[/]foo/gi.test(foo)", "foo", "bar")).toBe(
+            "return /[/]foo/gi.test(bar)",
+        )
+        expect(renameIdentifier("total / foo / 2", "foo", "bar")).toBe("total / bar / 2")
+    })
+
+    it("leaves object keys alone and expands shorthand properties", () => {
+        expect(renameIdentifier("({ foo: 1, x: foo })", "foo", "bar")).toBe("({ foo: 1, x: bar })")
+        expect(renameIdentifier("({ foo, x })", "foo", "bar")).toBe("({ foo: bar, x })")
+        expect(renameIdentifier("({ x, foo })", "foo", "bar")).toBe("({ x, foo: bar })")
+        expect(renameIdentifier("f(a, foo, b) ? foo : { y: foo }", "foo", "bar")).toBe(
+            "f(a, bar, b) ? bar : { y: bar }",
+        )
+        expect(renameIdentifier("if (ok) { foo = 1 }", "foo", "bar")).toBe("if (ok) { bar = 1 }")
+    })
+
+    it("leaves Groovy map keys and named arguments alone", () => {
+        expect(
+            renameIdentifier(
+                "[foo: foo, x: 1] + f(foo: 2) + list.collect { foo }",
+                "foo",
+                "bar",
+                "groovy",
+            ),
+        ).toBe("[foo: bar, x: 1] + f(foo: 2) + list.collect { bar }")
+    })
+
+    it("renames inside Groovy GStrings but not single-quoted strings", () => {
+        expect(
+            renameIdentifier("\"$var0 ${var0.size()}\" + 'var0' + var0", "var0", "a", "groovy"),
+        ).toBe("\"$a ${a.size()}\" + 'var0' + a")
+    })
+})
+
+/**
+ * source: orders[] → id; customer
+ * target: customer (ref _customer, top level)
+ *         items (loop over orders, ref _id scoped to it) → [] → id, label
+ *         note (value uses _customer)
+ */
+function buildState(): MapperState {
+    const state = createEmptyMapperState("JSON", "JSON")
+    const srcId = createNode("id", "element")
+    const srcItem = createNode("[]", "arrayChild", { children: [srcId] })
+    const srcOrders = createNode("orders", "array", { children: [srcItem] })
+    const srcCustomer = createNode("customer", "element")
+    state.sourceTreeNode = createNode("root", "element", { children: [srcOrders, srcCustomer] })
+
+    const loopRef = createLoopReference(srcOrders.id, "_orders")
+    const id = createNode("id", "element", {
+        sourceReferences: [
+            createSourceReference(srcId.id, "_id", true, { loopOverId: loopRef.id }),
+        ],
+    })
+    const label = createNode("label", "element", { value: "_id + _customer" })
+    const items = createNode("items", "array", {
+        loopReference: loopRef,
+        loopConditions: [
+            { id: "c1", sourceNodePath: "id", condition: "!= _customer", textReference: false },
+        ],
+        children: [createNode("[]", "arrayChild", { children: [id, label] })],
+    })
+    const customer = createNode("customer", "element", {
+        sourceReferences: [createSourceReference(srcCustomer.id, "_customer")],
+    })
+    const note = createNode("note", "element", {
+        value: "_customer.name",
+        customCode: "const _id = 1",
+        nodeCondition: { condition: "_customer" },
+    })
+    state.targetTreeNode = createNode("root", "element", { children: [customer, items, note] })
+    return state
+}
+
+function byName(tree: MapperTreeNode, name: string): MapperTreeNode {
+    const found = tree.children?.flatMap((c) => (c.name === name ? [c] : [byName(c, name)]))
+    return found?.find(Boolean) as MapperTreeNode
+}
+
+function refId(state: MapperState, nodeName: string): string {
+    return byName(state.targetTreeNode!, nodeName).sourceReferences![0].id
+}
+
+describe("previewVariableRename", () => {
+    it("lists every node whose expressions use a top-level variable", () => {
+        const state = buildState()
+        const preview = previewVariableRename(state, refId(state, "customer"), "_client")
+        expect(preview.error).toBeNull()
+        expect(preview.oldName).toBe("_customer")
+        expect(preview.nodes.map((n) => [n.path, n.fields])).toEqual([
+            ["items", ["loopConditions"]],
+            ["items.label", ["value"]],
+            ["note", ["value", "nodeCondition"]],
+        ])
+    })
+
+    it("limits a loop-scoped variable to its loop", () => {
+        const state = buildState()
+        const preview = previewVariableRename(state, refId(state, "id"), "_orderId")
+        expect(preview.nodes.map((n) => n.path)).toEqual(["items.label"])
+    })
+
+    it("refuses names taken by globals, functions, lookup tables or references", () => {
+        const state = buildState()
+        state.localContext.globalVariables = [
+            { id: "g", name: "rate", value: "1", plainTextValue: false },
+        ]
+        state.localContext.functions = [{ id: "f", name: "fmt", body: "" }]
+        state.localContext.lookupTables = [{ id: "t", name: "codes", entries: [] }]
+        const id = refId(state, "customer")
+        expect(previewVariableRename(state, id, "rate").error).toContain("global variable")
+        expect(previewVariableRename(state, id, "fmt").error).toContain("function")
+        expect(previewVariableRename(state, id, "codes").error).toContain("lookup table")
+        expect(previewVariableRename(state, id, "_id").error).toContain("another reference")
+        expect(previewVariableRename(state, id, "1x").error).toContain("not a valid identifier")
+    })
+
+    it("refuses reserved words and names the script already defines", () => {
+        const state = buildState()
+        const id = refId(state, "customer")
+        for (const name of ["return", "typeof", "def", "as"]) {
+            expect(previewVariableRename(state, id, name).error).toContain("reserved word")
+        }
+        for (const name of ["input", "console", "reportValidation", "jtShims", "sourceData"]) {
+            expect(previewVariableRename(state, id, name).error).toContain("generated script")
+        }
+        expect(previewVariableRename(state, id, "_submap_x").error).toContain("generated script")
+        expect(previewVariableRename(state, id, "customerName").error).toBeNull()
+    })
+})
+
+describe("applyVariableRename", () => {
+    it("renames the reference and rewrites its uses", () => {
+        const state = buildState()
+        const tree = applyVariableRename(state, refId(state, "customer"), "_client")!
+        expect(byName(tree, "customer").sourceReferences![0].variableName).toBe("_client")
+        expect(byName(tree, "label").value).toBe("_id + _client")
+        expect(byName(tree, "note").value).toBe("_client.name")
+        expect(byName(tree, "items").loopConditions![0].condition).toBe("!= _client")
+        // customCode declaring another variable is untouched
+        expect(byName(tree, "note").customCode).toBe("const _id = 1")
+    })
+
+    it("returns null for a refused rename", () => {
+        const state = buildState()
+        expect(applyVariableRename(state, refId(state, "customer"), "_id")).toBeNull()
+    })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest"
+import { generateScript } from "../engine"
+import { createDefaultContext } from "../reference-utils"
+import { SCRIPT_CANCELLED_MESSAGE, executeScriptIsolated } from "../script-executor"
+import { executeScriptInVm, scriptMemoryMessage } from "../script-executor.server"
+import { createEmptyMapperState, createNode } from "../node-utils"
+
+const context = createDefaultContext()
+
+describe("executeScriptInVm", () => {
+    it("returns output, logs and validation like executeScript", async () => {
+        const script = [
+            "const data = JSON.parse(input)",
+            "console.log('id', data.id)",
+            "console.warn({ ok: true })",
+            "reportValidation([{ nodeId: 'n1', path: 'id', kind: 'required', message: 'missing' }])",
+            "return JSON.stringify({ id: data.id })",
+        ].join("\n")
+
+        const result = await executeScriptInVm(script, '{"id":"A1"}', context)
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output)).toEqual({ id: "A1" })
+        expect(result.logs).toEqual(["id A1", '[warn] {"ok":true}'])
+        expect(result.validation).toHaveLength(1)
+        expect(result.scriptBody).toBe(script)
+    })
+
+    it("runs scripts generated by generateScript", async () => {
+        const state = createEmptyMapperState("JSON", "JSON")
+        state.targetTreeNode = createNode("root", "element", {
+            children: [createNode("greeting", "element", { value: '"hello"' })],
+        })
+
+        const result = await executeScriptInVm(generateScript(state, "json", "json"), "{}", context)
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output)).toEqual({ greeting: "hello" })
+    })
+
+    it("stops an endless loop at the timeout", async () => {
+        const result = await executeScriptInVm("while (true) {}", "{}", context, { timeoutMs: 50 })
+        expect(result.error).toBe("Script timed out after 50ms")
+        expect(result.output).toBe("")
+    })
+
+    it("reports errors thrown inside the context", async () => {
+        const result = await executeScriptInVm('throw new Error("boom")', "{}", context)
+        expect(result.error).toBe("boom")
+    })
+
+    it("hides host globals and string compilation from the script", async () => {
+        const result = await executeScriptInVm(
+            "return [typeof process, typeof require, typeof fetch, typeof setTimeout].join()",
+            "{}",
+            context,
+        )
+        expect(result.output).toBe("undefined,undefined,undefined,undefined")
+
+        const evalResult = await executeScriptInVm('return eval("1 + 1")', "{}", context)
+        expect(evalResult.error).not.toBeNull()
+    })
+
+    it("keeps host functions from reaching the server process", async () => {
+        const escapes = [
+            'return parseXML.constructor("return process")().pid',
+            'return console.log.constructor("return process")().pid',
+            'return parseXML("<a/>").constructor.constructor("return process")().pid',
+            'return Object.getPrototypeOf(reportValidation).constructor("return process")().pid',
+        ]
+        for (const script of escapes) {
+            const result = await executeScriptInVm(script, "{}", context)
+            expect(result.output).toBe("")
+            expect(result.error).not.toBeNull()
+        }
+    })
+
+    it("stops a script past memoryLimitMb", async () => {
+        const result = await executeScriptInVm(
+            "const chunks = []\nwhile (true) chunks.push(new Array(1e6).fill(chunks.length))",
+            "{}",
+            context,
+            { memoryLimitMb: 64 },
+        )
+        expect(result.error).toBe(scriptMemoryMessage(64))
+    })
+
+    it("cancels a running script when its signal aborts", async () => {
+        const controller = new AbortController()
+        const run = executeScriptInVm("while (true) {}", "{}", context, {
+            signal: controller.signal,
+        })
+        setTimeout(() => controller.abort(), 50)
+        expect((await run).error).toBe(SCRIPT_CANCELLED_MESSAGE)
+    })
+
+    it("fails output beyond maxOutputLength and truncates console flooding", async () => {
+        const big = await executeScriptInVm('return "x".repeat(20)', "{}", context, {
+            maxOutputLength: 10,
+        })
+        expect(big.error).toBe("Script output exceeds the limit of 10 characters")
+
+        const noisy = await executeScriptInVm(
+            "for (let i = 0; i < 50; i++) console.log(i)\nreturn 'ok'",
+            "{}",
+            context,
+            { maxLogEntries: 3 },
+        )
+        expect(noisy.output).toBe("ok")
+        expect(noisy.logs).toEqual(["0", "1", "2", "[warn] Log output truncated after 3 lines"])
+    })
+
+    it("does not start a run whose signal is already aborted", async () => {
+        const controller = new AbortController()
+        controller.abort()
+        const result = await executeScriptInVm('return "ran"', "{}", context, {
+            signal: controller.signal,
+        })
+        expect(result.error).toBe(SCRIPT_CANCELLED_MESSAGE)
+        expect(result.output).toBe("")
+    })
+})
+
+describe("executeScriptIsolated", () => {
+    it("falls back to in-realm execution where Web Workers are unavailable", async () => {
+        const result = await executeScriptIsolated("return input.toUpperCase()", "abc", context)
+        expect(result.error).toBeNull()
+        expect(result.output).toBe("ABC")
+    })
+
+    it("honours an aborted signal before starting", async () => {
+        const controller = new AbortController()
+        controller.abort()
+        const result = await executeScriptIsolated('return "ran"', "{}", context, {
+            signal: controller.signal,
+        })
+        expect(result.error).toBe(SCRIPT_CANCELLED_MESSAGE)
+    })
+})
@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest"
+import { generateScript } from "../engine"
+import { generateGroovyScript } from "../groovy-engine"
+import { lookupEntriesFromRows, mergeLookupEntries } from "../lookup-import"
+import { createEmptyMapperState } from "../node-utils"
+import {
+    emptySharedLibrary,
+    findLibraryFunctionUsage,
+    findLibraryTableUsage,
+    inlineLibraryFunctions,
+    libraryRequest,
+    libraryTableNames,
+    resolveFunctionBody,
+    resolveLookupEntries,
+} from "../shared-library"
+import type { SharedLibrary } from "../shared-library"
+import type { LookupEntry, LookupTable, MapperState, TransformFunction } from "../types"
+
+function entry(key: string, value: string, plainTextValue = true): LookupEntry {
+    return { id: key, key, value, plainTextValue }
+}
+
+const countries: LookupTable = {
+    id: "t1",
+    name: "countries",
+    entries: [entry("stale", "Stale")],
+    libraryTable: "countryCodes",
+}
+
+const library: SharedLibrary = {
+    submaps: {},
+    lookupTables: { countryCodes: [entry("DE", "Germany"), entry("count", "2", false)] },
+    functions: {
+        normalizeDate: {
+            latest: 2,
+            bodies: {
+                1: "function normalizeDate(d) { return d }",
+                2: "function normalizeDate(d) { return d.trim() }",
+            },
+        },
+    },
+}
+
+const normalizeDate: TransformFunction = {
+    id: "f1",
+    name: "normalizeDate",
+    body: "",
+    libraryFunction: "normalizeDate",
+}
+
+function stateWith(
+    lookupTables: Array<LookupTable>,
+    functions: Array<TransformFunction> = [],
+): MapperState {
+    const state = createEmptyMapperState()
+    return { ...state, localContext: { ...state.localContext, lookupTables, functions } }
+}
+
+describe("resolveLookupEntries", () => {
+    it("keeps a table's own entries unless it links the library", () => {
+        const own: LookupTable = { id: "t2", name: "own", entries: [entry("a", "b")] }
+        expect(resolveLookupEntries(own, library)).toBe(own.entries)
+        expect(resolveLookupEntries(countries, library)).toBe(library.lookupTables.countryCodes)
+    })
+
+    it("returns null for a linked table missing from the library", () => {
+        expect(resolveLookupEntries(countries)).toBeNull()
+        expect(resolveLookupEntries(countries, emptySharedLibrary())).toBeNull()
+    })
+})
+
+describe("resolveFunctionBody", () => {
+    it("resolves the latest version unless one is pinned", () => {
+        expect(resolveFunctionBody(normalizeDate, library)).toContain("d.trim()")
+        expect(resolveFunctionBody({ ...normalizeDate, libraryVersion: 1 }, library)).toBe(
+            "function normalizeDate(d) { return d }",
+        )
+    })
+
+    it("returns null for a missing function or version", () => {
+        expect(resolveFunctionBody(normalizeDate)).toBeNull()
+        expect(resolveFunctionBody({ ...normalizeDate, libraryVersion: 3 }, library)).toBeNull()
+    })
+
+    it("keeps local functions as they are", () => {
+        const local: TransformFunction = { id: "f2", name: "f", body: "function f() {}" }
+        expect(resolveFunctionBody(local, library)).toBe(local.body)
+    })
+})
+
+describe("libraryRequest", () => {
+    it("lists linked tables and imported functions in the map's language", () => {
+        const state = stateWith([countries], [{ ...normalizeDate, libraryVersion: 1 }])
+        expect(libraryRequest({ ...state, scriptLanguage: "groovy" })).toEqual({
+            language: "groovy",
+            lookupTables: ["countryCodes"],
+            functions: [{ name: "normalizeDate", version: 1 }],
+            submaps: [],
+        })
+        expect(libraryRequest(stateWith([])).language).toBe("javascript")
+    })
+})
+
+describe("script generation with the shared library", () => {
+    it("inlines the library's entries in JavaScript", () => {
+        const script = generateScript(stateWith([countries]), "json", "json", { library })
+        expect(script).toContain('const countries = {\n  "DE": "Germany",\n  "count": 2\n}')
+        expect(script).not.toContain("Stale")
+    })
+
+    it("inlines the library's entries in Groovy", () => {
+        const script = generateGroovyScript(stateWith([countries]), "json", "json", { library })
+        expect(script).toContain('def countries = [\n  "DE": "Germany",\n  "count": 2\n]')
+        expect(script).not.toContain("Stale")
+    })
+
+    it("generates an empty table with a note when the library table is missing", () => {
+        const state = stateWith([countries])
+        expect(generateScript(state, "json", "json")).toContain(
+            '// Library lookup table "countryCodes" not found\nconst countries = {}',
+        )
+        expect(generateGroovyScript(state, "json", "json")).toContain(
+            '// Library lookup table "countryCodes" not found\ndef countries = [:]',
+        )
+    })
+})
+
+describe("script generation with library functions", () => {
+    it("inlines the imported version in both engines", () => {
+        const state = stateWith([], [{ ...normalizeDate, libraryVersion: 1 }])
+        const options = { library }
+        expect(generateScript(state, "json", "json", options)).toContain(
+            "function normalizeDate(d) { return d }",
+        )
+        expect(generateGroovyScript(state, "json", "json", options)).toContain(
+            "function normalizeDate(d) { return d }",
+        )
+    })
+
+    it("leaves a note in place of a function the library cannot resolve", () => {
+        const state = stateWith([], [{ ...normalizeDate, libraryVersion: 7 }])
+        expect(generateScript(state, "json", "json", { library })).toContain(
+            '// Library function "normalizeDate" version 7 not found',
+        )
+        expect(generateGroovyScript(stateWith([], [normalizeDate]), "json", "json")).toContain(
+            '// Library function "normalizeDate" not found',
+        )
+    })
+
+    it("inlines imports as local functions for rewriting", () => {
+        const state = inlineLibraryFunctions(stateWith([], [normalizeDate]), library)
+        expect(state.localContext.functions).toEqual([
+            {
+                id: "f1",
+                name: "normalizeDate",
+                body: "function normalizeDate(d) { return d.trim() }",
+            },
+        ])
+    })
+})
+
+describe("library table usage", () => {
+    it("lists each linked table once", () => {
+        const again: LookupTable = { ...countries, id: "t3", name: "countriesAgain" }
+        const own: LookupTable = { id: "t4", name: "own", entries: [] }
+        expect(libraryTableNames({ lookupTables: [countries, again, own] })).toEqual([
+            "countryCodes",
+        ])
+    })
+
+    it("maps each library table to the maps linking it", () => {
+        expect(
+            findLibraryTableUsage([
+                { id: "m1", name: "Orders", lookupTables: [countries] },
+                { id: "m2", name: "Invoices", lookupTables: null },
+                { id: "m3", name: "Shipments", lookupTables: [countries] },
+            ]),
+        ).toEqual({
+            countryCodes: [
+                { id: "m1", name: "Orders" },
+                { id: "m3", name: "Shipments" },
+            ],
+        })
+    })
+})
+
+describe("library function usage", () => {
+    it("keys usage by language and function name, with the pinned version", () => {
+        expect(
+            findLibraryFunctionUsage([
+                { id: "m1", name: "Orders", scriptLanguage: null, functions: [normalizeDate] },
+                {
+                    id: "m2",
+                    name: "Invoices",
+                    scriptLanguage: "groovy",
+                    functions: [{ ...normalizeDate, libraryVersion: 2 }],
+                },
+                { id: "m3", name: "Shipments", scriptLanguage: "javascript", functions: null },
+            ]),
+        ).toEqual({
+            "javascript:normalizeDate": [{ id: "m1", name: "Orders", version: null }],
+            "groovy:normalizeDate": [{ id: "m2", name: "Invoices", version: 2 }],
+        })
+    })
+})
+
+describe("lookup entry import", () => {
+    it("reads Key | Value | Is Plain Text rows after an optional header", () => {
+        const result = lookupEntriesFromRows([
+            ["Key", "Value", "Is Plain Text"],
+            ["DE", "Germany"],
+            ["rate", 1.5, "false"],
+            ["", "orphan"],
+            ["DE", "Deutschland", "yes"],
+        ])
+        expect(result.skipped).toBe(1)
+        expect(result.duplicates).toBe(1)
+        expect(
+            result.entries.map(({ key, value, plainTextValue }) => [key, value, plainTextValue]),
+        ).toEqual([
+            ["DE", "Deutschland", true],
+            ["rate", "1.5", false],
+        ])
+    })
+
+    it("replaces existing keys and appends new ones when merging", () => {
+        const merged = mergeLookupEntries(
+            [entry("DE", "Germany"), entry("FR", "France")],
+            [entry("FR", "Frankreich"), entry("IT", "Italy")],
+        )
+        expect(merged.map((e) => [e.key, e.value])).toEqual([
+            ["DE", "Germany"],
+            ["FR", "Frankreich"],
+            ["IT", "Italy"],
+        ])
+    })
+})
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest"
+import { executeScript, generateScript, generateScriptWithSourceMap } from "../engine"
+import { generateGroovyScript, generateGroovyScriptWithSourceMap } from "../groovy-engine"
+import { createEmptyMapperState, fromParserTreeNode } from "../node-utils"
+import { parseJSON } from "../parsers"
+import {
+    describeScriptOrigin,
+    groovyErrorLine,
+    jsErrorLine,
+    resolveScriptLine,
+} from "../source-map"
+import type { ScriptOrigin } from "../source-map"
+import type { MapperState, MapperTreeNode } from "../types"
+
+/**
+ * target: id (value "1"), status (custom code + value)
+ * context: function toCode, prolog and epilog with leading blank lines
+ */
+function buildState(): MapperState {
+    const state = createEmptyMapperState("JSON", "JSON")
+    state.sourceTreeNode = fromParserTreeNode(parseJSON(JSON.stringify({ input: 1 })))
+    state.targetTreeNode = fromParserTreeNode(parseJSON(JSON.stringify({ id: null, status: null })))
+    const id = byName(state.targetTreeNode, "id")
+    id.value = "1"
+    const status = byName(state.targetTreeNode, "status")
+    status.customCode = "const code = toCode(2)\nconst label = `#${code}`"
+    status.value = "label"
+
+    state.localContext.functions = [
+        { id: "fn-1", name: "toCode", body: "function toCode(n) {\n  return n * 10\n}" },
+    ]
+    state.localContext.prologScript = "\n\nconst started = true\nconst stage = 1"
+    state.localContext.epilogScript = "output.done = started"
+    return state
+}
+
+function byName(tree: MapperTreeNode, name: string): MapperTreeNode {
+    let found: MapperTreeNode | null = null
+    const walk = (node: MapperTreeNode) => {
+        if (node.name === name) found = node
+        node.children?.forEach(walk)
+    }
+    walk(tree)
+    return found!
+}
+
+/** Origin of the first script line containing `text`. */
+function originOf(script: string, sourceMap: Array<ScriptOrigin | null>, text: string) {
+    const index = script.split("\n").findIndex((line) => line.includes(text))
+    expect(index).not.toBe(-1)
+    return resolveScriptLine(sourceMap, index + 1)
+}
+
+describe("generateScriptWithSourceMap", () => {
+    it("returns the plain script with one origin per line", () => {
+        const state = buildState()
+        const { script, sourceMap } = generateScriptWithSourceMap(state, "json", "json")
+        expect(script).toBe(generateScript(state, "json", "json"))
+        expect(script).not.toContain("\u0000")
+        expect(sourceMap).toHaveLength(script.split("\n").length)
+    })
+
+    it("maps node, function, prolog and epilog lines to their origin", () => {
+        const state = buildState()
+        const { script, sourceMap } = generateScriptWithSourceMap(state, "json", "json")
+        const tree = state.targetTreeNode!
+
+        expect(originOf(script, sourceMap, "const label")).toEqual({
+            kind: "node",
+            nodeId: byName(tree, "status").id,
+        })
+        expect(originOf(script, sourceMap, "output.id = 1")).toEqual({
+            kind: "node",
+            nodeId: byName(tree, "id").id,
+        })
+        expect(originOf(script, sourceMap, "return n * 10")).toEqual({
+            kind: "function",
+            functionId: "fn-1",
+            line: 2,
+        })
+        // Line numbers count the blank lines trimmed off the prolog
+        expect(originOf(script, sourceMap, "const stage")).toEqual({ kind: "prolog", line: 4 })
+        expect(originOf(script, sourceMap, "output.done")).toEqual({ kind: "epilog", line: 1 })
+        expect(originOf(script, sourceMap, "JSON.parse(input)")).toBeNull()
+    })
+
+    it("keeps the map aligned with instrumented scripts", () => {
+        const state = buildState()
+        const { script, sourceMap } = generateScriptWithSourceMap(state, "json", "json", {
+            coverage: true,
+            trace: true,
+        })
+        expect(originOf(script, sourceMap, "const label")).toMatchObject({ kind: "node" })
+        expect(originOf(script, sourceMap, "const stage")).toEqual({ kind: "prolog", line: 4 })
+    })
+})
+
+describe("executeScript error lines", () => {
+    async function runAndResolve(state: MapperState) {
+        const { script, sourceMap } = generateScriptWithSourceMap(state, "json", "json")
+        const result = await executeScript(script, '{"input":1}', state.localContext)
+        expect(result.error).not.toBeNull()
+        return resolveScriptLine(sourceMap, result.errorLine)
+    }
+
+    it("resolves an error in custom code to the target node", async () => {
+        const state = buildState()
+        const status = byName(state.targetTreeNode!, "status")
+        status.customCode = "const code = toCode(2)\nconst label = code.missing.deep"
+        expect(await runAndResolve(state)).toEqual({ kind: "node", nodeId: status.id })
+        expect(describeScriptOrigin({ kind: "node", nodeId: status.id }, state)).toBe("status")
+    })
+
+    it("resolves an error in a function to its line", async () => {
+        const state = buildState()
+        state.localContext.functions[0].body = "function toCode(n) {\n  return n.missing.deep\n}"
+        const origin = await runAndResolve(state)
+        expect(origin).toEqual({ kind: "function", functionId: "fn-1", line: 2 })
+        expect(describeScriptOrigin(origin!, state)).toBe("function toCode line 2")
+    })
+
+    it("resolves an error in the prolog to its line", async () => {
+        const state = buildState()
+        state.localContext.prologScript = "const started = true\nthrow new Error('boom')"
+        expect(await runAndResolve(state)).toEqual({ kind: "prolog", line: 2 })
+    })
+})
+
+describe("generateGroovyScriptWithSourceMap", () => {
+    it("maps Groovy lines the same way", () => {
+        const state = buildState()
+        state.scriptLanguage = "groovy"
+        const { script, sourceMap } = generateGroovyScriptWithSourceMap(state, "json", "json")
+        expect(script).toBe(generateGroovyScript(state, "json", "json"))
+        expect(originOf(script, sourceMap, "const label")).toMatchObject({ kind: "node" })
+        expect(originOf(script, sourceMap, "return n * 10")).toMatchObject({ kind: "function" })
+        expect(originOf(script, sourceMap, "const stage")).toEqual({ kind: "prolog", line: 4 })
+    })
+})
+
+describe("error line parsing", () => {
+    it("prefers the line the sidecar reports and falls back to compile errors", () => {
+        expect(groovyErrorLine("Cannot invoke method on null object", 12)).toBe(12)
+        expect(
+            groovyErrorLine(
+                "startup failed:\nMapperScript.groovy: 7: unexpected token @ line 7, column 3.",
+            ),
+        ).toBe(7)
+        expect(groovyErrorLine("Cannot invoke method on null object")).toBeNull()
+    })
+
+    it("returns null for errors without a script frame", () => {
+        expect(jsErrorLine(new SyntaxError("Unexpected token"), 3)).toBeNull()
+        expect(jsErrorLine("boom", 3)).toBeNull()
+    })
+})
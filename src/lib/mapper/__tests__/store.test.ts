@@ -281,6 +281,28 @@ describe("MapperStore — renameVariable", () => {
         const tgtOrderId = findNode(targetTree, "tgt-orderId")
         expect(tgtOrderId?.sourceReferences![0].variableName).toBe("_myOrderId")
     })
+
+    it("rewrites expressions that use the variable", () => {
+        const ref = useMapperStore.getState().mapperState.references[0]
+        useMapperStore.getState().updateTargetNode("tgt-status", {
+            value: `${ref.variableName} + "-" + "${ref.variableName}"`,
+            nodeCondition: { condition: `${ref.variableName} != null` },
+        })
+        useMapperStore.getState().renameVariable(ref.id, "_myOrderId")
+
+        const targetTree = useMapperStore.getState().mapperState.targetTreeNode!
+        const tgtStatus = findNode(targetTree, "tgt-status")
+        expect(tgtStatus?.value).toBe(`_myOrderId + "-" + "${ref.variableName}"`)
+        expect(tgtStatus?.nodeCondition?.condition).toBe("_myOrderId != null")
+    })
+
+    it("refuses names that are not identifiers", () => {
+        const ref = useMapperStore.getState().mapperState.references[0]
+        useMapperStore.getState().renameVariable(ref.id, "my id")
+        expect(useMapperStore.getState().mapperState.references[0].variableName).toBe(
+            ref.variableName,
+        )
+    })
 })
 
 describe("MapperStore — deleteNodes", () => {
@@ -0,0 +1,240 @@
+import { describe, expect, it } from "vitest"
+import { executeScript, generateScript } from "../engine"
+import { generateGroovyScript } from "../groovy-engine"
+import { createEmptyMapperState, createNode, fromParserTreeNode } from "../node-utils"
+import { parseJSON } from "../parsers"
+import { createLoopReference, createSourceReference } from "../reference-utils"
+import { emptySharedLibrary, libraryRequest } from "../shared-library"
+import { findSubmapPath, reachableSubmaps, submapProblem, usesFieldRules } from "../submaps"
+import type { SharedLibrary } from "../shared-library"
+import type { Submap } from "../submaps"
+import type { MapperState, MapperTreeNode } from "../types"
+
+/** A map whose flat target fields take the given expressions over sourceData. */
+function mapOf(fields: Record<string, string>, extra: Array<MapperTreeNode> = []): MapperState {
+    const state = createEmptyMapperState("JSON", "JSON")
+    state.targetTreeNode = createNode("root", "element", {
+        children: [
+            ...Object.entries(fields).map(([name, value]) =>
+                createNode(name, "element", { value }),
+            ),
+            ...extra,
+        ],
+    })
+    return state
+}
+
+function submapNode(name: string, submapId: string, value?: string): MapperTreeNode {
+    return createNode(name, "submap", { submapId, value })
+}
+
+function libraryWith(submaps: Record<string, Submap>): SharedLibrary {
+    return { ...emptySharedLibrary(), submaps }
+}
+
+// Address map: { street, city } → { line, town }
+const address: Submap = {
+    name: "Address",
+    state: mapOf({ line: "sourceData.street", town: "sourceData.city.toUpperCase()" }),
+}
+
+async function run(state: MapperState, library: SharedLibrary, input: unknown) {
+    const script = generateScript(state, "json", "json", { library })
+    return executeScript(script, JSON.stringify(input), state.localContext)
+}
+
+describe("sub-map nodes in JavaScript", () => {
+    it("builds the node from the referenced map run on the node's value", async () => {
+        const state = mapOf({}, [submapNode("billing", "addr", "sourceData.customer.address")])
+        const result = await run(state, libraryWith({ addr: address }), {
+            customer: { address: { street: "Main St 1", city: "Berlin" } },
+        })
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output)).toEqual({
+            billing: { line: "Main St 1", town: "BERLIN" },
+        })
+    })
+
+    it("runs the sub-map on the whole input without a reference", () => {
+        const state = mapOf({}, [submapNode("copy", "addr")])
+        const script = generateScript(state, "json", "json", {
+            library: libraryWith({ addr: address }),
+        })
+        expect(script).toContain("output.copy = _submap_addr(sourceData)")
+        expect(script).toContain("function _submap_addr(sourceData) {")
+    })
+
+    it("runs the sub-map for every loop item", async () => {
+        const state = createEmptyMapperState("JSON", "JSON")
+        state.sourceTreeNode = fromParserTreeNode(
+            parseJSON(JSON.stringify({ orders: [{ ship: { street: "", city: "" } }] })),
+        )
+        state.targetTreeNode = fromParserTreeNode(
+            parseJSON(JSON.stringify({ items: [{ shipTo: null }] })),
+        )
+        const orders = state.sourceTreeNode.children![0]
+        const ship = orders.children![0].children![0]
+        const items = state.targetTreeNode.children![0]
+        const loopRef = createLoopReference(orders.id, "_orders")
+        items.loopReference = loopRef
+        items.loopIterator = "_order"
+        const shipTo = items.children![0].children![0]
+        shipTo.type = "submap"
+        shipTo.submapId = "addr"
+        shipTo.sourceReferences = [
+            createSourceReference(ship.id, "_ship", false, { loopOverId: loopRef.id }),
+        ]
+
+        const result = await run(state, libraryWith({ addr: address }), {
+            orders: [
+                { ship: { street: "A 1", city: "Rome" } },
+                { ship: { street: "B 2", city: "Oslo" } },
+            ],
+        })
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output)).toEqual({
+            items: [
+                { shipTo: { line: "A 1", town: "ROME" } },
+                { shipTo: { line: "B 2", town: "OSLO" } },
+            ],
+        })
+    })
+
+    it("defines sub-maps of sub-maps once at the top level", () => {
+        const customer: Submap = {
+            name: "Customer",
+            state: mapOf({ id: "sourceData.id" }, [
+                submapNode("address", "addr", "sourceData.address"),
+            ]),
+        }
+        const state = mapOf({}, [
+            submapNode("buyer", "cust", "sourceData.buyer"),
+            submapNode("seller", "cust", "sourceData.seller"),
+        ])
+        const script = generateScript(state, "json", "json", {
+            library: libraryWith({ cust: customer, addr: address }),
+        })
+        expect(script.match(/function _submap_cust\(/g)).toHaveLength(1)
+        expect(script.match(/function _submap_addr\(/g)).toHaveLength(1)
+    })
+
+    it("reports field rules of a sub-map through the calling script", async () => {
+        const strict: Submap = {
+            name: "Strict",
+            state: mapOf({}, [
+                createNode("code", "element", { value: "sourceData.code", nonEmpty: true }),
+            ]),
+        }
+        const state = mapOf({}, [submapNode("item", "strict", "sourceData.item")])
+        const result = await run(state, libraryWith({ strict }), { item: { code: "" } })
+        expect(result.error).toBeNull()
+        expect(result.validation.map((i) => i.kind)).toEqual(["required"])
+    })
+
+    it("throws for a missing map or a cycle when the sub-map runs", async () => {
+        const missing = await run(mapOf({}, [submapNode("x", "gone")]), emptySharedLibrary(), {})
+        expect(missing.error).toContain("Sub-map gone not found")
+
+        const submaps = {
+            a: { name: "A", state: mapOf({}, [submapNode("b", "b")]) },
+            b: { name: "B", state: mapOf({}, [submapNode("a", "a")]) },
+        }
+        const cyclic = await run(mapOf({}, [submapNode("x", "a")]), libraryWith(submaps), {})
+        expect(cyclic.error).toContain("Sub-map cycle: A → B → A")
+    })
+})
+
+describe("sub-map nodes in Groovy", () => {
+    it("generates a script-level method per sub-map with its helpers next to it", () => {
+        const strict: Submap = {
+            name: "Strict",
+            state: {
+                ...mapOf({}, [
+                    createNode("code", "element", { value: "sourceData.code", nonEmpty: true }),
+                ]),
+                scriptLanguage: "groovy",
+            },
+        }
+        const state = {
+            ...mapOf({ id: "sourceData.id" }, [submapNode("item", "strict", "sourceData.item")]),
+            scriptLanguage: "groovy" as const,
+        }
+        const script = generateGroovyScript(state, "json", "json", {
+            library: libraryWith({ strict }),
+        })
+        expect(script).toContain('output["item"] = _submap_strict(sourceData.item)')
+        expect(script).toContain("def _submap_strict(sourceData) {\n    def output = [:]")
+        expect(script.match(/def _checkRequired\(/g)).toHaveLength(1)
+        // The calling script collects the issues the sub-map reports
+        expect(script).toContain("_validationIssues = []")
+    })
+
+    it("gives a sub-map its own method for a function name another sub-map defines", () => {
+        const labelling = (prefix: string): Submap => {
+            const submap = {
+                ...mapOf({ name: "label(sourceData.name)" }),
+                scriptLanguage: "groovy" as const,
+            }
+            submap.localContext.functions = [
+                { id: prefix, name: "label", body: `def label(v) {\n    "${prefix}:" + v\n}` },
+            ]
+            return { name: prefix, state: submap }
+        }
+        const state = {
+            ...mapOf({}, [submapNode("first", "a"), submapNode("second", "b")]),
+            scriptLanguage: "groovy" as const,
+        }
+        const script = generateGroovyScript(state, "json", "json", {
+            library: libraryWith({ a: labelling("A"), b: labelling("B") }),
+        })
+        expect(script.match(/def label\(/g)).toHaveLength(1)
+        expect(script).toContain('def _submap_b_label(v) {\n    "B:" + v\n}')
+        expect(script).toContain('output["name"] = label(sourceData.name)')
+        expect(script).toContain('output["name"] = _submap_b_label(sourceData.name)')
+    })
+
+    it("refuses a JavaScript sub-map", () => {
+        const state = { ...mapOf({}, [submapNode("x", "addr")]), scriptLanguage: "groovy" as const }
+        const script = generateGroovyScript(state, "json", "json", {
+            library: libraryWith({ addr: address }),
+        })
+        expect(script).toContain(
+            'throw new RuntimeException("Sub-map \\"Address\\" is written in javascript, not groovy")',
+        )
+    })
+})
+
+describe("sub-map graph", () => {
+    const submaps: Record<string, Submap> = {
+        a: { name: "A", state: mapOf({}, [submapNode("b", "b"), submapNode("c", "c")]) },
+        b: { name: "B", state: mapOf({}, [submapNode("c", "c")]) },
+        c: { name: "C", state: mapOf({ x: "1" }) },
+    }
+
+    it("lists reachable maps with the node they are reached through", () => {
+        const root = submapNode("top", "a")
+        const reached = reachableSubmaps(mapOf({}, [root]), submaps)
+        expect(reached.map((r) => r.mapId)).toEqual(["a", "b", "c"])
+        expect(reached.every((r) => r.nodeId === root.id)).toBe(true)
+    })
+
+    it("finds the chain leading back to a map", () => {
+        expect(findSubmapPath(["a"], "c", submaps)).toEqual(["a", "c"])
+        expect(findSubmapPath(["c"], "a", submaps)).toBeNull()
+        expect(submapProblem("a", "javascript", submaps)).toBeNull()
+    })
+
+    it("counts field rules of reachable sub-maps", () => {
+        const strict = {
+            name: "Strict",
+            state: mapOf({}, [createNode("v", "element", { value: "1", nonEmpty: true })]),
+        }
+        expect(usesFieldRules(mapOf({}, [submapNode("s", "strict")]), { strict })).toBe(true)
+        expect(usesFieldRules(mapOf({}, [submapNode("s", "strict")]))).toBe(false)
+    })
+
+    it("requests the referenced maps with the library", () => {
+        const state = mapOf({}, [submapNode("x", "a"), submapNode("y", "a"), submapNode("z", "b")])
+        expect(libraryRequest(state).submaps).toEqual(["a", "b"])
+    })
+})
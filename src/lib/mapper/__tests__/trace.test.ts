@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest"
+import { executeScript, generateScript } from "../engine"
+import { createEmptyMapperState, fromParserTreeNode, getFullPath } from "../node-utils"
+import { parseJSON } from "../parsers"
+import { createLoopReference, createSourceReference } from "../reference-utils"
+import { MAX_TRACE_EVENTS, filterTrace, formatLoopIndexes, tracePaths } from "../trace"
+import type { MapperState } from "../types"
+
+/**
+ * source: { products: [{ id, status }], active }
+ * target: items (array, loop over products, filter status === "ok") → [] → productId
+ *         flag (value "yes", node condition on sourceData.active)
+ */
+function buildState(): MapperState {
+    const state = createEmptyMapperState("JSON", "JSON")
+    state.sourceTreeNode = fromParserTreeNode(
+        parseJSON(JSON.stringify({ products: [{ id: 1, status: "ok" }], active: false })),
+    )
+    state.targetTreeNode = fromParserTreeNode(
+        parseJSON(JSON.stringify({ items: [{ productId: null }], flag: null })),
+    )
+
+    const srcProducts = state.sourceTreeNode.children!.find((n) => n.name === "products")!
+    const srcItem = srcProducts.children![0]
+    const srcId = srcItem.children!.find((n) => n.name === "id")!
+    const srcStatus = srcItem.children!.find((n) => n.name === "status")!
+    const target = (name: string) => state.targetTreeNode!.children!.find((n) => n.name === name)!
+
+    const tgtItems = target("items")
+    const loopRef = createLoopReference(srcProducts.id, "_products")
+    tgtItems.loopReference = loopRef
+    tgtItems.loopIterator = "_product"
+    tgtItems.loopConditions = [
+        {
+            id: "c1",
+            sourceNodePath: getFullPath(srcStatus.id, state.sourceTreeNode),
+            condition: '=== "ok"',
+            textReference: false,
+        },
+    ]
+    const tgtProductId = tgtItems.children![0].children!.find((n) => n.name === "productId")!
+    tgtProductId.sourceReferences = [
+        createSourceReference(srcId.id, "_id", true, { loopOverId: loopRef.id }),
+    ]
+
+    const flag = target("flag")
+    flag.value = "yes"
+    flag.plainTextValue = true
+    flag.nodeCondition = { condition: "sourceData.active === true" }
+
+    return state
+}
+
+async function runTraced(state: MapperState, input: unknown) {
+    const script = generateScript(state, "json", "json", { trace: true })
+    return executeScript(script, JSON.stringify(input), state.localContext)
+}
+
+describe("generateScript with trace", () => {
+    it("emits no trace calls unless asked", () => {
+        const script = generateScript(buildState(), "json", "json")
+        expect(script).not.toContain("_trace")
+        expect(script).not.toContain("reportTrace")
+    })
+
+    it("records iterations, filters, reads and writes with loop indexes", async () => {
+        const result = await runTraced(buildState(), {
+            products: [
+                { id: 1, status: "ok" },
+                { id: 2, status: "void" },
+                { id: 3, status: "ok" },
+            ],
+            active: false,
+        })
+        expect(result.error).toBeNull()
+        expect(JSON.parse(result.output)).toEqual({ items: [{ productId: 1 }, { productId: 3 }] })
+
+        const events = result.trace!.events
+        expect(result.trace!.truncated).toBe(false)
+        expect(events.map((e) => `${e.kind} ${e.path}${formatLoopIndexes(e.loops)}`)).toEqual([
+            "iteration items[0]",
+            "filter items[0]",
+            "ref items.productId[0]",
+            "assign items.productId[0]",
+            "iteration items[1]",
+            "filter items[1]",
+            "iteration items[2]",
+            "filter items[2]",
+            "ref items.productId[2]",
+            "assign items.productId[2]",
+            "condition flag",
+        ])
+        expect(events[1].value).toBe(true)
+        expect(events[5].value).toBe(false)
+        expect(events[8]).toMatchObject({ name: "_id", value: 3 })
+        expect(events[9].value).toBe(3)
+        expect(events[10].value).toBe(false)
+        expect(events.map((e) => e.seq)).toEqual(events.map((_, i) => i))
+    })
+
+    it("keeps the events recorded before a failure", async () => {
+        const state = buildState()
+        state.targetTreeNode!.children!.find((n) => n.name === "flag")!.nodeCondition = {
+            condition: "sourceData.missing.deep",
+        }
+        const result = await runTraced(state, { products: [{ id: 7, status: "ok" }] })
+        expect(result.error).toMatch(/Cannot read properties of undefined/)
+        expect(result.trace!.events.map((e) => e.kind)).toEqual([
+            "iteration",
+            "filter",
+            "ref",
+            "assign",
+        ])
+    })
+
+    it("stops recording past the event limit", async () => {
+        const products = Array.from({ length: MAX_TRACE_EVENTS }, (_, id) => ({ id, status: "x" }))
+        const result = await runTraced(buildState(), { products, active: false })
+        expect(result.trace!.events).toHaveLength(MAX_TRACE_EVENTS)
+        expect(result.trace!.truncated).toBe(true)
+    })
+})
+
+describe("filterTrace", () => {
+    it("keeps the events of a path and its children", async () => {
+        const { trace } = await runTraced(buildState(), {
+            products: [{ id: 1, status: "ok" }],
+            active: true,
+        })
+        expect(tracePaths(trace!)).toEqual(["items", "items.productId", "flag"])
+        expect(filterTrace(trace!, "items")).toHaveLength(4)
+        expect(filterTrace(trace!, "items.productId").map((e) => e.kind)).toEqual(["ref", "assign"])
+        expect(filterTrace(trace!, "")).toHaveLength(trace!.events.length)
+    })
+})
@@ -0,0 +1,288 @@
+import { describe, expect, it } from "vitest"
+import { executeScript, generateScript } from "../engine"
+import { createEmptyMapperState } from "../node-utils"
+import { createSourceReference } from "../reference-utils"
+import { isXsdContent, listXsdRootElements, parseXSD } from "../xsd-parser"
+import type { MapperTreeNode } from "../types"
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const ORDER_XSD = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders" targetNamespace="urn:orders">
+    <xs:element name="order" type="tns:OrderType">
+        <xs:annotation>
+            <xs:documentation>A purchase order</xs:documentation>
+        </xs:annotation>
+    </xs:element>
+
+    <xs:complexType name="OrderType">
+        <xs:sequence>
+            <xs:element name="orderId" type="xs:string">
+                <xs:annotation>
+                    <xs:documentation>Unique order number</xs:documentation>
+                </xs:annotation>
+            </xs:element>
+            <xs:element name="shipTo" type="tns:AddressType"/>
+            <xs:element name="item" maxOccurs="unbounded">
+                <xs:complexType>
+                    <xs:sequence>
+                        <xs:element name="sku" type="xs:string"/>
+                        <xs:element name="qty" type="xs:int"/>
+                    </xs:sequence>
+                    <xs:attribute name="lineNo" type="xs:int" use="required"/>
+                </xs:complexType>
+            </xs:element>
+            <xs:choice>
+                <xs:element name="card" type="xs:string"/>
+                <xs:element name="invoice" type="xs:string"/>
+            </xs:choice>
+            <xs:element name="tag" type="xs:string" minOccurs="0" maxOccurs="unbounded"/>
+        </xs:sequence>
+        <xs:attribute name="status" type="xs:string"/>
+    </xs:complexType>
+
+    <xs:complexType name="AddressType">
+        <xs:sequence>
+            <xs:element name="street" type="xs:string"/>
+            <xs:element name="city" type="xs:string"/>
+        </xs:sequence>
+    </xs:complexType>
+</xs:schema>`
+
+function childNames(node: MapperTreeNode | undefined): Array<string> {
+    return (node?.children ?? []).map((c) => c.name)
+}
+
+function child(node: MapperTreeNode | undefined, name: string): MapperTreeNode | undefined {
+    return node?.children?.find((c) => c.name === name)
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe("isXsdContent", () => {
+    it("detects a prefixed schema root", () => {
+        expect(isXsdContent(ORDER_XSD)).toBe(true)
+    })
+
+    it("detects an unprefixed schema root", () => {
+        expect(isXsdContent('<schema xmlns="http://www.w3.org/2001/XMLSchema"/>')).toBe(true)
+    })
+
+    it("rejects plain XML instances", () => {
+        expect(isXsdContent("<order><id>1</id></order>")).toBe(false)
+    })
+})
+
+describe("listXsdRootElements", () => {
+    it("lists top-level element declarations", () => {
+        expect(listXsdRootElements(ORDER_XSD)).toEqual(["order"])
+    })
+})
+
+describe("parseXSD", () => {
+    const tree = parseXSD(ORDER_XSD)
+    const order = child(tree, "order")
+
+    it("wraps the document element in a synthetic root", () => {
+        expect(tree.name).toBe("root")
+        expect(tree.type).toBe("element")
+        expect(childNames(tree)).toEqual(["order"])
+    })
+
+    it("resolves named complex types", () => {
+        expect(childNames(order)).toEqual([
+            "@status",
+            "orderId",
+            "shipTo",
+            "item",
+            "card",
+            "invoice",
+            "tag",
+        ])
+        expect(childNames(child(order, "shipTo"))).toEqual(["street", "city"])
+    })
+
+    it("maps attributes to attribute nodes listed before elements", () => {
+        const status = child(order, "@status")!
+        expect(status.type).toBe("attribute")
+    })
+
+    it("maps maxOccurs=unbounded to array + arrayChild", () => {
+        const item = child(order, "item")!
+        expect(item.type).toBe("array")
+        expect(item.children).toHaveLength(1)
+        const template = item.children![0]
+        expect(template.type).toBe("arrayChild")
+        expect(template.name).toBe("[]")
+        expect(childNames(template)).toEqual(["@lineNo", "sku", "qty"])
+        expect(template.children![0].type).toBe("attribute")
+    })
+
+    it("maps repeating simple elements to an array with an empty arrayChild", () => {
+        const tag = child(order, "tag")!
+        expect(tag.type).toBe("array")
+        expect(tag.children![0].type).toBe("arrayChild")
+        expect(tag.children![0].children).toBeUndefined()
+    })
+
+    it("copies documentation into comment", () => {
+        expect(order!.comment).toBe("A purchase order")
+        expect(child(order, "orderId")!.comment).toBe("Unique order number")
+    })
+
+    it("generates unique ids for every node", () => {
+        const ids = new Set<string>()
+        let count = 0
+        const walk = (n: MapperTreeNode) => {
+            ids.add(n.id)
+            count++
+            n.children?.forEach(walk)
+        }
+        walk(tree)
+        expect(ids.size).toBe(count)
+    })
+
+    it("honours the rootElement option", () => {
+        const xsd = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+            <xs:element name="a" type="xs:string"/>
+            <xs:element name="b"><xs:complexType><xs:sequence>
+                <xs:element name="c" type="xs:string"/>
+            </xs:sequence></xs:complexType></xs:element>
+        </xs:schema>`
+        const t = parseXSD(xsd, { rootElement: "b" })
+        expect(childNames(t)).toEqual(["b"])
+        expect(childNames(child(t, "b"))).toEqual(["c"])
+    })
+
+    it("throws for an undeclared root element", () => {
+        expect(() => parseXSD(ORDER_XSD, { rootElement: "missing" })).toThrow(/not declared/)
+    })
+
+    it("throws for non-schema documents", () => {
+        expect(() => parseXSD("<order/>")).toThrow(/Not an XML Schema/)
+    })
+})
+
+describe("parseXSD — references and derivation", () => {
+    const xsd = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:element name="party" type="PartyType"/>
+        <xs:element name="note" type="xs:string">
+            <xs:annotation><xs:documentation>Free text</xs:documentation></xs:annotation>
+        </xs:element>
+
+        <xs:complexType name="BaseType">
+            <xs:sequence><xs:element name="id" type="xs:string"/></xs:sequence>
+            <xs:attribute name="version" type="xs:string"/>
+        </xs:complexType>
+
+        <xs:complexType name="PartyType">
+            <xs:complexContent>
+                <xs:extension base="BaseType">
+                    <xs:sequence>
+                        <xs:group ref="NameGroup"/>
+                        <xs:element ref="note" maxOccurs="5"/>
+                        <xs:element name="parent" type="PartyType" minOccurs="0"/>
+                        <xs:element name="amount">
+                            <xs:complexType>
+                                <xs:simpleContent>
+                                    <xs:extension base="xs:decimal">
+                                        <xs:attribute name="currency" type="xs:string"/>
+                                    </xs:extension>
+                                </xs:simpleContent>
+                            </xs:complexType>
+                        </xs:element>
+                    </xs:sequence>
+                    <xs:attributeGroup ref="Audit"/>
+                </xs:extension>
+            </xs:complexContent>
+        </xs:complexType>
+
+        <xs:group name="NameGroup">
+            <xs:sequence>
+                <xs:element name="first" type="xs:string"/>
+                <xs:element name="last" type="xs:string"/>
+            </xs:sequence>
+        </xs:group>
+
+        <xs:attributeGroup name="Audit">
+            <xs:attribute name="createdBy" type="xs:string"/>
+            <xs:attribute name="legacy" type="xs:string" use="prohibited"/>
+        </xs:attributeGroup>
+    </xs:schema>`
+
+    const party = child(parseXSD(xsd), "party")
+
+    it("inherits base type content for complexContent extensions", () => {
+        expect(childNames(party)).toEqual([
+            "@version",
+            "@createdBy",
+            "id",
+            "first",
+            "last",
+            "note",
+            "parent",
+            "amount",
+        ])
+    })
+
+    it("resolves element refs and keeps occurrence from the reference", () => {
+        const note = child(party, "note")!
+        expect(note.type).toBe("array")
+        expect(note.comment).toBe("Free text")
+    })
+
+    it("stops expanding recursive types", () => {
+        const parent = child(party, "parent")!
+        expect(parent.type).toBe("element")
+        expect(parent.children).toBeUndefined()
+    })
+
+    it("keeps simpleContent attributes on a leaf element", () => {
+        const amount = child(party, "amount")!
+        expect(childNames(amount)).toEqual(["@currency"])
+        expect(amount.children![0].type).toBe("attribute")
+    })
+})
+
+describe("parseXSD — generated scripts", () => {
+    const xsd = `<?xml version="1.0"?>
+    <xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:element name="order">
+            <xs:complexType>
+                <xs:sequence><xs:element name="id" type="xs:string"/></xs:sequence>
+                <xs:attribute name="status" type="xs:string"/>
+            </xs:complexType>
+        </xs:element>
+    </xs:schema>`
+
+    it("reads and writes attributes of an XSD-built model as XML attributes", async () => {
+        const state = createEmptyMapperState("XML", "XML")
+        state.sourceTreeNode = parseXSD(xsd)
+        state.targetTreeNode = parseXSD(xsd)
+        const source = child(state.sourceTreeNode, "order")
+        const target = child(state.targetTreeNode, "order")!
+        target.value = "{}"
+        child(target, "@status")!.sourceReferences = [
+            createSourceReference(child(source, "@status")!.id, "_status"),
+        ]
+        child(target, "id")!.sourceReferences = [
+            createSourceReference(child(source, "id")!.id, "_id"),
+        ]
+
+        const script = generateScript(state, "xml", "xml")
+        const result = await executeScript(
+            script,
+            '<order status="open"><id>A1</id></order>',
+            state.localContext,
+        )
+        expect(result.error).toBeNull()
+        expect(result.output).toContain('<order status="open">')
+        expect(result.output).toContain("<id>A1</id>")
+        expect(result.output).not.toContain("<status>")
+    })
+})
@@ -0,0 +1,130 @@
+import type { MapperTreeNode } from "./types"
+
+// ============================================================
+// Mapping coverage — which target rules ran during a run
+// ============================================================
+// generateScript(..., { coverage: true }) emits `_cover(nodeId, counter)`
+// calls around every target node, loop and node condition, and hands the
+// counters to `reportCoverage` when the script finishes. The summary turns
+// them into a status per target node for the tree overlay; merging the
+// counters of several runs (e.g. a test suite) shows rules that never fire.
+
+export interface NodeCoverageCounts {
+    reached: number // Times the node's code ran (once per enclosing loop iteration)
+    entered: number // Times its node condition held — only counted for nodes with one
+    loops: number // Times its loop started
+    iterations: number // Items its loop visited
+    passed: number // Items that passed its loop conditions — only counted with conditions
+    written: number // Values assigned, or items pushed for array nodes
+}
+
+/** Counters of one or more runs, keyed by target node id. */
+export type MappingCoverage = Record<string, NodeCoverageCounts>
+
+export type CoverageStatus = "covered" | "skipped" | "unreached"
+
+export interface NodeCoverage {
+    status: CoverageStatus
+    reason: string | null // Why a rule was skipped or never reached
+    counts: NodeCoverageCounts
+}
+
+export const COVERAGE_COUNTERS: Array<keyof NodeCoverageCounts> = [
+    "reached",
+    "entered",
+    "loops",
+    "iterations",
+    "passed",
+    "written",
+]
+
+export function emptyCoverageCounts(): NodeCoverageCounts {
+    return { reached: 0, entered: 0, loops: 0, iterations: 0, passed: 0, written: 0 }
+}
+
+/** Sums the counters of several runs. */
+export function mergeCoverage(...runs: Array<MappingCoverage>): MappingCoverage {
+    const merged: MappingCoverage = {}
+    for (const run of runs) {
+        for (const [nodeId, counts] of Object.entries(run)) {
+            const target = (merged[nodeId] ??= emptyCoverageCounts())
+            for (const key of COVERAGE_COUNTERS) target[key] += counts[key]
+        }
+    }
+    return merged
+}
+
+function hasNodeCondition(node: MapperTreeNode): boolean {
+    return !!node.nodeCondition?.condition.trim()
+}
+
+/** Whether the node carries a rule of its own: a value, a loop, a sub-map or a node condition. */
+function hasRule(node: MapperTreeNode): boolean {
+    return (
+        !!node.value ||
+        !!node.sourceReferences?.length ||
+        !!node.loopReference ||
+        !!node.submapId ||
+        hasNodeCondition(node)
+    )
+}
+
+function skipReason(node: MapperTreeNode, counts: NodeCoverageCounts): string {
+    if (hasNodeCondition(node) && counts.entered === 0) return "Node condition was never true"
+    if (node.loopReference) {
+        if (counts.iterations === 0) return "Loop iterated zero times"
+        if (node.loopConditions?.length && counts.passed === 0) {
+            return "Loop conditions filtered out every item"
+        }
+    }
+    return "Nothing was written"
+}
+
+/**
+ * Status of every target node that carries a rule or contains one. A node is
+ * covered when it wrote a value or a descendant did, skipped when its code ran
+ * without writing, and unreached when its code never ran. Code nodes and
+ * nodes without rules are left out.
+ */
+export function summarizeCoverage(
+    targetTree: MapperTreeNode,
+    coverage: MappingCoverage,
+): Map<string, NodeCoverage> {
+    const summary = new Map<string, NodeCoverage>()
+
+    function visit(node: MapperTreeNode): boolean {
+        let childCovered = false
+        let childHasRule = false
+        for (const child of node.children ?? []) {
+            if (child.type === "code") continue
+            childCovered = visit(child) || childCovered
+            childHasRule = childHasRule || summary.has(child.id)
+        }
+        if (!hasRule(node) && !childHasRule) return false
+
+        const counts = coverage[node.id] ?? emptyCoverageCounts()
+        const covered = counts.written > 0 || childCovered
+        summary.set(node.id, {
+            status: covered ? "covered" : counts.reached === 0 ? "unreached" : "skipped",
+            reason: covered
+                ? null
+                : counts.reached === 0
+                  ? "Never reached"
+                  : skipReason(node, counts),
+            counts,
+        })
+        return covered
+    }
+
+    for (const child of targetTree.children ?? []) {
+        if (child.type !== "code") visit(child)
+    }
+    return summary
+}
+
+/** Number of nodes per status in a summary. */
+export function countCoverage(summary: Map<string, NodeCoverage>): Record<CoverageStatus, number> {
+    const totals: Record<CoverageStatus, number> = { covered: 0, skipped: 0, unreached: 0 }
+    for (const entry of summary.values()) totals[entry.status]++
+    return totals
+}
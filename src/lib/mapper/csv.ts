@@ -0,0 +1,175 @@
+import type { CsvOptions } from "./types"
+
+// ============================================================
+// CSV reading / writing
+// ============================================================
+// Shared by the model parser (parsers.ts), the script runtime (executeScript
+// passes parseCSV / toCSV into generated JS) and the Execute dialog samples.
+// The generated Groovy script embeds an equivalent reader/writer — keep the
+// two in sync (generateCsvInputHelper / generateCsvOutputHelper in groovy-engine.ts).
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+    delimiter: ",",
+    quote: '"',
+    hasHeader: true,
+}
+
+/**
+ * Name of the array node that holds the CSV records in a CSV model tree.
+ * A CSV document is modelled as `root → rows[] → [] → <columns>`, so the
+ * generated script reads `sourceData.rows` and writes `output.rows`.
+ */
+export const CSV_ROWS_NODE_NAME = "rows"
+
+/** Candidate delimiters for detectCsvDelimiter, in order of preference. */
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"]
+
+/**
+ * Split CSV text into records of raw field values (RFC 4180 quoting:
+ * quoted fields may contain delimiters, newlines and doubled quotes).
+ * Blank lines are skipped.
+ */
+export function parseCSVRecords(
+    content: string,
+    options: CsvOptions = DEFAULT_CSV_OPTIONS,
+): Array<Array<string>> {
+    const { delimiter, quote } = options
+    const records: Array<Array<string>> = []
+    let record: Array<string> = []
+    let field = ""
+    let inQuotes = false
+    let fieldStarted = false
+
+    const endRecord = () => {
+        record.push(field)
+        // A lone empty field is a blank line, not a record
+        if (record.length > 1 || record[0] !== "" || fieldStarted) records.push(record)
+        record = []
+        field = ""
+        fieldStarted = false
+    }
+
+    let i = 0
+    while (i < content.length) {
+        const ch = content[i]
+
+        if (inQuotes) {
+            if (ch === quote) {
+                if (content[i + 1] === quote) {
+                    field += quote
+                    i++
+                } else {
+                    inQuotes = false
+                }
+            } else {
+                field += ch
+            }
+        } else if (ch === quote && field === "") {
+            inQuotes = true
+            fieldStarted = true
+        } else if (ch === delimiter) {
+            record.push(field)
+            field = ""
+            fieldStarted = true
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && content[i + 1] === "\n") i++
+            endRecord()
+        } else {
+            field += ch
+        }
+        i++
+    }
+
+    if (field !== "" || record.length > 0 || fieldStarted) endRecord()
+    return records
+}
+
+/** Column names for a record set: the trimmed header row, or column1..N. */
+function columnName(header: Array<string> | null, index: number): string {
+    if (header && index < header.length && header[index].trim()) return header[index].trim()
+    return `column${index + 1}`
+}
+
+/**
+ * Parse CSV text into an array of row objects keyed by column name.
+ * Without a header row, columns are named column1, column2, …
+ */
+export function parseCSV(
+    content: string,
+    options: CsvOptions = DEFAULT_CSV_OPTIONS,
+): Array<Record<string, string>> {
+    const records = parseCSVRecords(content, options)
+    const header = options.hasHeader ? (records.shift() ?? []) : null
+
+    return records.map((record) => {
+        const row: Record<string, string> = {}
+        record.forEach((value, idx) => {
+            row[columnName(header, idx)] = value
+        })
+        return row
+    })
+}
+
+function formatCsvField(value: unknown, options: CsvOptions): string {
+    if (value === null || value === undefined) return ""
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value)
+    const { delimiter, quote } = options
+    if (
+        text.includes(delimiter) ||
+        text.includes(quote) ||
+        text.includes("\n") ||
+        text.includes("\r")
+    ) {
+        return quote + text.split(quote).join(quote + quote) + quote
+    }
+    return text
+}
+
+/**
+ * Serialize an array of row objects to CSV text. Columns are the union of
+ * all row keys in order of first appearance; nested values are written as JSON.
+ */
+export function toCSV(rows: unknown, options: CsvOptions = DEFAULT_CSV_OPTIONS): string {
+    const list: Array<unknown> = Array.isArray(rows) ? rows : rows == null ? [] : [rows]
+    const records = list.map(
+        (row): Record<string, unknown> =>
+            typeof row === "object" && row !== null
+                ? (row as Record<string, unknown>)
+                : { value: row },
+    )
+
+    const columns: Array<string> = []
+    for (const row of records) {
+        for (const key of Object.keys(row)) {
+            if (!columns.includes(key)) columns.push(key)
+        }
+    }
+
+    const lines: Array<string> = []
+    if (options.hasHeader) {
+        lines.push(columns.map((c) => formatCsvField(c, options)).join(options.delimiter))
+    }
+    for (const row of records) {
+        lines.push(columns.map((c) => formatCsvField(row[c], options)).join(options.delimiter))
+    }
+    return lines.join("\n")
+}
+
+/**
+ * Guess the delimiter from the first line: the candidate that occurs most
+ * often outside quotes. Falls back to ",".
+ */
+export function detectCsvDelimiter(content: string): string {
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? ""
+    const unquoted = firstLine.replace(/"[^"]*"/g, "")
+    let best = DEFAULT_CSV_OPTIONS.delimiter
+    let bestCount = 0
+    for (const candidate of DELIMITER_CANDIDATES) {
+        const count = unquoted.split(candidate).length - 1
+        if (count > bestCount) {
+            best = candidate
+            bestCount = count
+        }
+    }
+    return best
+}
@@ -0,0 +1,144 @@
+import { generateScript, needsGroovyShims } from "./engine"
+import { generateGroovyScript } from "./groovy-engine"
+import { transpileMapperState } from "./groovy-transpiler"
+import { compareOutputs, parseTestOutput, valueType } from "./map-tests"
+import { inlineLibraryFunctions } from "./shared-library"
+import type { DataFormat } from "./engine"
+import type { OutputValueType } from "./map-tests"
+import type { SharedLibrary } from "./shared-library"
+import type { CsvOptions, MapperState } from "./types"
+
+// ============================================================
+// Compare engines — run one map through JavaScript and Groovy
+// ============================================================
+// The same MapperState generates a JavaScript script (browser) and a Groovy
+// script (sidecar). Both outputs are parsed in the map's target format and
+// compared as data, so only real divergences — values, missing or extra
+// fields, number vs string — are reported, not formatting.
+
+export interface EngineScripts {
+    js: string
+    groovy: string
+    injectGroovyShims: boolean // Run the JS script with the Groovy shims in scope
+    transpileWarnings: number // Groovy maps: warnings of the Groovy → JS transpiler
+}
+
+export interface EngineRun {
+    output: string
+    error: string | null
+    durationMs: number
+}
+
+export interface EngineDiff {
+    path: string // "" for the root
+    kind: "js-only" | "groovy-only" | "changed" | "type"
+    js?: unknown // Absent for "groovy-only"
+    groovy?: unknown // Absent for "js-only"
+    jsType?: OutputValueType
+    groovyType?: OutputValueType
+}
+
+export interface EngineComparison {
+    status: "same" | "different" | "error" // "error": neither engine produced output
+    diffs: Array<EngineDiff>
+    note: string | null // Why the outputs could only be compared as text, or which engine failed
+}
+
+/**
+ * Scripts of both engines for `state`. Groovy maps carry Groovy code, so the
+ * JavaScript side runs the transpiled state with the Groovy shims — the
+ * same path as "Translate to JavaScript". Both inline the same `library`;
+ * imported Groovy functions are inlined before transpiling.
+ */
+export function generateEngineScripts(
+    state: MapperState,
+    src: DataFormat,
+    tgt: DataFormat,
+    library?: SharedLibrary,
+): EngineScripts {
+    const groovy = generateGroovyScript(state, src, tgt, { library })
+    if (state.scriptLanguage === "groovy") {
+        const transpiled = transpileMapperState(inlineLibraryFunctions(state, library))
+        return {
+            js: generateScript(transpiled.state, src, tgt, { library }),
+            groovy,
+            injectGroovyShims: true,
+            transpileWarnings: transpiled.warnings.length,
+        }
+    }
+    return {
+        js: generateScript(state, src, tgt, { library }),
+        groovy,
+        injectGroovyShims: needsGroovyShims(state),
+        transpileWarnings: 0,
+    }
+}
+
+function tryParse(
+    text: string,
+    format: DataFormat,
+    csvOptions?: CsvOptions,
+): { value: unknown; error: string | null } {
+    try {
+        return { value: parseTestOutput(text, format, csvOptions), error: null }
+    } catch (err) {
+        return { value: undefined, error: err instanceof Error ? err.message : String(err) }
+    }
+}
+
+/** Every path where the Groovy output differs from the JavaScript output. */
+export function compareEngineRuns(
+    js: EngineRun,
+    groovy: EngineRun,
+    format: DataFormat,
+    csvOptions?: CsvOptions,
+): EngineComparison {
+    if (js.error !== null && groovy.error !== null) {
+        return { status: "error", diffs: [], note: "Both engines failed" }
+    }
+    if (js.error !== null || groovy.error !== null) {
+        const failed = js.error !== null ? "JavaScript" : "Groovy"
+        return {
+            status: "different",
+            diffs: [],
+            note: `${failed} failed: ${js.error ?? groovy.error}`,
+        }
+    }
+
+    const jsParsed = tryParse(js.output, format, csvOptions)
+    const groovyParsed = tryParse(groovy.output, format, csvOptions)
+    if (jsParsed.error !== null || groovyParsed.error !== null) {
+        const failed = jsParsed.error !== null ? "JavaScript" : "Groovy"
+        const error = jsParsed.error ?? groovyParsed.error
+        const same = js.output.trim() === groovy.output.trim()
+        return {
+            status: same ? "same" : "different",
+            diffs: same
+                ? []
+                : [{ path: "", kind: "changed", js: js.output, groovy: groovy.output }],
+            note: `${failed} output is not valid ${format.toUpperCase()} (${error}) — compared as text`,
+        }
+    }
+
+    const diffs = compareOutputs(jsParsed.value, groovyParsed.value).map((diff): EngineDiff => {
+        const entry: EngineDiff = {
+            path: diff.path,
+            kind:
+                diff.kind === "missing"
+                    ? "js-only"
+                    : diff.kind === "unexpected"
+                      ? "groovy-only"
+                      : diff.kind,
+        }
+        if ("expected" in diff) {
+            entry.js = diff.expected
+            entry.jsType = valueType(diff.expected)
+        }
+        if ("actual" in diff) {
+            entry.groovy = diff.actual
+            entry.groovyType = valueType(diff.actual)
+        }
+        return entry
+    })
+    return { status: diffs.length === 0 ? "same" : "different", diffs, note: null }
+}
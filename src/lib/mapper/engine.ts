@@ -1,7 +1,42 @@
 import { XMLBuilder, XMLParser } from "fast-xml-parser"
-import { getGroovyShimParamNames, getGroovyShimParamValues } from "./groovy-shims"
-import { findNodeById, getFullPath, traverseDown } from "./node-utils"
+import { CSV_ROWS_NODE_NAME, DEFAULT_CSV_OPTIONS, parseCSV, toCSV } from "./csv"
+import {
+    createDateFormatter,
+    getGroovyShimParamNames,
+    getGroovyShimParamValues,
+    roundTo,
+} from "./groovy-shims"
+import {
+    findNodeById,
+    getFieldPath,
+    getFullPath,
+    getValidationMessage,
+    hasFieldFormats,
+    hasRequiredFields,
+    parseFieldFormat,
+    traverseDown,
+} from "./node-utils"
+import {
+    missingLibraryFunctionComment,
+    resolveFunctionBody,
+    resolveLookupEntries,
+} from "./shared-library"
+import { buildSourceMap, jsErrorLine, tagNodeLines, tagSectionLines } from "./source-map"
+import {
+    reachableSubmaps,
+    submapCall,
+    submapFunctionName,
+    submapProblem,
+    usesFieldRules,
+} from "./submaps"
+import { MAX_TRACE_EVENTS } from "./trace"
+import type { MappingCoverage } from "./coverage"
+import type { PlatformData } from "./platform-data"
+import type { SharedLibrary } from "./shared-library"
+import type { GeneratedScript } from "./source-map"
+import type { ExecutionTrace } from "./trace"
 import type {
+    InputType,
     LoopCondition,
     LoopReference,
     MapperContext,
@@ -23,15 +58,40 @@ export interface EngineError {
 // Phase 6 — New types
 // ============================================================
 
+export type ValidationIssueKind = "required" | "type" | "format"
+
+export interface ValidationIssue {
+    nodeId: string // Target tree node the issue belongs to
+    path: string // Target path below the root (e.g. "lines.sku")
+    kind: ValidationIssueKind
+    message: string // errorMessage or generated description
+}
+
 export interface ScriptExecutionResult {
     output: string // Transformed output string
     error: string | null // Error message if execution failed
+    errorLine?: number // Script line the error was thrown from, when the stack names one
     scriptBody: string // The generated script (for debug display)
     durationMs: number // Execution time
     logs: string[] // Captured console.log/warn/error messages
+    validation: Array<ValidationIssue> // nonEmpty / type / format issues reported by the script
+    coverage?: MappingCoverage // Hit counters — only for scripts generated with `coverage`
+    trace?: ExecutionTrace // Step record — only for scripts generated with `trace`
+}
+
+export interface GenerateScriptOptions {
+    /** Instrument the script to report per-node hit counters (coverage.ts) */
+    coverage?: boolean
+    /** Instrument the script to record conditions, iterations, reads and writes (trace.ts) */
+    trace?: boolean
+    /** Shared library that linked tables, imported functions and sub-maps come from (shared-library.ts) */
+    library?: SharedLibrary
 }
 
-export type TemplateType = "json_to_json" | "json_to_xml" | "xml_to_json" | "xml_to_xml"
+// Wire format of script input / output
+export type DataFormat = "json" | "xml" | "csv"
+
+export type TemplateType = `${DataFormat}_to_${DataFormat}`
 
 // ============================================================
 // Legacy engine helpers (unchanged)
@@ -526,11 +586,15 @@ function generateGlobalVariables(context: MapperContext): string {
     return lines.join("\n")
 }
 
-function generateLookupTables(context: MapperContext): string {
+function generateLookupTables(context: MapperContext, library?: SharedLibrary): string {
     if (!context.lookupTables.length) return ""
 
     const lines = context.lookupTables.map((table) => {
-        const entries = table.entries
+        const resolved = resolveLookupEntries(table, library)
+        if (!resolved) {
+            return `// Library lookup table "${table.libraryTable}" not found\nconst ${table.name} = {}`
+        }
+        const entries = resolved
             .map((e) => {
                 const val = e.plainTextValue ? JSON.stringify(e.value) : e.value
                 return `  ${JSON.stringify(e.key)}: ${val}`
@@ -541,9 +605,49 @@ function generateLookupTables(context: MapperContext): string {
     return lines.join("\n\n")
 }
 
-function generateFunctions(context: MapperContext): string {
+function generateFunctions(context: MapperContext, library?: SharedLibrary): string {
     if (!context.functions.length) return ""
-    return context.functions.map((f) => f.body.trim()).join("\n\n")
+    return context.functions
+        .map((f) => {
+            const body = resolveFunctionBody(f, library)
+            if (body === null) return missingLibraryFunctionComment(f)
+            return tagSectionLines(body, { functionId: f.id })
+        })
+        .join("\n\n")
+}
+
+/**
+ * One function per sub-map the map reaches (submaps.ts): it takes the
+ * sub-map's input as sourceData and returns the sub-map's output object. A
+ * sub-map that cannot run generates a function that throws why. The lines of
+ * each function map to the submap node of this map it is reached through.
+ */
+function generateSubmapFunctions(state: MapperState, library?: SharedLibrary): string {
+    const submaps = library?.submaps ?? {}
+    return reachableSubmaps(state, submaps)
+        .map(({ mapId, nodeId }) => {
+            const name = submapFunctionName(mapId)
+            const problem = submapProblem(mapId, "javascript", submaps)
+            if (problem) {
+                const code = `function ${name}() {\n  throw new Error(${JSON.stringify(problem)})\n}`
+                return tagNodeLines(code, nodeId)
+            }
+            const sections = generateMapSections(
+                submaps[mapId].state,
+                "json",
+                "json",
+                { library },
+                true,
+            )
+            const body = buildSourceMap(sections.join("\n\n")).script
+            const code = [
+                `function ${name}(sourceData) {`,
+                ...body.split("\n").map((line) => (line ? `  ${line}` : line)),
+                "}",
+            ].join("\n")
+            return tagNodeLines(code, nodeId)
+        })
+        .join("\n\n")
 }
 
 /**
@@ -569,6 +673,127 @@ function generateSourceRefVariables(state: MapperState): string {
     return lines.join("\n")
 }
 
+// ============================================================
+// Phase 6 — Field validation / format helpers
+// ============================================================
+
+/**
+ * Helpers emitted when target nodes carry nonEmpty or format rules. They append
+ * { nodeId, path, kind, message } issues to _validationIssues:
+ *  - _checkRequired — "required" when the built value is empty, "type" when it
+ *    is not the shape the node describes (array / object / value)
+ *  - _formatDate / _formatNumber — wrap the createDateFormatter / roundTo shims
+ *    (passed in by executeScript); unparseable values are kept as-is and
+ *    reported as "format"
+ * Mirror of generateGroovyFieldRuleHelpers() in groovy-engine.ts.
+ */
+function generateFieldRuleHelpers(targetTree: MapperTreeNode): string {
+    const helpers: Array<string> = []
+
+    if (hasRequiredFields(targetTree)) {
+        helpers.push(
+            [
+                "function _isEmpty(value) {",
+                "  if (value === null || value === undefined) return true",
+                '  if (typeof value === "string") return value.trim() === ""',
+                "  if (Array.isArray(value)) return value.length === 0",
+                '  if (typeof value === "object") return Object.keys(value).length === 0',
+                "  return false",
+                "}",
+                "",
+                "function _checkRequired(value, expected, nodeId, path, message) {",
+                "  if (_isEmpty(value)) {",
+                '    _validationIssues.push({ nodeId, path, kind: "required", message })',
+                "    return",
+                "  }",
+                '  const isObject = typeof value === "object" && !(value instanceof Date)',
+                "  const matches =",
+                '    expected === "array" ? Array.isArray(value)',
+                '    : expected === "object" ? isObject && !Array.isArray(value)',
+                "    : !isObject",
+                "  if (!matches) {",
+                '    const article = expected === "value" ? "a value" : "an " + expected',
+                '    _validationIssues.push({ nodeId, path, kind: "type", message: "Expected " + article + " at \\"" + path + "\\"" })',
+                "  }",
+                "}",
+            ].join("\n"),
+        )
+    }
+
+    if (hasFieldFormats(targetTree)) {
+        helpers.push(
+            [
+                "function _formatDate(value, pattern, nodeId, path) {",
+                '  if (value === null || value === undefined || String(value).trim() === "") return value',
+                "  const text = String(value).trim()",
+                "  let date = null",
+                "  if (value instanceof Date) date = value",
+                '  else if (typeof value === "number") date = new Date(value)',
+                "  else if (/^\\d{4}-\\d{2}-\\d{2}$/.test(text)) {",
+                "    date = new Date(Number(text.slice(0, 4)), Number(text.slice(5, 7)) - 1, Number(text.slice(8, 10)))",
+                "  } else if (/^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})?$/.test(text)) {",
+                "    date = new Date(text)",
+                "  }",
+                "  if (!date || isNaN(date.getTime())) {",
+                '    _validationIssues.push({ nodeId, path, kind: "format", message: "Cannot format \\"" + text + "\\" as \\"" + pattern + "\\"" })',
+                "    return value",
+                "  }",
+                "  return createDateFormatter(pattern).format(date)",
+                "}",
+                "",
+                "function _formatNumber(value, places, nodeId, path) {",
+                '  if (value === null || value === undefined || String(value).trim() === "") return value',
+                "  const text = String(value).trim()",
+                "  const num = Number(text)",
+                "  if (isNaN(num)) {",
+                '    _validationIssues.push({ nodeId, path, kind: "format", message: "Cannot format \\"" + text + "\\" as a number" })',
+                "    return value",
+                "  }",
+                "  return roundTo(num, places)",
+                "}",
+            ].join("\n"),
+        )
+    }
+
+    return helpers.join("\n\n")
+}
+
+/**
+ * Wrap a value expression in the helper matching the node's format pattern.
+ */
+function applyFieldFormat(
+    valueExpr: string,
+    node: MapperTreeNode,
+    targetTree: MapperTreeNode,
+): string {
+    const fieldFormat = parseFieldFormat(node.format)
+    if (!fieldFormat) return valueExpr
+    const issueArgs = `${JSON.stringify(node.id)}, ${JSON.stringify(getFieldPath(node, targetTree))}`
+    if (fieldFormat.kind === "number") {
+        return `_formatNumber(${valueExpr}, ${fieldFormat.places}, ${issueArgs})`
+    }
+    return `_formatDate(${valueExpr}, ${JSON.stringify(fieldFormat.pattern)}, ${issueArgs})`
+}
+
+/**
+ * Shape a required node's built value must have: arrays hold items,
+ * nodes with children build objects, everything else holds a value.
+ */
+function expectedValueShape(node: MapperTreeNode): "array" | "object" | "value" {
+    if (node.type === "array") return "array"
+    if (node.type === "submap") return "object"
+    if (node.children?.some((c) => c.type !== "code")) return "object"
+    return "value"
+}
+
+/**
+ * Turn an output path into a null-safe read (output.a.b → output?.a?.b) so
+ * required checks on parents that were never created do not throw.
+ */
+function toSafeAccess(outputPath: string): string {
+    return outputPath.replace(/\.(?=[A-Za-z_$])/g, "?.").replace(/\[/g, "?.[")
+}
+
 // ============================================================
 // Phase 6 — Core recursive output generator
 // ============================================================
@@ -609,6 +834,7 @@ function generateTargetNode(
     activeLoopRef: LoopReference | null,
     activeIterVar: string | null,
     arrayTempVars?: Map<string, string>,
+    instrument: GenerateScriptOptions = {},
 ): string {
     const lines: Array<string> = []
     let indent = "  ".repeat(indentLevel)
@@ -616,16 +842,30 @@ function generateTargetNode(
     // 1. Code nodes — inject verbatim
     if (node.type === "code") {
         if (node.value) lines.push(indent + node.value)
-        return lines.filter(Boolean).join("\n")
+        return tagNodeLines(lines.filter(Boolean).join("\n"), node.id)
+    }
+
+    // Coverage counter call for this node (no-op unless instrumenting)
+    const nodeIdArg = JSON.stringify(node.id)
+    const cover = (counter: string) => {
+        if (instrument.coverage) lines.push(`${indent}_cover(${nodeIdArg}, "${counter}")`)
     }
+    // Trace calls take the node id and its field path; traced() wraps a tested expression
+    const traceArgs = instrument.trace
+        ? `${nodeIdArg}, ${JSON.stringify(getFieldPath(node, state.targetTreeNode!))}`
+        : ""
+    const traced = (helper: string, expr: string) =>
+        instrument.trace ? `${helper}(${traceArgs}, ${expr})` : expr
+    cover("reached")
 
     // 2. Node condition (outer if)
     const condition = node.nodeCondition
     const hasNodeCondition = condition && condition.condition && condition.condition.trim() !== ""
     if (hasNodeCondition) {
-        lines.push(`${indent}if (${condition.condition}) {`)
+        lines.push(`${indent}if (${traced("_traceCondition", condition.condition)}) {`)
         indentLevel++
         indent = "  ".repeat(indentLevel)
+        cover("entered")
     }
 
     // 3. Loop reference
@@ -640,9 +880,13 @@ function generateTargetNode(
             ? node.loopStatement
             : buildLoopSourcePath(loopRef, state.sourceTreeNode!)
         const iterVar = node.loopIterator || `_${loopRef.variableName}`
+        cover("loops")
+        if (instrument.trace) lines.push(`${indent}_traceStack.push(-1)`)
         lines.push(`${indent}for (const ${iterVar} of ${loopSource}) {`)
         indentLevel++
         indent = "  ".repeat(indentLevel)
+        cover("iterations")
+        if (instrument.trace) lines.push(`${indent}_traceIteration(${traceArgs})`)
 
         // 3a. Loop conditions (filter)
         if (node.loopConditions && node.loopConditions.length > 0) {
@@ -651,9 +895,10 @@ function generateTargetNode(
                 const path = buildLoopConditionPath(lc, iterVar, state.sourceTreeNode!, loopRef)
                 return `${path} ${lc.condition}`
             })
-            lines.push(`${indent}if (${condParts.join(connective)}) {`)
+            lines.push(`${indent}if (${traced("_traceFilter", condParts.join(connective))}) {`)
             indentLevel++
             indent = "  ".repeat(indentLevel)
+            cover("passed")
         }
 
         // 3b. Initialize array target if this is an array node (build-then-push pattern)
@@ -686,17 +931,33 @@ function generateTargetNode(
         }
     }
 
-    // 4. Set value on this node (leaf assignment)
-    const valueExpr = buildValueExpression(node)
+    // 4. Set value on this node (leaf assignment) — a submap node's value is its map's output
+    const valueExpr =
+        node.type === "submap"
+            ? node.submapId
+                ? submapCall(node.submapId, buildValueExpression(node))
+                : null
+            : buildValueExpression(node)
     if (valueExpr !== null && node.type !== "array" && node.type !== "arrayChild") {
         const outputPath = buildOutputPath(node, outputVar, state.targetTreeNode!, arrayTempVars)
-        let line = `${indent}${outputPath} = ${valueExpr}`
+        const formatted = applyFieldFormat(valueExpr, node, state.targetTreeNode!)
+        if (instrument.trace) {
+            for (const ref of node.sourceReferences ?? []) {
+                const name = ref.variableName
+                lines.push(
+                    `${indent}_traceRef(${traceArgs}, ${JSON.stringify(name)}, typeof ${name} === "undefined" ? undefined : ${name})`,
+                )
+            }
+        }
+        let line = `${indent}${outputPath} = ${formatted}`
 
         // Debug comment
         if (state.mapperPreferences.debugComment && node.sourceReferences?.length) {
             line += ` // ${node.sourceReferences.map((r) => r.variableName).join(", ")}`
         }
         lines.push(line)
+        cover("written")
+        if (instrument.trace) lines.push(`${indent}_traceAssign(${traceArgs}, ${outputPath})`)
     }
 
     // 5. Children recursion
@@ -711,6 +972,7 @@ function generateTargetNode(
             childLoopRef,
             childIterVar,
             arrayTempVars,
+            instrument,
         )
         if (childCode) lines.push(childCode)
     }
@@ -720,6 +982,7 @@ function generateTargetNode(
     if (loopRef && arrayTempVar && arrayArrPath) {
         lines.push(`${indent}if (Object.keys(${arrayTempVar}).length > 0) {`)
         lines.push(`${indent}  ${arrayArrPath}.push(${arrayTempVar})`)
+        if (instrument.coverage) lines.push(`${indent}  _cover(${nodeIdArg}, "written")`)
         lines.push(`${indent}}`)
     }
 
@@ -735,6 +998,21 @@ function generateTargetNode(
         indentLevel--
         indent = "  ".repeat(indentLevel)
         lines.push(`${indent}}`)
+        if (instrument.trace) lines.push(`${indent}_traceStack.pop()`)
+    }
+
+    // 7b. Required check — runs once the node (and any array it loops into) is built
+    if (node.nonEmpty && node.type !== "arrayChild") {
+        const targetTree = state.targetTreeNode!
+        const outputPath = buildOutputPath(node, outputVar, targetTree, arrayTempVars)
+        const args = [
+            toSafeAccess(outputPath),
+            JSON.stringify(expectedValueShape(node)),
+            JSON.stringify(node.id),
+            JSON.stringify(getFieldPath(node, targetTree)),
+            JSON.stringify(getValidationMessage(node, targetTree)),
+        ]
+        lines.push(`${indent}_checkRequired(${args.join(", ")})`)
     }
 
     // 8. Close node condition if block
@@ -744,22 +1022,38 @@ function generateTargetNode(
         lines.push(`${indent}}`)
     }
 
-    return lines.filter((l) => l !== "").join("\n")
+    // Child code is already tagged, so only this node's own lines take its id
+    return tagNodeLines(lines.filter((l) => l !== "").join("\n"), node.id)
 }
 
 /**
  * Generate the output construction section from the target tree root's children.
+ * `declareIssues` starts the list field rules append to — sub-maps use their caller's.
  */
-function generateOutputSection(state: MapperState): string {
+function generateOutputSection(
+    state: MapperState,
+    instrument: GenerateScriptOptions,
+    declareIssues: boolean,
+): string {
     if (!state.targetTreeNode) return ""
 
     const lines: Array<string> = []
 
     // Initialize root output object
     lines.push("const output = {}")
+    if (declareIssues) lines.push("const _validationIssues = []")
 
     for (const child of state.targetTreeNode.children ?? []) {
-        const code = generateTargetNode(child, state, "output", 0, null, null)
+        const code = generateTargetNode(
+            child,
+            state,
+            "output",
+            0,
+            null,
+            null,
+            undefined,
+            instrument,
+        )
         if (code) lines.push(code)
     }
 
@@ -770,13 +1064,22 @@ function generateOutputSection(state: MapperState): string {
 // Phase 6 — detectTemplateType
 // ============================================================
 
+/**
+ * Maps a model InputType to the script data format ("UNKNOWN" falls back to JSON).
+ */
+export function toDataFormat(inputType: InputType): DataFormat {
+    if (inputType === "XML") return "xml"
+    if (inputType === "CSV") return "csv"
+    return "json"
+}
+
 /**
  * Detects the template type from state source/target input types.
  */
 export function detectTemplateType(state: MapperState): TemplateType {
-    const src = state.sourceInputType === "XML" ? "xml" : "json"
-    const tgt = state.targetInputType === "XML" ? "xml" : "json"
-    return `${src}_to_${tgt}` as TemplateType
+    const src = toDataFormat(state.sourceInputType)
+    const tgt = toDataFormat(state.targetInputType)
+    return `${src}_to_${tgt}`
 }
 
 // ============================================================
@@ -786,78 +1089,380 @@ export function detectTemplateType(state: MapperState): TemplateType {
 /**
  * Generates a JavaScript function body string from a MapperState.
  * TypeScript equivalent of MapperWriter.createScript() in Groovy.
+ *
+ * With `options.coverage` the script also counts how often each target node,
+ * loop and node condition ran and hands the counters to `reportCoverage`;
+ * with `options.trace` it records every condition, iteration, reference read
+ * and assignment and hands the trace to `reportTrace`.
  */
 export function generateScript(
     state: MapperState,
-    inputType: "json" | "xml",
-    outputType: "json" | "xml",
+    inputType: DataFormat,
+    outputType: DataFormat,
+    options: GenerateScriptOptions = {},
 ): string {
-    const sections: Array<string> = []
+    return generateScriptWithSourceMap(state, inputType, outputType, options).script
+}
 
-    // 1. Parse input
-    if (inputType === "xml") {
-        sections.push("const sourceData = parseXML(input)")
-    } else {
-        sections.push("const sourceData = JSON.parse(input)")
+/**
+ * generateScript plus the origin of every script line (source-map.ts), so an
+ * error's line resolves to the target node, function, prolog or epilog line.
+ */
+export function generateScriptWithSourceMap(
+    state: MapperState,
+    inputType: DataFormat,
+    outputType: DataFormat,
+    options: GenerateScriptOptions = {},
+): GeneratedScript {
+    const sections = generateMapSections(state, inputType, outputType, options, false)
+    return buildSourceMap(sections.join("\n\n"))
+}
+
+function generateInputParsing(state: MapperState, inputType: DataFormat): string {
+    if (inputType === "xml") return "const sourceData = parseXML(input)"
+    if (inputType === "csv") {
+        // CSV records are exposed as sourceData.rows — the shape parseCSV models
+        const csvOptions = JSON.stringify(state.sourceCsvOptions ?? DEFAULT_CSV_OPTIONS)
+        return `const sourceData = { ${CSV_ROWS_NODE_NAME}: parseCSV(input, ${csvOptions}) }`
     }
+    return "const sourceData = JSON.parse(input)"
+}
+
+/**
+ * The tagged sections of a script. As a sub-map (`submap`), the sections make
+ * up a function body instead: sourceData is the function's parameter, nothing
+ * is instrumented, validation issues go to the caller's list and the output
+ * object is returned as-is.
+ */
+function generateMapSections(
+    state: MapperState,
+    inputType: DataFormat,
+    outputType: DataFormat,
+    options: GenerateScriptOptions,
+    submap: boolean,
+): Array<string> {
+    const instrument: GenerateScriptOptions = state.targetTreeNode && !submap ? options : {}
+    const collectsIssues = !submap && usesFieldRules(state, options.library?.submaps)
+    const sections: Array<string> = []
+
+    // 1. Parse input — a sub-map's sourceData is its function's parameter
+    if (!submap) sections.push(generateInputParsing(state, inputType))
 
     // 2. Global variables
     const globalVarsCode = generateGlobalVariables(state.localContext)
     if (globalVarsCode) sections.push(globalVarsCode)
 
     // 3. Lookup tables
-    const lookupCode = generateLookupTables(state.localContext)
+    const lookupCode = generateLookupTables(state.localContext, options.library)
     if (lookupCode) sections.push(lookupCode)
 
     // 4. User-defined functions
-    const functionsCode = generateFunctions(state.localContext)
+    const functionsCode = generateFunctions(state.localContext, options.library)
     if (functionsCode) sections.push(functionsCode)
 
+    // 4b. Sub-maps — the root script defines every reachable one
+    const submapsCode = submap ? "" : generateSubmapFunctions(state, options.library)
+    if (submapsCode) sections.push(submapsCode)
+
     // 5. Prolog script (verbatim)
     if (state.localContext.prologScript?.trim()) {
-        sections.push(state.localContext.prologScript.trim())
+        sections.push(tagSectionLines(state.localContext.prologScript, "prolog"))
     }
 
     // 6. Top-level source reference variable declarations
     const sourceRefVars = generateSourceRefVariables(state)
     if (sourceRefVars) sections.push(sourceRefVars)
 
+    // 6b. nonEmpty / format helpers
+    const fieldRuleHelpers = state.targetTreeNode
+        ? generateFieldRuleHelpers(state.targetTreeNode)
+        : ""
+    if (fieldRuleHelpers) sections.push(fieldRuleHelpers)
+
+    // 6c. Coverage counters — handed to the runtime up front so a failing run keeps its counts
+    if (instrument.coverage) {
+        sections.push(
+            [
+                "const _coverage = {}",
+                'if (typeof reportCoverage === "function") reportCoverage(_coverage)',
+                "function _cover(nodeId, counter) {",
+                "  const counts = _coverage[nodeId] || (_coverage[nodeId] = { reached: 0, entered: 0, loops: 0, iterations: 0, passed: 0, written: 0 })",
+                "  counts[counter]++",
+                "}",
+            ].join("\n"),
+        )
+    }
+
+    // 6d. Trace recorder — handed to the runtime up front so a failing run keeps its events
+    if (instrument.trace) {
+        sections.push(
+            [
+                "const _trace = { events: [], truncated: false }",
+                "const _traceStack = []",
+                'if (typeof reportTrace === "function") reportTrace(_trace)',
+                "function _traceValue(value) {",
+                "  if (value === undefined) return undefined",
+                "  try { return JSON.parse(JSON.stringify(value)) } catch { return String(value) }",
+                "}",
+                "function _traceEvent(kind, nodeId, path, extra) {",
+                `  if (_trace.events.length >= ${MAX_TRACE_EVENTS}) { _trace.truncated = true; return }`,
+                "  _trace.events.push({ seq: _trace.events.length, kind, nodeId, path, loops: _traceStack.slice(), ...extra })",
+                "}",
+                "function _traceCondition(nodeId, path, passed) {",
+                '  _traceEvent("condition", nodeId, path, { value: !!passed })',
+                "  return passed",
+                "}",
+                "function _traceFilter(nodeId, path, passed) {",
+                '  _traceEvent("filter", nodeId, path, { value: !!passed })',
+                "  return passed",
+                "}",
+                "function _traceIteration(nodeId, path) {",
+                "  _traceStack[_traceStack.length - 1]++",
+                '  _traceEvent("iteration", nodeId, path, {})',
+                "}",
+                "function _traceRef(nodeId, path, name, value) {",
+                '  _traceEvent("ref", nodeId, path, { name, value: _traceValue(value) })',
+                "}",
+                "function _traceAssign(nodeId, path, value) {",
+                '  _traceEvent("assign", nodeId, path, { value: _traceValue(value) })',
+                "}",
+            ].join("\n"),
+        )
+    }
+
     // 7. Output construction
-    const outputSection = generateOutputSection(state)
+    const outputSection = generateOutputSection(state, instrument, collectsIssues)
     if (outputSection) sections.push(outputSection)
 
     // 8. Epilog script (verbatim)
     if (state.localContext.epilogScript?.trim()) {
-        sections.push(state.localContext.epilogScript.trim())
+        sections.push(tagSectionLines(state.localContext.epilogScript, "epilog"))
+    }
+
+    // 8b. Hand validation issues to the runtime (executeScript passes reportValidation);
+    // without one, fail with every collected message
+    if (collectsIssues) {
+        sections.push(
+            [
+                "if (_validationIssues.length > 0) {",
+                '  if (typeof reportValidation === "function") reportValidation(_validationIssues)',
+                '  else throw new Error(_validationIssues.map((issue) => issue.message).join("\\n"))',
+                "}",
+            ].join("\n"),
+        )
     }
 
     // 9. Return output
-    if (outputType === "xml") {
+    if (submap) {
+        sections.push("return output")
+    } else if (outputType === "xml") {
         sections.push("return toXML(output)")
+    } else if (outputType === "csv") {
+        const csvOptions = JSON.stringify(state.targetCsvOptions ?? DEFAULT_CSV_OPTIONS)
+        sections.push(`return toCSV(output.${CSV_ROWS_NODE_NAME}, ${csvOptions})`)
     } else {
         sections.push("return JSON.stringify(output, null, 2)")
     }
 
-    return sections.join("\n\n")
+    return sections
 }
 
 // ============================================================
 // Phase 6 — executeScript
 // ============================================================
 
+/** Default wall-clock limit for sandboxed script runs. */
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 10_000
+
+/** Default cap on the size of a script's output string (16 MB of UTF-16). */
+export const DEFAULT_MAX_OUTPUT_LENGTH = 8 * 1024 * 1024
+
+/** Default cap on the number of captured console lines. */
+export const DEFAULT_MAX_LOG_ENTRIES = 1000
+
+// `new Function` puts "function anonymous(...) {" on two lines before the
+// body, and executeScript adds "use strict" — stack lines are off by three
+const FUNCTION_HEADER_LINES = 3
+
 export interface ExecuteScriptOptions {
     /** When true, inject Groovy shim functions into the script scope */
     injectGroovyShims?: boolean
+    /** Global data and lookup tables the injected platform shims (jtShims) resolve against */
+    platformData?: PlatformData
+    /** Longest output string accepted before the run is failed (a size cap, not a memory limit) */
+    maxOutputLength?: number
+    /** Console lines kept before further output is dropped (a size cap, not a memory limit) */
+    maxLogEntries?: number
 }
 
 /**
- * Executes a generated script string against input data.
- * Returns {output, error} — never throws.
- * Declared async to allow future async execution (e.g. web workers, sandboxing).
+ * Whether `state` runs with the Groovy shims in scope — a JavaScript map with
+ * an uploaded source file. Every runner decides through this, so a map runs
+ * the same in the execute dialog, map tests, chains and the transform API.
+ */
+export function needsGroovyShims(state: MapperState): boolean {
+    return !!(state.scriptLanguage === "javascript" && state.sourceOriginalContent)
+}
+
+/**
+ * Options for the isolated executors (script-executor.ts for the browser,
+ * script-executor.server.ts for server-side runs).
+ */
+export interface SandboxExecuteOptions extends ExecuteScriptOptions {
+    /** Wall-clock limit; the run is aborted and reported as an error past it */
+    timeoutMs?: number
+    /** Aborting the signal cancels the run */
+    signal?: AbortSignal
+    /** Heap limit in MB; only server-side runs (executeScriptInVm) can enforce one */
+    memoryLimitMb?: number
+}
+
+/** Receivers for what instrumented scripts report (generateScript options). */
+export interface ScriptReports {
+    coverage?: (coverage: MappingCoverage) => void
+    trace?: (trace: ExecutionTrace) => void
+}
+
+/** The parameters a generated script sees: names and matching values. */
+export interface ScriptScope {
+    names: Array<string>
+    values: Array<unknown>
+}
+
+/** Console replacement handed to scripts; lines land in `logs` instead of the real console. */
+function createScriptConsole(logs: Array<string>, maxEntries: number) {
+    const formatArgs = (prefix: string, args: Array<unknown>): string => {
+        const msg = args
+            .map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a)))
+            .join(" ")
+        return prefix ? `[${prefix}] ${msg}` : msg
+    }
+    const capture =
+        (prefix: string) =>
+        (...args: Array<unknown>) => {
+            if (logs.length < maxEntries) {
+                logs.push(formatArgs(prefix, args))
+            } else if (logs.length === maxEntries) {
+                logs.push(`[warn] Log output truncated after ${maxEntries} lines`)
+            }
+        }
+    return {
+        log: capture(""),
+        info: capture(""),
+        debug: capture(""),
+        warn: capture("warn"),
+        error: capture("error"),
+    }
+}
+
+/** Names every script sees, in the order of createScriptScope's values. */
+export const SCRIPT_SCOPE_NAMES = [
+    "input",
+    "parseXML",
+    "toXML",
+    "parseCSV",
+    "toCSV",
+    "createDateFormatter",
+    "roundTo",
+    "reportValidation",
+    "reportCoverage",
+    "reportTrace",
+    "console",
+] as const
+
+/**
+ * Build the parameters a generated script runs with: `input`, the XML / CSV
+ * reader and writer helpers, the date / number shims used by node format
+ * patterns, the validation, coverage and trace reporters and a capturing `console`.
+ * With `injectGroovyShims` the Groovy shim functions are appended; their
+ * platform warnings are captured by the same console.
+ *
+ * Shared by executeScript and the vm-based server executor so every
+ * runtime exposes the same scope.
+ */
+export function createScriptScope(
+    input: string,
+    logs: Array<string>,
+    validation: Array<ValidationIssue>,
+    options?: ExecuteScriptOptions,
+    reports: ScriptReports = {},
+): ScriptScope {
+    const reportValidation = (issues: Array<ValidationIssue>) => {
+        validation.push(...issues)
+    }
+    const reportCoverage = (coverage: MappingCoverage) => {
+        reports.coverage?.(coverage)
+    }
+    const reportTrace = (trace: ExecutionTrace) => {
+        reports.trace?.(trace)
+    }
+    const scriptConsole = createScriptConsole(
+        logs,
+        options?.maxLogEntries ?? DEFAULT_MAX_LOG_ENTRIES,
+    )
+    const names: Array<string> = [...SCRIPT_SCOPE_NAMES]
+    const values: Array<unknown> = [
+        input,
+        parseXMLInput,
+        generateXMLOutput,
+        parseCSV,
+        toCSV,
+        createDateFormatter,
+        roundTo,
+        reportValidation,
+        reportCoverage,
+        reportTrace,
+        scriptConsole,
+    ]
+
+    // When running transpiled Groovy code, inject shim functions as
+    // additional named parameters so they're available in scope
+    if (options?.injectGroovyShims) {
+        // Skip shims already passed as base parameters (duplicate names are
+        // a syntax error in strict mode)
+        const shimNames = getGroovyShimParamNames()
+        // Platform shim warnings land in the run's logs like the script's own
+        const shimValues = getGroovyShimParamValues(options.platformData, scriptConsole)
+        shimNames.forEach((name, i) => {
+            if (names.includes(name)) return
+            names.push(name)
+            values.push(shimValues[i])
+        })
+    }
+
+    return { names, values }
+}
+
+/**
+ * Convert a script's return value to its output string, failing when it
+ * exceeds the configured output limit.
+ */
+export function toScriptOutput(result: unknown, options?: ExecuteScriptOptions): string {
+    const output = result != null ? String(result) : ""
+    const limit = options?.maxOutputLength ?? DEFAULT_MAX_OUTPUT_LENGTH
+    if (output.length > limit) {
+        throw new Error(`Script output exceeds the limit of ${limit} characters`)
+    }
+    return output
+}
+
+/**
+ * Executes a generated script string against input data in the calling
+ * realm. Returns {output, error} — never throws. The script's `console` is
+ * a capturing replacement; the global console is left untouched.
+ *
+ * This runs on the caller's thread with no timeout — the UI and chain runs
+ * go through executeScriptIsolated (script-executor.ts) or
+ * executeScriptInVm (script-executor.server.ts) instead.
  *
  * When `options.injectGroovyShims` is true, all Groovy shim functions
  * (createDateFormatter, roundTo, chunkArray, getText, etc.) are injected
  * as additional parameters into the script's scope.
+ *
+ * Issues the script hands to `reportValidation` are returned in `validation`;
+ * they do not fail the run. Counters and traces an instrumented script hands
+ * to `reportCoverage` / `reportTrace` are returned in `coverage` / `trace`.
+ * A failed run reports the script line it threw from in `errorLine`.
  */
 // eslint-disable-next-line @typescript-eslint/require-await
 export async function executeScript(
@@ -867,66 +1472,25 @@ export async function executeScript(
     options?: ExecuteScriptOptions,
 ): Promise<ScriptExecutionResult> {
     const start = performance.now()
-    const capturedLogs: string[] = []
-
-    // Intercept console methods to capture output
-    const origLog = console.log
-    const origWarn = console.warn
-    const origError = console.error
-
-    const formatArgs = (prefix: string, args: unknown[]): string => {
-        const msg = args
-            .map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a)))
-            .join(" ")
-        return prefix ? `[${prefix}] ${msg}` : msg
-    }
-
-    console.log = (...args: unknown[]) => {
-        capturedLogs.push(formatArgs("", args))
-        origLog.apply(console, args)
-    }
-    console.warn = (...args: unknown[]) => {
-        capturedLogs.push(formatArgs("warn", args))
-        origWarn.apply(console, args)
-    }
-    console.error = (...args: unknown[]) => {
-        capturedLogs.push(formatArgs("error", args))
-        origError.apply(console, args)
-    }
+    const capturedLogs: Array<string> = []
+    const validation: Array<ValidationIssue> = []
+    let coverage: MappingCoverage | undefined
+    let trace: ExecutionTrace | undefined
 
     try {
         const fullScript = `"use strict";\n${scriptBody}`
 
         // new Function creates a function in global scope (not module scope)
-        // We pass 'input', 'parseXML', and 'toXML' as base parameters
-        const baseParamNames = ["input", "parseXML", "toXML"]
-        const baseParamValues: unknown[] = [input, parseXMLInput, generateXMLOutput]
-
-        // When running transpiled Groovy code, inject shim functions as
-        // additional named parameters so they're available in scope
-        if (options?.injectGroovyShims) {
-            const shimNames = getGroovyShimParamNames()
-            const shimValues = getGroovyShimParamValues()
-            const allParamNames = [...baseParamNames, ...shimNames]
-            const allParamValues = [...baseParamValues, ...shimValues]
-
-            const fn = new Function(...allParamNames, fullScript)
-            const result = fn(...allParamValues)
-            const output = result != null ? String(result) : ""
-
-            return {
-                output,
-                error: null,
-                scriptBody,
-                durationMs: performance.now() - start,
-                logs: capturedLogs,
-            }
-        }
-
-        const fn = new Function(...baseParamNames, fullScript)
-        const result = fn(...baseParamValues)
-
-        const output = result != null ? String(result) : ""
+        const scope = createScriptScope(input, capturedLogs, validation, options, {
+            coverage: (counters) => {
+                coverage = counters
+            },
+            trace: (events) => {
+                trace = events
+            },
+        })
+        const fn = new Function(...scope.names, fullScript)
+        const output = toScriptOutput(fn(...scope.values), options)
 
         return {
             output,
@@ -934,19 +1498,22 @@ export async function executeScript(
             scriptBody,
             durationMs: performance.now() - start,
             logs: capturedLogs,
+            validation,
+            ...(coverage && { coverage }),
+            ...(trace && { trace }),
         }
     } catch (err) {
+        const errorLine = jsErrorLine(err, FUNCTION_HEADER_LINES)
         return {
             output: "",
             error: err instanceof Error ? err.message : String(err),
+            ...(errorLine !== null && { errorLine }),
             scriptBody,
             durationMs: performance.now() - start,
             logs: capturedLogs,
+            validation,
+            ...(coverage && { coverage }),
+            ...(trace && { trace }),
         }
-    } finally {
-        // Always restore console methods
-        console.log = origLog
-        console.warn = origWarn
-        console.error = origError
     }
 }
@@ -1,11 +1,40 @@
-import { findNodeById, getFullPath, traverseDown } from "./node-utils"
+import { CSV_ROWS_NODE_NAME, DEFAULT_CSV_OPTIONS } from "./csv"
+import {
+    findNodeById,
+    getFieldPath,
+    getFullPath,
+    getValidationMessage,
+    hasFieldFormats,
+    hasRequiredFields,
+    parseFieldFormat,
+    traverseDown,
+} from "./node-utils"
+import {
+    missingLibraryFunctionComment,
+    resolveFunctionBody,
+    resolveLookupEntries,
+} from "./shared-library"
+import { renameIdentifier } from "./rename"
+import { buildSourceMap, tagNodeLines, tagSectionLines } from "./source-map"
+import {
+    reachableSubmaps,
+    submapCall,
+    submapFunctionName,
+    submapProblem,
+    usesFieldRules,
+} from "./submaps"
+import type { DataFormat, GenerateScriptOptions } from "./engine"
+import type { SharedLibrary } from "./shared-library"
+import type { GeneratedScript } from "./source-map"
 import type {
+    CsvOptions,
     LoopCondition,
     LoopReference,
     MapperContext,
     MapperState,
     MapperTreeNode,
     SourceReference,
+    TransformFunction,
 } from "./types"
 
 // ============================================================
@@ -376,13 +405,18 @@ function generateGroovyGlobalVariables(context: MapperContext): string {
 }
 
 /**
- * Generate Groovy lookup table declarations as map literals.
+ * Generate Groovy lookup table declarations as map literals. Linked tables
+ * take their entries from the shared library.
  */
-function generateGroovyLookupTables(context: MapperContext): string {
+function generateGroovyLookupTables(context: MapperContext, library?: SharedLibrary): string {
     if (!context.lookupTables.length) return ""
 
     const lines = context.lookupTables.map((table) => {
-        const entries = table.entries
+        const resolved = resolveLookupEntries(table, library)
+        if (!resolved) {
+            return `// Library lookup table "${table.libraryTable}" not found\ndef ${table.name} = [:]`
+        }
+        const entries = resolved
             .map((e) => {
                 const val = e.plainTextValue ? quoteGroovyString(e.value) : e.value
                 return `  "${escapeGroovyString(e.key)}": ${val}`
@@ -397,9 +431,15 @@ function generateGroovyLookupTables(context: MapperContext): string {
  * Generate Groovy user-defined functions.
  * Functions are emitted as Groovy closures or verbatim if already Groovy.
  */
-function generateGroovyFunctions(context: MapperContext): string {
+function generateGroovyFunctions(context: MapperContext, library?: SharedLibrary): string {
     if (!context.functions.length) return ""
-    return context.functions.map((f) => f.body.trim()).join("\n\n")
+    return context.functions
+        .map((f) => {
+            const body = resolveFunctionBody(f, library)
+            if (body === null) return missingLibraryFunctionComment(f)
+            return tagSectionLines(body, { functionId: f.id })
+        })
+        .join("\n\n")
 }
 
 /**
@@ -456,6 +496,131 @@ function collectLoopScopedRefs(node: MapperTreeNode, loopId: string): Array<Sour
     return refs
 }
 
+// ============================================================
+// Field validation / format helpers (Groovy)
+// ============================================================
+
+/**
+ * Helpers emitted when target nodes carry nonEmpty or format rules.
+ * Mirror of generateFieldRuleHelpers() in engine.ts: issues are appended to
+ * the _validationIssues binding variable; dates accept Date, epoch millis,
+ * "yyyy-MM-dd" and ISO date-times (local unless an offset is given); numbers
+ * are rounded HALF_UP without trailing zeros.
+ */
+function generateGroovyFieldRuleHelpers(targetTree: MapperTreeNode): Array<string> {
+    const helpers: Array<string> = []
+
+    if (hasRequiredFields(targetTree)) {
+        helpers.push(
+            [
+                "def _isEmpty(value) {",
+                "    if (value == null) return true",
+                "    if (value instanceof CharSequence) return value.toString().trim().isEmpty()",
+                "    if (value instanceof Collection || value instanceof Map) return value.isEmpty()",
+                "    return false",
+                "}",
+                "",
+                "def _checkRequired(value, String expected, String nodeId, String path, String message) {",
+                "    if (_isEmpty(value)) {",
+                '        _validationIssues << [nodeId: nodeId, path: path, kind: "required", message: message]',
+                "        return",
+                "    }",
+                "    def isObject = value instanceof Map || value instanceof Collection",
+                '    def matches = expected == "array" ? value instanceof Collection',
+                '        : expected == "object" ? value instanceof Map',
+                "        : !isObject",
+                "    if (!matches) {",
+                '        def article = expected == "value" ? "a value" : "an " + expected',
+                '        _validationIssues << [nodeId: nodeId, path: path, kind: "type", message: "Expected " + article + " at \\"" + path + "\\""]',
+                "    }",
+                "}",
+            ].join("\n"),
+        )
+    }
+
+    if (hasFieldFormats(targetTree)) {
+        helpers.push(
+            [
+                "def _formatDate(value, String pattern, String nodeId, String path) {",
+                '    if (value == null || value.toString().trim() == "") return value',
+                "    def text = value.toString().trim()",
+                "    def date = null",
+                "    try {",
+                "        if (value instanceof Date) {",
+                "            date = value",
+                "        } else if (value instanceof Number) {",
+                "            date = new Date(value.longValue())",
+                "        } else if (text ==~ /\\d{4}-\\d{2}-\\d{2}/) {",
+                "            date = Date.from(java.time.LocalDate.parse(text).atStartOfDay(java.time.ZoneId.systemDefault()).toInstant())",
+                "        } else if (text ==~ /\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})/) {",
+                "            date = Date.from(java.time.OffsetDateTime.parse(text).toInstant())",
+                "        } else if (text ==~ /\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?/) {",
+                "            date = Date.from(java.time.LocalDateTime.parse(text).atZone(java.time.ZoneId.systemDefault()).toInstant())",
+                "        }",
+                "    } catch (Exception ignored) {",
+                "        date = null",
+                "    }",
+                "    if (date == null) {",
+                '        _validationIssues << [nodeId: nodeId, path: path, kind: "format", message: "Cannot format \\"" + text + "\\" as \\"" + pattern + "\\""]',
+                "        return value",
+                "    }",
+                "    return new java.text.SimpleDateFormat(pattern).format(date)",
+                "}",
+                "",
+                "def _formatNumber(value, int places, String nodeId, String path) {",
+                '    if (value == null || value.toString().trim() == "") return value',
+                "    def text = value.toString().trim()",
+                "    if (!text.isBigDecimal()) {",
+                '        _validationIssues << [nodeId: nodeId, path: path, kind: "format", message: "Cannot format \\"" + text + "\\" as a number"]',
+                "        return value",
+                "    }",
+                "    def rounded = new BigDecimal(text).setScale(places, java.math.RoundingMode.HALF_UP).stripTrailingZeros()",
+                "    return rounded.scale() < 0 ? rounded.setScale(0) : rounded",
+                "}",
+            ].join("\n"),
+        )
+    }
+
+    return helpers
+}
+
+/**
+ * Wrap a value expression in the helper matching the node's format pattern.
+ */
+function applyGroovyFieldFormat(
+    valueExpr: string,
+    node: MapperTreeNode,
+    targetTree: MapperTreeNode,
+): string {
+    const fieldFormat = parseFieldFormat(node.format)
+    if (!fieldFormat) return valueExpr
+    const issueArgs = `${quoteGroovyString(node.id)}, ${quoteGroovyString(getFieldPath(node, targetTree))}`
+    if (fieldFormat.kind === "number") {
+        return `_formatNumber(${valueExpr}, ${fieldFormat.places}, ${issueArgs})`
+    }
+    return `_formatDate(${valueExpr}, ${quoteGroovyString(fieldFormat.pattern)}, ${issueArgs})`
+}
+
+/**
+ * Shape a required node's built value must have: arrays hold items,
+ * nodes with children build objects, everything else holds a value.
+ */
+function expectedGroovyValueShape(node: MapperTreeNode): "array" | "object" | "value" {
+    if (node.type === "array") return "array"
+    if (node.type === "submap") return "object"
+    if (node.children?.some((c) => c.type !== "code")) return "object"
+    return "value"
+}
+
+/**
+ * Turn an output path into a null-safe read (output["a"]["b"] →
+ * output?.get("a")?.get("b")) so required checks on parents that were
+ * never created do not throw.
+ */
+function toGroovySafeAccess(outputPath: string): string {
+    return outputPath.replace(/\[("(?:[^"\\]|\\.)*")\]/g, "?.get($1)")
+}
+
 /**
  * Recursively generate Groovy code for a target node and all its children.
  * Mirrors generateTargetNode() from engine.ts but outputs Groovy syntax.
@@ -475,7 +640,7 @@ function generateGroovyTargetNode(
     // 1. Code nodes — inject verbatim
     if (node.type === "code") {
         if (node.value) lines.push(indent + node.value)
-        return lines.filter(Boolean).join("\n")
+        return tagNodeLines(lines.filter(Boolean).join("\n"), node.id)
     }
 
     // 2. Node condition (outer if)
@@ -552,8 +717,13 @@ function generateGroovyTargetNode(
         }
     }
 
-    // 4. Set value on this node (leaf assignment)
-    const valueExpr = buildGroovyValueExpression(node)
+    // 4. Set value on this node (leaf assignment) — a submap node's value is its map's output
+    const valueExpr =
+        node.type === "submap"
+            ? node.submapId
+                ? submapCall(node.submapId, buildGroovyValueExpression(node))
+                : null
+            : buildGroovyValueExpression(node)
     if (valueExpr !== null && node.type !== "array" && node.type !== "arrayChild") {
         const outputPath = buildGroovyOutputPath(
             node,
@@ -561,7 +731,8 @@ function generateGroovyTargetNode(
             state.targetTreeNode!,
             arrayTempVars,
         )
-        let line = `${indent}${outputPath} = ${valueExpr}`
+        const formatted = applyGroovyFieldFormat(valueExpr, node, state.targetTreeNode!)
+        let line = `${indent}${outputPath} = ${formatted}`
 
         // Debug comment
         if (state.mapperPreferences.debugComment && node.sourceReferences?.length) {
@@ -607,6 +778,20 @@ function generateGroovyTargetNode(
         lines.push(`${indent}}`)
     }
 
+    // 7b. Required check — runs once the node (and any array it loops into) is built
+    if (node.nonEmpty && node.type !== "arrayChild") {
+        const targetTree = state.targetTreeNode!
+        const outputPath = buildGroovyOutputPath(node, outputVar, targetTree, arrayTempVars)
+        const args = [
+            toGroovySafeAccess(outputPath),
+            quoteGroovyString(expectedGroovyValueShape(node)),
+            quoteGroovyString(node.id),
+            quoteGroovyString(getFieldPath(node, targetTree)),
+            quoteGroovyString(getValidationMessage(node, targetTree)),
+        ]
+        lines.push(`${indent}_checkRequired(${args.join(", ")})`)
+    }
+
     // 8. Close node condition if block
     if (hasNodeCondition) {
         indentLevel--
@@ -614,17 +799,23 @@ function generateGroovyTargetNode(
         lines.push(`${indent}}`)
     }
 
-    return lines.filter((l) => l !== "").join("\n")
+    // Child code is already tagged, so only this node's own lines take its id
+    return tagNodeLines(lines.filter((l) => l !== "").join("\n"), node.id)
 }
 
 /**
  * Generate the output construction section from the target tree root's children.
+ * `declareIssues` starts the list field rules append to — sub-maps use their caller's.
  */
-function generateGroovyOutputSection(state: MapperState): string {
+function generateGroovyOutputSection(state: MapperState, declareIssues: boolean): string {
     if (!state.targetTreeNode) return ""
 
     const lines: Array<string> = []
     lines.push("def output = [:]")
+    if (declareIssues) {
+        // Binding variable (no def) so the helper methods can append to it
+        lines.push("_validationIssues = []")
+    }
 
     for (const child of state.targetTreeNode.children ?? []) {
         const code = generateGroovyTargetNode(child, state, "output", 0, null, null)
@@ -634,33 +825,128 @@ function generateGroovyOutputSection(state: MapperState): string {
     return lines.join("\n")
 }
 
+/**
+ * One script-level method per sub-map the map reaches (submaps.ts): it takes
+ * the sub-map's input as sourceData and returns the sub-map's output map.
+ * Methods cannot nest, so a sub-map's functions and field rule helpers are
+ * emitted next to its method unless the same text is in `emitted` already. A
+ * sub-map function named like a different function of the map or of an
+ * earlier sub-map is emitted as <sub-map method>_<name>, and the sub-map's
+ * code calls it by that name. A sub-map that cannot run generates a method
+ * that throws why. The lines map to the submap node of this map each sub-map
+ * is reached through.
+ */
+function generateGroovySubmapMethods(
+    state: MapperState,
+    library: SharedLibrary | undefined,
+    emitted: Set<string>,
+): string {
+    const submaps = library?.submaps ?? {}
+    // Script-level method name → the function text defining it
+    const methods = new Map<string, string>()
+    for (const f of state.localContext.functions) {
+        const code = resolveFunctionBody(f, library)?.trim()
+        if (code) methods.set(functionMethodName(f, code), code)
+    }
+
+    return reachableSubmaps(state, submaps)
+        .map(({ mapId, nodeId }) => {
+            const name = submapFunctionName(mapId)
+            const problem = submapProblem(mapId, "groovy", submaps)
+            if (problem) {
+                const code = `def ${name}(sourceData) {\n    throw new RuntimeException(${quoteGroovyString(problem)})\n}`
+                return tagNodeLines(code, nodeId)
+            }
+
+            const submap = submaps[mapId].state
+            const ctx = submap.localContext
+            const renames: Array<{ from: string; to: string }> = []
+            for (const f of ctx.functions) {
+                const code = resolveFunctionBody(f, library)?.trim()
+                if (!code) continue
+                const methodName = functionMethodName(f, code)
+                const defined = methods.get(methodName)
+                if (defined === undefined) methods.set(methodName, code)
+                else if (defined !== code)
+                    renames.push({ from: methodName, to: `${name}_${methodName}` })
+            }
+            const rename = (code: string) =>
+                renames.reduce((c, { from, to }) => renameIdentifier(c, from, to, "groovy"), code)
+
+            const hoisted = [
+                ...ctx.functions.map((f) => {
+                    const code = resolveFunctionBody(f, library)?.trim()
+                    return code ? rename(code) : missingLibraryFunctionComment(f)
+                }),
+                ...(submap.targetTreeNode
+                    ? generateGroovyFieldRuleHelpers(submap.targetTreeNode)
+                    : []),
+            ].filter((code) => !emitted.has(code))
+            for (const code of hoisted) emitted.add(code)
+
+            const body = [
+                generateGroovyGlobalVariables(ctx),
+                generateGroovyLookupTables(ctx, library),
+                ctx.prologScript?.trim() ?? "",
+                generateGroovySourceRefVariables(submap),
+                generateGroovyOutputSection(submap, false),
+                ctx.epilogScript?.trim() ?? "",
+                "return output",
+            ].filter(Boolean)
+            const method = [
+                `def ${name}(sourceData) {`,
+                ...buildSourceMap(rename(body.join("\n\n")))
+                    .script.split("\n")
+                    .map((line) => (line ? `    ${line}` : line)),
+                "}",
+            ].join("\n")
+            return tagNodeLines([...hoisted, method].join("\n\n"), nodeId)
+        })
+        .join("\n\n")
+}
+
+/** Name of the method a function defines — its own name, else the one in its definition. */
+function functionMethodName(fn: TransformFunction, code: string): string {
+    return fn.name.trim() || (/\b([A-Za-z_]\w*)\s*\(/.exec(code)?.[1] ?? "")
+}
+
 // ============================================================
 // Import detection
 // ============================================================
 
 /**
  * Detects which Groovy/Java imports are needed based on the state's code.
- * Scans prolog/epilog, function bodies, global variable values, and custom code.
+ * Scans prolog/epilog, function bodies (imported ones as resolved against
+ * `library`), global variable values, and custom code — of the map and of
+ * every sub-map it reaches.
  */
-export function detectRequiredImports(state: MapperState): string[] {
+export function detectRequiredImports(state: MapperState, library?: SharedLibrary): string[] {
     const imports = new Set<string>()
     const codeFragments: string[] = []
+    const submaps = library?.submaps ?? {}
+    const states = [
+        state,
+        ...reachableSubmaps(state, submaps).flatMap(({ mapId }) =>
+            Object.hasOwn(submaps, mapId) ? [submaps[mapId].state] : [],
+        ),
+    ]
 
     // Collect all code fragments to scan
-    const ctx = state.localContext
-    if (ctx.prologScript) codeFragments.push(ctx.prologScript)
-    if (ctx.epilogScript) codeFragments.push(ctx.epilogScript)
-    for (const f of ctx.functions) codeFragments.push(f.body)
-    for (const gv of ctx.globalVariables) {
-        if (!gv.plainTextValue) codeFragments.push(gv.value)
-    }
-
-    // Scan target tree for custom code
-    if (state.targetTreeNode) {
-        traverseDown(state.targetTreeNode, (node) => {
-            if (node.customCode) codeFragments.push(node.customCode)
-            if (node.value && !node.plainTextValue) codeFragments.push(node.value)
-        })
+    for (const { localContext: ctx, targetTreeNode } of states) {
+        if (ctx.prologScript) codeFragments.push(ctx.prologScript)
+        if (ctx.epilogScript) codeFragments.push(ctx.epilogScript)
+        for (const f of ctx.functions) codeFragments.push(resolveFunctionBody(f, library) ?? "")
+        for (const gv of ctx.globalVariables) {
+            if (!gv.plainTextValue) codeFragments.push(gv.value)
+        }
+
+        // Scan target tree for custom code
+        if (targetTreeNode) {
+            traverseDown(targetTreeNode, (node) => {
+                if (node.customCode) codeFragments.push(node.customCode)
+                if (node.value && !node.plainTextValue) codeFragments.push(node.value)
+            })
+        }
     }
 
     const allCode = codeFragments.join("\n")
@@ -746,19 +1032,143 @@ function generateXmlOutputHelper(): string {
     ].join("\n")
 }
 
+// ============================================================
+// CSV reader / writer helper generation
+// ============================================================
+
+/**
+ * Generate the Groovy CSV reader (parseCsv) — mirror of parseCSV() in csv.ts:
+ * RFC 4180 quoting, blank lines skipped, header names trimmed, columns
+ * without a header named column1..N.
+ */
+function generateCsvInputHelper(): string {
+    return [
+        "def parseCsv(String text, String delimiter, String quote, boolean hasHeader) {",
+        "    def records = []",
+        "    def record = []",
+        "    def field = new StringBuilder()",
+        "    def inQuotes = false",
+        "    def fieldStarted = false",
+        "    def endRecord = {",
+        "        record << field.toString()",
+        '        if (record.size() > 1 || record[0] != "" || fieldStarted) records << record',
+        "        record = []",
+        "        field.setLength(0)",
+        "        fieldStarted = false",
+        "    }",
+        "    def i = 0",
+        "    while (i < text.length()) {",
+        "        def ch = text[i]",
+        "        if (inQuotes) {",
+        "            if (ch == quote) {",
+        "                if (i + 1 < text.length() && text[i + 1] == quote) {",
+        "                    field.append(quote)",
+        "                    i++",
+        "                } else {",
+        "                    inQuotes = false",
+        "                }",
+        "            } else {",
+        "                field.append(ch)",
+        "            }",
+        "        } else if (ch == quote && field.length() == 0) {",
+        "            inQuotes = true",
+        "            fieldStarted = true",
+        "        } else if (ch == delimiter) {",
+        "            record << field.toString()",
+        "            field.setLength(0)",
+        "            fieldStarted = true",
+        '        } else if (ch == "\\n" || ch == "\\r") {',
+        '            if (ch == "\\r" && i + 1 < text.length() && text[i + 1] == "\\n") i++',
+        "            endRecord()",
+        "        } else {",
+        "            field.append(ch)",
+        "        }",
+        "        i++",
+        "    }",
+        "    if (field.length() > 0 || record.size() > 0 || fieldStarted) endRecord()",
+        "",
+        "    def header = hasHeader ? (records ? records.remove(0) : []) : null",
+        "    return records.collect { r ->",
+        "        def row = [:]",
+        "        r.eachWithIndex { value, idx ->",
+        '            def name = header != null && idx < header.size() ? header[idx].trim() : ""',
+        '            row[name ?: "column${idx + 1}".toString()] = value',
+        "        }",
+        "        row",
+        "    }",
+        "}",
+    ].join("\n")
+}
+
+/**
+ * Generate the Groovy CSV writer (buildCsv) — mirror of toCSV() in csv.ts:
+ * columns are the union of row keys in first-seen order, nested values are
+ * written as JSON.
+ */
+function generateCsvOutputHelper(): string {
+    return [
+        "def buildCsv(rows, String delimiter, String quote, boolean hasHeader) {",
+        "    def list = rows instanceof List ? rows : (rows == null ? [] : [rows])",
+        "    def records = list.collect { it instanceof Map ? it : [value: it] }",
+        "    def columns = new LinkedHashSet()",
+        "    records.each { row -> columns.addAll(row.keySet()) }",
+        "    def escape = { value ->",
+        '        if (value == null) return ""',
+        "        def text = (value instanceof Map || value instanceof List)",
+        "            ? groovy.json.JsonOutput.toJson(value)",
+        "            : value.toString()",
+        '        if (text.contains(delimiter) || text.contains(quote) || text.contains("\\n") || text.contains("\\r")) {',
+        "            return quote + text.replace(quote, quote + quote) + quote",
+        "        }",
+        "        return text",
+        "    }",
+        "    def lines = []",
+        "    if (hasHeader) lines << columns.collect { escape(it) }.join(delimiter)",
+        "    records.each { row -> lines << columns.collect { escape(row[it]) }.join(delimiter) }",
+        '    return lines.join("\\n")',
+        "}",
+    ].join("\n")
+}
+
+/** Groovy argument list for parseCsv / buildCsv from a CsvOptions value. */
+function groovyCsvArgs(options: CsvOptions): string {
+    return [
+        quoteGroovyString(options.delimiter),
+        quoteGroovyString(options.quote),
+        String(options.hasHeader),
+    ].join(", ")
+}
+
 // ============================================================
 // Main public API
 // ============================================================
 
+/** Groovy scripts are not instrumented — only the shared library applies. */
+export type GenerateGroovyScriptOptions = Pick<GenerateScriptOptions, "library">
+
 /**
  * Generates a Groovy script string from a MapperState.
  * Mirror of generateScript() from engine.ts but outputs Groovy syntax.
  */
 export function generateGroovyScript(
     state: MapperState,
-    inputType: "json" | "xml",
-    outputType: "json" | "xml",
+    inputType: DataFormat,
+    outputType: DataFormat,
+    options: GenerateGroovyScriptOptions = {},
 ): string {
+    return generateGroovyScriptWithSourceMap(state, inputType, outputType, options).script
+}
+
+/**
+ * generateGroovyScript plus the origin of every script line (source-map.ts),
+ * so the line of a sidecar error resolves to the node or section behind it.
+ */
+export function generateGroovyScriptWithSourceMap(
+    state: MapperState,
+    inputType: DataFormat,
+    outputType: DataFormat,
+    options: GenerateGroovyScriptOptions = {},
+): GeneratedScript {
     const sections: Array<string> = []
 
     // 1. Imports
@@ -777,7 +1187,7 @@ export function generateGroovyScript(
     }
 
     // Detect additional imports from user code
-    const additionalImports = detectRequiredImports(state)
+    const additionalImports = detectRequiredImports(state, options.library)
     const allImports = [...new Set([...baseImports, ...additionalImports])]
     if (allImports.length > 0) {
         sections.push(allImports.join("\n"))
@@ -786,6 +1196,11 @@ export function generateGroovyScript(
     // 2. Parse input
     if (inputType === "xml") {
         sections.push("def sourceData = new XmlSlurper().parseText(input)")
+    } else if (inputType === "csv") {
+        // CSV records are exposed as sourceData.rows — the shape parseCSV models
+        sections.push(generateCsvInputHelper())
+        const csvArgs = groovyCsvArgs(state.sourceCsvOptions ?? DEFAULT_CSV_OPTIONS)
+        sections.push(`def sourceData = [${CSV_ROWS_NODE_NAME}: parseCsv(input, ${csvArgs})]`)
     } else {
         sections.push("def sourceData = new JsonSlurper().parseText(input)")
     }
@@ -795,42 +1210,78 @@ export function generateGroovyScript(
     if (globalVarsCode) sections.push(globalVarsCode)
 
     // 4. Lookup tables
-    const lookupCode = generateGroovyLookupTables(state.localContext)
+    const lookupCode = generateGroovyLookupTables(state.localContext, options.library)
     if (lookupCode) sections.push(lookupCode)
 
     // 5. User-defined functions
-    const functionsCode = generateGroovyFunctions(state.localContext)
+    const functionsCode = generateGroovyFunctions(state.localContext, options.library)
     if (functionsCode) sections.push(functionsCode)
 
+    // 5b. Sub-maps, after the functions and helpers they would otherwise repeat
+    const fieldRuleHelpers = state.targetTreeNode
+        ? generateGroovyFieldRuleHelpers(state.targetTreeNode)
+        : []
+    const emitted = new Set([
+        ...state.localContext.functions.map(
+            (f) =>
+                resolveFunctionBody(f, options.library)?.trim() ?? missingLibraryFunctionComment(f),
+        ),
+        ...fieldRuleHelpers,
+    ])
+    const submapsCode = generateGroovySubmapMethods(state, options.library, emitted)
+    if (submapsCode) sections.push(submapsCode)
+
     // 6. Prolog script (verbatim)
     if (state.localContext.prologScript?.trim()) {
-        sections.push(state.localContext.prologScript.trim())
+        sections.push(tagSectionLines(state.localContext.prologScript, "prolog"))
     }
 
     // 7. Top-level source reference variable declarations
     const sourceRefVars = generateGroovySourceRefVariables(state)
     if (sourceRefVars) sections.push(sourceRefVars)
 
+    // 7b. nonEmpty / format helpers
+    if (fieldRuleHelpers.length > 0) sections.push(fieldRuleHelpers.join("\n\n"))
+
     // 8. Output construction
-    const outputSection = generateGroovyOutputSection(state)
+    const collectsIssues = usesFieldRules(state, options.library?.submaps)
+    const outputSection = generateGroovyOutputSection(state, collectsIssues)
     if (outputSection) sections.push(outputSection)
 
     // 9. Epilog script (verbatim)
     if (state.localContext.epilogScript?.trim()) {
-        sections.push(state.localContext.epilogScript.trim())
+        sections.push(tagSectionLines(state.localContext.epilogScript, "epilog"))
+    }
+
+    // 9b. Hand validation issues to the runtime (the sidecar binds reportValidation);
+    // without one, fail with every collected message
+    if (collectsIssues) {
+        sections.push(
+            [
+                "if (!_validationIssues.isEmpty()) {",
+                '    if (binding.hasVariable("reportValidation")) reportValidation(_validationIssues)',
+                '    else throw new RuntimeException(_validationIssues.collect { it.message }.join("\\n"))',
+                "}",
+            ].join("\n"),
+        )
     }
 
-    // 10. XML output helper (if needed)
+    // 10. XML / CSV output helper (if needed)
     if (outputType === "xml") {
         sections.push(generateXmlOutputHelper())
+    } else if (outputType === "csv") {
+        sections.push(generateCsvOutputHelper())
     }
 
     // 11. Return output
     if (outputType === "xml") {
         sections.push("return buildXml(output)")
+    } else if (outputType === "csv") {
+        const csvArgs = groovyCsvArgs(state.targetCsvOptions ?? DEFAULT_CSV_OPTIONS)
+        sections.push(`return buildCsv(output["${CSV_ROWS_NODE_NAME}"], ${csvArgs})`)
     } else {
         sections.push("return new JsonBuilder(output).toPrettyString()")
     }
 
-    return sections.join("\n\n")
+    return buildSourceMap(sections.join("\n\n"))
 }
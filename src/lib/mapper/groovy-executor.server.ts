@@ -1,13 +1,63 @@
 import { createServerFn } from "@tanstack/react-start"
 import { z } from "zod"
+import { loadPlatformData } from "./platform-data.server"
+import type { ValidationIssue } from "./engine"
+import type { PlatformData } from "./platform-data"
+import { requireRole } from "@/lib/auth-middleware"
 
 const GROOVY_SIDECAR_URL = process.env.GROOVY_SIDECAR_URL || "http://localhost:8090"
 
 // ============================================================
-// executeGroovyScript — Send a Groovy script to the sidecar for execution
+// runGroovyOnSidecar — Send a Groovy script to the sidecar for execution
 // ============================================================
 
+export interface GroovyExecutionResult {
+    output: string
+    error: string | null
+    errorLine?: number | null // Script line of the error — not reported by older sidecars
+    logs: Array<string>
+    durationMs: number
+    validation: Array<ValidationIssue>
+}
+
+/**
+ * Runs a Groovy script on the sidecar. Server-only — used directly by
+ * server-side chain runs and wrapped by executeGroovyScript for the browser.
+ * Throws when the sidecar itself fails; script errors come back in `error`.
+ * The script's JTUtil / JTLookupUtil calls resolve against `platformData`.
+ */
+export async function runGroovyOnSidecar(
+    script: string,
+    input: string,
+    timeout = 30000,
+    platformData?: PlatformData,
+): Promise<GroovyExecutionResult> {
+    const response = await fetch(`${GROOVY_SIDECAR_URL}/execute`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ script, input, timeout, platformData }),
+    })
+
+    if (!response.ok) {
+        const text = await response.text()
+        throw new Error(`Groovy sidecar error (${response.status}): ${text}`)
+    }
+
+    const result = (await response.json()) as Omit<GroovyExecutionResult, "validation"> & {
+        validation?: Array<ValidationIssue>
+    }
+    // Older sidecar images do not report validation issues
+    return { ...result, validation: result.validation ?? [] }
+}
+
+/**
+ * Runs a Groovy script for the execute dialog, map tests and browser chain
+ * runs. Like a JavaScript run, which happens in the browser, it changes
+ * nothing, so every member may run maps in either language — API tokens need
+ * the "execute" scope.
+ */
 export const executeGroovyScript = createServerFn({ method: "POST" })
+    .middleware([requireRole("viewer", "execute")])
     .inputValidator(
         z.object({
             script: z.string(),
@@ -15,30 +65,14 @@ export const executeGroovyScript = createServerFn({ method: "POST" })
             timeout: z.number().int().min(1000).max(120000).optional(),
         }),
     )
-    .handler(async ({ data }) => {
-        const response = await fetch(`${GROOVY_SIDECAR_URL}/execute`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-                script: data.script,
-                input: data.input,
-                timeout: data.timeout ?? 30000,
-            }),
-        })
-
-        if (!response.ok) {
-            const text = await response.text()
-            throw new Error(`Groovy sidecar error (${response.status}): ${text}`)
-        }
-
-        const result = await response.json()
-        return result as {
-            output: string
-            error: string | null
-            logs: string[]
-            durationMs: number
-        }
-    })
+    .handler(async ({ data, context }) =>
+        runGroovyOnSidecar(
+            data.script,
+            data.input,
+            data.timeout,
+            await loadPlatformData(context.workspaceId),
+        ),
+    )
 
 // ============================================================
 // checkGroovySidecar — Check if the Groovy sidecar is available
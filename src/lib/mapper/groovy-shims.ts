@@ -13,9 +13,12 @@
  *   - deepFindAll(root, predicate) — .'**'.findAll
  *   - getISOCountries() — Locale.getISOCountries()
  *   - stringFormat(fmt, ...args) — String.format()
- *   - jtShims.* — Platform API stubs (JTUtil, JTLookupUtil, JTV3Utils)
+ *   - jtShims.* — Platform API (JTUtil, JTLookupUtil, JTV3Utils), answered from platform data
  */
 
+import { resolveGlobalData, resolveLookupTable, resolveLookupTableValue } from "./platform-data"
+import type { PlatformData } from "./platform-data"
+
 // ============================================================
 // 7.2 — Date Formatting Shims
 // ============================================================
@@ -995,35 +998,6 @@ export function xmlProxy(node: unknown): unknown {
 // 7.7 — Platform API Stubs
 // ============================================================
 
-/** JTUtil stub — platform data/logging API */
-const JTUtil = {
-    getGlobalData: (...args: unknown[]) => {
-        console.warn("[JTUtil.getGlobalData] Platform API not available — returning null", args)
-        return null
-    },
-    logFailureEvent: (...args: unknown[]) => {
-        console.error("[JTUtil.logFailureEvent]", ...args)
-    },
-}
-
-/** JTLookupUtil stub — lookup table API */
-const JTLookupUtil = {
-    getLookupTable: (...args: unknown[]) => {
-        console.warn(
-            "[JTLookupUtil.getLookupTable] Platform API not available — returning {}",
-            args,
-        )
-        return {}
-    },
-    getLookupTableValue: (...args: unknown[]) => {
-        console.warn(
-            "[JTLookupUtil.getLookupTableValue] Platform API not available — returning null",
-            args,
-        )
-        return null
-    },
-}
-
 /** JTJSONObject stub — thin wrapper around plain JS object */
 class JTJSONObject {
     private data: Record<string, unknown>
@@ -1059,32 +1033,69 @@ const JsonSlurper = {
 }
 
 /**
- * Combined platform API stubs object.
+ * Combined platform API shims (JTUtil, JTLookupUtil, ...).
  * The transpiler emits calls like `jtShims.getGlobalData(...)`.
- * This is a Proxy that handles any method call with a warning.
+ * getGlobalData and the lookup table calls resolve against `platformData`
+ * (see platform-data.ts); without data, or for entries the data does not
+ * have, they warn and return null, as the Groovy sidecar does. The Proxy handles
+ * any other platform method call with a warning. Warnings go to `log` —
+ * executeScript passes the run's capturing console.
  */
-const jtShimsBase: Record<string, (...args: unknown[]) => unknown> = {
-    // JTUtil methods
-    getGlobalData: JTUtil.getGlobalData,
-    logFailureEvent: JTUtil.logFailureEvent,
-
-    // JTLookupUtil methods
-    getLookupTable: JTLookupUtil.getLookupTable,
-    getLookupTableValue: JTLookupUtil.getLookupTableValue,
+export function createJtShims(
+    platformData?: PlatformData,
+    log: Pick<Console, "warn" | "error"> = console,
+) {
+    const base: Record<string, (...args: unknown[]) => unknown> = {
+        // JTUtil methods
+        getGlobalData: (...args: unknown[]) => {
+            const value = platformData ? resolveGlobalData(platformData, args) : null
+            if (value === null) {
+                log.warn("[JTUtil.getGlobalData] No platform data for key — returning null", args)
+            }
+            return value
+        },
+        logFailureEvent: (...args: unknown[]) => {
+            log.error("[JTUtil.logFailureEvent]", ...args)
+        },
+
+        // JTLookupUtil methods
+        getLookupTable: (...args: unknown[]) => {
+            const table = platformData ? resolveLookupTable(platformData, args) : null
+            if (table === null) {
+                log.warn(
+                    "[JTLookupUtil.getLookupTable] No platform lookup table — returning null",
+                    args,
+                )
+            }
+            return table
+        },
+        getLookupTableValue: (...args: unknown[]) => {
+            const value = platformData ? resolveLookupTableValue(platformData, args) : null
+            if (value === null) {
+                log.warn(
+                    "[JTLookupUtil.getLookupTableValue] No platform lookup value — returning null",
+                    args,
+                )
+            }
+            return value
+        },
+    }
+
+    return new Proxy(base, {
+        get(target, prop: string | symbol) {
+            if (typeof prop === "symbol") return undefined
+            if (prop in target) return target[prop]
+            // Catch-all for any unknown platform method
+            return (...args: unknown[]) => {
+                log.warn(`[jtShims.${prop}] Platform API not available — returning null`, args)
+                return null
+            }
+        },
+    })
 }
 
-/** Proxy-based catch-all for unknown platform methods */
-export const jtShims = new Proxy(jtShimsBase, {
-    get(target, prop: string | symbol) {
-        if (typeof prop === "symbol") return undefined
-        if (prop in target) return target[prop]
-        // Catch-all for any unknown platform method
-        return (...args: unknown[]) => {
-            console.warn(`[jtShims.${prop}] Platform API not available — returning null`, args)
-            return null
-        }
-    },
-})
+/** Platform shims without platform data */
+export const jtShims = createJtShims()
 
 // ============================================================
 // 7.8 — String Utility Shims
@@ -1183,9 +1194,17 @@ export function getGroovyShimParamNames(): string[] {
     return Object.keys(groovyShims)
 }
 
-/** Returns the corresponding argument values in the same order */
-export function getGroovyShimParamValues(): unknown[] {
-    return Object.values(groovyShims)
+/**
+ * Returns the corresponding argument values in the same order. With
+ * `platformData`, jtShims resolves platform calls against it; with `log`,
+ * jtShims warns there instead of on the global console.
+ */
+export function getGroovyShimParamValues(
+    platformData?: PlatformData,
+    log?: Pick<Console, "warn" | "error">,
+): unknown[] {
+    if (!platformData && !log) return Object.values(groovyShims)
+    return Object.values({ ...groovyShims, jtShims: createJtShims(platformData, log) })
 }
 
 /**
@@ -1237,7 +1256,7 @@ ${xmlProxy.toString()}
 const jtShims = new Proxy({
     getGlobalData: function(...args) { console.warn('[JTUtil.getGlobalData] Platform API not available — returning null', args); return null; },
     logFailureEvent: function(...args) { console.error('[JTUtil.logFailureEvent]', ...args); },
-    getLookupTable: function(...args) { console.warn('[JTLookupUtil.getLookupTable] Platform API not available — returning {}', args); return {}; },
+    getLookupTable: function(...args) { console.warn('[JTLookupUtil.getLookupTable] Platform API not available — returning null', args); return null; },
     getLookupTableValue: function(...args) { console.warn('[JTLookupUtil.getLookupTableValue] Platform API not available — returning null', args); return null; },
 }, {
     get(target, prop) {
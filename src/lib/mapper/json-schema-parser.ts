@@ -0,0 +1,256 @@
+import { createNode } from "./node-utils"
+import type { MapperTreeNode } from "./types"
+
+// ============================================================
+// JSON Schema reader (draft-07 / 2020-12)
+// ============================================================
+// Builds a MapperTreeNode model from a JSON Schema instead of a sample
+// instance. The tree has the same shape parseJSON + fromParserTreeNode
+// would produce for a conforming document: a "root" node whose children
+// are the top-level properties, arrays as 'array' + 'arrayChild' "[]".
+
+type Schema = Record<string, unknown>
+
+interface BuildContext {
+    document: Schema
+    refStack: Set<string> // $refs being expanded — guards against recursive definitions
+}
+
+// ============================================================
+// Schema helpers
+// ============================================================
+
+function isSchemaObject(value: unknown): value is Schema {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** Resolve a local JSON Pointer ("#/$defs/Address") against the root document. */
+function resolvePointer(document: Schema, ref: string): Schema | null {
+    if (ref === "#") return document
+    if (!ref.startsWith("#/")) return null
+
+    let current: unknown = document
+    for (const raw of ref.slice(2).split("/")) {
+        const segment = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~")
+        if (!isSchemaObject(current)) return null
+        current = current[segment]
+    }
+    return isSchemaObject(current) ? current : null
+}
+
+function schemaTypes(schema: Schema): Array<string> {
+    const type = schema.type
+    if (typeof type === "string") return [type]
+    if (Array.isArray(type)) return type.filter((t): t is string => typeof t === "string")
+    return []
+}
+
+/**
+ * Flatten a schema into a single object shape: resolves $ref and merges
+ * allOf / oneOf / anyOf branches. oneOf / anyOf alternatives are unioned —
+ * the model must be able to address any field the payload may carry.
+ *
+ * Resolved refs stay on ctx.refStack (and are recorded in `expanded`) so the
+ * caller can keep them blocked while building the flattened schema's children.
+ */
+function flattenSchema(schema: Schema, ctx: BuildContext, expanded: Array<string>): Schema {
+    let base: Schema = { ...schema }
+
+    if (typeof schema.$ref === "string") {
+        const ref = schema.$ref
+        delete base.$ref
+        // Unresolvable or recursive refs contribute nothing — the node stays a leaf
+        const target = ctx.refStack.has(ref) ? null : resolvePointer(ctx.document, ref)
+        if (target) {
+            ctx.refStack.add(ref)
+            expanded.push(ref)
+            // Sibling keywords (allowed since 2019-09) override the referenced schema
+            base = mergeSchemas(flattenSchema(target, ctx, expanded), base)
+        }
+    }
+
+    for (const keyword of ["allOf", "oneOf", "anyOf"] as const) {
+        const branches = schema[keyword]
+        if (!Array.isArray(branches)) continue
+        delete base[keyword]
+        for (const branch of branches) {
+            if (!isSchemaObject(branch)) continue
+            const flat = flattenSchema(branch, ctx, expanded)
+            // Only allOf makes a branch's "required" binding on the whole object
+            if (keyword !== "allOf") delete flat.required
+            base = mergeSchemas(base, flat)
+        }
+    }
+
+    return base
+}
+
+/** Shallow-merge two schemas, combining properties, required and type lists. */
+function mergeSchemas(a: Schema, b: Schema): Schema {
+    const merged: Schema = { ...a, ...b }
+
+    const propsA = isSchemaObject(a.properties) ? a.properties : {}
+    const propsB = isSchemaObject(b.properties) ? b.properties : {}
+    if (a.properties || b.properties) {
+        const props: Schema = { ...propsA }
+        for (const [key, value] of Object.entries(propsB)) {
+            const existing = props[key]
+            props[key] =
+                isSchemaObject(existing) && isSchemaObject(value)
+                    ? mergeSchemas(existing, value)
+                    : value
+        }
+        merged.properties = props
+    }
+
+    const reqA = Array.isArray(a.required) ? a.required : []
+    const reqB = Array.isArray(b.required) ? b.required : []
+    if (reqA.length || reqB.length) merged.required = Array.from(new Set([...reqA, ...reqB]))
+
+    const typesA = schemaTypes(a)
+    const typesB = schemaTypes(b)
+    if (typesA.length && typesB.length) {
+        merged.type = Array.from(new Set([...typesA, ...typesB]))
+    }
+    return merged
+}
+
+function isArraySchema(schema: Schema): boolean {
+    const types = schemaTypes(schema)
+    if (types.includes("array")) return true
+    return types.length === 0 && ("items" in schema || "prefixItems" in schema)
+}
+
+function isObjectSchema(schema: Schema): boolean {
+    const types = schemaTypes(schema)
+    if (types.includes("object")) return true
+    return types.length === 0 && isSchemaObject(schema.properties)
+}
+
+/** The item schema of an array: `items`, or the first `prefixItems` entry. */
+function itemSchema(schema: Schema): Schema | null {
+    if (isSchemaObject(schema.items)) return schema.items
+    // draft-07 tuple form: items is an array
+    if (Array.isArray(schema.items) && isSchemaObject(schema.items[0])) return schema.items[0]
+    if (Array.isArray(schema.prefixItems) && isSchemaObject(schema.prefixItems[0])) {
+        return schema.prefixItems[0]
+    }
+    return null
+}
+
+// ============================================================
+// Tree builder
+// ============================================================
+
+function applyAnnotations(node: MapperTreeNode, schema: Schema): void {
+    if (typeof schema.description === "string" && schema.description.trim()) {
+        node.comment = schema.description.trim()
+    }
+    if (typeof schema.format === "string" && schema.format.trim()) {
+        node.format = schema.format.trim()
+    }
+}
+
+function buildProperties(schema: Schema, ctx: BuildContext): Array<MapperTreeNode> {
+    if (!isSchemaObject(schema.properties)) return []
+    const required = new Set(
+        Array.isArray(schema.required)
+            ? schema.required.filter((r): r is string => typeof r === "string")
+            : [],
+    )
+
+    const children: Array<MapperTreeNode> = []
+    for (const [name, propSchema] of Object.entries(schema.properties)) {
+        if (!isSchemaObject(propSchema)) continue
+        const child = buildNode(name, propSchema, ctx)
+        if (required.has(name)) child.nonEmpty = true
+        children.push(child)
+    }
+    return children
+}
+
+/** Flatten `raw`, then build its content with the refs it expanded still blocked. */
+function withFlattened<T>(raw: Schema, ctx: BuildContext, build: (schema: Schema) => T): T {
+    const expanded: Array<string> = []
+    try {
+        return build(flattenSchema(raw, ctx, expanded))
+    } finally {
+        for (const ref of expanded) ctx.refStack.delete(ref)
+    }
+}
+
+function buildNode(name: string, rawSchema: Schema, ctx: BuildContext): MapperTreeNode {
+    return withFlattened(rawSchema, ctx, (schema) => {
+        if (isArraySchema(schema)) {
+            const arrayNode = createNode(name, "array")
+            applyAnnotations(arrayNode, schema)
+            arrayNode.children = [buildArrayChild(schema, ctx)]
+            return arrayNode
+        }
+
+        const node = createNode(name, "element")
+        applyAnnotations(node, schema)
+        if (isObjectSchema(schema)) {
+            const children = buildProperties(schema, ctx)
+            if (children.length > 0) node.children = children
+        }
+        return node
+    })
+}
+
+function buildArrayChild(arraySchema: Schema, ctx: BuildContext): MapperTreeNode {
+    const arrayChild = createNode("[]", "arrayChild")
+    const raw = itemSchema(arraySchema)
+    if (!raw) return arrayChild
+
+    return withFlattened(raw, ctx, (items) => {
+        applyAnnotations(arrayChild, items)
+        if (isObjectSchema(items)) {
+            const children = buildProperties(items, ctx)
+            if (children.length > 0) arrayChild.children = children
+        } else if (isArraySchema(items)) {
+            // Array of arrays — the nested array becomes the item template's only child
+            arrayChild.children = [buildNode("[]", items, ctx)]
+        }
+        return arrayChild
+    })
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Returns true if the content looks like a JSON Schema rather than a sample
+ * instance. Only an explicit `$schema` keyword is treated as proof —
+ * instances may legitimately carry "type" / "properties" fields.
+ */
+export function isJsonSchemaContent(content: string): boolean {
+    try {
+        const value = JSON.parse(content) as unknown
+        return isSchemaObject(value) && typeof value.$schema === "string"
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Parse a JSON Schema string into a MapperTreeNode model tree.
+ *
+ * - `$ref` (local pointers into `$defs` / `definitions`) is resolved; recursive refs stop expanding
+ * - `allOf` branches are merged; `oneOf` / `anyOf` alternatives are unioned
+ * - arrays → 'array' node with an 'arrayChild' "[]" template built from `items` / `prefixItems`
+ * - `required` → child.nonEmpty, `description` → comment, `format` → format
+ */
+export function parseJsonSchema(content: string): MapperTreeNode {
+    const document = JSON.parse(content) as unknown
+    if (!isSchemaObject(document)) {
+        throw new Error("JSON Schema must be an object")
+    }
+    const ctx: BuildContext = { document, refStack: new Set() }
+
+    const root = buildNode("root", document, ctx)
+    // The model root is a container — not a required field of anything
+    delete root.nonEmpty
+    return root
+}
@@ -0,0 +1,84 @@
+import * as XLSX from "xlsx"
+import { v4 as uuid } from "uuid"
+import { detectCsvDelimiter, parseCSVRecords } from "./csv"
+import type { LookupEntry } from "./types"
+
+// ============================================================
+// Lookup entry import — CSV / XLSX
+// ============================================================
+// Bulk import of code lists into shared library tables. Kept apart from
+// shared-library.ts so the script engine does not pull in the XLSX reader.
+
+export interface LookupImportResult {
+    entries: Array<LookupEntry>
+    skipped: number // Rows without a key
+    duplicates: number // Rows whose key an earlier row already had — the later row wins
+}
+
+const FALSE_VALUES = new Set(["false", "no", "0"])
+
+/**
+ * Entries from spreadsheet rows — Key | Value | Is Plain Text (optional,
+ * default true). A first row whose key cell reads "key" is a header.
+ */
+export function lookupEntriesFromRows(rows: Array<Array<unknown>>): LookupImportResult {
+    const byKey = new Map<string, LookupEntry>()
+    let skipped = 0
+    let duplicates = 0
+
+    rows.forEach((row, i) => {
+        const key = String(row[0] ?? "").trim()
+        if (i === 0 && key.toLowerCase() === "key") return
+        if (!key) {
+            skipped++
+            return
+        }
+        if (byKey.has(key)) duplicates++
+        const plainText = String(row[2] ?? "")
+            .trim()
+            .toLowerCase()
+        byKey.set(key, {
+            id: byKey.get(key)?.id ?? uuid(),
+            key,
+            value: String(row[1] ?? ""),
+            plainTextValue: !FALSE_VALUES.has(plainText),
+        })
+    })
+
+    return { entries: [...byKey.values()], skipped, duplicates }
+}
+
+/**
+ * Reads entries from a .csv / .txt file (delimiter detected) or the first
+ * sheet of an .xlsx / .xls workbook. Throws when the file cannot be read.
+ */
+export async function readLookupEntriesFile(file: File): Promise<LookupImportResult> {
+    if (/\.xlsx?$/i.test(file.name)) {
+        const wb = XLSX.read(await file.arrayBuffer(), { type: "array" })
+        const sheet = wb.Sheets[wb.SheetNames[0]] as XLSX.WorkSheet | undefined
+        if (!sheet) throw new Error("The workbook has no sheets")
+        return lookupEntriesFromRows(XLSX.utils.sheet_to_json<Array<unknown>>(sheet, { header: 1 }))
+    }
+    const text = await file.text()
+    const records = parseCSVRecords(text, {
+        delimiter: detectCsvDelimiter(text),
+        quote: '"',
+        hasHeader: false,
+    })
+    return lookupEntriesFromRows(records)
+}
+
+/** `existing` with the imported entries applied — imported keys replace existing ones. */
+export function mergeLookupEntries(
+    existing: Array<LookupEntry>,
+    imported: Array<LookupEntry>,
+): Array<LookupEntry> {
+    const importedByKey = new Map(imported.map((e) => [e.key, e]))
+    const merged = existing.map((e) => {
+        const update = importedByKey.get(e.key)
+        if (!update) return e
+        importedByKey.delete(e.key)
+        return { ...update, id: e.id }
+    })
+    return [...merged, ...importedByKey.values()]
+}
@@ -0,0 +1,197 @@
+import type { MapperContext, MapperState, MapperTreeNode } from "./types"
+
+// ============================================================
+// Map diff — compare two saved versions of a map
+// ============================================================
+// Nodes are matched by their stable UUID, so renames and moves show up as
+// changes to one node rather than a removal plus an addition. Paths use node
+// names from the root ("root.orders.[].id"), taken from the newer version.
+
+export type MapDiffSide = "source" | "target"
+
+export interface MapFieldChange {
+    field: string // MapperTreeNode property, e.g. "value", "loopConditions"
+    before: unknown
+    after: unknown
+}
+
+export interface MapNodeChange {
+    side: MapDiffSide
+    kind: "added" | "removed" | "changed" | "moved"
+    nodeId: string
+    path: string
+    depth: number // Depth in its tree — for indenting the change list
+    fields: Array<MapFieldChange> // Changed properties ("changed" / "moved")
+    fromPath?: string // Previous path of a moved node
+}
+
+export interface MapContextChange {
+    section: "globalVariables" | "lookupTables" | "functions" | "prologScript" | "epilogScript"
+    kind: "added" | "removed" | "changed"
+    key: string // Item id, or the section name for the prolog / epilog
+    name: string
+}
+
+export interface MapDiff {
+    nodes: Array<MapNodeChange>
+    context: Array<MapContextChange>
+    settings: Array<MapFieldChange> // Input types, script language, preferences, CSV options
+}
+
+/** Node properties that are structure or display-only and never reported as changes. */
+const IGNORED_NODE_FIELDS = new Set(["id", "children", "sampleValue"])
+
+/** Top-level MapperState properties compared as settings. */
+const SETTING_FIELDS = [
+    "sourceInputType",
+    "targetInputType",
+    "scriptLanguage",
+    "mapperPreferences",
+    "sourceCsvOptions",
+    "targetCsvOptions",
+] as const
+
+interface IndexedNode {
+    node: MapperTreeNode
+    path: string
+    parentId: string | null
+    depth: number
+    order: number // Pre-order position — keeps the change list in tree order
+}
+
+function indexTree(root: MapperTreeNode | null): Map<string, IndexedNode> {
+    const index = new Map<string, IndexedNode>()
+    const visit = (node: MapperTreeNode, path: string, parentId: string | null, depth: number) => {
+        index.set(node.id, { node, path, parentId, depth, order: index.size })
+        for (const child of node.children ?? []) {
+            visit(child, `${path}.${child.name}`, node.id, depth + 1)
+        }
+    }
+    if (root) visit(root, root.name, null, 0)
+    return index
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function diffNodeFields(before: MapperTreeNode, after: MapperTreeNode): Array<MapFieldChange> {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+    const changes: Array<MapFieldChange> = []
+    for (const field of fields) {
+        if (IGNORED_NODE_FIELDS.has(field)) continue
+        const a = before[field as keyof MapperTreeNode]
+        const b = after[field as keyof MapperTreeNode]
+        if (!isEqual(a, b)) changes.push({ field, before: a, after: b })
+    }
+    return changes
+}
+
+function diffTree(
+    side: MapDiffSide,
+    before: MapperTreeNode | null,
+    after: MapperTreeNode | null,
+): Array<MapNodeChange> {
+    const old = indexTree(before)
+    const current = indexTree(after)
+    const changes: Array<{ order: number; change: MapNodeChange }> = []
+
+    for (const [id, entry] of current) {
+        const previous = old.get(id)
+        const base = { side, nodeId: id, path: entry.path, depth: entry.depth }
+        if (!previous) {
+            changes.push({ order: entry.order, change: { ...base, kind: "added", fields: [] } })
+            continue
+        }
+        const fields = diffNodeFields(previous.node, entry.node)
+        if (previous.parentId !== entry.parentId) {
+            changes.push({
+                order: entry.order,
+                change: { ...base, kind: "moved", fields, fromPath: previous.path },
+            })
+        } else if (fields.length > 0) {
+            changes.push({ order: entry.order, change: { ...base, kind: "changed", fields } })
+        }
+    }
+
+    // Removed nodes sort after the last surviving node that preceded them
+    for (const [id, entry] of old) {
+        if (current.has(id)) continue
+        let order = -1
+        for (const [prevId, prev] of old) {
+            if (prev.order >= entry.order) break
+            order = current.get(prevId)?.order ?? order
+        }
+        changes.push({
+            order: order + 0.5,
+            change: {
+                side,
+                kind: "removed",
+                nodeId: id,
+                path: entry.path,
+                depth: entry.depth,
+                fields: [],
+            },
+        })
+    }
+
+    return changes.sort((a, b) => a.order - b.order).map((c) => c.change)
+}
+
+function diffNamedList<T extends { id: string; name: string }>(
+    section: MapContextChange["section"],
+    before: Array<T> | undefined,
+    after: Array<T> | undefined,
+): Array<MapContextChange> {
+    const old = new Map((before ?? []).map((item) => [item.id, item]))
+    const current = new Map((after ?? []).map((item) => [item.id, item]))
+    const changes: Array<MapContextChange> = []
+    for (const [id, item] of current) {
+        const previous = old.get(id)
+        if (!previous) changes.push({ section, kind: "added", key: id, name: item.name })
+        else if (!isEqual(previous, item))
+            changes.push({ section, kind: "changed", key: id, name: item.name })
+    }
+    for (const [id, item] of old) {
+        if (!current.has(id)) {
+            changes.push({ section, kind: "removed", key: id, name: item.name })
+        }
+    }
+    return changes
+}
+
+function diffContext(before: MapperContext, after: MapperContext): Array<MapContextChange> {
+    const changes = [
+        ...diffNamedList("globalVariables", before.globalVariables, after.globalVariables),
+        ...diffNamedList("lookupTables", before.lookupTables, after.lookupTables),
+        ...diffNamedList("functions", before.functions, after.functions),
+    ]
+    for (const section of ["prologScript", "epilogScript"] as const) {
+        const a = before[section] ?? ""
+        const b = after[section] ?? ""
+        if (a === b) continue
+        const kind = !a ? "added" : !b ? "removed" : "changed"
+        const name = section === "prologScript" ? "Prolog" : "Epilog"
+        changes.push({ section, kind, key: section, name })
+    }
+    return changes
+}
+
+/** Differences from `before` to `after`, source tree first, in tree order. */
+export function diffMapperStates(before: MapperState, after: MapperState): MapDiff {
+    return {
+        nodes: [
+            ...diffTree("source", before.sourceTreeNode, after.sourceTreeNode),
+            ...diffTree("target", before.targetTreeNode, after.targetTreeNode),
+        ],
+        context: diffContext(before.localContext, after.localContext),
+        settings: SETTING_FIELDS.filter((field) => !isEqual(before[field], after[field])).map(
+            (field) => ({ field, before: before[field], after: after[field] }),
+        ),
+    }
+}
+
+/** True when the versions compared by diffMapperStates do not differ. */
+export function isEmptyMapDiff(diff: MapDiff): boolean {
+    return diff.nodes.length === 0 && diff.context.length === 0 && diff.settings.length === 0
+}
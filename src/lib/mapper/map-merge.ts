@@ -0,0 +1,206 @@
+import { diffMapperStates } from "./map-diff"
+import { syncFlatReferences } from "./reference-utils"
+import type { MapContextChange, MapDiff, MapFieldChange, MapNodeChange } from "./map-diff"
+import type { MapperState, MapperTreeNode } from "./types"
+
+// ============================================================
+// Map merge — resolve a save conflict change by change
+// ============================================================
+// After a stale save, the editor holds "mine" and the server holds "theirs".
+// The merge view lists diffMapperStates(theirs, mine) and lets the user take
+// either side of every change; the result is mine with the changes taken from
+// theirs reverted. Each change is addressed by a string key (mapChangeKey).
+
+export type MapChange =
+    | { type: "node"; change: MapNodeChange }
+    | { type: "context"; change: MapContextChange }
+    | { type: "setting"; change: MapFieldChange }
+
+/** Every change of a diff, nodes first, in the diff's order. */
+export function listMapChanges(diff: MapDiff): Array<MapChange> {
+    return [
+        ...diff.nodes.map((change) => ({ type: "node" as const, change })),
+        ...diff.context.map((change) => ({ type: "context" as const, change })),
+        ...diff.settings.map((change) => ({ type: "setting" as const, change })),
+    ]
+}
+
+/** Stable key of a change — the same item changed in two diffs has the same key. */
+export function mapChangeKey(item: MapChange): string {
+    switch (item.type) {
+        case "node":
+            return `node:${item.change.side}:${item.change.nodeId}`
+        case "context":
+            return `context:${item.change.section}:${item.change.key}`
+        case "setting":
+            return `setting:${item.change.field}`
+    }
+}
+
+/**
+ * Keys of the items `mine` changed since `base` (the revision the editor
+ * loaded). The merge view keeps these from mine and takes the rest — changes
+ * someone else saved meanwhile — from theirs.
+ */
+export function localChangeKeys(base: MapperState, mine: MapperState): Set<string> {
+    return new Set(listMapChanges(diffMapperStates(base, mine)).map(mapChangeKey))
+}
+
+// ─── Tree edits (in place, on a cloned state) ────────────────────────────────
+
+interface Located {
+    node: MapperTreeNode
+    parent: MapperTreeNode | null
+    index: number
+}
+
+function locate(root: MapperTreeNode | null, id: string): Located | null {
+    if (!root) return null
+    if (root.id === id) return { node: root, parent: null, index: 0 }
+    const stack = [root]
+    while (stack.length > 0) {
+        const parent = stack.pop()!
+        const children = parent.children ?? []
+        for (let index = 0; index < children.length; index++) {
+            if (children[index].id === id) return { node: children[index], parent, index }
+            stack.push(children[index])
+        }
+    }
+    return null
+}
+
+function collectIds(node: MapperTreeNode, ids: Set<string>): Set<string> {
+    ids.add(node.id)
+    for (const child of node.children ?? []) collectIds(child, ids)
+    return ids
+}
+
+/** Copy of a subtree without the nodes whose ids are already taken. */
+function withoutIds(node: MapperTreeNode, taken: Set<string>): MapperTreeNode {
+    const copy: MapperTreeNode = { ...node }
+    if (node.children) {
+        copy.children = node.children
+            .filter((child) => !taken.has(child.id))
+            .map((child) => withoutIds(child, taken))
+    }
+    return copy
+}
+
+function detach(found: Located): void {
+    found.parent?.children?.splice(found.index, 1)
+}
+
+/** Put `node` under the node that is its parent in theirs, at theirs' position. */
+function attachAsInTheirs(
+    mineRoot: MapperTreeNode,
+    theirsRoot: MapperTreeNode | null,
+    node: MapperTreeNode,
+): boolean {
+    const theirs = locate(theirsRoot, node.id)
+    if (!theirs?.parent) return false
+    const parent = locate(mineRoot, theirs.parent.id)
+    if (!parent) return false
+    const children = (parent.node.children ??= [])
+    children.splice(Math.min(theirs.index, children.length), 0, node)
+    return true
+}
+
+function applyFields(node: MapperTreeNode, fields: Array<MapFieldChange>): void {
+    const target = node as unknown as Record<string, unknown>
+    for (const { field, before } of fields) {
+        if (before === undefined) delete target[field]
+        else target[field] = before
+    }
+}
+
+function revertNodeChange(mine: MapperState, theirs: MapperState, change: MapNodeChange): void {
+    const key = change.side === "source" ? "sourceTreeNode" : "targetTreeNode"
+    const mineRoot = mine[key]
+    const theirsRoot = theirs[key]
+    if (!mineRoot) {
+        mine[key] = structuredClone(theirsRoot)
+        return
+    }
+    const found = locate(mineRoot, change.nodeId)
+
+    switch (change.kind) {
+        case "added":
+            if (found?.parent) detach(found)
+            return
+        case "removed": {
+            const theirsNode = locate(theirsRoot, change.nodeId)?.node
+            if (found || !theirsNode) return // Already restored with its parent
+            const restored = withoutIds(theirsNode, collectIds(mineRoot, new Set()))
+            attachAsInTheirs(mineRoot, theirsRoot, structuredClone(restored))
+            return
+        }
+        case "moved":
+            if (!found?.parent) return
+            detach(found)
+            if (!attachAsInTheirs(mineRoot, theirsRoot, found.node)) {
+                found.parent.children?.splice(found.index, 0, found.node) // Old parent is gone
+            }
+            applyFields(found.node, change.fields)
+            return
+        case "changed":
+            if (found) applyFields(found.node, change.fields)
+            return
+    }
+}
+
+function revertContextChange(
+    mine: MapperState,
+    theirs: MapperState,
+    change: MapContextChange,
+): void {
+    const { section } = change
+    if (section === "prologScript" || section === "epilogScript") {
+        mine.localContext[section] = theirs.localContext[section]
+        return
+    }
+    const mineList = mine.localContext[section] as Array<{ id: string }>
+    const theirsList = theirs.localContext[section] as Array<{ id: string }>
+    const mineIndex = mineList.findIndex((item) => item.id === change.key)
+    const theirsIndex = theirsList.findIndex((item) => item.id === change.key)
+    if (mineIndex !== -1) mineList.splice(mineIndex, 1)
+    if (theirsIndex !== -1) {
+        const at = mineIndex !== -1 ? mineIndex : Math.min(theirsIndex, mineList.length)
+        mineList.splice(at, 0, structuredClone(theirsList[theirsIndex]))
+    }
+}
+
+/**
+ * Merge result: `mine` with the changes in `revert` (keys from mapChangeKey
+ * over diffMapperStates(theirs, mine)) taken from `theirs`. Neither input is
+ * modified; flat references are rebuilt from the merged target tree.
+ */
+export function revertMapChanges(
+    mine: MapperState,
+    theirs: MapperState,
+    revert: Set<string>,
+): MapperState {
+    const merged = structuredClone(mine)
+    const changes = listMapChanges(diffMapperStates(theirs, mine))
+
+    for (const item of changes) {
+        if (!revert.has(mapChangeKey(item))) continue
+        switch (item.type) {
+            case "node":
+                revertNodeChange(merged, theirs, item.change)
+                break
+            case "context":
+                revertContextChange(merged, theirs, item.change)
+                break
+            case "setting": {
+                const field = item.change.field as keyof MapperState
+                ;(merged as unknown as Record<string, unknown>)[field] = structuredClone(
+                    theirs[field],
+                )
+                break
+            }
+        }
+    }
+
+    merged.references = syncFlatReferences(merged)
+    return merged
+}
@@ -0,0 +1,356 @@
+import { XMLParser } from "fast-xml-parser"
+import { v4 as uuidv4 } from "uuid"
+import { DEFAULT_CSV_OPTIONS, parseCSV } from "./csv"
+import type { DataFormat } from "./engine"
+import type { CsvOptions, MapTestCase, MapTestCompareOptions } from "./types"
+
+// ============================================================
+// Map test cases — structural comparison of outputs
+// ============================================================
+// A test case runs its input through the map and compares the output with
+// the expected output as data, not text: JSON, XML and CSV are parsed first,
+// so formatting and key order never fail a test. The comparison reports
+// every difference with its path ("order.items[2].price").
+
+export const DEFAULT_TEST_COMPARE_OPTIONS: MapTestCompareOptions = {
+    ignorePaths: [],
+    ignoreOrder: false,
+    numericTolerance: 0,
+}
+
+export type OutputValueType = "null" | "array" | "object" | "string" | "number" | "boolean"
+
+export interface OutputDiff {
+    path: string // "" for the root
+    kind: "missing" | "unexpected" | "changed" | "type"
+    expected?: unknown // Absent for "unexpected"
+    actual?: unknown // Absent for "missing"
+}
+
+/** What a test run needs back from the JS executor or the Groovy sidecar. */
+export interface MapTestRun {
+    output: string
+    error: string | null
+    logs: Array<string>
+    durationMs: number
+}
+
+export interface MapTestResult {
+    caseId: string
+    status: "pass" | "fail" | "error" // "error": the script failed or an output did not parse
+    diffs: Array<OutputDiff>
+    output: string
+    error: string | null
+    logs: Array<string>
+    durationMs: number
+}
+
+export function createTestCase(name: string, input = "", expectedOutput = ""): MapTestCase {
+    return {
+        id: uuidv4(),
+        name,
+        input,
+        expectedOutput,
+        options: { ...DEFAULT_TEST_COMPARE_OPTIONS, ignorePaths: [] },
+    }
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parses an output into plain data. XML keeps every value as a string, with
+ * attributes under "@name" and mixed text under "#text". Throws on invalid input.
+ */
+export function parseTestOutput(
+    text: string,
+    format: DataFormat,
+    csvOptions: CsvOptions = DEFAULT_CSV_OPTIONS,
+): unknown {
+    if (format === "csv") return parseCSV(text, csvOptions)
+    if (format === "xml") {
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: "@",
+            textNodeName: "#text",
+            ignoreDeclaration: true,
+            ignorePiTags: true,
+            parseTagValue: false,
+            parseAttributeValue: false,
+        })
+        return parser.parse(text, true)
+    }
+    return JSON.parse(text)
+}
+
+// ============================================================
+// Comparison
+// ============================================================
+
+export function valueType(value: unknown): OutputValueType {
+    if (value === null || value === undefined) return "null"
+    if (Array.isArray(value)) return "array"
+    const type = typeof value
+    if (type === "number" || type === "string" || type === "boolean") return type
+    return "object"
+}
+
+function childPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key
+}
+
+function indexPath(path: string, index: number): string {
+    return `${path}[${index}]`
+}
+
+/**
+ * Matchers for ignorePaths. `[*]` matches any index and `*` any key; a
+ * pattern without indexes also matches paths with them ("items.id" ignores
+ * "items[3].id"), and every pattern covers the children of what it matches.
+ */
+function compileIgnorePaths(patterns: Array<string>): Array<RegExp> {
+    return patterns
+        .map((pattern) => pattern.trim())
+        .filter((pattern) => pattern !== "")
+        .map((pattern) => {
+            const source = pattern
+                .split(/(\[\*\]|\*)/)
+                .map((part) => {
+                    if (part === "[*]") return "\\[\\d+\\]"
+                    if (part === "*") return "[^.\\[\\]]+"
+                    return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+                })
+                .join("")
+            return new RegExp(`^${source}(?=$|[.[])`)
+        })
+}
+
+function isIgnored(path: string, matchers: Array<RegExp>): boolean {
+    if (matchers.length === 0 || path === "") return false
+    const withoutIndexes = path.replace(/\[\d+\]/g, "")
+    return matchers.some((re) => re.test(path) || re.test(withoutIndexes))
+}
+
+function isNumericString(value: string): boolean {
+    return value.trim() !== "" && Number.isFinite(Number(value))
+}
+
+interface CompareContext {
+    options: MapTestCompareOptions
+    matchers: Array<RegExp>
+}
+
+function compareScalars(
+    expected: unknown,
+    actual: unknown,
+    path: string,
+    ctx: CompareContext,
+    diffs: Array<OutputDiff>,
+): void {
+    if (expected === actual) return
+    const tolerance = ctx.options.numericTolerance
+    if (tolerance > 0) {
+        const bothNumbers = typeof expected === "number" && typeof actual === "number"
+        const bothNumeric =
+            typeof expected === "string" &&
+            typeof actual === "string" &&
+            isNumericString(expected) &&
+            isNumericString(actual)
+        if (
+            (bothNumbers || bothNumeric) &&
+            Math.abs(Number(expected) - Number(actual)) <= tolerance
+        ) {
+            return
+        }
+    }
+    diffs.push({ path, kind: "changed", expected, actual })
+}
+
+function compareOrdered(
+    expected: Array<unknown>,
+    actual: Array<unknown>,
+    path: string,
+    ctx: CompareContext,
+    diffs: Array<OutputDiff>,
+): void {
+    const length = Math.max(expected.length, actual.length)
+    for (let i = 0; i < length; i++) {
+        const itemPath = indexPath(path, i)
+        if (i >= actual.length) {
+            if (!isIgnored(itemPath, ctx.matchers)) {
+                diffs.push({ path: itemPath, kind: "missing", expected: expected[i] })
+            }
+        } else if (i >= expected.length) {
+            if (!isIgnored(itemPath, ctx.matchers)) {
+                diffs.push({ path: itemPath, kind: "unexpected", actual: actual[i] })
+            }
+        } else {
+            compareAt(expected[i], actual[i], itemPath, ctx, diffs)
+        }
+    }
+}
+
+/**
+ * Matches every expected item with an equal actual item wherever it is.
+ * Items left over on both sides are compared pairwise in order, so a changed
+ * item shows as a diff rather than as one missing plus one unexpected item.
+ */
+function compareUnordered(
+    expected: Array<unknown>,
+    actual: Array<unknown>,
+    path: string,
+    ctx: CompareContext,
+    diffs: Array<OutputDiff>,
+): void {
+    const unmatchedActual = actual.map((_, i) => i)
+    const unmatchedExpected: Array<number> = []
+
+    expected.forEach((item, i) => {
+        const found = unmatchedActual.findIndex((j) => {
+            const probe: Array<OutputDiff> = []
+            compareAt(item, actual[j], indexPath(path, j), ctx, probe)
+            return probe.length === 0
+        })
+        if (found === -1) unmatchedExpected.push(i)
+        else unmatchedActual.splice(found, 1)
+    })
+
+    const pairs = Math.min(unmatchedExpected.length, unmatchedActual.length)
+    for (let k = 0; k < pairs; k++) {
+        const j = unmatchedActual[k]
+        compareAt(expected[unmatchedExpected[k]], actual[j], indexPath(path, j), ctx, diffs)
+    }
+    for (const i of unmatchedExpected.slice(pairs)) {
+        const itemPath = indexPath(path, i)
+        if (!isIgnored(itemPath, ctx.matchers)) {
+            diffs.push({ path: itemPath, kind: "missing", expected: expected[i] })
+        }
+    }
+    for (const j of unmatchedActual.slice(pairs)) {
+        const itemPath = indexPath(path, j)
+        if (!isIgnored(itemPath, ctx.matchers)) {
+            diffs.push({ path: itemPath, kind: "unexpected", actual: actual[j] })
+        }
+    }
+}
+
+function compareAt(
+    expected: unknown,
+    actual: unknown,
+    path: string,
+    ctx: CompareContext,
+    diffs: Array<OutputDiff>,
+): void {
+    if (isIgnored(path, ctx.matchers)) return
+
+    const type = valueType(expected)
+    if (type !== valueType(actual)) {
+        diffs.push({ path, kind: "type", expected, actual })
+        return
+    }
+
+    if (type === "array") {
+        const compareArrays = ctx.options.ignoreOrder ? compareUnordered : compareOrdered
+        compareArrays(expected as Array<unknown>, actual as Array<unknown>, path, ctx, diffs)
+        return
+    }
+
+    if (type === "object") {
+        const exp = expected as Record<string, unknown>
+        const act = actual as Record<string, unknown>
+        const keys = [...new Set([...Object.keys(exp), ...Object.keys(act)])]
+        for (const key of keys) {
+            const keyPath = childPath(path, key)
+            if (!Object.hasOwn(act, key)) {
+                if (!isIgnored(keyPath, ctx.matchers)) {
+                    diffs.push({ path: keyPath, kind: "missing", expected: exp[key] })
+                }
+            } else if (!Object.hasOwn(exp, key)) {
+                if (!isIgnored(keyPath, ctx.matchers)) {
+                    diffs.push({ path: keyPath, kind: "unexpected", actual: act[key] })
+                }
+            } else {
+                compareAt(exp[key], act[key], keyPath, ctx, diffs)
+            }
+        }
+        return
+    }
+
+    compareScalars(expected, actual, path, ctx, diffs)
+}
+
+/** Every difference between two parsed outputs under the case's options. */
+export function compareOutputs(
+    expected: unknown,
+    actual: unknown,
+    options: MapTestCompareOptions = DEFAULT_TEST_COMPARE_OPTIONS,
+): Array<OutputDiff> {
+    const diffs: Array<OutputDiff> = []
+    compareAt(
+        expected,
+        actual,
+        "",
+        { options, matchers: compileIgnorePaths(options.ignorePaths) },
+        diffs,
+    )
+    return diffs
+}
+
+// ============================================================
+// Running
+// ============================================================
+
+/**
+ * Runs one test case through `execute` and compares its output with the
+ * expected output in the map's target `format`. Never throws.
+ */
+export async function runMapTestCase(
+    testCase: MapTestCase,
+    format: DataFormat,
+    csvOptions: CsvOptions | undefined,
+    execute: (input: string) => Promise<MapTestRun>,
+): Promise<MapTestResult> {
+    const result: MapTestResult = {
+        caseId: testCase.id,
+        status: "error",
+        diffs: [],
+        output: "",
+        error: null,
+        logs: [],
+        durationMs: 0,
+    }
+
+    try {
+        const run = await execute(testCase.input)
+        Object.assign(result, {
+            output: run.output,
+            error: run.error,
+            logs: run.logs,
+            durationMs: run.durationMs,
+        })
+    } catch (err) {
+        result.error = err instanceof Error ? err.message : String(err)
+    }
+    if (result.error !== null) return result
+
+    const label = format.toUpperCase()
+    let expected: unknown
+    let actual: unknown
+    try {
+        expected = parseTestOutput(testCase.expectedOutput, format, csvOptions)
+    } catch (err) {
+        result.error = `Expected output is not valid ${label}: ${err instanceof Error ? err.message : String(err)}`
+        return result
+    }
+    try {
+        actual = parseTestOutput(result.output, format, csvOptions)
+    } catch (err) {
+        result.error = `Output is not valid ${label}: ${err instanceof Error ? err.message : String(err)}`
+        return result
+    }
+
+    result.diffs = compareOutputs(expected, actual, testCase.options)
+    result.status = result.diffs.length === 0 ? "pass" : "fail"
+    return result
+}
@@ -17,13 +17,13 @@ import {
 
 /**
  * Get the path fragment contributed by this node to the full path.
- * - 'attribute' nodes: "@name"
+ * - 'attribute' nodes: "@name" (names parsed from XML already carry the "@")
  * - 'arrayChild' nodes: null (does not contribute)
  * - all others: node.name
  */
 export function getPathFragment(node: MapperTreeNode): string | null {
     if (node.type === "arrayChild") return null
-    if (node.type === "attribute") return `@${node.name}`
+    if (node.type === "attribute") return node.name.startsWith("@") ? node.name : `@${node.name}`
     return node.name
 }
 
@@ -182,6 +182,106 @@ export function isRoot(node: MapperTreeNode, tree: MapperTreeNode): boolean {
     return node.id === tree.id
 }
 
+// ============================================================
+// Field validation / formatting
+// ============================================================
+
+/**
+ * A node's `format` resolved for the generated script:
+ * - "date"   — Java SimpleDateFormat pattern (e.g. "yyyy-MM-dd", "dd/MM/yyyy HH:mm")
+ * - "number" — DecimalFormat-style pattern; only the decimal places are applied
+ */
+export type FieldFormat = { kind: "date"; pattern: string } | { kind: "number"; places: number }
+
+/**
+ * JSON Schema `format` keywords (copied verbatim by parseJsonSchema).
+ * They describe a value rather than a pattern, so they are never applied.
+ */
+const NAMED_FORMATS = new Set([
+    "date",
+    "date-time",
+    "time",
+    "duration",
+    "email",
+    "idn-email",
+    "hostname",
+    "idn-hostname",
+    "ipv4",
+    "ipv6",
+    "uri",
+    "uri-reference",
+    "uri-template",
+    "iri",
+    "iri-reference",
+    "uuid",
+    "json-pointer",
+    "relative-json-pointer",
+    "regex",
+])
+
+/**
+ * Classify a node's format pattern. Number patterns use only `#`, `0`, `,`
+ * and `.` ("###.##", "#,##0.00"); anything with date pattern letters is a
+ * date pattern. Returns null for empty, named or unrecognised formats.
+ */
+export function parseFieldFormat(format: string | undefined): FieldFormat | null {
+    const pattern = format?.trim()
+    if (!pattern || NAMED_FORMATS.has(pattern)) return null
+
+    if (/^[#0,]*(?:\.[#0]+)?$/.test(pattern) && /[#0]/.test(pattern)) {
+        const dot = pattern.indexOf(".")
+        return { kind: "number", places: dot === -1 ? 0 : pattern.length - dot - 1 }
+    }
+
+    // Letters outside quoted literals ('T') must include a date/time field
+    const unquoted = pattern.replace(/'[^']*'/g, "")
+    if (/[yMdHhmsSE]/.test(unquoted)) return { kind: "date", pattern }
+
+    return null
+}
+
+/**
+ * Dot-separated path of a node below the tree root (e.g. "lines.sku") —
+ * the path validation issues are reported against.
+ */
+export function getFieldPath(node: MapperTreeNode, tree: MapperTreeNode): string {
+    const fullPath = getFullPath(node.id, tree)
+    const rootPrefix = `${getPathFragment(tree) ?? ""}.`
+    return fullPath.startsWith(rootPrefix) ? fullPath.slice(rootPrefix.length) : fullPath
+}
+
+/**
+ * Message recorded when a nonEmpty target node ends up empty:
+ * the node's errorMessage, or a default naming its path below the root.
+ */
+export function getValidationMessage(node: MapperTreeNode, tree: MapperTreeNode): string {
+    if (node.errorMessage?.trim()) return node.errorMessage.trim()
+    return `Required field "${getFieldPath(node, tree)}" is empty`
+}
+
+/** True when any node below the root is flagged nonEmpty. */
+export function hasRequiredFields(tree: MapperTreeNode): boolean {
+    let found = false
+    traverseDown(tree, (n) => {
+        if (n.id !== tree.id && n.nonEmpty) found = true
+    })
+    return found
+}
+
+/** True when any node below the root has an applicable format pattern. */
+export function hasFieldFormats(tree: MapperTreeNode): boolean {
+    let found = false
+    traverseDown(tree, (n) => {
+        if (n.id !== tree.id && parseFieldFormat(n.format)) found = true
+    })
+    return found
+}
+
+/** True when the generated script needs to collect validation issues. */
+export function hasFieldRules(tree: MapperTreeNode): boolean {
+    return hasRequiredFields(tree) || hasFieldFormats(tree)
+}
+
 // ============================================================
 // Node creation
 // ============================================================
@@ -1,5 +1,11 @@
 import { XMLParser } from "fast-xml-parser"
-import type { TreeNode } from "./types"
+import {
+    CSV_ROWS_NODE_NAME,
+    DEFAULT_CSV_OPTIONS,
+    parseCSVRecords,
+    parseCSV as parseCSVRows,
+} from "./csv"
+import type { CsvOptions, TreeNode } from "./types"
 
 /**
  * Detect file type by first non-whitespace character
@@ -134,3 +140,28 @@ function xmlToTree(value: unknown, key: string, path: string, depth: number): Tr
         children: children.length > 0 ? children : undefined,
     }
 }
+
+/**
+ * Parse CSV string into TreeNode.
+ * The records become a "rows" array of objects keyed by column name
+ * (header row, or column1..N when options.hasHeader is false), so
+ * fromParserTreeNode yields root → rows → [] → <columns>.
+ */
+export function parseCSV(content: string, options: CsvOptions = DEFAULT_CSV_OPTIONS): TreeNode {
+    const rows: Array<Record<string, string>> = parseCSVRows(content, options)
+    if (rows.length === 0 && options.hasHeader) {
+        // Header-only file — the header row alone still defines the columns
+        const header = parseCSVRecords(content, options)[0] ?? []
+        rows.push(
+            Object.fromEntries(header.map((name, i) => [name.trim() || `column${i + 1}`, ""])),
+        )
+    }
+    const rowsPath = `root.${CSV_ROWS_NODE_NAME}`
+    return {
+        id: "root",
+        key: "root",
+        type: "object",
+        depth: 0,
+        children: [jsonToTree(rows, CSV_ROWS_NODE_NAME, rowsPath, 1)],
+    }
+}
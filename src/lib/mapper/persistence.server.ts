@@ -1,12 +1,13 @@
 import { createServerFn } from "@tanstack/react-start"
 import { z } from "zod"
-import { eq, and, desc } from "drizzle-orm"
-import { authMiddleware } from "@/lib/auth-middleware"
+import { eq, and, desc, sql } from "drizzle-orm"
+import { authMiddleware, requireRole } from "@/lib/auth-middleware"
 import { db } from "@/db"
 import { mapperMaps } from "@/db/schema"
+import { insertMapVersion } from "@/lib/mapper/versions.server"
 
 // ============================================================
-// listMaps — List all maps for the current user
+// listMaps — List all maps in the active workspace
 // ============================================================
 
 export const listMaps = createServerFn()
@@ -23,59 +24,116 @@ export const listMaps = createServerFn()
                 updatedAt: mapperMaps.updatedAt,
             })
             .from(mapperMaps)
-            .where(eq(mapperMaps.userId, context.userId))
+            .where(eq(mapperMaps.workspaceId, context.workspaceId))
             .orderBy(desc(mapperMaps.updatedAt))
 
         return maps
     })
 
 // ============================================================
-// saveMap — Create or update a map (upsert)
+// saveMap — Create or update a map (upsert) and snapshot it
 // ============================================================
 
+/**
+ * Saves are optimistic: `revision` is the revision the client loaded, and an
+ * update only applies while the map is still at it. A stale save changes
+ * nothing and returns the map as currently stored, so the client can reload,
+ * overwrite (save again at the returned revision) or merge. Without
+ * `revision` an existing map is overwritten unconditionally.
+ */
 export const saveMap = createServerFn({ method: "POST" })
-    .middleware([authMiddleware])
+    .middleware([requireRole("editor")])
     .inputValidator(
         z.object({
             id: z.string().uuid().optional(),
+            revision: z.number().int().optional(),
             name: z.string().min(1),
             state: z.record(z.string(), z.any()),
             sourceInputType: z.string().optional(),
             targetInputType: z.string().optional(),
             nodeCount: z.number().int().optional(),
+            message: z.string().max(500).optional(), // Stored with the version snapshot
         }),
     )
     .handler(async ({ data, context }) => {
         const id = data.id ?? crypto.randomUUID()
         const now = new Date()
 
-        await db
-            .insert(mapperMaps)
-            .values({
-                id,
+        return db.transaction(async (tx) => {
+            const inWorkspaceAtRevision = and(
+                eq(mapperMaps.workspaceId, context.workspaceId),
+                data.revision === undefined ? undefined : eq(mapperMaps.revision, data.revision),
+            )
+            const updated = await tx
+                .insert(mapperMaps)
+                .values({
+                    id,
+                    workspaceId: context.workspaceId,
+                    userId: context.userId,
+                    name: data.name,
+                    state: data.state,
+                    sourceInputType: data.sourceInputType ?? "UNKNOWN",
+                    targetInputType: data.targetInputType ?? "UNKNOWN",
+                    nodeCount: data.nodeCount ?? 0,
+                    createdAt: now,
+                    updatedAt: now,
+                })
+                .onConflictDoUpdate({
+                    target: mapperMaps.id,
+                    set: {
+                        name: data.name,
+                        state: data.state,
+                        sourceInputType: data.sourceInputType,
+                        targetInputType: data.targetInputType,
+                        nodeCount: data.nodeCount,
+                        revision: sql`${mapperMaps.revision} + 1`,
+                        updatedAt: now,
+                    },
+                    where: inWorkspaceAtRevision,
+                })
+                .returning({ revision: mapperMaps.revision })
+
+            // The conflict update is skipped for another user's map or a stale revision
+            if (updated.length === 0) {
+                const rows = await tx
+                    .select()
+                    .from(mapperMaps)
+                    .where(
+                        and(eq(mapperMaps.id, id), eq(mapperMaps.workspaceId, context.workspaceId)),
+                    )
+                    .limit(1)
+
+                if (rows.length === 0) throw new Error("Map not found in this workspace")
+                const current = rows[0]
+
+                return {
+                    status: "conflict" as const,
+                    id,
+                    name: current.name,
+                    revision: current.revision,
+                    updatedAt: (current.updatedAt ?? now).toISOString(),
+                    state: current.state as Record<string, any>,
+                }
+            }
+
+            await insertMapVersion(tx, {
+                mapId: id,
+                version: updated[0].revision,
                 userId: context.userId,
                 name: data.name,
                 state: data.state,
-                sourceInputType: data.sourceInputType ?? "UNKNOWN",
-                targetInputType: data.targetInputType ?? "UNKNOWN",
                 nodeCount: data.nodeCount ?? 0,
-                createdAt: now,
-                updatedAt: now,
-            })
-            .onConflictDoUpdate({
-                target: mapperMaps.id,
-                set: {
-                    name: data.name,
-                    state: data.state,
-                    sourceInputType: data.sourceInputType,
-                    targetInputType: data.targetInputType,
-                    nodeCount: data.nodeCount,
-                    updatedAt: now,
-                },
-                where: eq(mapperMaps.userId, context.userId),
+                message: data.message,
             })
 
-        return { id, name: data.name, savedAt: now.toISOString() }
+            return {
+                status: "saved" as const,
+                id,
+                name: data.name,
+                revision: updated[0].revision,
+                savedAt: now.toISOString(),
+            }
+        })
     })
 
 // ============================================================
@@ -86,16 +144,17 @@ export const loadMap = createServerFn()
     .middleware([authMiddleware])
     .inputValidator(z.object({ id: z.string().uuid() }))
     .handler(async ({ data, context }) => {
-        const [map] = await db
+        const rows = await db
             .select()
             .from(mapperMaps)
-            .where(and(eq(mapperMaps.id, data.id), eq(mapperMaps.userId, context.userId)))
+            .where(and(eq(mapperMaps.id, data.id), eq(mapperMaps.workspaceId, context.workspaceId)))
             .limit(1)
 
-        if (!map) throw new Error("Map not found")
+        if (rows.length === 0) throw new Error("Map not found")
+        const map = rows[0]
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return map.state as Record<string, any>
+        return { state: map.state as Record<string, any>, revision: map.revision }
     })
 
 // ============================================================
@@ -103,15 +162,15 @@ export const loadMap = createServerFn()
 // ============================================================
 
 export const deleteMap = createServerFn({ method: "POST" })
-    .middleware([authMiddleware])
+    .middleware([requireRole("editor")])
     .inputValidator(z.object({ id: z.string().uuid() }))
     .handler(async ({ data, context }) => {
         const result = await db
             .delete(mapperMaps)
-            .where(and(eq(mapperMaps.id, data.id), eq(mapperMaps.userId, context.userId)))
+            .where(and(eq(mapperMaps.id, data.id), eq(mapperMaps.workspaceId, context.workspaceId)))
             .returning({ id: mapperMaps.id })
 
-        if (result.length === 0) throw new Error("Map not found or not owned by user")
+        if (result.length === 0) throw new Error("Map not found in this workspace")
 
         return { deleted: true }
     })
@@ -120,18 +179,27 @@ export const deleteMap = createServerFn({ method: "POST" })
 // loadMapForChainExecution — Load a map's state for chain link
 // ============================================================
 
+/**
+ * Load the raw state of a map a chain in `workspaceId` may run — any map
+ * shared in the same workspace. Shared by loadMapForChainExecution and
+ * server-side chain runs (runs.server.ts).
+ */
+export async function loadChainMapState(
+    mapId: string,
+    workspaceId: string,
+): Promise<Record<string, any>> {
+    const rows = await db
+        .select()
+        .from(mapperMaps)
+        .where(and(eq(mapperMaps.id, mapId), eq(mapperMaps.workspaceId, workspaceId)))
+        .limit(1)
+
+    if (rows.length === 0) throw new Error("Linked map not found")
+
+    return rows[0].state as Record<string, any>
+}
+
 export const loadMapForChainExecution = createServerFn()
     .middleware([authMiddleware])
     .inputValidator(z.object({ mapId: z.string().uuid() }))
-    .handler(async ({ data, context }) => {
-        const [map] = await db
-            .select()
-            .from(mapperMaps)
-            .where(and(eq(mapperMaps.id, data.mapId), eq(mapperMaps.userId, context.userId)))
-            .limit(1)
-
-        if (!map) throw new Error("Linked map not found")
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return map.state as Record<string, any>
-    })
+    .handler(({ data, context }) => loadChainMapState(data.mapId, context.workspaceId))
@@ -0,0 +1,91 @@
+import { createServerFn } from "@tanstack/react-start"
+import { z } from "zod"
+import { eq } from "drizzle-orm"
+import type { PlatformData } from "./platform-data"
+import { authMiddleware, requireRole } from "@/lib/auth-middleware"
+import { db } from "@/db"
+import { platformGlobalData, platformLookupTables } from "@/db/schema"
+
+// ============================================================
+// loadPlatformData — A workspace's global data and lookup tables
+// ============================================================
+
+/**
+ * Server-only — passed to the Groovy sidecar by every server-side Groovy run
+ * and returned to the browser by getPlatformData for JavaScript runs.
+ */
+export async function loadPlatformData(workspaceId: string): Promise<PlatformData> {
+    const [globals, tables] = await Promise.all([
+        db
+            .select({ key: platformGlobalData.key, value: platformGlobalData.value })
+            .from(platformGlobalData)
+            .where(eq(platformGlobalData.workspaceId, workspaceId)),
+        db
+            .select({ name: platformLookupTables.name, entries: platformLookupTables.entries })
+            .from(platformLookupTables)
+            .where(eq(platformLookupTables.workspaceId, workspaceId)),
+    ])
+
+    return {
+        globalData: Object.fromEntries(globals.map((row) => [row.key, row.value])),
+        lookupTables: Object.fromEntries(
+            tables.map((row) => [row.name, row.entries as Record<string, string>]),
+        ),
+    }
+}
+
+export const getPlatformData = createServerFn()
+    .middleware([authMiddleware])
+    .handler(({ context }) => loadPlatformData(context.workspaceId))
+
+// ============================================================
+// savePlatformData — Replace the workspace's platform data
+// ============================================================
+
+const entryKey = z.string().trim().min(1).max(200)
+
+export const savePlatformData = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor")])
+    .inputValidator(
+        z.object({
+            globalData: z.record(entryKey, z.string()),
+            lookupTables: z.record(entryKey, z.record(entryKey, z.string())),
+        }),
+    )
+    .handler(async ({ data, context }) => {
+        const now = new Date()
+        await db.transaction(async (tx) => {
+            await tx
+                .delete(platformGlobalData)
+                .where(eq(platformGlobalData.workspaceId, context.workspaceId))
+            await tx
+                .delete(platformLookupTables)
+                .where(eq(platformLookupTables.workspaceId, context.workspaceId))
+
+            const globals = Object.entries(data.globalData)
+            if (globals.length > 0) {
+                await tx.insert(platformGlobalData).values(
+                    globals.map(([key, value]) => ({
+                        workspaceId: context.workspaceId,
+                        key,
+                        value,
+                        updatedAt: now,
+                    })),
+                )
+            }
+
+            const tables = Object.entries(data.lookupTables)
+            if (tables.length > 0) {
+                await tx.insert(platformLookupTables).values(
+                    tables.map(([name, entries]) => ({
+                        workspaceId: context.workspaceId,
+                        name,
+                        entries,
+                        updatedAt: now,
+                    })),
+                )
+            }
+        })
+
+        return { savedAt: now.toISOString() }
+    })
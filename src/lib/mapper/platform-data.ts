@@ -0,0 +1,52 @@
+// ============================================================
+// Platform data — what legacy platform API calls resolve to
+// ============================================================
+// Maps written for the integration platform read global data and platform
+// lookup tables through JTUtil.getGlobalData / JTLookupUtil.*. Each workspace
+// keeps its own entries (platform-data.server.ts); runs hand them to the JS
+// shims (jtShims in groovy-shims.ts, via ExecuteScriptOptions.platformData)
+// and to the Groovy sidecar, whose JTUtil / JTLookupUtil bindings resolve
+// against the same data. Calls the data cannot answer return null.
+
+export interface PlatformData {
+    globalData: Record<string, string> // JTUtil.getGlobalData(key)
+    lookupTables: Record<string, Record<string, string>> // table name → key → value
+}
+
+export function emptyPlatformData(): PlatformData {
+    return { globalData: {}, lookupTables: {} }
+}
+
+// Legacy scripts pass the transaction first — JTUtil.getGlobalData(transaction, key) —
+// newer ones only the key, so the names are read from the end of the arguments.
+
+function argAt(args: Array<unknown>, fromEnd: number): string | null {
+    const value = args.at(-fromEnd)
+    return value == null ? null : String(value)
+}
+
+/** JTUtil.getGlobalData([transaction,] key) */
+export function resolveGlobalData(data: PlatformData, args: Array<unknown>): string | null {
+    const key = argAt(args, 1)
+    return key !== null && Object.hasOwn(data.globalData, key) ? data.globalData[key] : null
+}
+
+/** JTLookupUtil.getLookupTable([transaction,] name) — a copy of the table's entries */
+export function resolveLookupTable(
+    data: PlatformData,
+    args: Array<unknown>,
+): Record<string, string> | null {
+    const name = argAt(args, 1)
+    return name !== null && Object.hasOwn(data.lookupTables, name)
+        ? { ...data.lookupTables[name] }
+        : null
+}
+
+/** JTLookupUtil.getLookupTableValue([transaction,] name, key) */
+export function resolveLookupTableValue(data: PlatformData, args: Array<unknown>): string | null {
+    const name = argAt(args, 2)
+    const key = argAt(args, 1)
+    if (name === null || key === null || !Object.hasOwn(data.lookupTables, name)) return null
+    const table = data.lookupTables[name]
+    return Object.hasOwn(table, key) ? table[key] : null
+}
@@ -0,0 +1,391 @@
+import { SCRIPT_SCOPE_NAMES } from "./engine"
+import { getGroovyShimParamNames } from "./groovy-shims"
+import { getFieldPath } from "./node-utils"
+import { collectUsedVariableNames, findNearestLoopAncestor } from "./reference-utils"
+import type { MapperState, MapperTreeNode, ScriptLanguage, SourceReference } from "./types"
+
+// ============================================================
+// Variable rename — a reference's variable and every use in scope
+// ============================================================
+// A source reference's variable is declared at the top of the script, or at
+// the top of the loop it belongs to (findNearestLoopAncestor). Renaming it
+// renames every reference declaring the same variable and rewrites the
+// identifier in the value, customCode, nodeCondition, loopConditions and
+// loopStatement of each node in that scope — strings, comments and property
+// names are left alone. Nodes below a nested loop that declares a variable of
+// the same name are skipped. A loop reference's name only shows up in code as
+// the loop's default iterator (_<name>), so that is what its rename rewrites.
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+// Keywords after which a "/" starts a regular expression rather than dividing
+const REGEX_KEYWORD_BEFORE =
+    /(?:^|[^\w$.])(?:return|typeof|case|do|else|in|of|new|delete|void|throw|yield|await|instanceof)$/
+
+// Words JavaScript or Groovy keep for themselves
+const RESERVED_WORDS = new Set(
+    [
+        "arguments await break case catch class const continue debugger default delete " +
+            "do else enum eval export extends false finally for function if implements " +
+            "import in instanceof interface let new null package private protected public " +
+            "return static super switch this throw true try typeof undefined var void while " +
+            "with yield",
+        "abstract as assert boolean byte char def double final float goto int long " +
+            "native short strictfp synchronized threadsafe throws trait transient volatile",
+    ].flatMap((words) => words.split(" ")),
+)
+
+// Names the generated scripts declare next to the map's own
+const GENERATED_NAMES = new Set([
+    "sourceData",
+    "output",
+    "_validationIssues",
+    "_checkRequired",
+    "_isEmpty",
+    "_formatDate",
+    "_formatNumber",
+    "_cover",
+    "parseCsv",
+    "buildCsv",
+    "buildXml",
+])
+const GENERATED_PREFIXES = ["_submap_", "_trace"]
+
+/** Node fields a rename rewrites. */
+export type RenamedField =
+    | "value"
+    | "customCode"
+    | "nodeCondition"
+    | "loopConditions"
+    | "loopStatement"
+
+export interface VariableRenamePreview {
+    oldName: string
+    error: string | null // Why the new name is refused — renaming changes nothing then
+    nodes: Array<{ nodeId: string; path: string; fields: Array<RenamedField> }> // Nodes whose expressions change
+}
+
+interface RenamePlan {
+    preview: VariableRenamePreview
+    referenceIds: Set<string> // References declaring the variable
+    patches: Map<string, Partial<MapperTreeNode>> // node id → rewritten fields
+}
+
+/**
+ * `code` with every use of the identifier `from` renamed to `to`. String
+ * literals, regular expression literals and comments are kept as they are —
+ * except the code inside template literal (Groovy: GString) placeholders — and
+ * so are property names after "." or "?." and object keys (Groovy: map keys
+ * and named arguments). A shorthand property `{ from }` becomes
+ * `{ from: to }`.
+ */
+export function renameIdentifier(
+    code: string,
+    from: string,
+    to: string,
+    language: ScriptLanguage = "javascript",
+): string {
+    let out = ""
+    let i = 0
+
+    // Code up to the "}" closing a placeholder (left unconsumed) or the end
+    function scanCode(inPlaceholder: boolean) {
+        const brackets: Array<string> = [] // Open "{", "[" and "(" around the position
+        while (i < code.length) {
+            const ch = code[i]
+            if (code.startsWith("//", i) || code.startsWith("/*", i)) {
+                const close = code.startsWith("//", i) ? "\n" : "*/"
+                const end = code.indexOf(close, i + 2)
+                const stop = end === -1 ? code.length : end + (close === "*/" ? 2 : 0)
+                out += code.slice(i, stop)
+                i = stop
+            } else if (ch === '"' || ch === "'" || ch === "`") {
+                scanString(ch)
+            } else if (ch === "/" && startsRegex()) {
+                scanRegex()
+            } else if (/[\w$]/.test(ch)) {
+                const token = /^[\w$]+/.exec(code.slice(i))![0]
+                i += token.length
+                if (token !== from) {
+                    out += token
+                    continue
+                }
+                const before = out.trimEnd()
+                const after = code.slice(i).trimStart()
+                const isProperty = before.endsWith(".") && !before.endsWith("..")
+                const open = brackets.at(-1)
+                const inKeyPosition =
+                    language === "groovy"
+                        ? (open === "[" || open === "(") && /[[(,]$/.test(before)
+                        : open === "{" && /[{,]$/.test(before)
+                if (inKeyPosition && after.startsWith(":") && !after.startsWith("::")) {
+                    out += token
+                } else if (language === "javascript" && inKeyPosition && /^[,}]/.test(after)) {
+                    out += `${token}: ${to}`
+                } else {
+                    out += isProperty ? token : to
+                }
+            } else {
+                if ("{[(".includes(ch)) brackets.push(ch)
+                if ("}])".includes(ch)) {
+                    if (inPlaceholder && ch === "}" && !brackets.includes("{")) return
+                    brackets.pop()
+                }
+                out += ch
+                i++
+            }
+        }
+    }
+
+    // A "/" where an operand is expected opens a regular expression (Groovy: slashy string)
+    function startsRegex(): boolean {
+        const before = out.trimEnd()
+        if (before.endsWith("++") || before.endsWith("--")) return false
+        const last = before.at(-1)
+        if (last === undefined) return true
+        if (/[\w$]/.test(last)) return REGEX_KEYWORD_BEFORE.test(before)
+        return !")]}\"'`".includes(last)
+    }
+
+    function scanRegex() {
+        let inClass = false
+        let end = i + 1
+        while (end < code.length && code[end] !== "\n") {
+            if (code[end] === "\\") end++
+            else if (code[end] === "[") inClass = true
+            else if (code[end] === "]") inClass = false
+            else if (code[end] === "/" && !inClass) break
+            end++
+        }
+        // Flags are part of the literal
+        end = code[end] === "/" ? end + 1 + /^[a-z]*/.exec(code.slice(end + 1))![0].length : end
+        out += code.slice(i, end)
+        i = end
+    }
+
+    function scanString(quote: string) {
+        const tripled = quote.repeat(3)
+        const delimiter = language === "groovy" && code.startsWith(tripled, i) ? tripled : quote
+        const interpolates = quote === (language === "groovy" ? '"' : "`")
+        out += delimiter
+        i += delimiter.length
+        while (i < code.length) {
+            if (code[i] === "\\") {
+                out += code.slice(i, i + 2)
+                i += 2
+            } else if (code.startsWith(delimiter, i)) {
+                out += delimiter
+                i += delimiter.length
+                return
+            } else if (interpolates && code.startsWith("${", i)) {
+                out += "${"
+                i += 2
+                scanCode(true)
+                if (i < code.length) {
+                    out += "}"
+                    i++
+                }
+            } else if (interpolates && language === "groovy" && code[i] === "$") {
+                // GString shorthand: "$name"
+                const name = /^\$([A-Za-z_]\w*)/.exec(code.slice(i))?.[1] ?? ""
+                out += `$${name === from ? to : name}`
+                i += name.length + 1
+            } else {
+                out += code[i]
+                i++
+            }
+        }
+    }
+
+    scanCode(false)
+    return out
+}
+
+/**
+ * What renaming the variable of reference `referenceId` to `newName` would
+ * change — with the reason it is refused, if it is: an invalid identifier, a
+ * reserved word, a name the script scope or generated code already uses, or
+ * a name taken by a global variable, function, lookup table or another
+ * reference.
+ */
+export function previewVariableRename(
+    state: MapperState,
+    referenceId: string,
+    newName: string,
+): VariableRenamePreview {
+    return planVariableRename(state, referenceId, newName).preview
+}
+
+/**
+ * The target tree with the variable of reference `referenceId` renamed to
+ * `newName` and its uses rewritten — null when the rename is refused
+ * (previewVariableRename says why).
+ */
+export function applyVariableRename(
+    state: MapperState,
+    referenceId: string,
+    newName: string,
+): MapperTreeNode | null {
+    const tree = state.targetTreeNode
+    const { preview, referenceIds, patches } = planVariableRename(state, referenceId, newName)
+    if (!tree || preview.error || referenceIds.size === 0) return null
+
+    const rename = <T extends SourceReference>(ref: T): T =>
+        referenceIds.has(ref.id) ? { ...ref, variableName: newName } : ref
+    function visit(node: MapperTreeNode): MapperTreeNode {
+        return {
+            ...node,
+            ...patches.get(node.id),
+            ...(node.loopReference && { loopReference: rename(node.loopReference) }),
+            ...(node.sourceReferences && { sourceReferences: node.sourceReferences.map(rename) }),
+            ...(node.children && { children: node.children.map(visit) }),
+        }
+    }
+    return visit(tree)
+}
+
+function planVariableRename(state: MapperState, referenceId: string, newName: string): RenamePlan {
+    const plan: RenamePlan = {
+        preview: { oldName: "", error: null, nodes: [] },
+        referenceIds: new Set(),
+        patches: new Map(),
+    }
+    const tree = state.targetTreeNode
+    const owner = tree ? findReferenceOwner(tree, referenceId) : null
+    if (!tree || !owner) {
+        plan.preview.error = "Reference not found"
+        return plan
+    }
+
+    const { node, ref } = owner
+    const oldName = ref.variableName
+    plan.preview.oldName = oldName
+    if (newName === oldName) return plan
+    plan.preview.error = findNameConflict(state, newName)
+    if (plan.preview.error) return plan
+
+    // The identifier code uses and the subtree it is visible in
+    let from = oldName
+    let to = newName
+    let scope: MapperTreeNode = tree
+    if (node.loopReference?.id === referenceId) {
+        plan.referenceIds.add(referenceId)
+        if (node.loopIterator) return plan // Code uses the explicit iterator
+        from = `_${oldName}`
+        to = `_${newName}`
+        scope = node
+    } else {
+        const loop = findNearestLoopAncestor(node.id, ref.sourceNodeId, state)
+        const loopNode = loop ? findLoopNode(tree, loop.id) : null
+        if (loopNode) scope = loopNode
+        // Every reference declaring the same variable — top level or in the same loop
+        const loopOverId = loop?.id ?? null
+        forEachReference(tree, (r) => {
+            if (r.variableName === oldName && (r.loopOverId ?? null) === loopOverId) {
+                plan.referenceIds.add(r.id)
+            }
+        })
+        plan.referenceIds.add(referenceId)
+    }
+
+    const language = state.scriptLanguage ?? "javascript"
+    const rewrite = (code: string) => renameIdentifier(code, from, to, language)
+    const shadowingLoops = new Set<string>()
+    forEachReference(tree, (r) => {
+        if (r.loopOverId && r.variableName === from && !plan.referenceIds.has(r.id)) {
+            shadowingLoops.add(r.loopOverId)
+        }
+    })
+
+    function visit(n: MapperTreeNode) {
+        if (n !== scope && n.loopReference && shadowingLoops.has(n.loopReference.id)) return
+
+        const patch: Partial<MapperTreeNode> = {}
+        const fields: Array<RenamedField> = []
+        if (n.value && !n.plainTextValue && rewrite(n.value) !== n.value) {
+            patch.value = rewrite(n.value)
+            fields.push("value")
+        }
+        if (n.customCode && rewrite(n.customCode) !== n.customCode) {
+            patch.customCode = rewrite(n.customCode)
+            fields.push("customCode")
+        }
+        const condition = n.nodeCondition?.condition
+        if (condition && rewrite(condition) !== condition) {
+            patch.nodeCondition = { condition: rewrite(condition) }
+            fields.push("nodeCondition")
+        }
+        if (n.loopConditions?.some((lc) => rewrite(lc.condition) !== lc.condition)) {
+            patch.loopConditions = n.loopConditions.map((lc) => ({
+                ...lc,
+                condition: rewrite(lc.condition),
+            }))
+            fields.push("loopConditions")
+        }
+        if (n.loopStatement && rewrite(n.loopStatement) !== n.loopStatement) {
+            patch.loopStatement = rewrite(n.loopStatement)
+            fields.push("loopStatement")
+        }
+        if (fields.length > 0) {
+            plan.patches.set(n.id, patch)
+            plan.preview.nodes.push({ nodeId: n.id, path: getFieldPath(n, tree!), fields })
+        }
+        n.children?.forEach(visit)
+    }
+    visit(scope)
+    return plan
+}
+
+/** Why `name` cannot name a reference variable — null when it can. */
+function findNameConflict(state: MapperState, name: string): string | null {
+    if (!IDENTIFIER.test(name)) return `"${name}" is not a valid identifier`
+    if (RESERVED_WORDS.has(name)) return `"${name}" is a reserved word`
+    if (
+        (SCRIPT_SCOPE_NAMES as ReadonlyArray<string>).includes(name) ||
+        getGroovyShimParamNames().includes(name) ||
+        GENERATED_NAMES.has(name) ||
+        GENERATED_PREFIXES.some((prefix) => name.startsWith(prefix))
+    ) {
+        return `"${name}" is already defined by the generated script`
+    }
+    const ctx = state.localContext
+    if (ctx.globalVariables.some((g) => g.name === name)) {
+        return `"${name}" is already a global variable`
+    }
+    if (ctx.functions.some((f) => f.name === name)) return `"${name}" is already a function`
+    if (ctx.lookupTables.some((t) => t.name === name)) {
+        return `"${name}" is already a lookup table`
+    }
+    if (collectUsedVariableNames(state).has(name)) {
+        return `"${name}" is already used by another reference`
+    }
+    return null
+}
+
+function findReferenceOwner(
+    tree: MapperTreeNode,
+    referenceId: string,
+): { node: MapperTreeNode; ref: SourceReference } | null {
+    if (tree.loopReference?.id === referenceId) return { node: tree, ref: tree.loopReference }
+    const ref = tree.sourceReferences?.find((r) => r.id === referenceId)
+    if (ref) return { node: tree, ref }
+    for (const child of tree.children ?? []) {
+        const found = findReferenceOwner(child, referenceId)
+        if (found) return found
+    }
+    return null
+}
+
+function findLoopNode(tree: MapperTreeNode, loopId: string): MapperTreeNode | null {
+    if (tree.loopReference?.id === loopId) return tree
+    for (const child of tree.children ?? []) {
+        const found = findLoopNode(child, loopId)
+        if (found) return found
+    }
+    return null
+}
+
+function forEachReference(tree: MapperTreeNode, fn: (ref: SourceReference) => void) {
+    tree.sourceReferences?.forEach(fn)
+    tree.children?.forEach((child) => forEachReference(child, fn))
+}
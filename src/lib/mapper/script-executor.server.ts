@@ -0,0 +1,215 @@
+import vm from "node:vm"
+import { Worker, isMainThread, parentPort, workerData } from "node:worker_threads"
+import { DEFAULT_SCRIPT_TIMEOUT_MS, createScriptScope, toScriptOutput } from "./engine"
+import { jsErrorLine } from "./source-map"
+import {
+    SCRIPT_CANCELLED_MESSAGE,
+    failedScriptResult,
+    scriptTimeoutMessage,
+} from "./script-executor"
+import type { SandboxExecuteOptions, ScriptExecutionResult, ValidationIssue } from "./engine"
+import type { ScriptWorkerRequest } from "./script-worker"
+import type { MapperContext } from "./types"
+
+// ============================================================
+// executeScriptInVm — run generated JS in a locked-down worker thread
+// ============================================================
+// Server-side counterpart of executeScriptIsolated. Every run gets a fresh
+// worker thread with an empty environment and its own heap limit, and only
+// the request and the ScriptExecutionResult cross the thread boundary — as
+// structured clones, never functions. Inside the worker the script runs in a
+// vm context that sees only the executeScript scope and cannot compile code
+// from strings. The helpers in that scope belong to the worker's realm, so
+// the realm's Function constructors are removed before the script runs: a
+// helper's `.constructor` leads nowhere. The worker is terminated when the
+// run finishes, times out or is cancelled.
+
+/** Default heap limit of a server-side script run, in MB. */
+export const DEFAULT_SCRIPT_MEMORY_MB = 128
+
+/** Error reported when a run exceeds its heap limit. */
+export function scriptMemoryMessage(memoryLimitMb: number): string {
+    return `Script exceeded the memory limit of ${memoryLimitMb} MB`
+}
+
+const SCRIPT_WORKER_KIND = "mapper-script"
+
+interface ScriptWorkerData {
+    kind: typeof SCRIPT_WORKER_KIND
+    moduleUrl: string
+    request: ScriptWorkerRequest
+}
+
+type ScriptWorkerMessage = { type: "started" } | { type: "result"; result: ScriptExecutionResult }
+
+// Loads this module in the worker. Source modules (dev server, tests) are
+// compiled by tsx; the production build loads its own chunk.
+const WORKER_BOOTSTRAP = `
+const { workerData } = require("node:worker_threads");
+(async () => {
+    if (workerData.moduleUrl.endsWith(".ts")) (await import("tsx/esm/api")).register();
+    await import(workerData.moduleUrl);
+})();
+`
+
+// Globals of the worker's realm a helper could hand out or call into
+const BLOCKED_GLOBALS = ["fetch", "WebSocket", "EventSource", "BroadcastChannel", "Worker"]
+
+/**
+ * Executes a generated script in a fresh worker thread. Returns the same
+ * ScriptExecutionResult as executeScript and never throws.
+ *
+ * The worker is terminated when the script finishes, when `timeoutMs`
+ * elapses (default DEFAULT_SCRIPT_TIMEOUT_MS, counted from the start of the
+ * script), when `signal` aborts or when its heap grows past `memoryLimitMb`
+ * (default DEFAULT_SCRIPT_MEMORY_MB).
+ */
+export function executeScriptInVm(
+    scriptBody: string,
+    input: string,
+    context: MapperContext,
+    options: SandboxExecuteOptions = {},
+): Promise<ScriptExecutionResult> {
+    const {
+        signal,
+        timeoutMs = DEFAULT_SCRIPT_TIMEOUT_MS,
+        memoryLimitMb = DEFAULT_SCRIPT_MEMORY_MB,
+        ...runOptions
+    } = options
+    const start = performance.now()
+
+    if (signal?.aborted) {
+        return Promise.resolve(failedScriptResult(scriptBody, SCRIPT_CANCELLED_MESSAGE, start))
+    }
+
+    return new Promise((resolve) => {
+        const data: ScriptWorkerData = {
+            kind: SCRIPT_WORKER_KIND,
+            moduleUrl: import.meta.url,
+            request: { scriptBody, input, context, options: runOptions },
+        }
+        const worker = new Worker(WORKER_BOOTSTRAP, {
+            eval: true,
+            workerData: data,
+            env: {},
+            resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb },
+        })
+
+        let settled = false
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const finish = (result: ScriptExecutionResult) => {
+            if (settled) return
+            settled = true
+            clearTimeout(timer)
+            signal?.removeEventListener("abort", onAbort)
+            void worker.terminate()
+            resolve(result)
+        }
+        const fail = (error: string) => finish(failedScriptResult(scriptBody, error, start))
+        const onAbort = () => fail(SCRIPT_CANCELLED_MESSAGE)
+
+        signal?.addEventListener("abort", onAbort, { once: true })
+        worker.on("message", (message: ScriptWorkerMessage) => {
+            if (message.type === "result") {
+                finish(message.result)
+            } else {
+                timer = setTimeout(() => fail(scriptTimeoutMessage(timeoutMs)), timeoutMs)
+            }
+        })
+        worker.on("error", (err: Error & { code?: string }) => {
+            fail(
+                err.code === "ERR_WORKER_OUT_OF_MEMORY"
+                    ? scriptMemoryMessage(memoryLimitMb)
+                    : err.message || "Script worker failed",
+            )
+        })
+        worker.on("exit", () => fail("Script worker exited without a result"))
+    })
+}
+
+// ============================================================
+// Worker side
+// ============================================================
+
+/** Removes what the worker's realm offers beyond the helpers themselves. */
+function lockDownWorkerRealm() {
+    // Every function of the realm reaches its constructor through the prototype
+    const functionPrototypes = [
+        Function.prototype,
+        Object.getPrototypeOf(async () => {}) as object,
+        Object.getPrototypeOf(function* () {}) as object,
+        Object.getPrototypeOf(async function* () {}) as object,
+    ]
+    for (const prototype of functionPrototypes) {
+        Object.defineProperty(prototype, "constructor", { value: undefined })
+    }
+    // Stack frames would hand out the receivers of helper calls
+    Object.defineProperty(Error, "prepareStackTrace", { value: undefined, writable: false })
+    for (const name of BLOCKED_GLOBALS) {
+        Object.defineProperty(globalThis, name, { value: undefined, writable: false })
+    }
+}
+
+function runScriptWorker(port: NonNullable<typeof parentPort>, request: ScriptWorkerRequest) {
+    const { scriptBody, input, options } = request
+    const capturedLogs: Array<string> = []
+    const validation: Array<ValidationIssue> = []
+    const scope = createScriptScope(input, capturedLogs, validation, options)
+    const sandbox = Object.fromEntries(scope.names.map((name, i) => [name, scope.values[i]]))
+
+    lockDownWorkerRealm()
+    port.postMessage({ type: "started" } satisfies ScriptWorkerMessage)
+    const start = performance.now()
+
+    let result: ScriptExecutionResult
+    try {
+        const scriptContext = vm.createContext(sandbox, {
+            codeGeneration: { strings: false, wasm: false },
+            microtaskMode: "afterEvaluate",
+        })
+        const value: unknown = vm.runInContext(
+            `(function () {\n"use strict";\n${scriptBody}\n})()`,
+            scriptContext,
+            { filename: "mapper-script.js" },
+        )
+        result = {
+            output: toScriptOutput(value, options),
+            error: null,
+            scriptBody,
+            durationMs: performance.now() - start,
+            logs: capturedLogs,
+            validation,
+        }
+    } catch (err) {
+        // Errors thrown by the script belong to the context's realm, so they
+        // fail `instanceof Error` here
+        const { message } = (err ?? {}) as { message?: string }
+        // The wrapper puts "(function () {" and "use strict" before the script
+        const errorLine = jsErrorLine(err, 2)
+        result = {
+            output: "",
+            error: message ?? String(err),
+            ...(errorLine !== null && { errorLine }),
+            scriptBody,
+            durationMs: performance.now() - start,
+            logs: capturedLogs,
+            validation,
+        }
+    }
+
+    try {
+        port.postMessage({ type: "result", result } satisfies ScriptWorkerMessage)
+    } catch (err) {
+        // Issues the script reported may hold values that cannot be cloned
+        const message = err instanceof Error ? err.message : String(err)
+        port.postMessage({
+            type: "result",
+            result: { ...result, output: "", error: `Script result unusable: ${message}` },
+        } satisfies ScriptWorkerMessage)
+    }
+}
+
+const scriptWorkerData = isMainThread ? null : (workerData as Partial<ScriptWorkerData> | null)
+if (parentPort && scriptWorkerData?.kind === SCRIPT_WORKER_KIND && scriptWorkerData.request) {
+    runScriptWorker(parentPort, scriptWorkerData.request)
+}
@@ -0,0 +1,90 @@
+import { DEFAULT_SCRIPT_TIMEOUT_MS, executeScript } from "./engine"
+import type { SandboxExecuteOptions, ScriptExecutionResult } from "./engine"
+import type { ScriptWorkerRequest } from "./script-worker"
+import type { MapperContext } from "./types"
+
+// ============================================================
+// executeScriptIsolated — run generated JS in a Web Worker
+// ============================================================
+
+/** Error reported when a run is cancelled through its AbortSignal. */
+export const SCRIPT_CANCELLED_MESSAGE = "Script execution was cancelled"
+
+/** Error reported when a run exceeds its wall-clock limit. */
+export function scriptTimeoutMessage(timeoutMs: number): string {
+    return `Script timed out after ${timeoutMs}ms`
+}
+
+/** Result for a run that was stopped before the script could report back. */
+export function failedScriptResult(
+    scriptBody: string,
+    error: string,
+    start: number,
+): ScriptExecutionResult {
+    return {
+        output: "",
+        error,
+        scriptBody,
+        durationMs: performance.now() - start,
+        logs: [],
+        validation: [],
+    }
+}
+
+/**
+ * Executes a generated script in a dedicated Web Worker (script-worker.ts).
+ * Returns the same ScriptExecutionResult as executeScript and never throws.
+ *
+ * The worker is terminated when the script finishes, when `timeoutMs`
+ * elapses (default DEFAULT_SCRIPT_TIMEOUT_MS) or when `signal` aborts —
+ * so an endless loop costs a worker, not the tab. Output and console
+ * volume are capped by `maxOutputLength` / `maxLogEntries`.
+ *
+ * Where Web Workers are unavailable (SSR, tests) the script runs in-realm
+ * through executeScript.
+ */
+export function executeScriptIsolated(
+    scriptBody: string,
+    input: string,
+    context: MapperContext,
+    options: SandboxExecuteOptions = {},
+): Promise<ScriptExecutionResult> {
+    const { signal, timeoutMs = DEFAULT_SCRIPT_TIMEOUT_MS, ...runOptions } = options
+    const start = performance.now()
+
+    if (signal?.aborted) {
+        return Promise.resolve(failedScriptResult(scriptBody, SCRIPT_CANCELLED_MESSAGE, start))
+    }
+    if (typeof Worker === "undefined") {
+        return executeScript(scriptBody, input, context, runOptions)
+    }
+
+    return new Promise((resolve) => {
+        const worker = new Worker(new URL("./script-worker.ts", import.meta.url), {
+            type: "module",
+        })
+
+        const finish = (result: ScriptExecutionResult) => {
+            clearTimeout(timer)
+            signal?.removeEventListener("abort", onAbort)
+            worker.terminate()
+            resolve(result)
+        }
+        const onAbort = () =>
+            finish(failedScriptResult(scriptBody, SCRIPT_CANCELLED_MESSAGE, start))
+        const timer = setTimeout(
+            () => finish(failedScriptResult(scriptBody, scriptTimeoutMessage(timeoutMs), start)),
+            timeoutMs,
+        )
+
+        signal?.addEventListener("abort", onAbort, { once: true })
+        worker.onmessage = (event: MessageEvent<ScriptExecutionResult>) => finish(event.data)
+        worker.onerror = (event) => {
+            event.preventDefault()
+            finish(failedScriptResult(scriptBody, event.message || "Script worker failed", start))
+        }
+
+        const request: ScriptWorkerRequest = { scriptBody, input, context, options: runOptions }
+        worker.postMessage(request)
+    })
+}
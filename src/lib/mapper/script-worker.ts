@@ -0,0 +1,42 @@
+import { executeScript } from "./engine"
+import type { ExecuteScriptOptions } from "./engine"
+import type { MapperContext } from "./types"
+
+// ============================================================
+// Script worker — Web Worker entry for executeScriptIsolated
+// ============================================================
+// Each run gets a fresh worker that is terminated afterwards, so a script
+// can neither block the UI thread nor leak state into the next run. Workers
+// have no window, DOM, localStorage or cookies; the network and storage APIs
+// they do have are removed below before any script is evaluated.
+
+export interface ScriptWorkerRequest {
+    scriptBody: string
+    input: string
+    context: MapperContext
+    options: ExecuteScriptOptions
+}
+
+const BLOCKED_GLOBALS = [
+    "fetch",
+    "XMLHttpRequest",
+    "WebSocket",
+    "EventSource",
+    "BroadcastChannel",
+    "importScripts",
+    "indexedDB",
+    "caches",
+    "Worker",
+    "SharedWorker",
+]
+
+const reply = self.postMessage.bind(self)
+
+for (const name of [...BLOCKED_GLOBALS, "postMessage"]) {
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false })
+}
+
+self.onmessage = (event: MessageEvent<ScriptWorkerRequest>) => {
+    const { scriptBody, input, context, options } = event.data
+    void executeScript(scriptBody, input, context, options).then(reply)
+}
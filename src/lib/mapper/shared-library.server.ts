@@ -0,0 +1,615 @@
+import { createServerFn } from "@tanstack/react-start"
+import { z } from "zod"
+import { and, desc, eq, inArray, sql } from "drizzle-orm"
+import {
+    emptySharedLibrary,
+    findLibraryFunctionUsage,
+    findLibraryTableUsage,
+    isEmptyLibraryRequest,
+    libraryFunctionKey,
+    libraryRequest,
+} from "./shared-library"
+import { deserializeMapperState } from "./serialization"
+import { collectSubmapIds } from "./submaps"
+import type { SQL } from "drizzle-orm"
+import type {
+    SharedFunctionSummary,
+    SharedLibrary,
+    SharedLibraryRequest,
+    SharedLookupTableSummary,
+} from "./shared-library"
+import type { Submap } from "./submaps"
+import type {
+    LookupEntry,
+    LookupTable,
+    MapperState,
+    ScriptLanguage,
+    TransformFunction,
+} from "./types"
+import { authMiddleware, requireRole } from "@/lib/auth-middleware"
+import { db } from "@/db"
+import {
+    mapperMaps,
+    sharedFunctionVersions,
+    sharedFunctions,
+    sharedLookupTables,
+    users,
+} from "@/db/schema"
+
+// ============================================================
+// loadSharedLibrary — The library tables, functions and sub-maps a map references
+// ============================================================
+
+/**
+ * Server-only — server-side runs (transforms, chain runs) generate scripts
+ * with it. `request` is what the map references (libraryRequest); the tables
+ * and functions its sub-maps reference are loaded as well.
+ */
+export async function loadSharedLibrary(
+    workspaceId: string,
+    request: SharedLibraryRequest,
+): Promise<SharedLibrary> {
+    const submaps = await loadSubmaps(workspaceId, request.submaps)
+    const requests = [request, ...Object.values(submaps).map((s) => libraryRequest(s.state))]
+    const [lookupTables, functions] = await Promise.all([
+        loadLibraryTables(workspaceId, [...new Set(requests.flatMap((r) => r.lookupTables))]),
+        loadLibraryFunctions(
+            workspaceId,
+            request.language,
+            requests.flatMap((r) => r.functions),
+        ),
+    ])
+    return { lookupTables, functions, submaps }
+}
+
+/** The maps `ids` name and, level by level, every map they delegate to. Unknown ids are skipped. */
+async function loadSubmaps(
+    workspaceId: string,
+    ids: Array<string>,
+): Promise<SharedLibrary["submaps"]> {
+    const submaps: Record<string, Submap> = {}
+    const requested = new Set(ids)
+    let pending = [...requested]
+    while (pending.length > 0) {
+        const rows = await db
+            .select({ id: mapperMaps.id, name: mapperMaps.name, state: mapperMaps.state })
+            .from(mapperMaps)
+            .where(and(eq(mapperMaps.workspaceId, workspaceId), inArray(mapperMaps.id, pending)))
+        pending = []
+        for (const row of rows) {
+            const state = deserializeMapperState(JSON.stringify(row.state))
+            submaps[row.id] = { name: row.name, state }
+            for (const id of collectSubmapIds(state.targetTreeNode)) {
+                if (requested.has(id)) continue
+                requested.add(id)
+                pending.push(id)
+            }
+        }
+    }
+    return submaps
+}
+
+async function loadLibraryTables(
+    workspaceId: string,
+    names: Array<string>,
+): Promise<SharedLibrary["lookupTables"]> {
+    if (names.length === 0) return {}
+
+    const rows = await db
+        .select({ name: sharedLookupTables.name, entries: sharedLookupTables.entries })
+        .from(sharedLookupTables)
+        .where(
+            and(
+                eq(sharedLookupTables.workspaceId, workspaceId),
+                inArray(sharedLookupTables.name, names),
+            ),
+        )
+    return Object.fromEntries(rows.map((row) => [row.name, row.entries as Array<LookupEntry>]))
+}
+
+/** The requested versions of each function — pinned ones and, for unpinned imports, the latest. */
+async function loadLibraryFunctions(
+    workspaceId: string,
+    language: ScriptLanguage,
+    imports: SharedLibraryRequest["functions"],
+): Promise<SharedLibrary["functions"]> {
+    if (imports.length === 0) return {}
+
+    const fns = await db
+        .select({
+            id: sharedFunctions.id,
+            name: sharedFunctions.name,
+            latestVersion: sharedFunctions.latestVersion,
+        })
+        .from(sharedFunctions)
+        .where(
+            and(
+                eq(sharedFunctions.workspaceId, workspaceId),
+                eq(sharedFunctions.language, language),
+                inArray(
+                    sharedFunctions.name,
+                    imports.map((i) => i.name),
+                ),
+            ),
+        )
+    if (fns.length === 0) return {}
+
+    const wanted = new Set<string>() // functionId@version
+    const numbers = new Set<number>()
+    for (const fn of fns) {
+        for (const i of imports) {
+            if (i.name !== fn.name) continue
+            wanted.add(`${fn.id}@${i.version ?? fn.latestVersion}`)
+            numbers.add(i.version ?? fn.latestVersion)
+        }
+    }
+    const versions = await db
+        .select({
+            functionId: sharedFunctionVersions.functionId,
+            version: sharedFunctionVersions.version,
+            body: sharedFunctionVersions.body,
+        })
+        .from(sharedFunctionVersions)
+        .where(
+            and(
+                inArray(
+                    sharedFunctionVersions.functionId,
+                    fns.map((fn) => fn.id),
+                ),
+                inArray(sharedFunctionVersions.version, [...numbers]),
+            ),
+        )
+
+    return Object.fromEntries(
+        fns.map((fn) => {
+            const bodies: Record<number, string> = {}
+            for (const v of versions) {
+                if (v.functionId === fn.id && wanted.has(`${fn.id}@${v.version}`)) {
+                    bodies[v.version] = v.body
+                }
+            }
+            return [fn.name, { latest: fn.latestVersion, bodies }]
+        }),
+    )
+}
+
+export const getSharedLibrary = createServerFn({ method: "POST" })
+    .middleware([authMiddleware])
+    .inputValidator(
+        z.object({
+            language: z.enum(["javascript", "groovy"]),
+            lookupTables: z.array(z.string()),
+            functions: z.array(
+                z.object({ name: z.string(), version: z.number().int().positive().nullable() }),
+            ),
+            submaps: z.array(z.string().uuid()),
+        }),
+    )
+    .handler(({ data, context }) => loadSharedLibrary(context.workspaceId, data))
+
+/**
+ * The library for generating `state`'s script in the browser — no request
+ * when the map references nothing in the library.
+ */
+export async function fetchSharedLibrary(
+    state: Pick<MapperState, "localContext" | "scriptLanguage" | "targetTreeNode">,
+): Promise<SharedLibrary> {
+    const request = libraryRequest(state)
+    if (isEmptyLibraryRequest(request)) return emptySharedLibrary()
+    return getSharedLibrary({ data: request })
+}
+
+// ============================================================
+// listSharedLookupTables — Library tables with the maps using them
+// ============================================================
+
+export const listSharedLookupTables = createServerFn()
+    .middleware([authMiddleware])
+    .handler(async ({ context }): Promise<Array<SharedLookupTableSummary>> => {
+        const [tables, maps] = await Promise.all([
+            db
+                .select()
+                .from(sharedLookupTables)
+                .where(eq(sharedLookupTables.workspaceId, context.workspaceId))
+                .orderBy(sharedLookupTables.name),
+            db
+                .select({
+                    id: mapperMaps.id,
+                    name: mapperMaps.name,
+                    lookupTables: sql<Array<LookupTable> | null>`${mapperMaps.state}->'localContext'->'lookupTables'`,
+                })
+                .from(mapperMaps)
+                .where(eq(mapperMaps.workspaceId, context.workspaceId)),
+        ])
+
+        const usage = findLibraryTableUsage(maps)
+        return tables.map((table) => ({
+            id: table.id,
+            name: table.name,
+            description: table.description,
+            entries: table.entries as Array<LookupEntry>,
+            updatedAt: (table.updatedAt ?? new Date()).toISOString(),
+            usedBy: usage[table.name] ?? [],
+        }))
+    })
+
+// ============================================================
+// saveSharedLookupTable — Create or update a library table
+// ============================================================
+
+const lookupEntrySchema = z.object({
+    id: z.string(),
+    key: z.string(),
+    value: z.string(),
+    plainTextValue: z.boolean(),
+})
+
+/**
+ * Renaming a table does not relink the maps using it — they keep the old
+ * name and generate an empty table until relinked, so renames of used
+ * tables are refused.
+ */
+export const saveSharedLookupTable = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor")])
+    .inputValidator(
+        z.object({
+            id: z.string().uuid().optional(),
+            name: z
+                .string()
+                .trim()
+                .regex(/^[A-Za-z_$][\w$]*$/, "Table names must be valid identifiers"),
+            description: z.string().max(500).nullable().optional(),
+            entries: z.array(lookupEntrySchema),
+        }),
+    )
+    .handler(async ({ data, context }) => {
+        const now = new Date()
+        const values = {
+            name: data.name,
+            description: data.description?.trim() || null,
+            entries: data.entries,
+            updatedBy: context.userId,
+            updatedAt: now,
+        }
+
+        return db.transaction(async (tx) => {
+            const clashes = await tx
+                .select({ id: sharedLookupTables.id })
+                .from(sharedLookupTables)
+                .where(
+                    and(
+                        eq(sharedLookupTables.workspaceId, context.workspaceId),
+                        eq(sharedLookupTables.name, data.name),
+                    ),
+                )
+                .limit(1)
+            if (clashes.length > 0 && clashes[0].id !== data.id) {
+                throw new Error(`A library table named "${data.name}" already exists`)
+            }
+
+            if (!data.id) {
+                const [created] = await tx
+                    .insert(sharedLookupTables)
+                    .values({ ...values, workspaceId: context.workspaceId, createdAt: now })
+                    .returning({ id: sharedLookupTables.id })
+                return { id: created.id, savedAt: now.toISOString() }
+            }
+
+            const inWorkspace = and(
+                eq(sharedLookupTables.id, data.id),
+                eq(sharedLookupTables.workspaceId, context.workspaceId),
+            )
+            const rows = await tx
+                .select({ name: sharedLookupTables.name })
+                .from(sharedLookupTables)
+                .where(inWorkspace)
+                .limit(1)
+            if (rows.length === 0) throw new Error("Library table not found")
+            const current = rows[0]
+            if (current.name !== data.name) {
+                await refuseIfUsed(
+                    tx,
+                    context.workspaceId,
+                    linksTable(current.name),
+                    `"${current.name}"`,
+                    "rename",
+                )
+            }
+
+            await tx.update(sharedLookupTables).set(values).where(inWorkspace)
+            return { id: data.id, savedAt: now.toISOString() }
+        })
+    })
+
+// ============================================================
+// deleteSharedLookupTable — Remove an unused library table
+// ============================================================
+
+export const deleteSharedLookupTable = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor")])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        await db.transaction(async (tx) => {
+            const inWorkspace = and(
+                eq(sharedLookupTables.id, data.id),
+                eq(sharedLookupTables.workspaceId, context.workspaceId),
+            )
+            const rows = await tx
+                .select({ name: sharedLookupTables.name })
+                .from(sharedLookupTables)
+                .where(inWorkspace)
+                .limit(1)
+            if (rows.length === 0) throw new Error("Library table not found")
+            const current = rows[0]
+
+            await refuseIfUsed(
+                tx,
+                context.workspaceId,
+                linksTable(current.name),
+                `"${current.name}"`,
+                "delete",
+            )
+            await tx.delete(sharedLookupTables).where(inWorkspace)
+        })
+        return { success: true }
+    })
+
+// ============================================================
+// listSharedFunctions — Library functions with their versions and users
+// ============================================================
+
+export const listSharedFunctions = createServerFn()
+    .middleware([authMiddleware])
+    .handler(async ({ context }): Promise<Array<SharedFunctionSummary>> => {
+        const [fns, versions, maps] = await Promise.all([
+            db
+                .select()
+                .from(sharedFunctions)
+                .where(eq(sharedFunctions.workspaceId, context.workspaceId))
+                .orderBy(sharedFunctions.name, sharedFunctions.language),
+            db
+                .select({
+                    functionId: sharedFunctionVersions.functionId,
+                    version: sharedFunctionVersions.version,
+                    body: sharedFunctionVersions.body,
+                    message: sharedFunctionVersions.message,
+                    authorName: users.name,
+                    createdAt: sharedFunctionVersions.createdAt,
+                })
+                .from(sharedFunctionVersions)
+                .innerJoin(
+                    sharedFunctions,
+                    eq(sharedFunctionVersions.functionId, sharedFunctions.id),
+                )
+                .leftJoin(users, eq(sharedFunctionVersions.userId, users.id))
+                .where(eq(sharedFunctions.workspaceId, context.workspaceId))
+                .orderBy(desc(sharedFunctionVersions.version)),
+            db
+                .select({
+                    id: mapperMaps.id,
+                    name: mapperMaps.name,
+                    scriptLanguage: sql<ScriptLanguage | null>`${mapperMaps.state}->>'scriptLanguage'`,
+                    functions: sql<Array<TransformFunction> | null>`${mapperMaps.state}->'localContext'->'functions'`,
+                })
+                .from(mapperMaps)
+                .where(eq(mapperMaps.workspaceId, context.workspaceId)),
+        ])
+
+        const usage = findLibraryFunctionUsage(maps)
+        return fns.map((fn) => {
+            const language = fn.language as ScriptLanguage
+            return {
+                id: fn.id,
+                name: fn.name,
+                language,
+                description: fn.description,
+                latestVersion: fn.latestVersion,
+                versions: versions
+                    .filter((v) => v.functionId === fn.id)
+                    .map((v) => ({
+                        version: v.version,
+                        body: v.body,
+                        message: v.message,
+                        authorName: v.authorName,
+                        createdAt: (v.createdAt ?? new Date()).toISOString(),
+                    })),
+                usedBy: usage[libraryFunctionKey(language, fn.name)] ?? [],
+            }
+        })
+    })
+
+// ============================================================
+// saveSharedFunction — Create a function or publish a new version
+// ============================================================
+
+/**
+ * Versions are immutable: saving a changed body publishes the next version,
+ * which maps following the latest pick up at their next generation while
+ * pinned maps keep theirs. Renames of imported functions are refused, as for
+ * library tables; a function's language is fixed when it is created.
+ */
+export const saveSharedFunction = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor")])
+    .inputValidator(
+        z.object({
+            id: z.string().uuid().optional(),
+            name: z
+                .string()
+                .trim()
+                .regex(/^[A-Za-z_$][\w$]*$/, "Function names must be valid identifiers"),
+            language: z.enum(["javascript", "groovy"]),
+            description: z.string().max(500).nullable().optional(),
+            body: z.string().min(1, "The function has no body"),
+            message: z.string().max(500).optional(),
+        }),
+    )
+    .handler(async ({ data, context }) => {
+        const now = new Date()
+        const versionRow = (functionId: string, version: number) => ({
+            functionId,
+            version,
+            body: data.body,
+            message: data.message?.trim() || null,
+            userId: context.userId,
+            createdAt: now,
+        })
+
+        return db.transaction(async (tx) => {
+            const currentRows = data.id
+                ? await tx
+                      .select()
+                      .from(sharedFunctions)
+                      .where(
+                          and(
+                              eq(sharedFunctions.id, data.id),
+                              eq(sharedFunctions.workspaceId, context.workspaceId),
+                          ),
+                      )
+                      .limit(1)
+                : []
+            if (data.id && currentRows.length === 0) {
+                throw new Error("Library function not found")
+            }
+            const current = currentRows.at(0)
+            const language = (current?.language ?? data.language) as ScriptLanguage
+
+            const clashes = await tx
+                .select({ id: sharedFunctions.id })
+                .from(sharedFunctions)
+                .where(
+                    and(
+                        eq(sharedFunctions.workspaceId, context.workspaceId),
+                        eq(sharedFunctions.name, data.name),
+                        eq(sharedFunctions.language, language),
+                    ),
+                )
+                .limit(1)
+            if (clashes.length > 0 && clashes[0].id !== data.id) {
+                throw new Error(
+                    `A ${language} library function named "${data.name}" already exists`,
+                )
+            }
+
+            if (!current) {
+                const [created] = await tx
+                    .insert(sharedFunctions)
+                    .values({
+                        workspaceId: context.workspaceId,
+                        name: data.name,
+                        language,
+                        description: data.description?.trim() || null,
+                        latestVersion: 1,
+                        createdAt: now,
+                        updatedAt: now,
+                    })
+                    .returning({ id: sharedFunctions.id })
+                await tx.insert(sharedFunctionVersions).values(versionRow(created.id, 1))
+                return { id: created.id, version: 1, savedAt: now.toISOString() }
+            }
+
+            if (current.name !== data.name) {
+                await refuseIfUsed(
+                    tx,
+                    context.workspaceId,
+                    importsFunction(current.name, language),
+                    `"${current.name}"`,
+                    "rename",
+                )
+            }
+
+            const latestRows = await tx
+                .select({ body: sharedFunctionVersions.body })
+                .from(sharedFunctionVersions)
+                .where(
+                    and(
+                        eq(sharedFunctionVersions.functionId, current.id),
+                        eq(sharedFunctionVersions.version, current.latestVersion),
+                    ),
+                )
+                .limit(1)
+            const unchanged = latestRows.length > 0 && latestRows[0].body === data.body
+            const latestVersion = unchanged ? current.latestVersion : current.latestVersion + 1
+            if (latestVersion !== current.latestVersion) {
+                await tx
+                    .insert(sharedFunctionVersions)
+                    .values(versionRow(current.id, latestVersion))
+            }
+
+            await tx
+                .update(sharedFunctions)
+                .set({
+                    name: data.name,
+                    description: data.description?.trim() || null,
+                    latestVersion,
+                    updatedAt: now,
+                })
+                .where(eq(sharedFunctions.id, current.id))
+            return { id: current.id, version: latestVersion, savedAt: now.toISOString() }
+        })
+    })
+
+// ============================================================
+// deleteSharedFunction — Remove a function no map imports
+// ============================================================
+
+export const deleteSharedFunction = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor")])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        await db.transaction(async (tx) => {
+            const inWorkspace = and(
+                eq(sharedFunctions.id, data.id),
+                eq(sharedFunctions.workspaceId, context.workspaceId),
+            )
+            const rows = await tx
+                .select({ name: sharedFunctions.name, language: sharedFunctions.language })
+                .from(sharedFunctions)
+                .where(inWorkspace)
+                .limit(1)
+            if (rows.length === 0) throw new Error("Library function not found")
+            const current = rows[0]
+
+            await refuseIfUsed(
+                tx,
+                context.workspaceId,
+                importsFunction(current.name, current.language as ScriptLanguage),
+                `"${current.name}"`,
+                "delete",
+            )
+            await tx.delete(sharedFunctions).where(inWorkspace)
+        })
+        return { success: true }
+    })
+
+type Database = typeof db
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+/** Maps linking the library table `name`. */
+function linksTable(name: string): SQL {
+    const linked = JSON.stringify([{ libraryTable: name }])
+    return sql`${mapperMaps.state}->'localContext'->'lookupTables' @> ${linked}::jsonb`
+}
+
+/** Maps importing the library function `name` — only maps in its language resolve it. */
+function importsFunction(name: string, language: ScriptLanguage): SQL {
+    const imported = JSON.stringify([{ libraryFunction: name }])
+    return sql`${mapperMaps.state}->'localContext'->'functions' @> ${imported}::jsonb and coalesce(${mapperMaps.state}->>'scriptLanguage', 'javascript') = ${language}`
+}
+
+/** Throws when maps in the workspace match `usage` (linksTable / importsFunction). */
+async function refuseIfUsed(
+    tx: Transaction,
+    workspaceId: string,
+    usage: SQL,
+    label: string,
+    action: "rename" | "delete",
+): Promise<void> {
+    const maps = await tx
+        .select({ name: mapperMaps.name })
+        .from(mapperMaps)
+        .where(and(eq(mapperMaps.workspaceId, workspaceId), usage))
+    if (maps.length > 0) {
+        const names = maps.map((m) => `"${m.name}"`).join(", ")
+        throw new Error(`Cannot ${action} ${label} — it is used by ${names}`)
+    }
+}
@@ -0,0 +1,192 @@
+import { collectSubmapIds } from "./submaps"
+import type { Submap } from "./submaps"
+import type {
+    LookupEntry,
+    LookupTable,
+    MapperContext,
+    MapperState,
+    ScriptLanguage,
+    TransformFunction,
+} from "./types"
+
+// ============================================================
+// Shared library — lookup tables and functions reused across maps
+// ============================================================
+// Code lists (country codes, UOM conversions, ...) and helper functions live
+// once per workspace (shared-library.server.ts) instead of inside every map.
+// A map links a library table by name (LookupTable.libraryTable) and imports
+// a library function by name, pinned to a version or following the latest
+// (TransformFunction.libraryFunction / libraryVersion). generateScript /
+// generateGroovyScript take the library in their options and inline what is
+// current at generation time. Callers load only what the map references, in
+// the map's script language — libraryRequest. Sub-maps (submaps.ts) travel
+// with the library, together with the tables and functions they reference.
+
+export interface SharedLibrary {
+    lookupTables: Record<string, Array<LookupEntry>> // library table name → entries
+    functions: Record<string, LibraryFunctionVersions> // library function name → loaded versions
+    submaps: Record<string, Submap> // saved map id → map, for submap nodes
+}
+
+/** The versions of a library function a map needs, in the map's script language. */
+export interface LibraryFunctionVersions {
+    latest: number
+    bodies: Record<number, string> // version → body
+}
+
+/** What to load from the library for one map (see libraryRequest). */
+export interface SharedLibraryRequest {
+    language: ScriptLanguage // Function versions are loaded in this language
+    lookupTables: Array<string>
+    functions: Array<{ name: string; version: number | null }> // null: the latest version
+    submaps: Array<string> // Saved map ids — loaded with everything they reference in turn
+}
+
+/** A library table as listed in the library dialog. */
+export interface SharedLookupTableSummary {
+    id: string
+    name: string
+    description: string | null
+    entries: Array<LookupEntry>
+    updatedAt: string
+    usedBy: Array<{ id: string; name: string }> // Maps that link the table
+}
+
+/** A library function as listed in the library dialog and the environment editor. */
+export interface SharedFunctionSummary {
+    id: string
+    name: string
+    language: ScriptLanguage
+    description: string | null
+    latestVersion: number
+    versions: Array<{
+        version: number
+        body: string
+        message: string | null
+        authorName: string | null
+        createdAt: string
+    }> // Newest first
+    usedBy: Array<{ id: string; name: string; version: number | null }> // Maps importing the function
+}
+
+export function emptySharedLibrary(): SharedLibrary {
+    return { lookupTables: {}, functions: {}, submaps: {} }
+}
+
+/** Library tables a map links, each once. */
+export function libraryTableNames(context: Pick<MapperContext, "lookupTables">): Array<string> {
+    const names = context.lookupTables.flatMap((t) => (t.libraryTable ? [t.libraryTable] : []))
+    return [...new Set(names)]
+}
+
+/** Everything a map references in the library — empty lists when it references nothing. */
+export function libraryRequest(
+    state: Pick<MapperState, "localContext" | "scriptLanguage" | "targetTreeNode">,
+): SharedLibraryRequest {
+    const functions = state.localContext.functions.flatMap((f) =>
+        f.libraryFunction ? [{ name: f.libraryFunction, version: f.libraryVersion ?? null }] : [],
+    )
+    return {
+        language: state.scriptLanguage ?? "javascript",
+        lookupTables: libraryTableNames(state.localContext),
+        functions,
+        submaps: collectSubmapIds(state.targetTreeNode),
+    }
+}
+
+export function isEmptyLibraryRequest(request: SharedLibraryRequest): boolean {
+    return (
+        request.lookupTables.length === 0 &&
+        request.functions.length === 0 &&
+        request.submaps.length === 0
+    )
+}
+
+/**
+ * Entries a lookup table generates: its own, or the library's for a linked
+ * table — null when the linked table is not in the library.
+ */
+export function resolveLookupEntries(
+    table: LookupTable,
+    library?: SharedLibrary,
+): Array<LookupEntry> | null {
+    if (!table.libraryTable) return table.entries
+    if (!library || !Object.hasOwn(library.lookupTables, table.libraryTable)) return null
+    return library.lookupTables[table.libraryTable]
+}
+
+/**
+ * Body a function generates: its own, or the imported library version's —
+ * null when the library has no such function or version.
+ */
+export function resolveFunctionBody(fn: TransformFunction, library?: SharedLibrary): string | null {
+    if (!fn.libraryFunction) return fn.body
+    if (!library || !Object.hasOwn(library.functions, fn.libraryFunction)) return null
+    const versions = library.functions[fn.libraryFunction]
+    return versions.bodies[fn.libraryVersion ?? versions.latest] ?? null
+}
+
+/** The comment generated in place of an imported function the library cannot resolve. */
+export function missingLibraryFunctionComment(fn: TransformFunction): string {
+    const version = fn.libraryVersion ? ` version ${fn.libraryVersion}` : ""
+    return `// Library function "${fn.libraryFunction}"${version} not found`
+}
+
+/**
+ * `state` with imported functions turned into local copies of their resolved
+ * bodies — for code that rewrites function bodies, like the Groovy to
+ * JavaScript transpiler.
+ */
+export function inlineLibraryFunctions(state: MapperState, library?: SharedLibrary): MapperState {
+    const functions = state.localContext.functions.map((fn) => {
+        if (!fn.libraryFunction) return fn
+        const body = resolveFunctionBody(fn, library) ?? missingLibraryFunctionComment(fn)
+        return { id: fn.id, name: fn.name, body }
+    })
+    return { ...state, localContext: { ...state.localContext, functions } }
+}
+
+/**
+ * The maps linking each library table, by table name. `maps` carry their
+ * lookup tables as stored (null for maps without a context).
+ */
+export function findLibraryTableUsage(
+    maps: Array<{ id: string; name: string; lookupTables: Array<LookupTable> | null }>,
+): Record<string, Array<{ id: string; name: string }>> {
+    const usage: Record<string, Array<{ id: string; name: string }>> = {}
+    for (const map of maps) {
+        for (const name of libraryTableNames({ lookupTables: map.lookupTables ?? [] })) {
+            usage[name] = [...(usage[name] ?? []), { id: map.id, name: map.name }]
+        }
+    }
+    return usage
+}
+
+/**
+ * The maps importing each library function, by libraryFunctionKey. `maps`
+ * carry their functions and script language as stored (null when unset).
+ */
+export function findLibraryFunctionUsage(
+    maps: Array<{
+        id: string
+        name: string
+        scriptLanguage: ScriptLanguage | null
+        functions: Array<TransformFunction> | null
+    }>,
+): Record<string, SharedFunctionSummary["usedBy"]> {
+    const usage: Record<string, SharedFunctionSummary["usedBy"]> = {}
+    for (const map of maps) {
+        for (const fn of map.functions ?? []) {
+            if (!fn.libraryFunction) continue
+            const key = libraryFunctionKey(map.scriptLanguage ?? "javascript", fn.libraryFunction)
+            const use = { id: map.id, name: map.name, version: fn.libraryVersion ?? null }
+            usage[key] = [...(usage[key] ?? []), use]
+        }
+    }
+    return usage
+}
+
+/** Library functions are unique per name and script language. */
+export function libraryFunctionKey(language: ScriptLanguage, name: string): string {
+    return `${language}:${name}`
+}
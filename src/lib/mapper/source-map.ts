@@ -0,0 +1,148 @@
+import { findNodeById, getFieldPath } from "./node-utils"
+import type { MapperState } from "./types"
+
+// ============================================================
+// Script source maps — generated script lines back to the mapper
+// ============================================================
+// While a script is generated every line is tagged with where it came from:
+// the target node whose rule produced it, or a line of the prolog, epilog or
+// a user function. generateScriptWithSourceMap / generateGroovyScriptWithSourceMap
+// strip the tags into a ScriptSourceMap, so the line an error was thrown from
+// (a JS stack frame, a Groovy exception line from the sidecar) resolves to
+// the node or section to open. Lines without a tag (input parsing, helpers,
+// the return) map to null.
+
+export type ScriptOrigin =
+    | { kind: "node"; nodeId: string }
+    | { kind: "function"; functionId: string; line: number }
+    | { kind: "prolog"; line: number }
+    | { kind: "epilog"; line: number }
+
+/** Origins outside the target tree — shown in the environment editor. */
+export type EnvironmentOrigin = Exclude<ScriptOrigin, { kind: "node" }>
+
+/** Origin of every script line; index 0 is line 1. */
+export type ScriptSourceMap = Array<ScriptOrigin | null>
+
+export interface GeneratedScript {
+    script: string
+    sourceMap: ScriptSourceMap
+}
+
+// Tags are appended to lines as "\u0000<tag>" and never reach the final script
+const TAG_MARK = "\u0000"
+
+/** Tags every line of `code` that has no tag yet with the target node. */
+export function tagNodeLines(code: string, nodeId: string): string {
+    if (!code) return code
+    return code
+        .split("\n")
+        .map((line) => (line.includes(TAG_MARK) ? line : `${line}${TAG_MARK}n:${nodeId}`))
+        .join("\n")
+}
+
+/**
+ * Trims verbatim user code (prolog, epilog, a function body) and tags each
+ * remaining line with its line number in the untrimmed text.
+ */
+export function tagSectionLines(
+    code: string,
+    section: "prolog" | "epilog" | { functionId: string },
+): string {
+    const trimmed = code.trim()
+    const leading = code.slice(0, code.length - code.trimStart().length).split("\n").length - 1
+    const prefix = typeof section === "string" ? section[0] : `f:${section.functionId}`
+    return trimmed
+        .split("\n")
+        .map((line, i) => `${line}${TAG_MARK}${prefix}:${leading + i + 1}`)
+        .join("\n")
+}
+
+function parseTag(tag: string): ScriptOrigin | null {
+    const kind = tag.slice(0, 2)
+    const rest = tag.slice(2)
+    if (kind === "n:") return { kind: "node", nodeId: rest }
+    if (kind === "p:") return { kind: "prolog", line: Number(rest) }
+    if (kind === "e:") return { kind: "epilog", line: Number(rest) }
+    if (kind === "f:") {
+        const split = rest.lastIndexOf(":")
+        return {
+            kind: "function",
+            functionId: rest.slice(0, split),
+            line: Number(rest.slice(split + 1)),
+        }
+    }
+    return null
+}
+
+/** Strips the tags from a tagged script and returns it with its source map. */
+export function buildSourceMap(tagged: string): GeneratedScript {
+    const lines: Array<string> = []
+    const sourceMap: ScriptSourceMap = []
+    for (const line of tagged.split("\n")) {
+        const mark = line.indexOf(TAG_MARK)
+        if (mark === -1) {
+            lines.push(line)
+            sourceMap.push(null)
+        } else {
+            lines.push(line.slice(0, mark))
+            sourceMap.push(parseTag(line.slice(mark + 1)))
+        }
+    }
+    return { script: lines.join("\n"), sourceMap }
+}
+
+/** Origin of a 1-based script line, or null when the line is generated scaffolding. */
+export function resolveScriptLine(
+    sourceMap: ScriptSourceMap,
+    line: number | null | undefined,
+): ScriptOrigin | null {
+    if (!line || line < 1) return null
+    return sourceMap[line - 1] ?? null
+}
+
+// Innermost stack frame inside the script: V8 `new Function` frames end in
+// "<anonymous>:L:C", Firefox ones in "> Function:L:C", vm runs use the filename
+const JS_FRAME_PATTERN = /(?:<anonymous>|> Function|mapper-script\.js):(\d+):\d+/
+
+/**
+ * Script line a JavaScript error was thrown from, read from its stack.
+ * `headerLines` is the number of wrapper lines the runtime puts before the
+ * script body. Null for syntax errors and errors thrown outside the script.
+ */
+export function jsErrorLine(error: unknown, headerLines: number): number | null {
+    const stack = (error as { stack?: unknown } | null)?.stack
+    if (typeof stack !== "string") return null
+    const match = JS_FRAME_PATTERN.exec(stack)
+    if (!match) return null
+    const line = Number(match[1]) - headerLines
+    return line >= 1 ? line : null
+}
+
+/**
+ * Script line of a Groovy error: the line the sidecar reports, or the
+ * "@ line N" of a compilation error message from an older sidecar.
+ */
+export function groovyErrorLine(error: string, reported?: number | null): number | null {
+    if (reported) return reported
+    const match = /@ line (\d+)/.exec(error)
+    return match ? Number(match[1]) : null
+}
+
+/** Short label for an origin, e.g. `items.sku`, `prolog line 3`, `function toDate line 2`. */
+export function describeScriptOrigin(origin: ScriptOrigin, state: MapperState): string {
+    switch (origin.kind) {
+        case "node": {
+            const tree = state.targetTreeNode
+            const node = tree && findNodeById(origin.nodeId, tree)
+            return node ? getFieldPath(node, tree) : "a removed target node"
+        }
+        case "function": {
+            const fn = state.localContext.functions.find((f) => f.id === origin.functionId)
+            return `function ${fn?.name || "(removed)"} line ${origin.line}`
+        }
+        case "prolog":
+        case "epilog":
+            return `${origin.kind} line ${origin.line}`
+    }
+}
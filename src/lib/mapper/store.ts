@@ -4,6 +4,7 @@ import { immer } from "zustand/middleware/immer"
 import { subscribeWithSelector } from "zustand/middleware"
 import type {
     ApplyMethod,
+    CsvOptions,
     FlatReference,
     GlobalVariable,
     InputType,
@@ -11,6 +12,7 @@ import type {
     LookupTable,
     LoopCondition,
     LoopReference,
+    MapTestCase,
     MapperContext,
     MapperNodeType,
     MapperPreferences,
@@ -44,7 +46,10 @@ import {
     suggestVariableName,
     syncFlatReferences,
 } from "./reference-utils"
+import { applyVariableRename } from "./rename"
 import { deserializeMapperState, serializeMapperState } from "./serialization"
+import type { MappingCoverage } from "./coverage"
+import type { EnvironmentOrigin, ScriptOrigin } from "./source-map"
 
 const MAX_UNDO_HISTORY = 8
 
@@ -67,6 +72,8 @@ interface ClipboardState {
     copiedNodeSide: "source" | "target" | null
 }
 
+type MapperTab = "mapper" | "references" | "environment"
+
 interface UIState {
     isDirty: boolean
     isSaving: boolean
@@ -74,8 +81,12 @@ interface UIState {
     lastSavedAt: string | null
     currentResourceName: string | null
     currentResourceId: string | null
+    currentResourceRevision: number | null // Revision the editor state is based on
     isExecutePanelOpen: boolean
     isDSLMode: boolean // true = show DSL panel; false = show visual tree panel
+    coverage: MappingCoverage | null // Counters of the last instrumented run or test suite
+    mapperTab: MapperTab // Tab shown by the mapper view
+    environmentFocus: EnvironmentOrigin | null // Line the environment editor should reveal
 }
 
 export interface MapperStore extends SelectionState, UndoRedoState, ClipboardState, UIState {
@@ -92,9 +103,14 @@ export interface MapperStore extends SelectionState, UndoRedoState, ClipboardSta
     redo: () => void
 
     // ─── Load / Reset ──────────────────────────────────────────────────────────
-    loadState: (state: MapperState, name?: string | null, id?: string | null) => void
+    loadState: (
+        state: MapperState,
+        name?: string | null,
+        id?: string | null,
+        revision?: number | null,
+    ) => void
     resetState: () => void
-    setCurrentResource: (name: string, id: string) => void
+    setCurrentResource: (name: string, id: string, revision: number) => void
 
     // ─── Tree mutations ────────────────────────────────────────────────────────
     setSourceTree: (tree: MapperTreeNode, inputType: InputType) => void
@@ -224,6 +240,15 @@ export interface MapperStore extends SelectionState, UndoRedoState, ClipboardSta
     toggleExecutePanel: () => void
     setDSLMode: (enabled: boolean) => void
     setScriptLanguage: (lang: ScriptLanguage) => void
+    setCsvOptions: (side: "source" | "target", options: CsvOptions) => void
+    setCoverage: (coverage: MappingCoverage | null) => void
+    setMapperTab: (tab: MapperTab) => void
+    focusScriptOrigin: (origin: ScriptOrigin | null) => void
+
+    // ─── Test cases (map-tests.ts) ───────────────────────────────────────────
+    addTestCase: (testCase: MapTestCase) => void
+    updateTestCase: (id: string, patch: Partial<MapTestCase>) => void
+    removeTestCase: (id: string) => void
 }
 
 // ============================================================
@@ -368,8 +393,12 @@ export const useMapperStore = create<MapperStore>()(
             lastSavedAt: null,
             currentResourceName: null,
             currentResourceId: null,
+            currentResourceRevision: null,
             isExecutePanelOpen: false,
             isDSLMode: false,
+            coverage: null,
+            mapperTab: "mapper",
+            environmentFocus: null,
 
             // ─── Computed ───────────────────────────────────────────────────────
             canUndo: () => get().undoStack.length > 0,
@@ -409,7 +438,12 @@ export const useMapperStore = create<MapperStore>()(
             },
 
             // ─── Load / Reset ───────────────────────────────────────────────────
-            loadState: (newState: MapperState, name?: string | null, id?: string | null) => {
+            loadState: (
+                newState: MapperState,
+                name?: string | null,
+                id?: string | null,
+                revision?: number | null,
+            ) => {
                 set((state) => {
                     state.mapperState = newState
                     state.undoStack = []
@@ -419,15 +453,19 @@ export const useMapperStore = create<MapperStore>()(
                     state.saveError = null
                     state.selectedSourceNodeId = null
                     state.selectedTargetNodeId = null
+                    state.coverage = null
+                    state.environmentFocus = null
                     if (name !== undefined) state.currentResourceName = name ?? null
                     if (id !== undefined) state.currentResourceId = id ?? null
+                    if (revision !== undefined) state.currentResourceRevision = revision ?? null
                 })
             },
 
-            setCurrentResource: (name: string, id: string) => {
+            setCurrentResource: (name: string, id: string, revision: number) => {
                 set((state) => {
                     state.currentResourceName = name
                     state.currentResourceId = id
+                    state.currentResourceRevision = revision
                 })
             },
 
@@ -444,6 +482,9 @@ export const useMapperStore = create<MapperStore>()(
                     state.selectedTargetNodeId = null
                     state.currentResourceName = null
                     state.currentResourceId = null
+                    state.currentResourceRevision = null
+                    state.coverage = null
+                    state.environmentFocus = null
                 })
             },
 
@@ -1033,12 +1074,9 @@ export const useMapperStore = create<MapperStore>()(
 
             renameVariable: (referenceId: string, newName: string) => {
                 set((state) => {
-                    if (!state.mapperState.targetTreeNode) return
-                    state.mapperState.targetTreeNode = updateRefInTree(
-                        state.mapperState.targetTreeNode,
-                        referenceId,
-                        (ref) => ({ ...ref, variableName: newName }),
-                    )
+                    const renamed = applyVariableRename(state.mapperState, referenceId, newName)
+                    if (!renamed) return
+                    state.mapperState.targetTreeNode = renamed
                     state.mapperState.references = syncFlatReferences(state.mapperState)
                     state.isDirty = true
                 })
@@ -1476,6 +1514,71 @@ export const useMapperStore = create<MapperStore>()(
                     state.isDirty = true
                 })
             },
+
+            setCsvOptions: (side: "source" | "target", options: CsvOptions) => {
+                set((state) => {
+                    if (side === "source") {
+                        state.mapperState.sourceCsvOptions = options
+                    } else {
+                        state.mapperState.targetCsvOptions = options
+                    }
+                    state.isDirty = true
+                })
+            },
+
+            setCoverage: (coverage: MappingCoverage | null) => {
+                set((state) => {
+                    state.coverage = coverage
+                })
+            },
+
+            setMapperTab: (tab: MapperTab) => {
+                set((state) => {
+                    state.mapperTab = tab
+                })
+            },
+
+            // Target nodes open in the node editor, the rest in the environment
+            // tab; null clears a focus the environment editor has revealed
+            focusScriptOrigin: (origin: ScriptOrigin | null) => {
+                set((state) => {
+                    if (!origin) {
+                        state.environmentFocus = null
+                    } else if (origin.kind === "node") {
+                        state.selectedTargetNodeId = origin.nodeId
+                        state.mapperTab = "mapper"
+                    } else {
+                        state.environmentFocus = origin
+                        state.mapperTab = "environment"
+                    }
+                })
+            },
+
+            addTestCase: (testCase: MapTestCase) => {
+                set((state) => {
+                    state.mapperState.testCases = [...(state.mapperState.testCases ?? []), testCase]
+                    state.isDirty = true
+                })
+            },
+
+            updateTestCase: (id: string, patch: Partial<MapTestCase>) => {
+                set((state) => {
+                    const testCase = state.mapperState.testCases?.find((t) => t.id === id)
+                    if (testCase) {
+                        Object.assign(testCase, patch)
+                        state.isDirty = true
+                    }
+                })
+            },
+
+            removeTestCase: (id: string) => {
+                set((state) => {
+                    state.mapperState.testCases = (state.mapperState.testCases ?? []).filter(
+                        (t) => t.id !== id,
+                    )
+                    state.isDirty = true
+                })
+            },
         })),
     ),
 )
@@ -0,0 +1,137 @@
+import { hasFieldRules, traverseDown } from "./node-utils"
+import type { MapperState, MapperTreeNode, ScriptLanguage } from "./types"
+
+// ============================================================
+// Sub-maps — target subtrees delegated to other saved maps
+// ============================================================
+// A "submap" node names a saved map (MapperTreeNode.submapId). The referenced
+// map runs on the node's source reference and its output becomes the node's
+// value. Sub-maps are loaded with the shared library (SharedLibrary.submaps),
+// transitively, and generateScript / generateGroovyScript emit every reachable
+// sub-map once as a top-level function the submap nodes call — inside loops
+// too. A sub-map that reaches itself again generates a function that throws.
+
+/** A saved map as loaded for generation. */
+export interface Submap {
+    name: string
+    state: MapperState
+}
+
+/** The submap nodes of a target tree that reference a map. */
+export function collectSubmapNodes(tree: MapperTreeNode | null): Array<MapperTreeNode> {
+    const nodes: Array<MapperTreeNode> = []
+    if (!tree) return nodes
+    traverseDown(tree, (n) => {
+        if (n.type === "submap" && n.submapId) nodes.push(n)
+    })
+    return nodes
+}
+
+/** The maps a target tree delegates to, each once. */
+export function collectSubmapIds(tree: MapperTreeNode | null): Array<string> {
+    return [...new Set(collectSubmapNodes(tree).map((n) => n.submapId as string))]
+}
+
+/** Name of the generated function that runs the sub-map `mapId`. */
+export function submapFunctionName(mapId: string): string {
+    return `_submap_${mapId.replace(/\W/g, "_")}`
+}
+
+/**
+ * Every map `state` delegates to, directly or through other sub-maps, each
+ * once in breadth-first order — with the submap node of `state` it is reached
+ * through. Maps missing from `submaps` are listed but not followed.
+ */
+export function reachableSubmaps(
+    state: MapperState,
+    submaps: Record<string, Submap>,
+): Array<{ mapId: string; nodeId: string }> {
+    const reached = new Map<string, string>() // map id → node id
+    const queue = collectSubmapNodes(state.targetTreeNode).map((n) => ({
+        mapId: n.submapId as string,
+        nodeId: n.id,
+    }))
+    while (queue.length > 0) {
+        const { mapId, nodeId } = queue.shift()!
+        if (reached.has(mapId)) continue
+        reached.set(mapId, nodeId)
+        if (!Object.hasOwn(submaps, mapId)) continue
+        for (const next of collectSubmapIds(submaps[mapId].state.targetTreeNode)) {
+            queue.push({ mapId: next, nodeId })
+        }
+    }
+    return [...reached].map(([mapId, nodeId]) => ({ mapId, nodeId }))
+}
+
+/** The call that runs sub-map `mapId` on `input` — the whole source without one. */
+export function submapCall(mapId: string, input: string | null): string {
+    return `${submapFunctionName(mapId)}(${input ?? "sourceData"})`
+}
+
+/**
+ * A chain of map ids leading from one of `fromIds` to `targetId` through the
+ * loaded `submaps` (both ends included) — null when `targetId` is unreachable.
+ */
+export function findSubmapPath(
+    fromIds: Array<string>,
+    targetId: string,
+    submaps: Record<string, Submap>,
+): Array<string> | null {
+    const previous = new Map<string, string | null>(fromIds.map((id) => [id, null]))
+    const queue = [...fromIds]
+    while (queue.length > 0) {
+        const id = queue.shift()!
+        if (id === targetId) {
+            const path = [id]
+            for (let p = previous.get(id); p; p = previous.get(p)) path.unshift(p)
+            return path
+        }
+        if (!Object.hasOwn(submaps, id)) continue
+        for (const next of collectSubmapIds(submaps[id].state.targetTreeNode)) {
+            if (previous.has(next)) continue
+            previous.set(next, id)
+            queue.push(next)
+        }
+    }
+    return null
+}
+
+/**
+ * Why the sub-map `mapId` cannot run inside a `language` map — null when it
+ * can. Missing maps, maps in the other script language and maps that
+ * delegate back to themselves are refused.
+ */
+export function submapProblem(
+    mapId: string,
+    language: ScriptLanguage,
+    submaps: Record<string, Submap>,
+): string | null {
+    if (!Object.hasOwn(submaps, mapId)) return `Sub-map ${mapId} not found`
+    const submap = submaps[mapId]
+    if ((submap.state.scriptLanguage ?? "javascript") !== language) {
+        return `Sub-map "${submap.name}" is written in ${submap.state.scriptLanguage ?? "javascript"}, not ${language}`
+    }
+    const cycle = findSubmapPath(collectSubmapIds(submap.state.targetTreeNode), mapId, submaps)
+    if (cycle) return `Sub-map cycle: ${describeSubmapPath([mapId, ...cycle], submaps)}`
+    return null
+}
+
+/** "Orders → Lines → Orders" for a chain of map ids. */
+export function describeSubmapPath(path: Array<string>, submaps: Record<string, Submap>): string {
+    return path.map((id) => (Object.hasOwn(submaps, id) ? submaps[id].name : id)).join(" → ")
+}
+
+/**
+ * True when the generated script collects validation issues — field rules in
+ * the map itself or in any sub-map it reaches. Sub-maps append to the calling
+ * script's issue list.
+ */
+export function usesFieldRules(state: MapperState, submaps: Record<string, Submap> = {}): boolean {
+    const trees = [
+        state.targetTreeNode,
+        ...reachableSubmaps(state, submaps).map(({ mapId }) =>
+            Object.hasOwn(submaps, mapId) ? submaps[mapId].state.targetTreeNode : null,
+        ),
+    ]
+    return trees.some((tree) => tree !== null && hasFieldRules(tree))
+}
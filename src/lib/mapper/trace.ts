@@ -0,0 +1,60 @@
+// ============================================================
+// Execution trace — step-by-step record of a mapping run
+// ============================================================
+// generateScript(..., { trace: true }) emits `_trace*` calls in every target
+// node: node conditions, loop iterations and loop filters, the source
+// reference variables a node reads and the value it assigns. The script hands
+// the live trace to `reportTrace` before building the output, so a run that
+// throws still returns every event up to the failure.
+
+/** Events kept per run — the rest are dropped and the trace is marked truncated. */
+export const MAX_TRACE_EVENTS = 5000
+
+export type TraceEventKind = "condition" | "iteration" | "filter" | "ref" | "assign"
+
+export interface TraceEvent {
+    seq: number // Position in the run, from 0
+    kind: TraceEventKind
+    nodeId: string // Target node the event belongs to
+    path: string // Field path of that node below the root (e.g. "items.sku")
+    loops: Array<number> // Iteration index of every enclosing loop, outermost first
+    name?: string // "ref": the source reference variable
+    value?: unknown // "ref" / "assign": a JSON copy of the value; "condition" / "filter": passed
+}
+
+export interface ExecutionTrace {
+    events: Array<TraceEvent>
+    truncated: boolean // More than MAX_TRACE_EVENTS events were recorded
+}
+
+export const TRACE_EVENT_LABELS: Record<TraceEventKind, string> = {
+    condition: "condition",
+    iteration: "iteration",
+    filter: "filter",
+    ref: "read",
+    assign: "write",
+}
+
+/** Distinct target paths of a trace in first-seen order. */
+export function tracePaths(trace: ExecutionTrace): Array<string> {
+    return [...new Set(trace.events.map((event) => event.path))]
+}
+
+/**
+ * Events at `path` and below ("items" keeps "items.sku"). An empty path
+ * keeps every event.
+ */
+export function filterTrace(trace: ExecutionTrace, path: string): Array<TraceEvent> {
+    if (!path) return trace.events
+    return trace.events.filter(
+        (event) =>
+            event.path === path ||
+            event.path.startsWith(`${path}.`) ||
+            event.path.startsWith(`${path}[`),
+    )
+}
+
+/** Loop position of an event, e.g. "[2][0]"; empty outside loops. */
+export function formatLoopIndexes(loops: Array<number>): string {
+    return loops.map((index) => `[${index}]`).join("")
+}
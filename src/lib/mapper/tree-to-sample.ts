@@ -1,4 +1,5 @@
-import type { MapperTreeNode } from "./types"
+import { CSV_ROWS_NODE_NAME, DEFAULT_CSV_OPTIONS, toCSV } from "./csv"
+import type { CsvOptions, MapperTreeNode } from "./types"
 
 // ─── JSON sample ──────────────────────────────────────────────────────────────
 
@@ -78,7 +79,9 @@ function nodeToXml(node: MapperTreeNode, depth: number): string {
     const attrChildren = (node.children ?? []).filter((c) => c.type === "attribute")
     const elemChildren = (node.children ?? []).filter((c) => c.type !== "attribute")
 
-    const attrStr = attrChildren.map((a) => ` ${a.name || a.id}="${a.sampleValue ?? ""}"`).join("")
+    const attrStr = attrChildren
+        .map((a) => ` ${a.name.replace(/^@/, "") || a.id}="${a.sampleValue ?? ""}"`)
+        .join("")
 
     if (elemChildren.length === 0) {
         return `${ind}<${tag}${attrStr}>${node.sampleValue ?? ""}</${tag}>`
@@ -100,19 +103,47 @@ export function treeToSampleXml(tree: MapperTreeNode | null | undefined): string
     return nodeToXml(tree, 0)
 }
 
+// ─── CSV sample ───────────────────────────────────────────────────────────────
+
+/**
+ * Serializes a CSV-shaped MapperTreeNode tree (root → rows → [] → columns)
+ * into a header plus one sample record. Falls back to the root's own children
+ * as columns when the tree has no "rows" array.
+ *
+ * Returns an empty string if `tree` is null/undefined.
+ */
+export function treeToSampleCsv(
+    tree: MapperTreeNode | null | undefined,
+    options: CsvOptions = DEFAULT_CSV_OPTIONS,
+): string {
+    if (!tree) return ""
+
+    const rowsNode = tree.children?.find((c) => c.type === "array" && c.name === CSV_ROWS_NODE_NAME)
+    const columns = rowsNode ? (rowsNode.children?.[0]?.children ?? []) : (tree.children ?? [])
+
+    const row: Record<string, unknown> = {}
+    for (const column of columns) {
+        row[column.name || column.id] = column.sampleValue ?? ""
+    }
+    return toCSV([row], options)
+}
+
 // ─── Unified entry point ──────────────────────────────────────────────────────
 
 /**
  * Generates a sample input string from the source tree, using the correct
  * format for the given template type.
  *
- * @param tree  The source MapperTreeNode (from `mapperState.sourceTreeNode`)
- * @param lang  `'json'` or `'xml'`
+ * @param tree        The source MapperTreeNode (from `mapperState.sourceTreeNode`)
+ * @param lang        `'json'`, `'xml'` or `'csv'`
+ * @param csvOptions  Delimiter / quote / header settings for `'csv'`
  */
 export function treeToSample(
     tree: MapperTreeNode | null | undefined,
-    lang: "json" | "xml",
+    lang: "json" | "xml" | "csv",
+    csvOptions?: CsvOptions,
 ): string {
     if (!tree) return ""
+    if (lang === "csv") return treeToSampleCsv(tree, csvOptions)
     return lang === "xml" ? treeToSampleXml(tree) : treeToSampleJson(tree)
 }
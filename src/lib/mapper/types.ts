@@ -83,6 +83,7 @@ export type MapperNodeType =
     | "attribute" // AttributeNode — XML @attribute (path: "@name")
     | "array" // ArrayNode — JSON array [ ]
     | "arrayChild" // ArrayChildNode — item inside an array (path fragment: null)
+    | "submap" // SubmapNode — value built by another saved map (submapId)
 
 export interface SourceReference {
     id: string // UUID for this reference object
@@ -145,6 +146,10 @@ export interface MapperTreeNode {
     // Node-level condition (TARGET TREE ONLY)
     nodeCondition?: NodeCondition
 
+    // Sub-map (TARGET TREE ONLY, "submap" nodes) — the saved map that builds this
+    // node's value from the node's source reference (the whole input without one)
+    submapId?: string
+
     // Tree structure
     children?: MapperTreeNode[]
 }
@@ -168,12 +173,15 @@ export interface LookupTable {
     id: string
     name: string // Valid JS identifier (used as variable name)
     entries: LookupEntry[]
+    libraryTable?: string // Shared library table linked by name — its entries replace `entries` at generation
 }
 
 export interface TransformFunction {
     id: string
     name: string // Function name (auto-extracted from body if blank)
     body: string // Full JS function definition
+    libraryFunction?: string // Shared library function imported by name — its body replaces `body` at generation
+    libraryVersion?: number // Pinned library version (default: the latest)
 }
 
 // The execution context — equivalent of GroovyContext
@@ -191,10 +199,18 @@ export interface MapperPreferences {
     autoMap: boolean // default: false
     autoMapOneToMany: boolean // default: false
     autoMapIncludeSubNodes: boolean // default: false
+    scriptTimeoutMs?: number // JavaScript run limit; default: DEFAULT_SCRIPT_TIMEOUT_MS (engine.ts)
 }
 
 export type InputType = "JSON" | "XML" | "CSV" | "UNKNOWN"
 
+// Reader / writer settings for CSV models (see csv.ts)
+export interface CsvOptions {
+    delimiter: string // Single character, default ","
+    quote: string // Single character, default '"'
+    hasHeader: boolean // First record holds the column names (default: true)
+}
+
 // Denormalized view of a SourceReference with both node IDs resolved
 // state.references[] is always rebuilt from the target tree (syncFlatReferences)
 export interface FlatReference {
@@ -212,6 +228,22 @@ export type ApplyMethod = "REPLACE" | "MERGE" | "ADD_ONLY" | "DELETE_ONLY" | "RE
 
 export type ScriptLanguage = "javascript" | "groovy"
 
+// How a test case compares the map's output with the expected output (see map-tests.ts)
+export interface MapTestCompareOptions {
+    ignorePaths: Array<string> // "order.createdAt", "items[*].id", "*.uuid"; a path also ignores its children
+    ignoreOrder: boolean // Arrays match regardless of item order
+    numericTolerance: number // Largest difference accepted between numbers (0: exact)
+}
+
+// Named input / expected output pair owned by a map — run by "Run all tests"
+export interface MapTestCase {
+    id: string // UUID
+    name: string
+    input: string // Source payload
+    expectedOutput: string // Target payload, in the map's target format
+    options: MapTestCompareOptions
+}
+
 export const MAPPER_MODEL_VERSION = 1
 
 export interface MapperState {
@@ -237,4 +269,27 @@ export interface MapperState {
 
     // Script language for code generation and execution (default: "javascript")
     scriptLanguage?: ScriptLanguage
+
+    // CSV reader / writer settings — only used when the matching input type is "CSV"
+    sourceCsvOptions?: CsvOptions
+    targetCsvOptions?: CsvOptions
+
+    // Regression tests of this map (default: none)
+    testCases?: Array<MapTestCase>
+}
+
+// ============================================================
+// Saved map versions (mapper_map_versions)
+// ============================================================
+
+// Immutable snapshot written on every save; `version` counts up per map
+export interface MapVersionSummary {
+    id: string
+    mapId: string
+    version: number
+    name: string
+    message: string | null
+    authorName: string | null // Falls back to the author's email
+    nodeCount: number
+    createdAt: string // ISO timestamp
 }
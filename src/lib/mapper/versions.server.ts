@@ -0,0 +1,189 @@
+import { createServerFn } from "@tanstack/react-start"
+import { z } from "zod"
+import { and, desc, eq, sql } from "drizzle-orm"
+import type { MapVersionSummary } from "./types"
+import { authMiddleware, requireRole } from "@/lib/auth-middleware"
+import { db } from "@/db"
+import { mapperMapVersions, mapperMaps, users } from "@/db/schema"
+
+/** Versions returned by listMapVersions, newest first. */
+const VERSION_LIST_LIMIT = 100
+
+type Database = typeof db
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+/**
+ * Append an immutable snapshot of a map as version `snapshot.version` — the
+ * map's new revision. Called inside the transaction that writes mapper_maps
+ * so the current state and its newest version never disagree.
+ */
+export async function insertMapVersion(
+    tx: Database | Transaction,
+    snapshot: {
+        mapId: string
+        version: number
+        userId: string
+        name: string
+        state: Record<string, any>
+        nodeCount: number
+        message?: string
+    },
+): Promise<void> {
+    await tx.insert(mapperMapVersions).values({
+        mapId: snapshot.mapId,
+        version: snapshot.version,
+        userId: snapshot.userId,
+        message: snapshot.message?.trim() || null,
+        name: snapshot.name,
+        state: snapshot.state,
+        nodeCount: snapshot.nodeCount,
+    })
+}
+
+/** Select a version of a map in the workspace — versions inherit their map's workspace. */
+function workspaceVersion(id: string, workspaceId: string) {
+    return db
+        .select({ version: mapperMapVersions })
+        .from(mapperMapVersions)
+        .innerJoin(mapperMaps, eq(mapperMapVersions.mapId, mapperMaps.id))
+        .where(and(eq(mapperMapVersions.id, id), eq(mapperMaps.workspaceId, workspaceId)))
+        .limit(1)
+}
+
+// ============================================================
+// listMapVersions — A map's saved versions, newest first
+// ============================================================
+
+export const listMapVersions = createServerFn()
+    .middleware([authMiddleware])
+    .inputValidator(z.object({ mapId: z.string().uuid() }))
+    .handler(async ({ data, context }): Promise<Array<MapVersionSummary>> => {
+        const rows = await db
+            .select({
+                id: mapperMapVersions.id,
+                mapId: mapperMapVersions.mapId,
+                version: mapperMapVersions.version,
+                name: mapperMapVersions.name,
+                message: mapperMapVersions.message,
+                nodeCount: mapperMapVersions.nodeCount,
+                createdAt: mapperMapVersions.createdAt,
+                authorName: users.name,
+                authorEmail: users.email,
+            })
+            .from(mapperMapVersions)
+            .innerJoin(mapperMaps, eq(mapperMapVersions.mapId, mapperMaps.id))
+            .leftJoin(users, eq(mapperMapVersions.userId, users.id))
+            .where(
+                and(
+                    eq(mapperMapVersions.mapId, data.mapId),
+                    eq(mapperMaps.workspaceId, context.workspaceId),
+                ),
+            )
+            .orderBy(desc(mapperMapVersions.version))
+            .limit(VERSION_LIST_LIMIT)
+
+        return rows.map((row) => ({
+            id: row.id,
+            mapId: row.mapId,
+            version: row.version,
+            name: row.name,
+            message: row.message,
+            authorName: row.authorName || row.authorEmail,
+            nodeCount: row.nodeCount ?? 0,
+            createdAt: (row.createdAt ?? new Date()).toISOString(),
+        }))
+    })
+
+// ============================================================
+// loadMapVersion — A version's full state
+// ============================================================
+
+export const loadMapVersion = createServerFn()
+    .middleware([authMiddleware])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        const rows = await workspaceVersion(data.id, context.workspaceId)
+        if (rows.length === 0) throw new Error("Map version not found")
+
+        return rows[0].version.state as Record<string, any>
+    })
+
+// ============================================================
+// restoreMapVersion — Make an older version the current map
+// ============================================================
+
+/**
+ * Copies the version's state over the map and records the restore as a new
+ * version, so history stays append-only and the restore itself can be undone.
+ */
+export const restoreMapVersion = createServerFn({ method: "POST" })
+    .middleware([requireRole("editor")])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        const rows = await workspaceVersion(data.id, context.workspaceId)
+        if (rows.length === 0) throw new Error("Map version not found")
+
+        const restored = rows[0].version
+        const state = restored.state as Record<string, any>
+        const now = new Date()
+
+        const revision = await db.transaction(async (tx) => {
+            const [updated] = await tx
+                .update(mapperMaps)
+                .set({
+                    name: restored.name,
+                    state,
+                    nodeCount: restored.nodeCount,
+                    sourceInputType: (state.sourceInputType as string | undefined) ?? "UNKNOWN",
+                    targetInputType: (state.targetInputType as string | undefined) ?? "UNKNOWN",
+                    revision: sql`${mapperMaps.revision} + 1`,
+                    updatedAt: now,
+                })
+                .where(eq(mapperMaps.id, restored.mapId))
+                .returning({ revision: mapperMaps.revision })
+
+            await insertMapVersion(tx, {
+                mapId: restored.mapId,
+                version: updated.revision,
+                userId: context.userId,
+                name: restored.name,
+                state,
+                nodeCount: restored.nodeCount ?? 0,
+                message: `Restored version ${restored.version}`,
+            })
+            return updated.revision
+        })
+
+        return {
+            id: restored.mapId,
+            name: restored.name,
+            revision,
+            state,
+            savedAt: now.toISOString(),
+        }
+    })
+
+// ============================================================
+// loadMapRevision — The state a map had at a given revision
+// ============================================================
+
+/** Base of a merge after a save conflict; null when the version is gone. */
+export const loadMapRevision = createServerFn()
+    .middleware([authMiddleware])
+    .inputValidator(z.object({ mapId: z.string().uuid(), revision: z.number().int() }))
+    .handler(async ({ data, context }) => {
+        const rows = await db
+            .select({ state: mapperMapVersions.state })
+            .from(mapperMapVersions)
+            .innerJoin(mapperMaps, eq(mapperMapVersions.mapId, mapperMaps.id))
+            .where(
+                and(
+                    eq(mapperMapVersions.mapId, data.mapId),
+                    eq(mapperMapVersions.version, data.revision),
+                    eq(mapperMaps.workspaceId, context.workspaceId),
+                ),
+            )
+            .limit(1)
+
+        return rows.length > 0 ? (rows[0].state as Record<string, any>) : null
+    })
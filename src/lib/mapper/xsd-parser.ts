@@ -0,0 +1,369 @@
+import { XMLParser } from "fast-xml-parser"
+import { createNode } from "./node-utils"
+import type { MapperTreeNode } from "./types"
+
+// ============================================================
+// XSD schema reader
+// ============================================================
+// Builds a MapperTreeNode model from an XML Schema definition instead of a
+// sample instance. The resulting tree has the same shape parseXML +
+// fromParserTreeNode would produce for a document valid against the schema:
+// a synthetic "root" node whose only child is the document element.
+
+export interface XsdParseOptions {
+    /** Name of the top-level element to use as document element (default: first declared) */
+    rootElement?: string
+}
+
+/** Normalised view of a schema element (tag without namespace prefix). */
+interface XsdNode {
+    tag: string
+    attrs: Partial<Record<string, string>>
+    children: Array<XsdNode>
+    text: string
+}
+
+interface SchemaIndex {
+    elements: Map<string, XsdNode>
+    complexTypes: Map<string, XsdNode>
+    groups: Map<string, XsdNode>
+    attributeGroups: Map<string, XsdNode>
+}
+
+// ============================================================
+// Raw XML → XsdNode
+// ============================================================
+
+type OrderedNode = Record<string, unknown>
+
+function toXsdNodes(ordered: Array<OrderedNode>): Array<XsdNode> {
+    const nodes: Array<XsdNode> = []
+    for (const entry of ordered) {
+        const tag = Object.keys(entry).find((k) => k !== ":@")
+        if (!tag || tag === "#text" || tag.startsWith("?")) continue
+        const attrs = (entry[":@"] ?? {}) as Partial<Record<string, string>>
+        const rawChildren = (entry[tag] ?? []) as Array<OrderedNode>
+        nodes.push({
+            tag,
+            attrs,
+            children: toXsdNodes(rawChildren),
+            text: collectText(rawChildren),
+        })
+    }
+    return nodes
+}
+
+function collectText(ordered: Array<OrderedNode>): string {
+    const parts: Array<string> = []
+    for (const entry of ordered) {
+        if ("#text" in entry) {
+            parts.push(String(entry["#text"]))
+            continue
+        }
+        const tag = Object.keys(entry).find((k) => k !== ":@")
+        if (tag) parts.push(collectText((entry[tag] ?? []) as Array<OrderedNode>))
+    }
+    return parts.join(" ").replace(/\s+/g, " ").trim()
+}
+
+/** Strip a namespace prefix from a QName attribute value ("tns:Address" → "Address"). */
+function localName(qname: string): string {
+    const idx = qname.indexOf(":")
+    return idx === -1 ? qname : qname.slice(idx + 1)
+}
+
+function childrenByTag(node: XsdNode, tag: string): Array<XsdNode> {
+    return node.children.filter((c) => c.tag === tag)
+}
+
+function firstChild(node: XsdNode, tag: string): XsdNode | undefined {
+    return node.children.find((c) => c.tag === tag)
+}
+
+// ============================================================
+// Schema indexing
+// ============================================================
+
+function indexSchema(schema: XsdNode): SchemaIndex {
+    const index: SchemaIndex = {
+        elements: new Map(),
+        complexTypes: new Map(),
+        groups: new Map(),
+        attributeGroups: new Map(),
+    }
+    for (const child of schema.children) {
+        const name = child.attrs.name
+        if (!name) continue
+        switch (child.tag) {
+            case "element":
+                index.elements.set(name, child)
+                break
+            case "complexType":
+                index.complexTypes.set(name, child)
+                break
+            case "group":
+                index.groups.set(name, child)
+                break
+            case "attributeGroup":
+                index.attributeGroups.set(name, child)
+                break
+        }
+    }
+    return index
+}
+
+/** Documentation text from an <annotation> child, if present. */
+function getDocumentation(node: XsdNode): string | undefined {
+    const annotation = firstChild(node, "annotation")
+    if (!annotation) return undefined
+    const docs = childrenByTag(annotation, "documentation")
+        .map((d) => d.text)
+        .filter(Boolean)
+    return docs.length > 0 ? docs.join("\n") : undefined
+}
+
+function isRepeating(node: XsdNode): boolean {
+    const max = node.attrs.maxOccurs
+    if (!max) return false
+    if (max === "unbounded") return true
+    const n = parseInt(max, 10)
+    return !isNaN(n) && n > 1
+}
+
+// ============================================================
+// Tree builder
+// ============================================================
+
+interface BuildContext {
+    index: SchemaIndex
+    typeStack: Set<string> // Named complex types being expanded — guards against recursive types
+}
+
+function buildElement(decl: XsdNode, ctx: BuildContext): MapperTreeNode | null {
+    // <element ref="x"/> — occurrence constraints come from the reference,
+    // everything else from the referenced global declaration
+    let el = decl
+    if (decl.attrs.ref) {
+        const target = ctx.index.elements.get(localName(decl.attrs.ref))
+        if (!target) return null
+        el = target
+    }
+
+    const name = el.attrs.name
+    if (!name) return null
+
+    const node = createNode(name, "element")
+    const comment = getDocumentation(decl) ?? (el !== decl ? getDocumentation(el) : undefined)
+    if (comment) node.comment = comment
+
+    const children = buildElementContent(el, ctx)
+    if (children.length > 0) node.children = children
+
+    if (!isRepeating(decl)) return node
+
+    // Repeating element → array with a single arrayChild template
+    const arrayChild = createNode("[]", "arrayChild")
+    if (node.children) arrayChild.children = node.children
+    const arrayNode = createNode(name, "array", { children: [arrayChild] })
+    if (node.comment) arrayNode.comment = node.comment
+    return arrayNode
+}
+
+function buildElementContent(el: XsdNode, ctx: BuildContext): Array<MapperTreeNode> {
+    const inline = firstChild(el, "complexType")
+    if (inline) return buildComplexType(inline, ctx)
+
+    const typeName = el.attrs.type ? localName(el.attrs.type) : null
+    if (!typeName) return []
+
+    const named = ctx.index.complexTypes.get(typeName)
+    if (!named) return [] // built-in or simple type → leaf
+    return expandNamedType(typeName, named, ctx)
+}
+
+function expandNamedType(
+    typeName: string,
+    complexType: XsdNode,
+    ctx: BuildContext,
+): Array<MapperTreeNode> {
+    if (ctx.typeStack.has(typeName)) return []
+    ctx.typeStack.add(typeName)
+    try {
+        return buildComplexType(complexType, ctx)
+    } finally {
+        ctx.typeStack.delete(typeName)
+    }
+}
+
+function buildComplexType(ct: XsdNode, ctx: BuildContext): Array<MapperTreeNode> {
+    const attributes: Array<MapperTreeNode> = []
+    const elements: Array<MapperTreeNode> = []
+
+    for (const child of ct.children) {
+        switch (child.tag) {
+            case "sequence":
+            case "choice":
+            case "all":
+                elements.push(...buildParticles(child, ctx))
+                break
+            case "group":
+                elements.push(...buildGroupRef(child, ctx))
+                break
+            case "attribute":
+            case "attributeGroup":
+                attributes.push(...buildAttributes(child, ctx))
+                break
+            case "complexContent":
+            case "simpleContent": {
+                const derivation =
+                    firstChild(child, "extension") ?? firstChild(child, "restriction")
+                if (!derivation) break
+                const inherited = buildDerivation(derivation, child.tag, ctx)
+                attributes.push(...inherited.filter((n) => n.type === "attribute"))
+                elements.push(...inherited.filter((n) => n.type !== "attribute"))
+                break
+            }
+        }
+    }
+
+    return [...attributes, ...elements]
+}
+
+function buildDerivation(
+    derivation: XsdNode,
+    contentKind: "complexContent" | "simpleContent",
+    ctx: BuildContext,
+): Array<MapperTreeNode> {
+    const result: Array<MapperTreeNode> = []
+
+    // Only extensions inherit the base type's content; a restriction restates
+    // the content model it keeps
+    if (derivation.tag === "extension" && derivation.attrs.base) {
+        const baseName = localName(derivation.attrs.base)
+        const base = ctx.index.complexTypes.get(baseName)
+        if (base) {
+            const inherited = expandNamedType(baseName, base, ctx)
+            result.push(
+                ...(contentKind === "simpleContent"
+                    ? inherited.filter((n) => n.type === "attribute")
+                    : inherited),
+            )
+        }
+    }
+
+    result.push(...buildComplexType(derivation, ctx))
+    return result
+}
+
+function buildParticles(compositor: XsdNode, ctx: BuildContext): Array<MapperTreeNode> {
+    const result: Array<MapperTreeNode> = []
+    for (const child of compositor.children) {
+        switch (child.tag) {
+            case "element": {
+                const node = buildElement(child, ctx)
+                if (node) result.push(node)
+                break
+            }
+            case "sequence":
+            case "choice":
+            case "all":
+                result.push(...buildParticles(child, ctx))
+                break
+            case "group":
+                result.push(...buildGroupRef(child, ctx))
+                break
+        }
+    }
+    return result
+}
+
+function buildGroupRef(ref: XsdNode, ctx: BuildContext): Array<MapperTreeNode> {
+    const group = ref.attrs.ref ? ctx.index.groups.get(localName(ref.attrs.ref)) : ref
+    if (!group) return []
+    return group.children
+        .filter((c) => c.tag === "sequence" || c.tag === "choice" || c.tag === "all")
+        .flatMap((c) => buildParticles(c, ctx))
+}
+
+function buildAttributes(node: XsdNode, ctx: BuildContext): Array<MapperTreeNode> {
+    if (node.tag === "attributeGroup") {
+        const group = node.attrs.ref
+            ? ctx.index.attributeGroups.get(localName(node.attrs.ref))
+            : node
+        if (!group) return []
+        return group.children
+            .filter((c) => c.tag === "attribute" || c.tag === "attributeGroup")
+            .flatMap((c) => buildAttributes(c, ctx))
+    }
+
+    if (node.attrs.use === "prohibited") return []
+    const name = node.attrs.name ?? (node.attrs.ref ? localName(node.attrs.ref) : null)
+    if (!name) return []
+
+    // Attribute nodes carry the "@" prefix parseXML gives attributes
+    const attr = createNode(`@${name}`, "attribute")
+    const comment = getDocumentation(node)
+    if (comment) attr.comment = comment
+    return [attr]
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Returns true if the content looks like an XML Schema document
+ * (document element is <schema>, with any namespace prefix).
+ */
+export function isXsdContent(content: string): boolean {
+    return /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<([\w.-]+:)?schema[\s>]/.test(content)
+}
+
+/**
+ * List the names of all top-level element declarations — the candidates
+ * for the document element.
+ */
+export function listXsdRootElements(content: string): Array<string> {
+    const schema = parseSchemaDocument(content)
+    return Array.from(indexSchema(schema).elements.keys())
+}
+
+/**
+ * Parse an XSD string into a MapperTreeNode model tree.
+ *
+ * - Named and inline complex types are resolved (recursive types stop expanding)
+ * - sequence / choice / all compositors and group refs are flattened into children
+ * - complexContent / simpleContent extensions inherit the base type's content
+ * - maxOccurs > 1 or "unbounded" → 'array' node with an 'arrayChild' template
+ * - attributes / attributeGroups → 'attribute' nodes (listed before elements)
+ * - annotation/documentation text → MapperTreeNode.comment
+ */
+export function parseXSD(content: string, options: XsdParseOptions = {}): MapperTreeNode {
+    const schema = parseSchemaDocument(content)
+    const index = indexSchema(schema)
+
+    const rootName = options.rootElement ?? index.elements.keys().next().value
+    if (!rootName) throw new Error("Schema declares no top-level elements")
+
+    const rootDecl = index.elements.get(rootName)
+    if (!rootDecl) throw new Error(`Element "${rootName}" is not declared in the schema`)
+
+    const documentElement = buildElement(rootDecl, { index, typeStack: new Set() })
+    if (!documentElement) throw new Error(`Could not resolve element "${rootName}"`)
+
+    return createNode("root", "element", { children: [documentElement] })
+}
+
+function parseSchemaDocument(content: string): XsdNode {
+    const parser = new XMLParser({
+        preserveOrder: true,
+        ignoreAttributes: false,
+        attributeNamePrefix: "",
+        removeNSPrefix: true,
+        parseAttributeValue: false,
+    })
+    const nodes = toXsdNodes(parser.parse(content) as Array<OrderedNode>)
+    const schema = nodes.find((n) => n.tag === "schema")
+    if (!schema) throw new Error("Not an XML Schema document — missing <xs:schema> root")
+    return schema
+}
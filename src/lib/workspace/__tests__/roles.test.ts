@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { hasRole, isWorkspaceRole } from "../roles"
+
+describe("hasRole", () => {
+    it("lets higher roles do everything lower roles may", () => {
+        expect(hasRole("admin", "editor")).toBe(true)
+        expect(hasRole("editor", "editor")).toBe(true)
+        expect(hasRole("editor", "viewer")).toBe(true)
+    })
+
+    it("refuses lower roles", () => {
+        expect(hasRole("viewer", "editor")).toBe(false)
+        expect(hasRole("editor", "admin")).toBe(false)
+    })
+})
+
+describe("isWorkspaceRole", () => {
+    it("accepts only known roles", () => {
+        expect(isWorkspaceRole("viewer")).toBe(true)
+        expect(isWorkspaceRole("owner")).toBe(false)
+    })
+})
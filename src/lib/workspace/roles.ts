@@ -0,0 +1,28 @@
+// ============================================================
+// Workspace roles
+// ============================================================
+// Maps and chains belong to a workspace. Every member may read them; editors
+// may also save, delete and run them; admins additionally manage members.
+// Roles are ordered, so a higher role includes everything a lower one may do.
+
+export const WORKSPACE_ROLES = ["viewer", "editor", "admin"] as const
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number]
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+    viewer: "Viewer",
+    editor: "Editor",
+    admin: "Admin",
+}
+
+/** Cookie holding the id of the workspace the user is working in. */
+export const ACTIVE_WORKSPACE_COOKIE = "jt-workspace"
+
+export function isWorkspaceRole(value: string): value is WorkspaceRole {
+    return (WORKSPACE_ROLES as ReadonlyArray<string>).includes(value)
+}
+
+/** True when `role` grants at least the permissions of `required`. */
+export function hasRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+    return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(required)
+}
@@ -0,0 +1,20 @@
+import type { WorkspaceRole } from "./roles"
+
+// ============================================================
+// Workspaces and members
+// ============================================================
+
+/** A workspace the current user belongs to. */
+export interface WorkspaceSummary {
+    id: string
+    name: string
+    role: WorkspaceRole // The current user's role in it
+}
+
+export interface WorkspaceMember {
+    userId: string
+    name: string | null
+    email: string
+    role: WorkspaceRole
+    joinedAt: string // ISO timestamp
+}
@@ -0,0 +1,232 @@
+import { createServerFn } from "@tanstack/react-start"
+import { setCookie } from "@tanstack/react-start/server"
+import { z } from "zod"
+import { and, asc, eq, sql } from "drizzle-orm"
+import { ACTIVE_WORKSPACE_COOKIE, WORKSPACE_ROLES } from "./roles"
+import type { WorkspaceRole } from "./roles"
+import type { WorkspaceMember, WorkspaceSummary } from "./types"
+import { authMiddleware, requireRole } from "@/lib/auth-middleware"
+import { db } from "@/db"
+import { users, workspaceMembers, workspaces } from "@/db/schema"
+
+/** The active workspace is remembered per browser for a year. */
+const ACTIVE_WORKSPACE_MAX_AGE = 60 * 60 * 24 * 365
+
+function rememberActiveWorkspace(workspaceId: string): void {
+    setCookie(ACTIVE_WORKSPACE_COOKIE, workspaceId, {
+        path: "/",
+        httpOnly: true,
+        sameSite: "lax",
+        maxAge: ACTIVE_WORKSPACE_MAX_AGE,
+    })
+}
+
+/**
+ * Refuse a change that would leave the workspace without an admin — `userId`
+ * is the member being demoted or removed.
+ */
+async function assertKeepsAnAdmin(workspaceId: string, userId: string): Promise<void> {
+    const [{ admins }] = await db
+        .select({ admins: sql<number>`count(*)::int` })
+        .from(workspaceMembers)
+        .where(
+            and(
+                eq(workspaceMembers.workspaceId, workspaceId),
+                eq(workspaceMembers.role, "admin"),
+                sql`${workspaceMembers.userId} <> ${userId}`,
+            ),
+        )
+    if (admins === 0) throw new Error("A workspace needs at least one admin")
+}
+
+// ============================================================
+// listWorkspaces — Workspaces of the current user and the active one
+// ============================================================
+
+export const listWorkspaces = createServerFn()
+    .middleware([authMiddleware])
+    .handler(async ({ context }) => {
+        const rows = await db
+            .select({ id: workspaces.id, name: workspaces.name, role: workspaceMembers.role })
+            .from(workspaceMembers)
+            .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+            .where(eq(workspaceMembers.userId, context.userId))
+            .orderBy(asc(workspaces.name))
+
+        return {
+            activeId: context.workspaceId,
+            workspaces: rows.map(
+                (row): WorkspaceSummary => ({ ...row, role: row.role as WorkspaceRole }),
+            ),
+        }
+    })
+
+// ============================================================
+// switchWorkspace — Make another of the user's workspaces active
+// ============================================================
+
+export const switchWorkspace = createServerFn({ method: "POST" })
+    .middleware([requireRole("viewer", null)])
+    .inputValidator(z.object({ id: z.string().uuid() }))
+    .handler(async ({ data, context }) => {
+        const rows = await db
+            .select({ role: workspaceMembers.role })
+            .from(workspaceMembers)
+            .where(
+                and(
+                    eq(workspaceMembers.workspaceId, data.id),
+                    eq(workspaceMembers.userId, context.userId),
+                ),
+            )
+            .limit(1)
+
+        if (rows.length === 0) throw new Error("Workspace not found")
+
+        rememberActiveWorkspace(data.id)
+        return { id: data.id }
+    })
+
+// ============================================================
+// createWorkspace — New workspace with the creator as admin
+// ============================================================
+
+export const createWorkspace = createServerFn({ method: "POST" })
+    .middleware([requireRole("viewer", null)])
+    .inputValidator(z.object({ name: z.string().trim().min(1).max(100) }))
+    .handler(async ({ data, context }) => {
+        const id = await db.transaction(async (tx) => {
+            const [workspace] = await tx
+                .insert(workspaces)
+                .values({ name: data.name, createdBy: context.userId })
+                .returning({ id: workspaces.id })
+            await tx
+                .insert(workspaceMembers)
+                .values({ workspaceId: workspace.id, userId: context.userId, role: "admin" })
+            return workspace.id
+        })
+
+        rememberActiveWorkspace(id)
+        return { id, name: data.name }
+    })
+
+// ============================================================
+// renameWorkspace — Rename the active workspace
+// ============================================================
+
+export const renameWorkspace = createServerFn({ method: "POST" })
+    .middleware([requireRole("admin")])
+    .inputValidator(z.object({ name: z.string().trim().min(1).max(100) }))
+    .handler(async ({ data, context }) => {
+        await db
+            .update(workspaces)
+            .set({ name: data.name, updatedAt: new Date() })
+            .where(eq(workspaces.id, context.workspaceId))
+
+        return { id: context.workspaceId, name: data.name }
+    })
+
+// ============================================================
+// listWorkspaceMembers — Members of the active workspace
+// ============================================================
+
+export const listWorkspaceMembers = createServerFn()
+    .middleware([authMiddleware])
+    .handler(async ({ context }): Promise<Array<WorkspaceMember>> => {
+        const rows = await db
+            .select({
+                userId: workspaceMembers.userId,
+                name: users.name,
+                email: users.email,
+                role: workspaceMembers.role,
+                createdAt: workspaceMembers.createdAt,
+            })
+            .from(workspaceMembers)
+            .innerJoin(users, eq(workspaceMembers.userId, users.id))
+            .where(eq(workspaceMembers.workspaceId, context.workspaceId))
+            .orderBy(asc(workspaceMembers.createdAt))
+
+        return rows.map(({ createdAt, ...row }) => ({
+            ...row,
+            role: row.role as WorkspaceRole,
+            joinedAt: (createdAt ?? new Date()).toISOString(),
+        }))
+    })
+
+// ============================================================
+// addWorkspaceMember — Add a registered user to the active workspace
+// ============================================================
+
+export const addWorkspaceMember = createServerFn({ method: "POST" })
+    .middleware([requireRole("admin")])
+    .inputValidator(z.object({ email: z.string().trim().email(), role: z.enum(WORKSPACE_ROLES) }))
+    .handler(async ({ data, context }) => {
+        const found = await db
+            .select({ id: users.id })
+            .from(users)
+            .where(sql`lower(${users.email}) = lower(${data.email})`)
+            .limit(1)
+
+        if (found.length === 0) throw new Error(`No account is registered for ${data.email}`)
+
+        const added = await db
+            .insert(workspaceMembers)
+            .values({ workspaceId: context.workspaceId, userId: found[0].id, role: data.role })
+            .onConflictDoNothing()
+            .returning({ userId: workspaceMembers.userId })
+
+        if (added.length === 0) throw new Error(`${data.email} is already a member`)
+
+        return { userId: found[0].id }
+    })
+
+// ============================================================
+// updateWorkspaceMemberRole — Change a member's role
+// ============================================================
+
+export const updateWorkspaceMemberRole = createServerFn({ method: "POST" })
+    .middleware([requireRole("admin")])
+    .inputValidator(z.object({ userId: z.string(), role: z.enum(WORKSPACE_ROLES) }))
+    .handler(async ({ data, context }) => {
+        if (data.role !== "admin") await assertKeepsAnAdmin(context.workspaceId, data.userId)
+
+        const updated = await db
+            .update(workspaceMembers)
+            .set({ role: data.role })
+            .where(
+                and(
+                    eq(workspaceMembers.workspaceId, context.workspaceId),
+                    eq(workspaceMembers.userId, data.userId),
+                ),
+            )
+            .returning({ userId: workspaceMembers.userId })
+
+        if (updated.length === 0) throw new Error("Member not found")
+
+        return { userId: data.userId, role: data.role }
+    })
+
+// ============================================================
+// removeWorkspaceMember — Remove a member from the active workspace
+// ============================================================
+
+/** Maps and chains the member created stay in the workspace. */
+export const removeWorkspaceMember = createServerFn({ method: "POST" })
+    .middleware([requireRole("admin")])
+    .inputValidator(z.object({ userId: z.string() }))
+    .handler(async ({ data, context }) => {
+        await assertKeepsAnAdmin(context.workspaceId, data.userId)
+
+        const removed = await db
+            .delete(workspaceMembers)
+            .where(
+                and(
+                    eq(workspaceMembers.workspaceId, context.workspaceId),
+                    eq(workspaceMembers.userId, data.userId),
+                ),
+            )
+            .returning({ userId: workspaceMembers.userId })
+
+        if (removed.length === 0) throw new Error("Member not found")
+
+        return { removed: true }
+    })
@@ -14,6 +14,8 @@ import { Route as MapChainRouteImport } from './routes/map-chain'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as ApiAuthSplatRouteImport } from './routes/api/auth/$'
+import { Route as ApiMapsIdTransformRouteImport } from './routes/api/maps/$id/transform'
+import { Route as ApiChainsIdTransformRouteImport } from './routes/api/chains/$id/transform'
 
 const SignupRoute = SignupRouteImport.update({
   id: '/signup',
@@ -40,6 +42,16 @@ const ApiAuthSplatRoute = ApiAuthSplatRouteImport.update({
   path: '/api/auth/$',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiMapsIdTransformRoute = ApiMapsIdTransformRouteImport.update({
+  id: '/api/maps/$id/transform',
+  path: '/api/maps/$id/transform',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiChainsIdTransformRoute = ApiChainsIdTransformRouteImport.update({
+  id: '/api/chains/$id/transform',
+  path: '/api/chains/$id/transform',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -47,6 +59,8 @@ export interface FileRoutesByFullPath {
   '/map-chain': typeof MapChainRoute
   '/signup': typeof SignupRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/api/chains/$id/transform': typeof ApiChainsIdTransformRoute
+  '/api/maps/$id/transform': typeof ApiMapsIdTransformRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -54,6 +68,8 @@ export interface FileRoutesByTo {
   '/map-chain': typeof MapChainRoute
   '/signup': typeof SignupRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/api/chains/$id/transform': typeof ApiChainsIdTransformRoute
+  '/api/maps/$id/transform': typeof ApiMapsIdTransformRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -62,13 +78,37 @@ export interface FileRoutesById {
   '/map-chain': typeof MapChainRoute
   '/signup': typeof SignupRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/api/chains/$id/transform': typeof ApiChainsIdTransformRoute
+  '/api/maps/$id/transform': typeof ApiMapsIdTransformRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/login' | '/map-chain' | '/signup' | '/api/auth/$'
+  fullPaths:
+    | '/'
+    | '/login'
+    | '/map-chain'
+    | '/signup'
+    | '/api/auth/$'
+    | '/api/chains/$id/transform'
+    | '/api/maps/$id/transform'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/login' | '/map-chain' | '/signup' | '/api/auth/$'
-  id: '__root__' | '/' | '/login' | '/map-chain' | '/signup' | '/api/auth/$'
+  to:
+    | '/'
+    | '/login'
+    | '/map-chain'
+    | '/signup'
+    | '/api/auth/$'
+    | '/api/chains/$id/transform'
+    | '/api/maps/$id/transform'
+  id:
+    | '__root__'
+    | '/'
+    | '/login'
+    | '/map-chain'
+    | '/signup'
+    | '/api/auth/$'
+    | '/api/chains/$id/transform'
+    | '/api/maps/$id/transform'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -77,6 +117,8 @@ export interface RootRouteChildren {
   MapChainRoute: typeof MapChainRoute
   SignupRoute: typeof SignupRoute
   ApiAuthSplatRoute: typeof ApiAuthSplatRoute
+  ApiChainsIdTransformRoute: typeof ApiChainsIdTransformRoute
+  ApiMapsIdTransformRoute: typeof ApiMapsIdTransformRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -116,6 +158,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAuthSplatRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/maps/$id/transform': {
+      id: '/api/maps/$id/transform'
+      path: '/api/maps/$id/transform'
+      fullPath: '/api/maps/$id/transform'
+      preLoaderRoute: typeof ApiMapsIdTransformRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/chains/$id/transform': {
+      id: '/api/chains/$id/transform'
+      path: '/api/chains/$id/transform'
+      fullPath: '/api/chains/$id/transform'
+      preLoaderRoute: typeof ApiChainsIdTransformRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -125,6 +181,8 @@ const rootRouteChildren: RootRouteChildren = {
   MapChainRoute: MapChainRoute,
   SignupRoute: SignupRoute,
   ApiAuthSplatRoute: ApiAuthSplatRoute,
+  ApiChainsIdTransformRoute: ApiChainsIdTransformRoute,
+  ApiMapsIdTransformRoute: ApiMapsIdTransformRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
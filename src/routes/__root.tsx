@@ -25,6 +25,7 @@ import {
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { MigrationBanner } from "@/components/migration-banner"
+import { WorkspaceMenu } from "@/components/workspace-menu"
 
 export const Route = createRootRoute({
     head: () => ({
@@ -166,7 +167,10 @@ function RootLayout() {
                             </nav>
                         )}
                     </div>
-                    <UserMenu />
+                    <div className="flex items-center gap-2">
+                        {session && <WorkspaceMenu userId={session.user.id} />}
+                        <UserMenu />
+                    </div>
                 </div>
             </header>
 
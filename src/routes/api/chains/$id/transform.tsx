@@ -0,0 +1,12 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { transformWithChain } from "@/lib/api/transform.server"
+
+export const Route = createFileRoute("/api/chains/$id/transform")({
+    server: {
+        handlers: {
+            POST: async ({ request, params }) => {
+                return transformWithChain(request, params.id)
+            },
+        },
+    },
+})
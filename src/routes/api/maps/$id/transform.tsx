@@ -0,0 +1,12 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { transformWithMap } from "@/lib/api/transform.server"
+
+export const Route = createFileRoute("/api/maps/$id/transform")({
+    server: {
+        handlers: {
+            POST: async ({ request, params }) => {
+                return transformWithMap(request, params.id)
+            },
+        },
+    },
+})